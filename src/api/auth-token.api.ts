@@ -17,6 +17,7 @@ import {
 } from "./types/auth.types";
 import { extractErrorInfo } from "../utils/error-extractor";
 import { logErrorWithContext } from "../utils/console-logger";
+import { sdkMetrics } from "../utils/sdk-metrics";
 
 /** Transform nested data format to ClientTokenResponse */
 function toClientTokenResponse(
@@ -277,20 +278,22 @@ export class AuthTokenApi {
     authStrategy?: AuthStrategy,
   ): Promise<RefreshTokenResponse> {
     try {
-      if (authStrategy) {
-        return await this.httpClient.requestWithAuthStrategy<RefreshTokenResponse>(
-          "POST",
-          AuthTokenApi.REFRESH_ENDPOINT,
-          authStrategy,
-          undefined,
-        );
-      }
-      return await this.httpClient.request<RefreshTokenResponse>(
-        "POST",
-        AuthTokenApi.REFRESH_ENDPOINT,
-        undefined,
-      );
+      const response = authStrategy
+        ? await this.httpClient.requestWithAuthStrategy<RefreshTokenResponse>(
+            "POST",
+            AuthTokenApi.REFRESH_ENDPOINT,
+            authStrategy,
+            undefined,
+          )
+        : await this.httpClient.request<RefreshTokenResponse>(
+            "POST",
+            AuthTokenApi.REFRESH_ENDPOINT,
+            undefined,
+          );
+      sdkMetrics.tokenRefreshes.inc({ type: "user", outcome: "success" });
+      return response;
     } catch (error) {
+      sdkMetrics.tokenRefreshes.inc({ type: "user", outcome: "failure" });
       const errorInfo = extractErrorInfo(error, {
         endpoint: AuthTokenApi.REFRESH_ENDPOINT,
         method: "POST",
@@ -0,0 +1,370 @@
+/**
+ * Authorization Middleware
+ * Route-level Express middleware factories for authentication, permission and role checks
+ *
+ * Each middleware extracts the bearer token, validates it through MisoClient,
+ * attaches the user to the request and responds with an RFC 7807 problem-details
+ * body (401/403) populated with RBAC extensions when the check fails.
+ *
+ * @example
+ * ```typescript
+ * router.get('/orders', requirePermission(client, 'orders:read'), handler);
+ * router.delete('/orders/:id', requireRole(client, ['admin', 'manager']), handler);
+ * router.put('/orders/:id', requireAccess(client, 'update', loadOrder), handler);
+ * ```
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { MisoClient } from "../miso-client";
+import {
+  AuthStrategy,
+  PermissionMatcher,
+  UserInfo,
+} from "../types/config.types";
+import {
+  exactPermissionMatcher,
+  findMissingPermissions,
+} from "../utils/permission-matcher";
+import { AccessDecision, AccessResource } from "../types/access-policy.types";
+import { asyncHandler } from "./async-handler";
+import {
+  createErrorResponse,
+  sendErrorResponse,
+  RBACErrorExtensions,
+} from "./error-response";
+
+/**
+ * Request augmented by the authorization middleware
+ */
+export interface AuthenticatedRequest extends Request {
+  /** Authenticated user (null when the controller returns no user, e.g. API key tokens) */
+  user?: UserInfo | null;
+  /** Authenticated user ID (compatible with ValidationHelper) */
+  userId?: string;
+  /** Bearer token extracted from the Authorization header */
+  token?: string;
+  /** Roles resolved by requireRole */
+  userRoles?: string[];
+  /** Permissions resolved by requirePermission */
+  userPermissions?: string[];
+  /** Decision resolved by requireAccess */
+  accessDecision?: AccessDecision;
+}
+
+/**
+ * Options for requireAuth
+ */
+export interface RequireAuthOptions {
+  /** Optional authentication strategy override used for controller calls */
+  authStrategy?: AuthStrategy;
+}
+
+/**
+ * Options for requirePermission and requireRole
+ */
+export interface RequireAccessOptions extends RequireAuthOptions {
+  /** Require all listed permissions/roles instead of any one (default: false) */
+  requireAll?: boolean;
+}
+
+/** Resolves the resource being accessed; null/undefined responds 404 */
+export type AccessResourceResolver = (
+  req: AuthenticatedRequest,
+) =>
+  | AccessResource
+  | null
+  | undefined
+  | Promise<AccessResource | null | undefined>;
+
+/**
+ * Options for requireAccess
+ */
+export interface RequireAccessPolicyOptions extends RequireAuthOptions {
+  /** Build request context for policy conditions (e.g. tenant header, IP) */
+  context?: (req: AuthenticatedRequest) => Record<string, unknown>;
+}
+
+/** Send 403 response with RBAC extensions */
+function sendForbidden(
+  req: Request,
+  res: Response,
+  detail: string,
+  extensions: RBACErrorExtensions,
+): void {
+  sendErrorResponse(res, {
+    ...createErrorResponse(detail, 403, req),
+    ...extensions,
+  });
+}
+
+/** Log a denied decision; its rule and reason stay out of the response */
+async function logAccessDenied(
+  misoClient: MisoClient,
+  req: Request,
+  decision: AccessDecision,
+): Promise<void> {
+  await misoClient.log
+    .forRequest(req)
+    .addContext("action", decision.action)
+    .addContext("resourceType", decision.resourceType)
+    .addContext("rule", decision.rule)
+    .addContext("reason", decision.reason)
+    .info(`Access denied: ${decision.action}`);
+}
+
+/**
+ * Authenticate request: extract and validate token, attach user.
+ * Sends 401 response and returns null when authentication fails.
+ */
+async function authenticateRequest(
+  req: AuthenticatedRequest,
+  res: Response,
+  misoClient: MisoClient,
+  authStrategy?: AuthStrategy,
+): Promise<string | null> {
+  if (req.token) return req.token;
+
+  const token = misoClient.getToken(req);
+  if (!token) {
+    sendErrorResponse(
+      res,
+      createErrorResponse("Authentication required", 401, req),
+    );
+    return null;
+  }
+
+  const valid = await misoClient.validateToken(token, authStrategy);
+  if (!valid) {
+    sendErrorResponse(
+      res,
+      createErrorResponse("Invalid or expired token", 401, req),
+    );
+    return null;
+  }
+
+  const user = await misoClient.getUserInfo(token, authStrategy);
+  req.token = token;
+  req.user = user;
+  if (user?.id) req.userId = user.id;
+  return token;
+}
+
+/** Normalize single value or array to array */
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Compute missing entries and whether the check passed */
+function evaluateAccess(
+  required: string[],
+  granted: string[],
+  requireAll: boolean,
+  matcher: PermissionMatcher,
+): { allowed: boolean; missing: string[] } {
+  const missing = findMissingPermissions(granted, required, matcher);
+  const allowed = requireAll
+    ? missing.length === 0
+    : missing.length < required.length;
+  return { allowed, missing };
+}
+
+/**
+ * Create middleware that requires a valid bearer token.
+ * Attaches `req.user`, `req.userId` and `req.token` on success; responds 401 otherwise.
+ * @param misoClient - MisoClient instance (must be initialized)
+ * @param options - Optional middleware options
+ * @returns Express middleware
+ */
+export function requireAuth(
+  misoClient: MisoClient,
+  options?: RequireAuthOptions,
+): RequestHandler {
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const token = await authenticateRequest(
+        req as AuthenticatedRequest,
+        res,
+        misoClient,
+        options?.authStrategy,
+      );
+      if (token) next();
+    },
+    "requireAuth",
+  );
+}
+
+/**
+ * Create middleware that requires one (or all) of the given permissions.
+ * Responds 401 when unauthenticated and 403 with `required`/`missing`/`userPermissions`
+ * extensions when the permission check fails; `missing` carries the permission
+ * explanation (userId, source, cache age, auth methods).
+ * @param misoClient - MisoClient instance (must be initialized)
+ * @param permissions - Permission or list of permissions to require
+ * @param options - Optional middleware options (requireAll, authStrategy)
+ * @returns Express middleware
+ */
+export function requirePermission(
+  misoClient: MisoClient,
+  permissions: string | string[],
+  options?: RequireAccessOptions,
+): RequestHandler {
+  const required = toArray(permissions);
+  const requireAll = options?.requireAll ?? false;
+
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const authReq = req as AuthenticatedRequest;
+      const token = await authenticateRequest(
+        authReq,
+        res,
+        misoClient,
+        options?.authStrategy,
+      );
+      if (!token) return;
+
+      const explanation = await misoClient.explainPermission(
+        token,
+        required,
+        options?.authStrategy,
+      );
+      const { userPermissions, granted, missing } = explanation;
+      authReq.userPermissions = userPermissions;
+      if (requireAll ? missing.length === 0 : granted.length > 0) {
+        next();
+        return;
+      }
+      sendForbidden(req, res, "Insufficient permissions", {
+        required: { permissions: required, requireAll },
+        missing: {
+          permissions: missing,
+          userId: explanation.userId,
+          source: explanation.source,
+          cacheAgeMs: explanation.cacheAgeMs,
+          authMethods: explanation.authMethods,
+        },
+        userPermissions,
+      });
+    },
+    "requirePermission",
+  );
+}
+
+/**
+ * Create middleware that requires one (or all) of the given roles.
+ * Responds 401 when unauthenticated and 403 with `required`/`missing`/`userRoles`
+ * extensions when the role check fails.
+ * @param misoClient - MisoClient instance (must be initialized)
+ * @param roles - Role or list of roles to require
+ * @param options - Optional middleware options (requireAll, authStrategy)
+ * @returns Express middleware
+ */
+export function requireRole(
+  misoClient: MisoClient,
+  roles: string | string[],
+  options?: RequireAccessOptions,
+): RequestHandler {
+  const required = toArray(roles);
+  const requireAll = options?.requireAll ?? false;
+
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const authReq = req as AuthenticatedRequest;
+      const token = await authenticateRequest(
+        authReq,
+        res,
+        misoClient,
+        options?.authStrategy,
+      );
+      if (!token) return;
+
+      const userRoles = await misoClient.getRoles(token, options?.authStrategy);
+      authReq.userRoles = userRoles;
+      const { allowed, missing } = evaluateAccess(
+        required,
+        userRoles,
+        requireAll,
+        exactPermissionMatcher,
+      );
+      if (allowed) {
+        next();
+        return;
+      }
+      sendForbidden(req, res, "Insufficient roles", {
+        required: { roles: required, requireAll },
+        missing: { roles: missing },
+        userRoles,
+      });
+    },
+    "requireRole",
+  );
+}
+
+/**
+ * Create middleware that evaluates the client's access policy (ABAC) for an action.
+ * Responds 401 when unauthenticated, 404 when the resolver finds no resource and
+ * 403 "Access denied" when the policy denies access. Responds 500 without details when
+ * the policy cannot be evaluated. The decision (with rule and reason) is attached to
+ * `req.accessDecision` and denials are logged, but neither reaches the client.
+ * @param misoClient - MisoClient instance with `accessPolicy` configured
+ * @param action - Action being performed (e.g. "update")
+ * @param resource - Static resource attributes or resolver (e.g. load order by `req.params.id`)
+ * @param options - Optional middleware options (context, authStrategy)
+ * @returns Express middleware
+ */
+export function requireAccess(
+  misoClient: MisoClient,
+  action: string,
+  resource?: AccessResource | AccessResourceResolver,
+  options?: RequireAccessPolicyOptions,
+): RequestHandler {
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const authReq = req as AuthenticatedRequest;
+      const token = await authenticateRequest(
+        authReq,
+        res,
+        misoClient,
+        options?.authStrategy,
+      );
+      if (!token) return;
+
+      const target =
+        typeof resource === "function" ? await resource(authReq) : resource;
+      if (typeof resource === "function" && !target) {
+        sendErrorResponse(
+          res,
+          createErrorResponse("Resource not found", 404, req),
+        );
+        return;
+      }
+
+      const decision = await misoClient.authorize(
+        token,
+        action,
+        target ?? undefined,
+        options?.context?.(authReq),
+        options?.authStrategy,
+      );
+      authReq.accessDecision = decision;
+      if (decision.allowed) {
+        next();
+        return;
+      }
+      if (decision.error) {
+        sendErrorResponse(
+          res,
+          createErrorResponse("Access policy evaluation failed", 500, req),
+        );
+        return;
+      }
+      await logAccessDenied(misoClient, req, decision);
+      sendForbidden(req, res, "Access denied", {
+        decision: {
+          action: decision.action,
+          resourceType: decision.resourceType,
+        },
+      });
+    },
+    "requireAccess",
+  );
+}
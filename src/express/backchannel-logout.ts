@@ -0,0 +1,191 @@
+/**
+ * Back-Channel Logout Endpoint
+ * Express route handler for OpenID Connect Back-Channel Logout (Keycloak single sign-out)
+ *
+ * Keycloak POSTs a signed `logout_token` (form-encoded) when a session ends. The token is
+ * verified against the realm JWKS, the session (or, without `sid`, every earlier token of
+ * the user) is added to the revocation list, and the user's cached user info, roles and
+ * permissions are cleared.
+ *
+ * @example
+ * app.post(
+ *   "/auth/backchannel-logout",
+ *   express.urlencoded({ extended: false }),
+ *   createBackchannelLogoutEndpoint(misoClient),
+ * );
+ */
+
+import { Request, Response, RequestHandler } from "express";
+import { MisoClient } from "../miso-client";
+import { clearUserCachesById } from "../services/auth-cache-helpers";
+import {
+  TokenPayload,
+  TokenValidationPolicy,
+} from "../types/token-validation.types";
+import { extractErrorInfo } from "../utils/error-extractor";
+import { logErrorWithContext } from "../utils/console-logger";
+
+/** Event claim required in logout tokens */
+export const BACKCHANNEL_LOGOUT_EVENT =
+  "http://schemas.openid.net/event/backchannel-logout";
+
+/**
+ * Access-token claim checks from `keycloak.policy` that logout tokens cannot satisfy
+ * (algorithms, clock tolerance and max age still apply)
+ */
+const LOGOUT_TOKEN_POLICY: TokenValidationPolicy = {
+  requiredClaims: undefined,
+  authorizedParty: undefined,
+  typ: undefined,
+  requiredScopes: undefined,
+  claimValidators: undefined,
+};
+
+/** Verified logout request */
+export interface BackchannelLogoutEvent {
+  iss: string;
+  /** User ID (Keycloak subject) */
+  sub?: string;
+  /** Keycloak session ID */
+  sid?: string;
+  /** Logout token ID */
+  jti?: string;
+}
+
+/**
+ * Options for createBackchannelLogoutEndpoint
+ */
+export interface BackchannelLogoutOptions {
+  /** Expected `aud` claim (default: `keycloak.clientId`; skipped when neither is set) */
+  audience?: string;
+  /** Called after the session is revoked and caches are cleared (e.g. destroy app sessions) */
+  onLogout?: (event: BackchannelLogoutEvent) => void | Promise<void>;
+}
+
+/** OAuth error body used by the back-channel logout spec */
+function sendLogoutError(
+  res: Response,
+  status: number,
+  description: string,
+): void {
+  res.setHeader("Cache-Control", "no-store");
+  res.status(status).json({
+    error: status === 400 ? "invalid_request" : "server_error",
+    error_description: description,
+  });
+}
+
+/** logout_token from a parsed (urlencoded or JSON) or raw string body */
+function readLogoutToken(req: Request): string | undefined {
+  const body: unknown = req.body;
+  if (typeof body === "string") {
+    return new URLSearchParams(body).get("logout_token") ?? undefined;
+  }
+  const token = (body as Record<string, unknown> | undefined)?.logout_token;
+  return typeof token === "string" && token ? token : undefined;
+}
+
+/**
+ * Check logout token claims (OpenID Connect Back-Channel Logout 1.0, section 2.6)
+ * @returns Error description, or null when the claims are valid
+ */
+function checkLogoutClaims(
+  payload: TokenPayload,
+  audience: string | undefined,
+): string | null {
+  const events = payload.events as Record<string, unknown> | undefined;
+  if (
+    !events ||
+    typeof events !== "object" ||
+    !(BACKCHANNEL_LOGOUT_EVENT in events)
+  ) {
+    return "logout_token is missing the back-channel logout event";
+  }
+  if (payload.nonce !== undefined) return "logout_token must not contain nonce";
+  if (!payload.sub && typeof payload.sid !== "string") {
+    return "logout_token must contain sub or sid";
+  }
+  const aud = payload.aud;
+  if (
+    audience &&
+    !(Array.isArray(aud) ? aud.includes(audience) : aud === audience)
+  ) {
+    return "logout_token audience mismatch";
+  }
+  return null;
+}
+
+/** Revoke the session (or the user's earlier tokens) and clear per-user caches */
+async function applyLogout(
+  misoClient: MisoClient,
+  event: BackchannelLogoutEvent,
+): Promise<void> {
+  const { revocation } = misoClient;
+  if (event.sid) await revocation.revokeSession(event.sid);
+  else if (event.sub) await revocation.revokeSubject(event.sub);
+  if (event.sub) await clearUserCachesById(misoClient.cache, event.sub);
+}
+
+/**
+ * Create a back-channel logout route handler
+ *
+ * Responds 200 once the logout is recorded, 400 for a missing or invalid logout token,
+ * and 500 when `onLogout` fails.
+ *
+ * @param misoClient - MisoClient instance (requires `keycloak` config)
+ * @param options - Audience override and logout hook
+ * @returns Express route handler
+ */
+export function createBackchannelLogoutEndpoint(
+  misoClient: MisoClient,
+  options: BackchannelLogoutOptions = {},
+): RequestHandler {
+  return async (req: Request, res: Response): Promise<void> => {
+    const token = readLogoutToken(req);
+    if (!token) {
+      sendLogoutError(res, 400, "Missing logout_token");
+      return;
+    }
+    const result = await misoClient.validateTokenLocal(token, {
+      tokenType: "keycloak",
+      skipResultCache: true,
+      skipRevocationCheck: true,
+      skipAudienceValidation: true,
+      policy: LOGOUT_TOKEN_POLICY,
+    });
+    const audience =
+      options.audience ?? misoClient.getConfig().keycloak?.clientId;
+    const invalid = result.payload
+      ? checkLogoutClaims(result.payload, audience)
+      : null;
+    if (!result.valid || !result.payload || invalid) {
+      sendLogoutError(
+        res,
+        400,
+        invalid ?? result.error ?? "Invalid logout_token",
+      );
+      return;
+    }
+
+    const { iss, sub, sid, jti } = result.payload;
+    const event: BackchannelLogoutEvent = {
+      iss,
+      sub: sub || undefined,
+      sid: typeof sid === "string" ? sid : undefined,
+      jti,
+    };
+    try {
+      await applyLogout(misoClient, event);
+      await options.onLogout?.(event);
+    } catch (error) {
+      logErrorWithContext(
+        extractErrorInfo(error, { endpoint: req.originalUrl, method: "POST" }),
+        "[BackchannelLogout]",
+      );
+      sendLogoutError(res, 500, "Logout could not be completed");
+      return;
+    }
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).end();
+  };
+}
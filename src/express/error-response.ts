@@ -5,6 +5,7 @@
 
 import { Request, Response } from "express";
 import { ValidationError } from "./error-types";
+import { AuthMethod, PermissionSource } from "../types/config.types";
 
 /**
  * RBAC-specific extensions for RFC 7807 error responses
@@ -18,9 +19,19 @@ export interface RBACErrorExtensions {
   missing?: {
     permissions?: string[];
     roles?: string[];
+    /** Permission explanation (see explainPermission) */
+    userId?: string | null;
+    source?: PermissionSource;
+    cacheAgeMs?: number;
+    authMethods?: AuthMethod[];
   };
   userPermissions?: string[];
   userRoles?: string[];
+  /** Denied access policy action (requireAccess); rule and reason are not exposed */
+  decision?: {
+    action: string;
+    resourceType?: string;
+  };
 }
 
 /**
@@ -39,6 +50,7 @@ export interface ErrorResponse {
   missing?: RBACErrorExtensions["missing"];
   userPermissions?: string[];
   userRoles?: string[];
+  decision?: RBACErrorExtensions["decision"];
 }
 
 /**
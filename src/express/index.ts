@@ -54,9 +54,37 @@ export type {
   DataClientConfigResponse,
 } from "./client-token-endpoint";
 
+// Back-channel logout endpoint (Keycloak single sign-out)
+export {
+  createBackchannelLogoutEndpoint,
+  BACKCHANNEL_LOGOUT_EVENT,
+} from "./backchannel-logout";
+export type {
+  BackchannelLogoutEvent,
+  BackchannelLogoutOptions,
+} from "./backchannel-logout";
+
 // Logger context middleware
 export { loggerContextMiddleware } from "./logger-context.middleware";
 
+// Prometheus metrics endpoint
+export { metricsHandler, PROMETHEUS_CONTENT_TYPE } from "./metrics-handler";
+
+// Authorization middleware
+export {
+  requireAuth,
+  requirePermission,
+  requireRole,
+  requireAccess,
+} from "./authorization.middleware";
+export type {
+  AuthenticatedRequest,
+  RequireAuthOptions,
+  RequireAccessOptions,
+  RequireAccessPolicyOptions,
+  AccessResourceResolver,
+} from "./authorization.middleware";
+
 // Note: express.d.ts provides type augmentation for Express Response types.
 // It doesn't need to be imported - TypeScript automatically picks up .d.ts files
 // in the same directory. The build script copies it to dist/express/express.d.ts.
@@ -9,36 +9,77 @@
  * - Server-trustworthy fields: IP address (from connection), method, path (from server request object)
  * - Server-validated fields: userId, sessionId, applicationId (from validated JWT token)
  * - Client-provided fields: correlationId, userAgent, referer, requestSize (for logging/tracing only, not used for security decisions)
- * - Correlation IDs: If client doesn't provide one, server generates a secure server-side correlation ID
+ * - Correlation IDs: If client doesn't provide one, the request's W3C trace ID is used
+ * - Trace context: traceparent/tracestate are parsed (client-provided, tracing only)
  */
 
 import { Request, Response, NextFunction } from "express";
 import { setLoggerContext } from "../services/logger/unified-logger.factory";
 import { extractRequestContext } from "../utils/request-context";
 import { extractJwtContext } from "../services/logger/logger-context";
+import {
+  generateSpanId,
+  generateTraceId,
+  getActiveOtelSpan,
+  getActiveTraceContext,
+  parseTraceparent,
+} from "../utils/trace-context";
 
-/** Generate server-side correlation ID (ISO 27001 compliant) */
-function generateServerCorrelationId(): string {
-  return `server-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+type LoggerContextFields = Parameters<typeof setLoggerContext>[0];
+
+/**
+ * Trace fields for this request: the active OpenTelemetry span when instrumented,
+ * else a new span in the incoming traceparent's trace, else a new trace.
+ */
+function resolveTraceFields(req: Request): LoggerContextFields {
+  const otel = getActiveOtelSpan() ? getActiveTraceContext() : null;
+  if (otel) return otel;
+  const header = (name: string): string | undefined => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value.join(",") : value;
+  };
+  const incoming = parseTraceparent(
+    header("traceparent"),
+    header("tracestate"),
+  );
+  return {
+    traceId: incoming?.traceId ?? generateTraceId(),
+    spanId: generateSpanId(),
+    parentSpanId: incoming?.spanId,
+    traceFlags: incoming?.traceFlags ?? "01",
+    traceState: incoming?.traceState,
+  };
+}
+
+/** Add request identity to the active OpenTelemetry span */
+function enrichActiveSpan(context: LoggerContextFields): void {
+  const span = getActiveOtelSpan();
+  if (!span?.setAttribute) return;
+  if (context.userId) span.setAttribute("enduser.id", context.userId);
+  if (context.sessionId) span.setAttribute("session.id", context.sessionId);
+  if (context.correlationId) {
+    span.setAttribute("miso.correlation_id", context.correlationId);
+  }
 }
 
 /** Build logger context from request and JWT data */
-function buildLoggerContext(
-  req: Request,
-): Parameters<typeof setLoggerContext>[0] {
+function buildLoggerContext(req: Request): LoggerContextFields {
   const requestContext = extractRequestContext(req);
   const token = req.headers.authorization?.replace("Bearer ", "");
   const jwtContext = token ? extractJwtContext(token) : {};
-  const correlationId =
-    requestContext.correlationId || generateServerCorrelationId();
+  const trace = resolveTraceFields(req);
+  // Server-side correlation ID when the client sends none: the trace ID
+  const correlationId = requestContext.correlationId || trace.traceId;
 
   return {
+    ...trace,
     ipAddress: requestContext.ipAddress,
     method: requestContext.method,
     path: requestContext.path,
     userId: requestContext.userId || jwtContext.userId,
     sessionId: requestContext.sessionId || jwtContext.sessionId,
     applicationId: jwtContext.applicationId,
+    realm: jwtContext.realm,
     userAgent: requestContext.userAgent,
     referer: requestContext.referer,
     requestSize: requestContext.requestSize,
@@ -74,7 +115,9 @@ export function loggerContextMiddleware(
   next: NextFunction,
 ): void {
   try {
-    setLoggerContext(buildLoggerContext(req));
+    const context = buildLoggerContext(req);
+    setLoggerContext(context);
+    enrichActiveSpan(context);
     next();
   } catch {
     next();
@@ -0,0 +1,29 @@
+/**
+ * Metrics Handler
+ * Express route handler that serves SDK metrics in the Prometheus text format
+ *
+ * @example
+ * app.get("/metrics", metricsHandler());
+ */
+
+import { Request, Response } from "express";
+import { metricsRegistry, MetricsRegistry } from "../utils/metrics-registry";
+// Registers the SDK metrics in the default registry
+import "../utils/sdk-metrics";
+
+/** Prometheus text exposition content type */
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Create a `GET /metrics` handler
+ * @param registry - Registry to render (defaults to the SDK registry)
+ */
+export function metricsHandler(
+  registry: MetricsRegistry = metricsRegistry,
+): (req: Request, res: Response) => void {
+  return (_req, res) => {
+    res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+    res.status(200).send(registry.render());
+  };
+}
@@ -5,6 +5,16 @@
 
 import { Request } from "express";
 import { AppError } from "./error-types";
+import { AccessDecision, AccessPolicy } from "../types/access-policy.types";
+import { evaluateAccessPolicy } from "../utils/access-policy";
+
+/** Owner or admin/superuser may access any resource */
+const OWNERSHIP_OR_ADMIN_POLICY: AccessPolicy = {
+  rules: [
+    { id: "owner", actions: "*", when: { owner: "ownerId" } },
+    { id: "admin", actions: "*", when: { role: ["admin", "superuser"] } },
+  ],
+};
 
 export class ValidationHelper {
   /**
@@ -56,7 +66,7 @@ export class ValidationHelper {
   }
 
   /**
-   * Check ownership or admin role
+   * Check ownership or admin role (shorthand for an owner-or-admin access policy)
    * @param req - Express request object with userId
    * @param resourceUserId - User ID that owns the resource
    * @param message - Custom error message
@@ -67,12 +77,32 @@ export class ValidationHelper {
     resourceUserId: string,
     message = "No permission to access this resource",
   ): void {
-    const isOwner = req.userId === resourceUserId;
-    const isAdmin =
-      req.userRoles?.includes("admin") || req.userRoles?.includes("superuser");
+    const decision = evaluateAccessPolicy(OWNERSHIP_OR_ADMIN_POLICY, {
+      subject: {
+        userId: req.userId,
+        roles: req.userRoles ?? [],
+        permissions: [],
+      },
+      action: "access",
+      resource: { ownerId: resourceUserId },
+    });
+    ValidationHelper.ensureAllowed(decision, message);
+  }
 
-    if (!isOwner && !isAdmin) {
-      throw new AppError(message, 403, true, {
+  /**
+   * Ensure an access policy decision allows the request
+   * @param decision - Decision from client.authorize() or evaluateAccessPolicy()
+   * @param message - Custom error message (default: "Access denied"; the decision reason is not exposed)
+   * @throws AppError with 403 if the decision denies access (500 if the policy could not be evaluated)
+   */
+  static ensureAllowed(decision: AccessDecision, message?: string): void {
+    if (decision.error) {
+      throw new AppError("Access policy evaluation failed", 500, true, {
+        errorType: "/Errors/InternalServerError",
+      });
+    }
+    if (!decision.allowed) {
+      throw new AppError(message ?? "Access denied", 403, true, {
         errorType: "/Errors/Forbidden",
       });
     }
@@ -8,25 +8,41 @@ import { PermissionService } from "./services/permission.service";
 import { LoggerService } from "./services/logger";
 import { RedisService } from "./services/redis.service";
 import { CacheService } from "./services/cache.service";
+import {
+  LogStreamConsumer,
+  LogStreamConsumerOptions,
+} from "./services/log-stream-consumer";
 import { HttpClient } from "./utils/http-client";
-import { InternalHttpClient } from "./utils/internal-http-client";
 import { ApiClient } from "./api";
-import { DataMasker } from "./utils/data-masker";
-import { registerLoggerService } from "./services/logger/unified-logger.factory";
 import { AuthStrategyHandler } from "./utils/auth-strategy";
-import { MisoClientConfig, UserInfo, AuthStrategy } from "./types/config.types";
+import {
+  MisoClientConfig,
+  UserInfo,
+  AuthStrategy,
+  PermissionExplanation,
+  RedisConnectionState,
+  RedisStateChange,
+} from "./types/config.types";
 import {
   validateOrigin as validateOriginUtil,
   OriginValidationResult,
 } from "./utils/origin-validator";
 import { Request } from "express";
 import { TokenValidationService } from "./services/token-validation.service";
+import { TokenRevocationService } from "./services/token-revocation.service";
 import { EncryptionService } from "./services/encryption.service";
+import { AccessPolicyService } from "./services/access-policy.service";
+import { createMisoClientServices } from "./services/client-services.factory";
 import {
   TokenValidationOptions,
   TokenValidationResult,
   KeycloakConfig,
 } from "./types/token-validation.types";
+import {
+  AccessDecision,
+  AccessPolicy,
+  AccessResource,
+} from "./types/access-policy.types";
 import type {
   UpdateSelfStatusRequest,
   UpdateSelfStatusResponse,
@@ -44,62 +60,48 @@ export class MisoClient {
   private logger: LoggerService;
   private cacheService: CacheService;
   private tokenValidation: TokenValidationService;
+  private revocationService: TokenRevocationService;
   private encryptionService: EncryptionService;
+  private accessPolicy: AccessPolicyService;
   private initialized = false;
 
   constructor(config: MisoClientConfig) {
     this.config = config;
-    if (config.sensitiveFieldsConfig)
-      DataMasker.setConfigPath(config.sensitiveFieldsConfig);
-
-    const internalClient = new InternalHttpClient(config);
-    this.redis = new RedisService(config.redis);
-    this.logger = new LoggerService(
-      internalClient as unknown as HttpClient,
-      this.redis,
-    );
-    this.httpClient = new HttpClient(config, this.logger);
-    (this.logger as unknown as { httpClient: HttpClient }).httpClient =
-      this.httpClient;
-    this.apiClient = new ApiClient(this.httpClient);
-    this.logger.setApiClient(this.apiClient);
-    registerLoggerService(this.logger);
-    this.cacheService = new CacheService(this.redis);
-    this.auth = new AuthService(
-      this.httpClient,
-      this.apiClient,
-      this.cacheService,
-    );
-    this.roles = new RoleService(
-      this.httpClient,
-      this.apiClient,
-      this.cacheService,
-    );
-    this.permissions = new PermissionService(
-      this.httpClient,
-      this.apiClient,
-      this.cacheService,
-    );
-    this.tokenValidation = new TokenValidationService(config.keycloak);
-    this.encryptionService = new EncryptionService(
-      this.apiClient,
-      this.config.encryptionKey,
-      this.cacheService,
-      this.config.cache?.encryptionCacheTTL ?? 300,
-    );
+    const services = createMisoClientServices(config);
+    this.httpClient = services.httpClient;
+    this.apiClient = services.apiClient;
+    this.redis = services.redis;
+    this.logger = services.logger;
+    this.cacheService = services.cacheService;
+    this.tokenValidation = services.tokenValidation;
+    this.revocationService = services.revocation;
+    this.auth = services.auth;
+    this.roles = services.roles;
+    this.permissions = services.permissions;
+    this.accessPolicy = services.accessPolicy;
+    this.encryptionService = services.encryptionService;
   }
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
+    const invalidation = this.config.redis?.cacheInvalidation !== false;
     try {
       await this.redis.connect();
-      this.initialized = true;
+      if (invalidation) await this.cacheService.enableInvalidation();
     } catch {
-      this.initialized = true;
+      // Redis unavailable - enable invalidation once the background reconnect succeeds
+      if (invalidation) {
+        this.redis.once(
+          "ready",
+          () => void this.cacheService.enableInvalidation(),
+        );
+      }
     }
+    this.initialized = true;
   }
 
   async disconnect(): Promise<void> {
+    this.logger.stop();
     await this.redis.disconnect();
     this.initialized = false;
   }
@@ -284,6 +286,18 @@ export class MisoClient {
     return this.permissions.hasAllPermissions(token, permissions, authStrategy);
   }
 
+  /**
+   * Explain a permission check: resolved userId, source (memory, Redis, controller
+   * or local RBAC), cache age, auth methods, granted and missing permissions.
+   */
+  async explainPermission(
+    token: string,
+    permissions: string | string[],
+    authStrategy?: AuthStrategy,
+  ): Promise<PermissionExplanation> {
+    return this.permissions.explainPermission(token, permissions, authStrategy);
+  }
+
   async refreshPermissions(
     token: string,
     authStrategy?: AuthStrategy,
@@ -298,6 +312,50 @@ export class MisoClient {
     return this.permissions.clearPermissionsCache(token, authStrategy);
   }
 
+  /**
+   * Check whether the user may perform an action on a resource (ABAC).
+   * Evaluates `accessPolicy` against the user's identity, roles, permissions,
+   * the resource attributes and the request context.
+   */
+  async can(
+    token: string,
+    action: string,
+    resource?: AccessResource,
+    context?: Record<string, unknown>,
+    authStrategy?: AuthStrategy,
+  ): Promise<boolean> {
+    return this.accessPolicy.can(
+      token,
+      action,
+      resource,
+      context,
+      authStrategy,
+    );
+  }
+
+  /**
+   * Evaluate the access policy and return the decision with its explanation.
+   */
+  async authorize(
+    token: string,
+    action: string,
+    resource?: AccessResource,
+    context?: Record<string, unknown>,
+    authStrategy?: AuthStrategy,
+  ): Promise<AccessDecision> {
+    return this.accessPolicy.authorize(
+      token,
+      action,
+      resource,
+      context,
+      authStrategy,
+    );
+  }
+
+  setAccessPolicy(policy: AccessPolicy): void {
+    this.accessPolicy.setPolicy(policy);
+  }
+
   get log(): LoggerService {
     return this.logger;
   }
@@ -310,6 +368,11 @@ export class MisoClient {
     return this.cacheService;
   }
 
+  /** Revocation list shared by logout and local token validation */
+  get revocation(): TokenRevocationService {
+    return this.revocationService;
+  }
+
   async updateMyApplicationStatus(
     body: UpdateSelfStatusRequest,
     options?: { envKey?: string; authStrategy?: AuthStrategy },
@@ -363,6 +426,18 @@ export class MisoClient {
     );
   }
 
+  /** Consumer that ships the Redis log stream to the controller (`redis.logQueue: "stream"`). */
+  createLogStreamConsumer(
+    options?: LogStreamConsumerOptions,
+  ): LogStreamConsumer {
+    return new LogStreamConsumer(
+      this.redis,
+      this.apiClient,
+      this.config.clientId,
+      options,
+    );
+  }
+
   getConfig(): MisoClientConfig {
     return { ...this.config };
   }
@@ -371,6 +446,16 @@ export class MisoClient {
     return this.redis.isConnected();
   }
 
+  getRedisState(): RedisConnectionState {
+    return this.redis.getState();
+  }
+
+  /** Listen for Redis connection state changes; returns an unsubscribe function. */
+  onRedisStateChange(listener: (change: RedisStateChange) => void): () => void {
+    this.redis.on("stateChange", listener);
+    return () => void this.redis.off("stateChange", listener);
+  }
+
   async requestWithAuthStrategy<T>(
     method: "GET" | "POST" | "PUT" | "DELETE",
     url: string,
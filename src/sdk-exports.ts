@@ -21,9 +21,99 @@ export { BrowserRoleService } from "./services/browser-role.service";
 export { LoggerService } from "./services/logger";
 export { RedisService } from "./services/redis.service";
 export { CacheService } from "./services/cache.service";
+export type {
+  CacheHit,
+  CacheStats,
+  CacheServiceOptions,
+  GetOrSetOptions,
+} from "./services/cache.service";
+export { LruCache } from "./utils/lru-cache";
+export type { LruCacheOptions, LruCacheStats } from "./utils/lru-cache";
+export type { CacheStore, CacheStoreOption } from "./types/cache-store.types";
+export { RedisCacheStore } from "./services/redis-cache-store";
+export { LogStreamConsumer } from "./services/log-stream-consumer";
+export type { LogStreamConsumerOptions } from "./services/log-stream-consumer";
+export {
+  appendLogsToStream,
+  getLogStreamKey,
+  LOG_STREAM_FIELD,
+} from "./services/redis-log-stream";
+export { LogSpool } from "./utils/log-spool";
+export {
+  createConsoleTransport,
+  createFileTransport,
+} from "./services/logger/log-transports";
+export type {
+  ConsoleLogOutput,
+  ConsoleTransportOptions,
+  LogTransport,
+  LogTransportConfig,
+  LogTransportOptions,
+} from "./types/log-transport.types";
+export type {
+  LogRateLimitConfig,
+  LogSamplingConfig,
+  SampledLogLevel,
+} from "./types/log-sampling.types";
+export { MemoryCacheStore, WebStorageCacheStore } from "./utils/cache-stores";
+export type {
+  MemoryCacheStoreOptions,
+  WebStorageCacheStoreOptions,
+  WebStorageLike,
+} from "./utils/cache-stores";
 export { HttpClient } from "./utils/http-client";
+export {
+  exactPermissionMatcher,
+  wildcardPermissionMatcher,
+  hasMatchingPermission,
+  findMissingPermissions,
+} from "./utils/permission-matcher";
+export {
+  LocalRbacService,
+  createLocalRbacService,
+} from "./services/local-rbac.service";
+export {
+  loadRbacPolicy,
+  loadRbacPolicyFile,
+  getPermissionsForRoles,
+} from "./utils/rbac-policy-loader";
+export type {
+  RbacPolicy,
+  RbacRoleDefinition,
+  RbacPermissionDefinition,
+} from "./types/rbac.types";
+export { AccessPolicyService } from "./services/access-policy.service";
+export { evaluateAccessPolicy } from "./utils/access-policy";
+export type { AccessRequest } from "./utils/access-policy";
+export type {
+  AccessPolicy,
+  AccessRule,
+  AccessCondition,
+  AccessOperand,
+  AccessAttributeRef,
+  AccessSubject,
+  AccessResource,
+  AccessDecision,
+  AccessRuleTrace,
+} from "./types/access-policy.types";
 export { getLogger } from "./services/logger/unified-logger.factory";
 export { LoggerContextStorage } from "./services/logger";
+export {
+  formatTraceparent,
+  getActiveTraceContext,
+  getTraceHeaders,
+  parseTraceparent,
+} from "./utils/trace-context";
+export type { TraceContext } from "./utils/trace-context";
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  metricsRegistry,
+} from "./utils/metrics-registry";
+export type { MetricLabels } from "./utils/metrics-registry";
+export { normalizeEndpoint, sdkMetrics } from "./utils/sdk-metrics";
 export type { UnifiedLogger } from "./services/logger/unified-logger.service";
 export { loadConfig } from "./utils/config-loader";
 export { validateOrigin } from "./utils/origin-validator";
@@ -99,7 +189,15 @@ export {
   sendErrorResponse,
   createClientTokenEndpoint,
   hasConfig,
+  createBackchannelLogoutEndpoint,
+  BACKCHANNEL_LOGOUT_EVENT,
   loggerContextMiddleware,
+  metricsHandler,
+  PROMETHEUS_CONTENT_TYPE,
+  requireAuth,
+  requirePermission,
+  requireRole,
+  requireAccess,
 } from "./express";
 export type {
   PaginationMeta,
@@ -113,6 +211,13 @@ export type {
   ClientTokenEndpointOptions,
   ClientTokenResponse,
   DataClientConfigResponse,
+  BackchannelLogoutEvent,
+  BackchannelLogoutOptions,
+  AuthenticatedRequest,
+  RequireAuthOptions,
+  RequireAccessOptions,
+  RequireAccessPolicyOptions,
+  AccessResourceResolver,
 } from "./express";
 export type { ErrorResponse as ExpressErrorResponse } from "./express/error-response";
 export type {
@@ -150,8 +255,25 @@ export type {
   KeycloakConfig,
   DelegatedProviderConfig,
   DelegatedProviderLookup,
+  TokenValidationPolicy,
+  TokenValidationErrorCode,
+  TokenClaimValidator,
+  KeycloakRealmLookup,
+  KeycloakRealmRegistry,
+  OidcDiscoveryDocument,
 } from "./types/token-validation.types";
 export { TokenValidationService } from "./services/token-validation.service";
+export {
+  OidcDiscoveryService,
+  OidcDiscoveryError,
+  discoveryUrl,
+  OIDC_DISCOVERY_PATH,
+} from "./services/oidc-discovery.service";
+export {
+  TokenRevocationService,
+  DEFAULT_SESSION_REVOCATION_TTL,
+} from "./services/token-revocation.service";
+export type { RevocationClaims } from "./services/token-revocation.service";
 export {
   AUTH_BROWSER_SESSION_PATHS,
   AUTH_CONTROLLER_PATHS,
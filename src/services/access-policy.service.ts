@@ -0,0 +1,145 @@
+/**
+ * Access policy service - attribute-based authorization (ABAC) for user tokens
+ * Builds the subject (user, roles, permissions) from the token and evaluates
+ * the configured access policy against the resource and request context.
+ */
+
+import { AuthStrategy, PermissionMatcher } from "../types/config.types";
+import {
+  AccessDecision,
+  AccessPolicy,
+  AccessResource,
+  AccessSubject,
+} from "../types/access-policy.types";
+import { evaluateAccessPolicy } from "../utils/access-policy";
+import { resolvePermissionMatcher } from "../utils/permission-matcher";
+import { extractErrorInfo } from "../utils/error-extractor";
+import { logErrorWithContext } from "../utils/console-logger";
+import { AuthService } from "./auth.service";
+import { RoleService } from "./role.service";
+import { PermissionService } from "./permission.service";
+
+export class AccessPolicyService {
+  private auth: AuthService;
+  private roles: RoleService;
+  private permissions: PermissionService;
+  private policy?: AccessPolicy;
+  private permissionMatcher: PermissionMatcher;
+
+  constructor(
+    auth: AuthService,
+    roles: RoleService,
+    permissions: PermissionService,
+    options?: { policy?: AccessPolicy; permissionMatcher?: PermissionMatcher },
+  ) {
+    this.auth = auth;
+    this.roles = roles;
+    this.permissions = permissions;
+    this.policy = options?.policy;
+    this.permissionMatcher = resolvePermissionMatcher(
+      options?.permissionMatcher,
+    );
+  }
+
+  /**
+   * Replace the access policy used by authorize/can
+   * @param policy - Access policy
+   */
+  setPolicy(policy: AccessPolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Get the current access policy
+   */
+  getPolicy(): AccessPolicy | undefined {
+    return this.policy;
+  }
+
+  /**
+   * Build the policy subject from the user token (user info, roles, permissions)
+   * @param token - User authentication token
+   * @param authStrategy - Optional authentication strategy override
+   */
+  async getSubject(
+    token: string,
+    authStrategy?: AuthStrategy,
+  ): Promise<AccessSubject> {
+    const [user, roles, permissions] = await Promise.all([
+      this.auth.getUserInfo(token, authStrategy),
+      this.roles.getRoles(token, authStrategy),
+      this.permissions.getPermissions(token, authStrategy),
+    ]);
+    return { userId: user?.id, email: user?.email, roles, permissions };
+  }
+
+  /**
+   * Evaluate the access policy and explain the decision
+   * @param token - User authentication token
+   * @param action - Action being performed (e.g. "update")
+   * @param resource - Resource attributes (`type` selects applicable rules)
+   * @param context - Additional request context (e.g. IP, time, tenant)
+   * @param authStrategy - Optional authentication strategy override
+   * @returns Access decision; denied when no policy is configured or evaluation fails
+   * (`error: true` with a generic reason; the failure itself is logged)
+   */
+  async authorize(
+    token: string,
+    action: string,
+    resource?: AccessResource,
+    context?: Record<string, unknown>,
+    authStrategy?: AuthStrategy,
+  ): Promise<AccessDecision> {
+    const base = { action, resourceType: resource?.type, trace: [] };
+    if (!this.policy) {
+      return { ...base, allowed: false, reason: "No access policy configured" };
+    }
+    try {
+      const subject = await this.getSubject(token, authStrategy);
+      return evaluateAccessPolicy(
+        this.policy,
+        { subject, action, resource, context },
+        this.permissionMatcher,
+      );
+    } catch (error) {
+      const errorInfo = extractErrorInfo(error, {
+        endpoint: "access-policy",
+        method: "authorize",
+      });
+      errorInfo.message = `Failed to evaluate access policy: ${errorInfo.message}`;
+      logErrorWithContext(errorInfo, "[AccessPolicyService]");
+      return {
+        ...base,
+        allowed: false,
+        error: true,
+        reason: "Access policy evaluation failed",
+      };
+    }
+  }
+
+  /**
+   * Check whether the user may perform an action on a resource
+   * @param token - User authentication token
+   * @param action - Action being performed (e.g. "update")
+   * @param resource - Resource attributes (`type` selects applicable rules)
+   * @param context - Additional request context
+   * @param authStrategy - Optional authentication strategy override
+   * @returns True when the policy allows the action
+   */
+  async can(
+    token: string,
+    action: string,
+    resource?: AccessResource,
+    context?: Record<string, unknown>,
+    authStrategy?: AuthStrategy,
+  ): Promise<boolean> {
+    const decision = await this.authorize(
+      token,
+      action,
+      resource,
+      context,
+      authStrategy,
+    );
+    return decision.allowed;
+  }
+}
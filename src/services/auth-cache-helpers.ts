@@ -74,6 +74,29 @@ export function clearTokenCache(cache: CacheService, token: string): void {
   }
 }
 
+/**
+ * Clear cached user info, roles and permissions for a user ID (e.g. after back-channel logout).
+ */
+export async function clearUserCachesById(
+  cache: CacheService,
+  userId: string,
+): Promise<void> {
+  await Promise.all(
+    [`user:${userId}`, `roles:${userId}`, `permissions:${userId}`].map((key) =>
+      cache.delete(key).catch((error: unknown) => {
+        logErrorWithContext(
+          extractErrorInfo(error, {
+            endpoint: "clearUserCachesById",
+            method: "delete",
+          }),
+          "[AuthCacheHelpers]",
+        );
+        return false;
+      }),
+    ),
+  );
+}
+
 /**
  * Clear cached user info for a token.
  */
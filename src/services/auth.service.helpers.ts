@@ -1,6 +1,15 @@
 import { AuthStrategy, UserInfo } from "../types/config.types";
+import { ApiClient } from "../api";
 import { CacheService } from "./cache.service";
-import { getCacheTtlFromToken } from "./auth-cache-helpers";
+import {
+  extractUserIdFromToken,
+  getCacheTtlFromToken,
+  getTokenCacheKey,
+} from "./auth-cache-helpers";
+import {
+  getWithRevalidation,
+  RevalidationOptions,
+} from "../utils/cache-revalidation";
 
 export interface TokenCacheData {
   authenticated: boolean;
@@ -23,27 +32,76 @@ export function buildAuthStrategyWithToken(
     : { methods: ["bearer"], bearerToken: token };
 }
 
-export async function getCachedUserInfo(
-  cache: CacheService,
-  cacheKey: string | null,
+/**
+ * Get user info cached by userId (from the JWT). Concurrent cache misses for the
+ * same user share one controller call; stale entries are refreshed in the background
+ * when `revalidation.staleTtl` is set. Tokens without userId skip the cache.
+ * @returns User info; null when not authenticated
+ */
+export async function getUserInfoWithCache(
+  deps: {
+    cache: CacheService;
+    apiClient: ApiClient;
+    revalidation: RevalidationOptions;
+  },
+  token: string,
+  authStrategy: AuthStrategy | undefined,
+  defaultAuthStrategy: AuthStrategy | undefined,
 ): Promise<UserInfo | null> {
-  if (!cacheKey) return null;
-  const cached = await cache.get<UserInfoCacheData>(cacheKey);
-  return cached ? cached.user : null;
+  const load = async (): Promise<UserInfoCacheData | null> => {
+    const result = await deps.apiClient.auth.getUser(
+      buildAuthStrategyWithToken(token, authStrategy, defaultAuthStrategy),
+    );
+    if (!result.data?.authenticated || !result.data.user) return null;
+    return { user: mapUserInfo(result.data.user), timestamp: Date.now() };
+  };
+  const userId = extractUserIdFromToken(token);
+  const cached = userId
+    ? await getWithRevalidation(
+        deps.cache,
+        `user:${userId}`,
+        load,
+        deps.revalidation,
+      )
+    : await load();
+  return cached?.user ?? null;
 }
 
-export async function cacheUserInfo(
-  cache: CacheService,
-  cacheKey: string | null,
-  user: UserInfo,
-  userTTL: number,
-): Promise<void> {
-  if (!cacheKey) return;
-  await cache.set<UserInfoCacheData>(
+/**
+ * Validate a token with the controller, cached by token hash with a TTL based on
+ * token expiration (bounded by `ttl` and `minTtl`).
+ * @returns True if the controller reports the token as authenticated
+ */
+export async function validateTokenWithCache(
+  deps: {
+    cache: CacheService;
+    apiClient: ApiClient;
+    ttl: number;
+    minTtl: number;
+  },
+  token: string,
+  authStrategy: AuthStrategy | undefined,
+  defaultAuthStrategy: AuthStrategy | undefined,
+): Promise<boolean> {
+  // Cache key uses the token hash (security - no userId exposure)
+  const cacheKey = getTokenCacheKey(token);
+  const cached = await getCachedTokenValidation(deps.cache, cacheKey);
+  if (cached !== null) return cached;
+
+  const result = await deps.apiClient.auth.validateToken(
+    { token },
+    buildAuthStrategyWithToken(token, authStrategy, defaultAuthStrategy),
+  );
+  const authenticated = result.data?.authenticated || false;
+  await cacheTokenValidation(
+    deps.cache,
     cacheKey,
-    { user, timestamp: Date.now() },
-    userTTL,
+    token,
+    authenticated,
+    deps.ttl,
+    deps.minTtl,
   );
+  return authenticated;
 }
 
 export async function getCachedTokenValidation(
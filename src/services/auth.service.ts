@@ -5,6 +5,7 @@
 import { HttpClient } from "../utils/http-client";
 import { ApiClient } from "../api";
 import { CacheService } from "./cache.service";
+import { TokenRevocationService } from "./token-revocation.service";
 import {
   UserInfo,
   AuthStrategy,
@@ -23,40 +24,49 @@ import {
   clearTokenCache as clearTokenCacheHelper,
   clearUserCache as clearUserCacheHelper,
   extractUserIdFromToken,
-  getTokenCacheKey,
 } from "./auth-cache-helpers";
 import { extractErrorInfo } from "../utils/error-extractor";
 import { logErrorWithContext } from "../utils/console-logger";
 import {
   buildAuthStrategyWithToken,
-  getCachedUserInfo,
-  cacheUserInfo,
-  getCachedTokenValidation,
-  cacheTokenValidation,
+  getUserInfoWithCache,
+  validateTokenWithCache,
   mapUserInfo,
   generateCorrelationId,
 } from "./auth.service.helpers";
+import { RevalidationOptions, SingleFlight } from "../utils/cache-revalidation";
 
 export class AuthService {
   private httpClient: HttpClient;
   private apiClient: ApiClient;
   private cache: CacheService;
+  private revocation: TokenRevocationService;
   private tokenValidationTTL: number;
   private minValidationTTL: number;
-  private userTTL: number;
+  private userRevalidation: RevalidationOptions;
 
+  /**
+   * @param revocation - Revocation list updated on logout (shared with local token validation)
+   */
   constructor(
     httpClient: HttpClient,
     apiClient: ApiClient,
     cache: CacheService,
+    revocation: TokenRevocationService = new TokenRevocationService(cache),
   ) {
     this.cache = cache;
+    this.revocation = revocation;
     this.httpClient = httpClient;
     this.apiClient = apiClient;
     const config = this.httpClient.config;
     this.tokenValidationTTL = config.cache?.tokenValidationTTL || 900; // 15 minutes default
     this.minValidationTTL = config.cache?.minValidationTTL || 60; // 60 seconds default
-    this.userTTL = config.cache?.userTTL || 300; // 5 minutes default
+    this.userRevalidation = {
+      ttl: config.cache?.userTTL || 300, // 5 minutes default
+      staleTtl: config.cache?.staleWhileRevalidate || 0,
+      flights: new SingleFlight(),
+      logContext: "[AuthService]",
+    };
   }
 
   /**
@@ -163,6 +173,7 @@ export class AuthService {
   /**
    * Validate token with controller
    * Caches validation results by token hash with smart TTL based on token expiration
+   * Tokens on the revocation list (jti, sid or sub; e.g. after logout) are rejected
    * If API_KEY is configured and token matches, returns true without calling controller
    * @param token - User authentication token
    * @param authStrategy - Optional authentication strategy override
@@ -179,36 +190,19 @@ export class AuthService {
     }
 
     try {
-      // Generate cache key using token hash (security - no userId exposure)
-      const cacheKey = getTokenCacheKey(token);
-
-      const cached = await getCachedTokenValidation(this.cache, cacheKey);
-      if (cached !== null) return cached;
-
-      // Cache miss - fetch from controller using ApiClient
-      const authStrategyWithToken = buildAuthStrategyWithToken(
+      const valid = await validateTokenWithCache(
+        {
+          cache: this.cache,
+          apiClient: this.apiClient,
+          ttl: this.tokenValidationTTL,
+          minTtl: this.minValidationTTL,
+        },
         token,
         authStrategy,
         this.httpClient.config.authStrategy,
       );
-
-      const result = await this.apiClient.auth.validateToken(
-        { token },
-        authStrategyWithToken,
-      );
-
-      const authenticated = result.data?.authenticated || false;
-
-      await cacheTokenValidation(
-        this.cache,
-        cacheKey,
-        token,
-        authenticated,
-        this.tokenValidationTTL,
-        this.minValidationTTL,
-      );
-
-      return authenticated;
+      // Checked on cached results too, so a (back-channel) logout takes effect immediately
+      return valid && !(await this.revocation.isTokenRevoked(token));
     } catch (error) {
       this.logAuthServiceError(
         "Validate token",
@@ -280,7 +274,8 @@ export class AuthService {
 
   /**
    * Get user information from GET /api/v1/auth/user endpoint
-   * Caches user info by userId with configurable TTL (default 5 minutes)
+   * Caches user info by userId with configurable TTL (default 5 minutes);
+   * concurrent cache misses for the same user share one controller call
    * If API_KEY is configured and token matches, returns null (by design for testing)
    * @param token - User authentication token
    * @param authStrategy - Optional authentication strategy override
@@ -297,28 +292,17 @@ export class AuthService {
     }
 
     try {
-      // Extract userId from token to check cache first (avoids API call on cache hit)
-      const userId = extractUserIdFromToken(token);
-      const cacheKey = userId ? `user:${userId}` : null;
-      const cached = await getCachedUserInfo(this.cache, cacheKey);
-      if (cached) return cached;
-
-      // Cache miss - fetch from controller
-      const authStrategyWithToken = buildAuthStrategyWithToken(
+      // Cached by userId from token (avoids API call on cache hit)
+      return await getUserInfoWithCache(
+        {
+          cache: this.cache,
+          apiClient: this.apiClient,
+          revalidation: this.userRevalidation,
+        },
         token,
         authStrategy,
         this.httpClient.config.authStrategy,
       );
-
-      const result = await this.apiClient.auth.getUser(authStrategyWithToken);
-
-      if (result.data?.authenticated && result.data.user) {
-        const user = mapUserInfo(result.data.user);
-        await cacheUserInfo(this.cache, cacheKey, user, this.userTTL);
-        return user;
-      }
-
-      return null;
     } catch (error) {
       this.logAuthServiceError(
         "Get user info",
@@ -350,7 +334,8 @@ export class AuthService {
   }
 
   /**
-   * Logout user. Gracefully handles no active session (400). Clears token/user caches.
+   * Logout user. Gracefully handles no active session (400). Clears token/user caches
+   * and adds the token's jti/sid to the revocation list.
    * @param params - Logout parameters with token to invalidate
    * Never throws from service layer. Returns fallback failure payload on unexpected errors.
    * @returns Logout response with success status/message; 400/no-session is treated as successful logout.
@@ -365,9 +350,7 @@ export class AuthService {
       // Use ApiClient for typed API call
       const response = await this.apiClient.auth.logoutWithToken(params.token);
 
-      // Clear caches after successful logout
-      this.clearTokenCache(params.token);
-      this.clearUserCache(params.token);
+      await this.endSession(params.token);
 
       return response;
     } catch (error) {
@@ -378,8 +361,7 @@ export class AuthService {
           `[Auth] Logout: No active session (400) [${correlationId}]`,
           { correlationId },
         );
-        this.clearTokenCache(params.token);
-        this.clearUserCache(params.token);
+        await this.endSession(params.token);
         return {
           success: true,
           message: "Logout successful (no active session)",
@@ -395,6 +377,13 @@ export class AuthService {
     }
   }
 
+  /** Clear token/user caches and revoke the token (jti/sid) for local validation */
+  private async endSession(token: string): Promise<void> {
+    this.clearTokenCache(token);
+    this.clearUserCache(token);
+    await this.revocation.revokeToken(token);
+  }
+
   /**
    * Refresh user access token for browser cookie-first/session flows.
    * @param refreshToken - Optional backward-compatible payload value; may be ignored by API layer.
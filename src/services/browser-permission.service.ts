@@ -6,11 +6,23 @@
 import { HttpClient } from "../utils/http-client";
 import { ApiClient } from "../api";
 import { CacheService } from "./cache.service";
-import { AuthStrategy, AuthMethod } from "../types/config.types";
+import {
+  AuthStrategy,
+  AuthMethod,
+  PermissionExplanation,
+  PermissionMatcher,
+} from "../types/config.types";
 import { decodeJWT } from "../utils/browser-jwt-decoder";
 import { ApplicationContextService } from "./application-context.service";
 import { extractErrorInfo } from "../utils/error-extractor";
 import { logErrorWithContext } from "../utils/console-logger";
+import {
+  buildPermissionExplanation,
+  PermissionResolution,
+  findMissingPermissions,
+  hasMatchingPermission,
+  resolvePermissionMatcher,
+} from "../utils/permission-matcher";
 
 interface PermissionCacheData {
   permissions: string[];
@@ -23,6 +35,7 @@ export class BrowserPermissionService {
   private cache: CacheService;
   private permissionTTL: number;
   private applicationContextService: ApplicationContextService;
+  private permissionMatcher: PermissionMatcher;
 
   constructor(
     httpClient: HttpClient,
@@ -34,6 +47,9 @@ export class BrowserPermissionService {
     this.apiClient = apiClient;
     this.permissionTTL = this.httpClient.config.cache?.permissionTTL || 900; // 15 minutes default
     this.applicationContextService = new ApplicationContextService(httpClient);
+    this.permissionMatcher = resolvePermissionMatcher(
+      this.httpClient.config.permissionMatcher,
+    );
   }
 
   private logPermissionError(
@@ -165,7 +181,11 @@ export class BrowserPermissionService {
     authStrategy?: AuthStrategy,
   ): Promise<boolean> {
     const permissions = await this.getPermissions(token, authStrategy);
-    return permissions.includes(permission);
+    return hasMatchingPermission(
+      permissions,
+      permission,
+      this.permissionMatcher,
+    );
   }
 
   /**
@@ -181,7 +201,11 @@ export class BrowserPermissionService {
   ): Promise<boolean> {
     const userPermissions = await this.getPermissions(token, authStrategy);
     return permissions.some((permission) =>
-      userPermissions.includes(permission),
+      hasMatchingPermission(
+        userPermissions,
+        permission,
+        this.permissionMatcher,
+      ),
     );
   }
 
@@ -197,11 +221,78 @@ export class BrowserPermissionService {
     authStrategy?: AuthStrategy,
   ): Promise<boolean> {
     const userPermissions = await this.getPermissions(token, authStrategy);
-    return permissions.every((permission) =>
-      userPermissions.includes(permission),
+    return (
+      findMissingPermissions(
+        userPermissions,
+        permissions,
+        this.permissionMatcher,
+      ).length === 0
     );
   }
 
+  /**
+   * Explain a permission check: resolved userId, permission source (memory cache or
+   * controller), cache age, auth methods, granted and missing permissions
+   * @param token - User authentication token
+   * @param permissions - Permission or permissions to check
+   * @param authStrategy - Optional authentication strategy override
+   */
+  async explainPermission(
+    token: string,
+    permissions: string | string[],
+    authStrategy?: AuthStrategy,
+  ): Promise<PermissionExplanation> {
+    const required = Array.isArray(permissions) ? permissions : [permissions];
+    const authMethods = this.buildAuthStrategyWithToken(
+      token,
+      authStrategy,
+    ).methods;
+    const explain = (
+      resolution: Omit<PermissionResolution, "authMethods">,
+    ): PermissionExplanation =>
+      buildPermissionExplanation(
+        { ...resolution, authMethods },
+        required,
+        this.permissionMatcher,
+      );
+
+    try {
+      const userId =
+        this.extractUserIdFromToken(token) ||
+        (await this.resolveUserId(token, authStrategy));
+      if (!userId) {
+        return explain({ userId, source: "controller", userPermissions: [] });
+      }
+      const cached = await this.cache.getWithSource<PermissionCacheData>(
+        `permissions:${userId}`,
+      );
+      if (cached) {
+        return explain({
+          userId,
+          source: cached.source,
+          userPermissions: cached.value.permissions || [],
+          cachedAt: cached.value.timestamp,
+        });
+      }
+      const userPermissions = await this.getPermissions(token, authStrategy);
+      return explain({ userId, source: "controller", userPermissions });
+    } catch (error) {
+      this.logPermissionError(
+        error,
+        token,
+        "explainPermission",
+        "GET",
+        "/api/auth/permissions",
+      );
+      return explain({
+        userId: null,
+        source: "controller",
+        userPermissions: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Force refresh permissions from controller (bypass cache)
    * @param token - User authentication token
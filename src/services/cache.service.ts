@@ -1,27 +1,115 @@
 /**
- * Cache service for generic caching with Redis support and in-memory TTL fallback
+ * Cache service for generic caching with a pluggable shared store (Redis by default)
+ * and in-memory TTL fallback
  */
 
 import { RedisService } from "./redis.service";
+import { RedisCacheStore } from "./redis-cache-store";
+import { CacheStore, CacheStoreOption } from "../types/cache-store.types";
+import { deleteMatching } from "../utils/cache-stores";
 import { extractErrorInfo } from "../utils/error-extractor";
 import { logErrorWithContext } from "../utils/console-logger";
+import { escapeGlob, globToRegExp } from "../utils/glob-pattern";
+import { LruCache, LruCacheStats, estimateSize } from "../utils/lru-cache";
+import { recordCacheLookup } from "../utils/sdk-metrics";
+import { getWithRevalidation, SingleFlight } from "../utils/cache-revalidation";
 
 interface CacheEntry<T> {
   value: T;
   expiresAt: number;
 }
 
+/** Invalidation message broadcast to other instances */
+interface InvalidationMessage {
+  origin: string;
+  keys?: string[];
+  pattern?: string;
+  all?: boolean;
+}
+
+/** Memory cache limits */
+export interface CacheServiceOptions {
+  /** Maximum number of memory cache entries (default: 10000) */
+  maxEntries?: number;
+  /** Maximum approximate memory cache size in bytes (default: unbounded) */
+  maxBytes?: number;
+  /** Shared cache store: "redis" (default when redis is provided), "memory" (none) or a custom CacheStore */
+  store?: CacheStoreOption;
+}
+
+/** Cache statistics (hits/misses cover Redis and memory lookups) */
+export interface CacheStats extends LruCacheStats {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses); 0 before any lookup */
+  hitRate: number;
+}
+
+/** Options for getOrSet / wrap */
+export interface GetOrSetOptions {
+  /** Time to live in seconds for loaded values */
+  ttl: number;
+  /** Seconds an expired value is still served while one background refresh runs (default: 0) */
+  staleTtl?: number;
+  /** Time to live in seconds for not-found (null/undefined) results; 0 = not cached (default: 0) */
+  negativeTtl?: number;
+}
+
+/** Stored getOrSet entry (null value marks a cached not-found result) */
+interface MemoizedEntry<T> {
+  value: T | null;
+  timestamp: number;
+  ttl: number;
+}
+
+/** Default maximum number of memory cache entries */
+const DEFAULT_MAX_ENTRIES = 10000;
+
+/** Cached value with the cache layer that served it */
+export interface CacheHit<T> {
+  value: T;
+  /** "store" for custom (non-Redis) stores */
+  source: "redis" | "store" | "memory";
+}
+
+/** Resolve the shared store from the store option */
+function resolveStore(
+  redis: RedisService | undefined,
+  option: CacheStoreOption | undefined,
+): CacheStore | undefined {
+  if (option === "memory") return undefined;
+  if (option && option !== "redis") return option;
+  return redis ? new RedisCacheStore(redis) : undefined;
+}
+
 export class CacheService {
   private redis?: RedisService;
-  private memoryCache: Map<string, CacheEntry<unknown>> = new Map();
+  private store?: CacheStore;
+  private storeSource: "redis" | "store";
+  private memoryCache: LruCache<string, CacheEntry<unknown>>;
+  private hits = 0;
+  private flights = new SingleFlight();
+  private misses = 0;
   private cleanupInterval?: NodeJS.Timeout;
+  private readonly instanceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  private invalidationChannel?: string;
 
   /**
    * Create a CacheService instance
-   * @param redis - Optional RedisService for Redis-backed caching. If not provided, uses in-memory cache only.
+   * @param redis - Optional RedisService for Redis-backed caching and cross-instance invalidation
+   * @param options - Optional memory cache limits (LRU eviction) and shared store.
+   * Without redis or store, uses in-memory cache only.
    */
-  constructor(redis?: RedisService) {
+  constructor(redis?: RedisService, options?: CacheServiceOptions) {
     this.redis = redis;
+    this.store = resolveStore(redis, options?.store);
+    this.storeSource =
+      this.store instanceof RedisCacheStore ? "redis" : "store";
+    this.memoryCache = new LruCache({
+      maxEntries: options?.maxEntries ?? DEFAULT_MAX_ENTRIES,
+      maxBytes: options?.maxBytes,
+      sizeOf: (entry) => estimateSize(entry.value),
+    });
 
     // Start periodic cleanup of expired entries (every 5 minutes)
     this.cleanupInterval = setInterval(
@@ -57,7 +145,66 @@ export class CacheService {
     }
   }
 
-  private parseAndCacheRedisValue<T>(key: string, cached: string): T | null {
+  /**
+   * Enable cross-instance invalidation via Redis pub/sub.
+   * Once enabled, set/delete/clear broadcast invalidations to all instances sharing
+   * the same Redis keyPrefix, and received invalidations evict local memory entries.
+   * @returns true if subscribed, false if Redis is unavailable
+   */
+  async enableInvalidation(): Promise<boolean> {
+    if (this.invalidationChannel) return true;
+    if (!this.redis || !this.redis.isConnected()) return false;
+    const channel = `${this.redis.getKeyPrefix()}cache:invalidate`;
+    const subscribed = await this.redis.subscribe(channel, (message) =>
+      this.handleInvalidation(message),
+    );
+    if (subscribed) this.invalidationChannel = channel;
+    return subscribed;
+  }
+
+  /** Evict memory entries named by an invalidation from another instance */
+  private handleInvalidation(message: string): void {
+    try {
+      const parsed = JSON.parse(message) as InvalidationMessage;
+      if (parsed.origin === this.instanceId) return;
+      if (parsed.all) {
+        this.memoryCache.clear();
+        return;
+      }
+      for (const key of parsed.keys || []) {
+        this.memoryCache.delete(key);
+      }
+      if (parsed.pattern) this.deleteFromMemory(parsed.pattern);
+    } catch (error) {
+      logErrorWithContext(
+        extractErrorInfo(error, {
+          endpoint: this.invalidationChannel,
+          method: "handleInvalidation",
+        }),
+        "[CacheService]",
+      );
+    }
+  }
+
+  /** Broadcast invalidation to other instances (no-op until enabled) */
+  private async publishInvalidation(
+    invalidation: Omit<InvalidationMessage, "origin">,
+  ): Promise<void> {
+    if (!this.redis || !this.invalidationChannel) return;
+    await this.redis.publish(
+      this.invalidationChannel,
+      JSON.stringify({ origin: this.instanceId, ...invalidation }),
+    );
+  }
+
+  /** Shared store when configured and currently available */
+  private availableStore(): CacheStore | undefined {
+    return this.store && (this.store.isAvailable?.() ?? true)
+      ? this.store
+      : undefined;
+  }
+
+  private parseAndCacheStoredValue<T>(key: string, cached: string): T | null {
     try {
       const parsed = JSON.parse(cached) as T;
       this.setInMemory(key, parsed, 300);
@@ -74,15 +221,37 @@ export class CacheService {
 
   /**
    * Get cached value
-   * Checks Redis first, then falls back to memory cache
+   * Checks the shared store (Redis) first, then falls back to memory cache
    * @param key - Cache key
    * @returns Cached value or null if not found or expired
    */
   async get<T>(key: string): Promise<T | null> {
+    const hit = await this.getWithSource<T>(key);
+    return hit ? hit.value : null;
+  }
+
+  /**
+   * Get cached value together with the cache layer that served it
+   * @param key - Cache key
+   * @returns Value and source ("redis", "store" or "memory"), or null if not found or expired
+   */
+  async getWithSource<T>(key: string): Promise<CacheHit<T> | null> {
+    const hit = await this.lookup<T>(key);
+    if (hit) this.hits++;
+    else this.misses++;
+    recordCacheLookup(key, hit !== null);
+    return hit;
+  }
+
+  private async lookup<T>(key: string): Promise<CacheHit<T> | null> {
     try {
-      if (this.redis && this.redis.isConnected()) {
-        const cached = await this.redis.get(key);
-        if (cached) return this.parseAndCacheRedisValue<T>(key, cached);
+      const store = this.availableStore();
+      if (store) {
+        const cached = await store.get(key);
+        if (cached) {
+          const value = this.parseAndCacheStoredValue<T>(key, cached);
+          return value === null ? null : { value, source: this.storeSource };
+        }
       }
 
       const entry = this.memoryCache.get(key);
@@ -91,18 +260,20 @@ export class CacheService {
           this.memoryCache.delete(key);
           return null;
         }
-        return entry.value as T;
+        return { value: entry.value as T, source: "memory" };
       }
       return null;
     } catch {
       const entry = this.memoryCache.get(key);
-      return entry && entry.expiresAt >= Date.now() ? (entry.value as T) : null;
+      return entry && entry.expiresAt >= Date.now()
+        ? { value: entry.value as T, source: "memory" }
+        : null;
     }
   }
 
   /**
    * Set value in cache with TTL
-   * Sets in both Redis and memory cache
+   * Sets in both the shared store (Redis) and memory cache
    * @param key - Cache key
    * @param value - Value to cache (will be JSON serialized)
    * @param ttl - Time to live in seconds
@@ -113,14 +284,16 @@ export class CacheService {
       const serialized = JSON.stringify(value);
       let success = true;
 
-      // Try to set in Redis first
-      if (this.redis && this.redis.isConnected()) {
-        success = await this.redis.set(key, serialized, ttl);
-        // Continue even if Redis fails, fallback to memory
+      // Try to set in the shared store first
+      const store = this.availableStore();
+      if (store) {
+        success = await store.set(key, serialized, ttl);
+        // Continue even if the store fails, fallback to memory
       }
 
       // Always set in memory cache as fallback
       this.setInMemory(key, value, ttl);
+      await this.publishInvalidation({ keys: [key] });
 
       return success;
     } catch (error) {
@@ -139,6 +312,56 @@ export class CacheService {
     }
   }
 
+  /**
+   * Get a cached value or load and cache it
+   * Concurrent misses for the same key share one loader call. Loader errors are
+   * propagated and not cached. Values are stored wrapped with their load time.
+   * @param key - Cache key
+   * @param loader - Loads the value; null/undefined means not found
+   * @param options - ttl, staleTtl (stale-while-revalidate) and negativeTtl (not-found caching)
+   * @returns Cached or loaded value, or null when not found
+   */
+  async getOrSet<T>(
+    key: string,
+    loader: () => Promise<T | null | undefined>,
+    options: GetOrSetOptions,
+  ): Promise<T | null> {
+    const negativeTtl = options.negativeTtl ?? 0;
+    const entry = await getWithRevalidation<MemoizedEntry<T>>(
+      this,
+      key,
+      async () => {
+        const value = (await loader()) ?? null;
+        if (value === null && negativeTtl <= 0) return null;
+        const ttl = value === null ? negativeTtl : options.ttl;
+        return { value, timestamp: Date.now(), ttl };
+      },
+      {
+        ttl: options.ttl,
+        staleTtl: options.staleTtl ?? 0,
+        flights: this.flights,
+        logContext: "[CacheService]",
+      },
+    );
+    return entry ? entry.value : null;
+  }
+
+  /**
+   * Memoize an async function through this cache (see getOrSet)
+   * @param fn - Function to memoize; null/undefined results are treated as not found
+   * @param keyFn - Builds the cache key from the call arguments
+   * @param options - ttl, staleTtl and negativeTtl
+   * @returns Memoized function
+   */
+  wrap<A extends unknown[], T>(
+    fn: (...args: A) => Promise<T | null | undefined>,
+    keyFn: (...args: A) => string,
+    options: GetOrSetOptions,
+  ): (...args: A) => Promise<T | null> {
+    return (...args: A) =>
+      this.getOrSet<T>(keyFn(...args), () => fn(...args), options);
+  }
+
   /**
    * Set value in memory cache
    */
@@ -152,38 +375,97 @@ export class CacheService {
 
   /**
    * Delete value from cache
-   * Deletes from both Redis and memory cache
+   * Deletes from both the shared store (Redis) and memory cache
    * @param key - Cache key
    * @returns true if deleted from at least one cache, false otherwise
    */
   async delete(key: string): Promise<boolean> {
-    let redisDeleted = false;
+    let storeDeleted = false;
 
-    // Delete from Redis if available
-    if (this.redis && this.redis.isConnected()) {
-      redisDeleted = await this.redis.delete(key);
+    // Delete from the shared store if available
+    const store = this.availableStore();
+    if (store) {
+      storeDeleted = await store.delete(key);
     }
 
     // Delete from memory cache
     const memoryDeleted = this.memoryCache.delete(key);
+    await this.publishInvalidation({ keys: [key] });
 
-    return redisDeleted || memoryDeleted;
+    return storeDeleted || memoryDeleted;
+  }
+
+  /** Delete memory entries whose key matches a glob pattern */
+  private deleteFromMemory(pattern: string): number {
+    const regex = globToRegExp(pattern);
+    let deleted = 0;
+    for (const key of [...this.memoryCache.keys()]) {
+      if (regex.test(key) && this.memoryCache.delete(key)) deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete all entries whose key matches a glob pattern
+   * Uses SCAN + UNLINK on Redis (scoped to RedisConfig.keyPrefix), or scan + delete
+   * on other stores, and the same pattern over the memory cache
+   * @param pattern - Glob pattern (`*`, `?`, `[...]` classes, `\` escape), e.g. "permissions:*"
+   * @returns Number of keys deleted (store count when available, otherwise memory count)
+   */
+  async clearByPattern(pattern: string): Promise<number> {
+    const store = this.availableStore();
+    let storeDeleted = 0;
+    if (store) {
+      storeDeleted = store.deleteByPattern
+        ? await store.deleteByPattern(pattern)
+        : await deleteMatching(store, pattern);
+    }
+    const memoryDeleted = this.deleteFromMemory(pattern);
+    await this.publishInvalidation({ pattern });
+    return store ? storeDeleted : memoryDeleted;
+  }
+
+  /**
+   * Delete all entries whose key starts with a prefix
+   * @param prefix - Literal key prefix, e.g. "permissions:"
+   * @returns Number of keys deleted
+   */
+  async clearByPrefix(prefix: string): Promise<number> {
+    return this.clearByPattern(`${escapeGlob(prefix)}*`);
+  }
+
+  /**
+   * Delete all entries in a namespace (keys of the form `{namespace}:...`)
+   * @param namespace - Namespace, e.g. "roles" or "permissions"
+   * @returns Number of keys deleted
+   */
+  async clearNamespace(namespace: string): Promise<number> {
+    return this.clearByPrefix(`${namespace}:`);
   }
 
   /**
    * Clear all cache entries
-   * Clears both Redis and memory cache
-   * Note: This only clears keys that are accessible via this service instance
-   * Redis may have other keys set by other services
+   * Clears the memory cache and notifies other instances
+   * Note: shared store (Redis) keys are left untouched; use clearByPattern("*") or
+   * clearByPrefix() to delete them as well
    */
   async clear(): Promise<void> {
     // Clear memory cache
     this.memoryCache.clear();
+    await this.publishInvalidation({ all: true });
+  }
 
-    // Note: We cannot efficiently clear all Redis keys without knowing all keys
-    // So we only clear what we know about from memory cache
-    // For a true Redis clear, users should use RedisService directly
-    // or provide a pattern to delete
+  /**
+   * Get cache statistics (memory size, evictions, hit/miss counters)
+   */
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      ...this.memoryCache.getStats(),
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
   }
 
   /**
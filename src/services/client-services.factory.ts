@@ -0,0 +1,110 @@
+/**
+ * MisoClient service wiring
+ * Creates the HTTP clients, logger, cache and auth/authorization services used by MisoClient.
+ */
+
+import { MisoClientConfig } from "../types/config.types";
+import { ApiClient } from "../api";
+import { HttpClient } from "../utils/http-client";
+import { InternalHttpClient } from "../utils/internal-http-client";
+import { DataMasker } from "../utils/data-masker";
+import { AuthService } from "./auth.service";
+import { RoleService } from "./role.service";
+import { PermissionService } from "./permission.service";
+import { LoggerService } from "./logger";
+import { registerLoggerService } from "./logger/unified-logger.factory";
+import { RedisService } from "./redis.service";
+import { CacheService } from "./cache.service";
+import { TokenValidationService } from "./token-validation.service";
+import { TokenRevocationService } from "./token-revocation.service";
+import { createLocalRbacService } from "./local-rbac.service";
+import { EncryptionService } from "./encryption.service";
+import { AccessPolicyService } from "./access-policy.service";
+
+/** Services owned by a MisoClient instance */
+export interface MisoClientServices {
+  httpClient: HttpClient;
+  apiClient: ApiClient;
+  redis: RedisService;
+  logger: LoggerService;
+  cacheService: CacheService;
+  tokenValidation: TokenValidationService;
+  revocation: TokenRevocationService;
+  auth: AuthService;
+  roles: RoleService;
+  permissions: PermissionService;
+  accessPolicy: AccessPolicyService;
+  encryptionService: EncryptionService;
+}
+
+/** Logger and HTTP clients (the logger sends logs through the internal client first) */
+function createTransport(
+  config: MisoClientConfig,
+): Pick<MisoClientServices, "httpClient" | "apiClient" | "redis" | "logger"> {
+  const internalClient = new InternalHttpClient(config);
+  const redis = new RedisService(config.redis);
+  const logger = new LoggerService(
+    internalClient as unknown as HttpClient,
+    redis,
+  );
+  const httpClient = new HttpClient(config, logger);
+  (logger as unknown as { httpClient: HttpClient }).httpClient = httpClient;
+  const apiClient = new ApiClient(httpClient);
+  logger.setApiClient(apiClient);
+  registerLoggerService(logger);
+  return { httpClient, apiClient, redis, logger };
+}
+
+/**
+ * Create and wire the services of a MisoClient
+ * @param config - MisoClient configuration
+ * @returns Services sharing one HTTP client, cache, revocation list and token validation service
+ */
+export function createMisoClientServices(
+  config: MisoClientConfig,
+): MisoClientServices {
+  if (config.sensitiveFieldsConfig)
+    DataMasker.setConfigPath(config.sensitiveFieldsConfig);
+
+  const { httpClient, apiClient, redis, logger } = createTransport(config);
+  const cacheService = new CacheService(redis, config.cache);
+  const revocation = new TokenRevocationService(cacheService);
+  const tokenValidation = new TokenValidationService(
+    config.keycloak,
+    revocation,
+    config.keycloakRealms,
+  );
+  const localRbac = createLocalRbacService(config, tokenValidation);
+  const auth = new AuthService(httpClient, apiClient, cacheService, revocation);
+  const roles = new RoleService(httpClient, apiClient, cacheService, localRbac);
+  const permissions = new PermissionService(
+    httpClient,
+    apiClient,
+    cacheService,
+    localRbac,
+  );
+  const accessPolicy = new AccessPolicyService(auth, roles, permissions, {
+    policy: config.accessPolicy,
+    permissionMatcher: config.permissionMatcher,
+  });
+  const encryptionService = new EncryptionService(
+    apiClient,
+    config.encryptionKey,
+    cacheService,
+    config.cache?.encryptionCacheTTL ?? 300,
+  );
+  return {
+    httpClient,
+    apiClient,
+    redis,
+    logger,
+    cacheService,
+    tokenValidation,
+    revocation,
+    auth,
+    roles,
+    permissions,
+    accessPolicy,
+    encryptionService,
+  };
+}
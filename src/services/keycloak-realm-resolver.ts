@@ -0,0 +1,90 @@
+/**
+ * Keycloak realm resolution for multi-realm (one realm per tenant) token validation
+ * Maps a token's `iss` to the Keycloak configuration of the realm that issued it.
+ */
+
+import {
+  KeycloakConfig,
+  KeycloakRealmRegistry,
+} from "../types/token-validation.types";
+
+/**
+ * Issuer of tokens from a realm (tokens always carry the public URL in `iss`)
+ * @param config - Keycloak realm configuration
+ */
+export function keycloakIssuer(config: KeycloakConfig): string {
+  const issuerUrl = config.authServerPublicUrl || config.authServerUrl;
+  return `${issuerUrl}/realms/${config.realm}`;
+}
+
+export class KeycloakRealmResolver {
+  // Lookup cache: issuer -> { config, expiresAt } (misses are cached shorter)
+  private lookupCache = new Map<
+    string,
+    { config: KeycloakConfig | null; expiresAt: number }
+  >();
+  private readonly LOOKUP_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+  private readonly LOOKUP_MISS_TTL_MS = 60 * 1000; // 1 minute
+  private readonly MAX_LOOKUP_ENTRIES = 1000; // bounds caching of unknown issuers
+
+  private registry?: KeycloakRealmRegistry;
+
+  /**
+   * @param registry - Static realm list or async lookup by issuer
+   */
+  constructor(registry?: KeycloakRealmRegistry) {
+    this.registry = registry;
+  }
+
+  /**
+   * Find the realm that issued a token
+   * @param issuer - Token `iss` claim (unverified; jose verifies it against the returned realm)
+   * @param defaultConfig - Default realm (`keycloak` config), checked first
+   * @returns Realm configuration, or null when the issuer is not a known realm
+   */
+  async resolve(
+    issuer: string,
+    defaultConfig?: KeycloakConfig,
+  ): Promise<KeycloakConfig | null> {
+    if (defaultConfig && keycloakIssuer(defaultConfig) === issuer) {
+      return defaultConfig;
+    }
+    if (!this.registry) return null;
+    if (Array.isArray(this.registry)) {
+      return (
+        this.registry.find((realm) => keycloakIssuer(realm) === issuer) ?? null
+      );
+    }
+    return this.lookup(issuer, this.registry);
+  }
+
+  /**
+   * Clear cached lookup results
+   */
+  clearCache(): void {
+    this.lookupCache.clear();
+  }
+
+  private async lookup(
+    issuer: string,
+    lookupFn: (issuer: string) => Promise<KeycloakConfig | null>,
+  ): Promise<KeycloakConfig | null> {
+    const cached = this.lookupCache.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) return cached.config;
+
+    const found = await lookupFn(issuer);
+    // Ignore realms whose issuer does not match (the lookup must not remap issuers)
+    const config = found && keycloakIssuer(found) === issuer ? found : null;
+    if (this.lookupCache.size >= this.MAX_LOOKUP_ENTRIES) {
+      const oldest = this.lookupCache.keys().next().value;
+      if (oldest !== undefined) this.lookupCache.delete(oldest);
+    }
+    this.lookupCache.set(issuer, {
+      config,
+      expiresAt:
+        Date.now() +
+        (config ? this.LOOKUP_CACHE_TTL_MS : this.LOOKUP_MISS_TTL_MS),
+    });
+    return config;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Local RBAC service - evaluates roles and permissions offline from an rbac.yaml policy
+ * Roles are read from the locally verified JWT (`realm_access` / `resource_access`);
+ * permissions are derived from the policy's permissions-to-roles mapping.
+ */
+
+import { MisoClientConfig, RbacConfig } from "../types/config.types";
+import { RbacPolicy } from "../types/rbac.types";
+import { TokenPayload } from "../types/token-validation.types";
+import {
+  getPermissionsForRoles,
+  loadRbacPolicyFile,
+} from "../utils/rbac-policy-loader";
+import { extractErrorInfo } from "../utils/error-extractor";
+import { logErrorWithContext } from "../utils/console-logger";
+import { TokenValidationService } from "./token-validation.service";
+
+export class LocalRbacService {
+  private policy: RbacPolicy;
+  private tokenValidation: TokenValidationService;
+  private resourceClientId?: string;
+  private includeRealmRoles: boolean;
+  private policyRoles: Set<string>;
+
+  /**
+   * Create a LocalRbacService instance
+   * @param policy - RBAC policy (roles plus permissions-to-roles mapping)
+   * @param tokenValidation - Token validation service used to verify JWTs locally
+   * @param options - Claim selection options
+   */
+  constructor(
+    policy: RbacPolicy,
+    tokenValidation: TokenValidationService,
+    options?: Pick<RbacConfig, "resourceClientId" | "includeRealmRoles">,
+  ) {
+    this.policy = policy;
+    this.tokenValidation = tokenValidation;
+    this.resourceClientId = options?.resourceClientId;
+    this.includeRealmRoles = options?.includeRealmRoles ?? true;
+    this.policyRoles = new Set(policy.roles.map((role) => role.value));
+  }
+
+  /**
+   * Extract role values from verified token claims.
+   */
+  private extractRoles(payload: TokenPayload): string[] {
+    const roles: string[] = [];
+    if (this.includeRealmRoles)
+      roles.push(...(payload.realmAccess?.roles || []));
+    const resourceAccess = payload.resourceAccess || {};
+    const clients = this.resourceClientId
+      ? [this.resourceClientId]
+      : Object.keys(resourceAccess);
+    for (const client of clients) {
+      roles.push(...(resourceAccess[client]?.roles || []));
+    }
+    const unique = roles.filter((role, i) => roles.indexOf(role) === i);
+    // Only roles declared in the policy are meaningful (drops e.g. offline_access)
+    return this.policyRoles.size > 0
+      ? unique.filter((role) => this.policyRoles.has(role))
+      : unique;
+  }
+
+  /**
+   * Get user roles from the locally verified token
+   * @param token - User authentication token
+   * @returns Roles declared in the policy and present in the token; [] when the token is invalid
+   */
+  async getRoles(token: string): Promise<string[]> {
+    try {
+      const result = await this.tokenValidation.validateTokenLocal(token);
+      if (!result.valid || !result.payload) return [];
+      return this.extractRoles(result.payload);
+    } catch (error) {
+      const errorInfo = extractErrorInfo(error, {
+        endpoint: "local-rbac",
+        method: "getRoles",
+      });
+      errorInfo.message = `Failed to get local roles: ${errorInfo.message}`;
+      logErrorWithContext(errorInfo, "[LocalRbacService]");
+      return [];
+    }
+  }
+
+  /**
+   * Get user permissions derived from token roles and the policy
+   * @param token - User authentication token
+   * @returns Permissions granted by the user's roles; [] when the token is invalid
+   */
+  async getPermissions(token: string): Promise<string[]> {
+    const roles = await this.getRoles(token);
+    return getPermissionsForRoles(this.policy, roles);
+  }
+
+  /**
+   * Get the loaded policy
+   */
+  getPolicy(): RbacPolicy {
+    return this.policy;
+  }
+}
+
+/**
+ * Create LocalRbacService when `config.rbac.mode` is "local".
+ * @param config - MisoClient configuration
+ * @param tokenValidation - Token validation service
+ * @returns LocalRbacService, or undefined when controller mode is used
+ * @throws Error when local mode is enabled without a policy or the policy is invalid
+ */
+export function createLocalRbacService(
+  config: MisoClientConfig,
+  tokenValidation: TokenValidationService,
+): LocalRbacService | undefined {
+  const rbac = config.rbac;
+  if (!rbac || rbac.mode !== "local") return undefined;
+
+  const policy =
+    rbac.policy ||
+    (rbac.policyPath ? loadRbacPolicyFile(rbac.policyPath) : undefined);
+  if (!policy) {
+    throw new Error(
+      "Local RBAC mode requires rbac.policy or rbac.policyPath to be configured",
+    );
+  }
+  return new LocalRbacService(policy, tokenValidation, {
+    resourceClientId: rbac.resourceClientId ?? config.keycloak?.clientId,
+    includeRealmRoles: rbac.includeRealmRoles,
+  });
+}
@@ -0,0 +1,318 @@
+/**
+ * Log stream consumer
+ * Drains a Redis log stream (see redis-log-stream.ts) into the controller with
+ * LogsCreateApi.createBatchLogs. Messages are acknowledged only after the batch is
+ * accepted, so delivery is at-least-once: failed batches stay pending and are
+ * retried first on the next poll. Messages still pending after `maxDeliveries`
+ * attempts are moved to a dead-letter stream and acknowledged.
+ */
+
+import { hostname } from "os";
+import { RedisService } from "./redis.service";
+import { ApiClient } from "../api";
+import { LogEntry } from "../types/config.types";
+import { getLogStreamKey, LOG_STREAM_FIELD } from "./redis-log-stream";
+
+export interface LogStreamConsumerOptions {
+  /** Stream key (default: audit log stream for the client ID) */
+  stream?: string;
+  /** Consumer group (default: "miso-log-shippers") */
+  group?: string;
+  /** Consumer name, unique per process (default: "{hostname}-{pid}") */
+  consumer?: string;
+  /** Messages per batch (default: 100) */
+  batchSize?: number;
+  /** Poll interval in ms while running (default: 1000) */
+  pollIntervalMs?: number;
+  /** Claim messages left pending this long by other (crashed) consumers, in ms; 0 disables (default: 60000, Redis 6.2+) */
+  claimIdleMs?: number;
+  /** Delivery attempts before a message is moved to the dead-letter stream; 0 disables (default: 5) */
+  maxDeliveries?: number;
+  /** Dead-letter stream key (default: "{stream}:dead-letter") */
+  deadLetterStream?: string;
+}
+
+/** XREADGROUP message: id and flat field/value list (null when trimmed) */
+type StreamMessage = [id: string, fields: string[] | null];
+
+/** XPENDING (extended form) entry */
+type PendingEntry = [
+  id: string,
+  consumer: string,
+  idleMs: number,
+  deliveries: number,
+];
+
+/** Parse the log entry field of a stream message */
+function parseMessage(fields: string[] | null): LogEntry | null {
+  const index = fields ? fields.indexOf(LOG_STREAM_FIELD) : -1;
+  if (!fields || index < 0 || index % 2 !== 0) return null;
+  try {
+    return JSON.parse(fields[index + 1]) as LogEntry;
+  } catch {
+    return null;
+  }
+}
+
+export class LogStreamConsumer {
+  private redis: RedisService;
+  private apiClient: ApiClient;
+  private stream: string;
+  private group: string;
+  private consumer: string;
+  private batchSize: number;
+  private pollIntervalMs: number;
+  private claimIdleMs: number;
+  private maxDeliveries: number;
+  private deadLetterStream: string;
+  // Cleared when the server has no XAUTOCLAIM (Redis < 6.2)
+  private claimSupported = true;
+  private groupReady = false;
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    redis: RedisService,
+    apiClient: ApiClient,
+    clientId: string,
+    options?: LogStreamConsumerOptions,
+  ) {
+    this.redis = redis;
+    this.apiClient = apiClient;
+    this.stream = options?.stream ?? getLogStreamKey("audit-logs", clientId);
+    this.group = options?.group ?? "miso-log-shippers";
+    this.consumer = options?.consumer ?? `${hostname()}-${process.pid}`;
+    this.batchSize = options?.batchSize ?? 100;
+    this.pollIntervalMs = options?.pollIntervalMs ?? 1000;
+    this.claimIdleMs = options?.claimIdleMs ?? 60000;
+    this.maxDeliveries = options?.maxDeliveries ?? 5;
+    this.deadLetterStream =
+      options?.deadLetterStream ?? `${this.stream}:dead-letter`;
+  }
+
+  /**
+   * Ship one batch: pending (unacknowledged) messages first, then new ones.
+   * Pending messages over `maxDeliveries` attempts are dead-lettered instead.
+   * @returns Number of messages acknowledged, shipped or dead-lettered (0 when idle,
+   * Redis is unavailable or delivery failed)
+   */
+  async drainOnce(): Promise<number> {
+    if (!(await this.ensureGroup())) return 0;
+    await this.claimIdle();
+    const pending = await this.read("0");
+    if (pending && pending.length > 0) {
+      const { retry, deadLettered } = await this.deadLetter(pending);
+      return deadLettered + (retry.length > 0 ? await this.ship(retry) : 0);
+    }
+    const messages = pending ? await this.read(">") : null;
+    if (!messages) {
+      // Read failed (e.g. stream deleted) - re-create the group next time
+      this.groupReady = false;
+      return 0;
+    }
+    return messages.length > 0 ? this.ship(messages) : 0;
+  }
+
+  /**
+   * Ship batches until the stream is empty or delivery fails.
+   * @returns Number of messages acknowledged
+   */
+  async drain(): Promise<number> {
+    let total = 0;
+    let shipped: number;
+    do {
+      shipped = await this.drainOnce();
+      total += shipped;
+    } while (shipped > 0);
+    return total;
+  }
+
+  /**
+   * Poll the stream in the background until stop() is called.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling (an in-flight batch still completes).
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.drain().finally(() => {
+        if (this.running) this.schedule(this.pollIntervalMs);
+      });
+    }, delay);
+    // Use unref() so polling doesn't keep the process alive
+    this.timer.unref?.();
+  }
+
+  private async ensureGroup(): Promise<boolean> {
+    if (this.groupReady) return true;
+    this.groupReady = await this.redis.execute(
+      "xgroup",
+      false,
+      async (client) => {
+        try {
+          await client.xgroup(
+            "CREATE",
+            this.stream,
+            this.group,
+            "0",
+            "MKSTREAM",
+          );
+        } catch (error) {
+          // BUSYGROUP: group already exists
+          if (!String(error).includes("BUSYGROUP")) throw error;
+        }
+        return true;
+      },
+      { stream: this.stream, group: this.group },
+    );
+    return this.groupReady;
+  }
+
+  /** Move messages idle on other consumers into this consumer's pending list */
+  private async claimIdle(): Promise<void> {
+    if (this.claimIdleMs <= 0 || !this.claimSupported) return;
+    await this.redis.execute(
+      "xautoclaim",
+      undefined,
+      async (client) => {
+        try {
+          await client.xautoclaim(
+            this.stream,
+            this.group,
+            this.consumer,
+            this.claimIdleMs,
+            "0-0",
+            "COUNT",
+            this.batchSize,
+          );
+        } catch (error) {
+          // Redis < 6.2: detected once, then claiming is skipped
+          if (!/unknown command/i.test(String(error))) throw error;
+          this.claimSupported = false;
+        }
+        return undefined;
+      },
+      { stream: this.stream },
+    );
+  }
+
+  /** Delivery counts of own pending messages (empty on error) */
+  private async deliveryCounts(
+    messages: StreamMessage[],
+  ): Promise<Map<string, number>> {
+    const entries = await this.redis.execute(
+      "xpending",
+      [] as PendingEntry[],
+      async (client) =>
+        (await client.xpending(
+          this.stream,
+          this.group,
+          messages[0][0],
+          messages[messages.length - 1][0],
+          messages.length,
+          this.consumer,
+        )) as PendingEntry[],
+      { stream: this.stream },
+    );
+    return new Map(entries.map(([id, , , deliveries]) => [id, deliveries]));
+  }
+
+  /** Move pending messages over maxDeliveries attempts to the dead-letter stream and acknowledge them */
+  private async deadLetter(
+    messages: StreamMessage[],
+  ): Promise<{ retry: StreamMessage[]; deadLettered: number }> {
+    if (this.maxDeliveries <= 0) return { retry: messages, deadLettered: 0 };
+    const counts = await this.deliveryCounts(messages);
+    const isDead = ([id]: StreamMessage): boolean =>
+      (counts.get(id) ?? 0) > this.maxDeliveries;
+    const dead = messages.filter(isDead);
+    if (dead.length === 0) return { retry: messages, deadLettered: 0 };
+    const moved = await this.redis.execute(
+      "xadd",
+      false,
+      async (client) => {
+        for (const [id, fields] of dead) {
+          // Trimmed messages have nothing to keep and are only acknowledged
+          if (!fields) continue;
+          const deliveries = String(counts.get(id));
+          await client.xadd(
+            this.deadLetterStream,
+            "*",
+            ...fields,
+            "sourceId",
+            id,
+            "deliveries",
+            deliveries,
+          );
+        }
+        await client.xack(this.stream, this.group, ...dead.map(([id]) => id));
+        return true;
+      },
+      { stream: this.stream, deadLetterStream: this.deadLetterStream },
+    );
+    if (!moved) return { retry: messages, deadLettered: 0 };
+    const retry = messages.filter((message) => !isDead(message));
+    return { retry, deadLettered: dead.length };
+  }
+
+  /** Read own pending ("0") or new (">") messages; null on error */
+  private async read(id: "0" | ">"): Promise<StreamMessage[] | null> {
+    return this.redis.execute(
+      "xreadgroup",
+      null,
+      async (client) => {
+        const result = (await client.xreadgroup(
+          "GROUP",
+          this.group,
+          this.consumer,
+          "COUNT",
+          this.batchSize,
+          "STREAMS",
+          this.stream,
+          id,
+        )) as Array<[string, StreamMessage[]]> | null;
+        return result?.[0]?.[1] ?? [];
+      },
+      { stream: this.stream },
+    );
+  }
+
+  /** Deliver a batch and acknowledge it; returns 0 when delivery or XACK fails */
+  private async ship(messages: StreamMessage[]): Promise<number> {
+    // Trimmed or unparsable messages are acknowledged without delivery
+    const logs = messages
+      .map(([, fields]) => parseMessage(fields))
+      .filter((entry): entry is LogEntry => entry !== null);
+    try {
+      if (logs.length > 0) {
+        await this.apiClient.logs.createBatchLogs({ logs });
+      }
+    } catch {
+      // Logged by LogsCreateApi; messages stay pending for retry
+      return 0;
+    }
+    const ids = messages.map(([id]) => id);
+    // 0 when XACK fails: stop draining instead of re-sending the same pending entries
+    return this.redis.execute(
+      "xack",
+      0,
+      (client) => client.xack(this.stream, this.group, ...ids),
+      { stream: this.stream },
+    );
+  }
+}
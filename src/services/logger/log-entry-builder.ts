@@ -6,6 +6,7 @@ import {
   extractJwtContext,
 } from "./logger-context";
 import { pickFirstNonEmpty } from "./trace-field-utils";
+import { getActiveOtelSpan } from "../../utils/trace-context";
 
 export interface BuildLogEntryParams {
   level: LogEntry["level"];
@@ -99,8 +100,29 @@ function resolvePrimaryTraceFields(params: BuildLogEntryParams): {
   };
 }
 
+/** W3C trace IDs: explicit context, else active OpenTelemetry span, else logger context */
+function resolveTraceIds(params: BuildLogEntryParams): {
+  traceId?: string;
+  spanId?: string;
+} {
+  const otel = getActiveOtelSpan()?.spanContext();
+  return {
+    traceId: pickFirstNonEmpty(
+      params.maskedContext?.traceId,
+      otel?.traceId,
+      params.loggerContext?.traceId,
+    ),
+    spanId: pickFirstNonEmpty(
+      params.maskedContext?.spanId,
+      otel?.spanId,
+      params.loggerContext?.spanId,
+    ),
+  };
+}
+
 export function buildLogEntryFromParams(params: BuildLogEntryParams): LogEntry {
   const primaryTraceFields = resolvePrimaryTraceFields(params);
+  const { traceId, spanId } = resolveTraceIds(params);
 
   return {
     timestamp: new Date().toISOString(),
@@ -112,9 +134,16 @@ export function buildLogEntryFromParams(params: BuildLogEntryParams): LogEntry {
     context: params.maskedContext,
     stackTrace: params.stackTrace,
     correlationId: params.correlationId,
+    traceId,
+    spanId,
     userId: primaryTraceFields.userId,
     sessionId: primaryTraceFields.sessionId,
     requestId: primaryTraceFields.requestId,
+    realm: pickFirstNonEmpty(
+      params.loggerContext?.realm,
+      params.jwtContext.realm,
+    ),
+    tenantId: params.loggerContext?.tenantId,
     ipAddress: params.loggerContext?.ipAddress || params.metadata.ipAddress,
     userAgent: params.loggerContext?.userAgent || params.metadata.userAgent,
     referer: params.loggerContext?.referer,
@@ -144,6 +173,10 @@ function createBaseEnrichedContext(
     userId: logEntry.userId,
     sessionId: logEntry.sessionId,
     requestId: logEntry.requestId,
+    traceId: logEntry.traceId,
+    spanId: logEntry.spanId,
+    realm: logEntry.realm,
+    tenantId: logEntry.tenantId,
     ipAddress: logEntry.ipAddress,
     userAgent: logEntry.userAgent,
     referer: logEntry.referer,
@@ -0,0 +1,149 @@
+/**
+ * Log sampling and per-message rate limiting for LoggerService
+ * Entries over the limit are suppressed and counted; the next entry allowed for the
+ * same key carries the count so a "suppressed N similar messages" summary can be logged.
+ * Counts not carried that way are reported through `onSummary` on an interval and when
+ * their key is forgotten, so every suppression is summarized.
+ */
+
+import { LogEntry } from "../../types/config.types";
+import {
+  LogRateLimitConfig,
+  LogSamplingConfig,
+} from "../../types/log-sampling.types";
+
+const DEFAULT_MAX_KEYS = 1000;
+const DEFAULT_SUMMARY_INTERVAL_MS = 10000;
+
+/** Sampling decision for one entry */
+export interface LogAdmission {
+  allowed: boolean;
+  reason?: "sampled" | "rate_limited";
+  /** Message key (rate limiting only) */
+  key?: string;
+  /** Entries suppressed for this key since the last allowed one */
+  suppressed?: number;
+}
+
+/** Entries suppressed for a key that were not followed by an allowed entry */
+export interface SuppressedSummary {
+  key: string;
+  level: LogEntry["level"];
+  /** Last suppressed message */
+  message: string;
+  suppressed: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  suppressed: number;
+  last?: { level: LogEntry["level"]; message: string };
+}
+
+export class LogSampler {
+  private buckets = new Map<string, Bucket>();
+  private summaryTimer?: ReturnType<typeof setInterval>;
+
+  /**
+   * @param config - Sampling and rate limit configuration
+   * @param random - Random source for sampling
+   * @param onSummary - Receives pending suppressed counts (every `rateLimit.summaryInterval` ms and on eviction)
+   */
+  constructor(
+    private config: LogSamplingConfig,
+    private random: () => number = Math.random,
+    private onSummary?: (summary: SuppressedSummary) => void,
+  ) {
+    if (config.rateLimit && onSummary) {
+      this.summaryTimer = setInterval(
+        () => this.flush(),
+        config.rateLimit.summaryInterval ?? DEFAULT_SUMMARY_INTERVAL_MS,
+      );
+      this.summaryTimer.unref?.();
+    }
+  }
+
+  /**
+   * Decide whether an entry is logged
+   * @param level - Log level (audit always passes)
+   * @param message - Log message
+   * @param context - Log context (passed to a custom key function)
+   * @param now - Current time in ms
+   */
+  admit(
+    level: LogEntry["level"],
+    message: string,
+    context?: Record<string, unknown>,
+    now: number = Date.now(),
+  ): LogAdmission {
+    if (level === "audit") return { allowed: true };
+    const rate = this.config.rates?.[level];
+    if (rate !== undefined && rate < 1 && this.random() >= rate) {
+      return { allowed: false, reason: "sampled" };
+    }
+    const limit = this.config.rateLimit;
+    if (!limit || (limit.levels && !limit.levels.includes(level))) {
+      return { allowed: true };
+    }
+    const key = limit.key
+      ? limit.key(level, message, context)
+      : `${level}:${message}`;
+    const bucket = this.refill(key, now, limit);
+    if (bucket.tokens < 1) {
+      bucket.suppressed++;
+      bucket.last = { level, message };
+      return { allowed: false, reason: "rate_limited", key };
+    }
+    bucket.tokens--;
+    const suppressed = bucket.suppressed;
+    bucket.suppressed = 0;
+    return { allowed: true, key, suppressed };
+  }
+
+  /**
+   * Report and reset the suppressed counts of all keys through `onSummary`
+   */
+  flush(): void {
+    for (const [key, bucket] of this.buckets) this.summarize(key, bucket);
+  }
+
+  /**
+   * Stop the summary timer and report pending suppressed counts
+   */
+  stop(): void {
+    if (this.summaryTimer) {
+      clearInterval(this.summaryTimer);
+      this.summaryTimer = undefined;
+    }
+    this.flush();
+  }
+
+  private summarize(key: string, bucket: Bucket): void {
+    if (!bucket.suppressed || !bucket.last || !this.onSummary) return;
+    this.onSummary({ key, ...bucket.last, suppressed: bucket.suppressed });
+    bucket.suppressed = 0;
+  }
+
+  /** Bucket for a key, refilled up to `now` (moved to most recently used) */
+  private refill(key: string, now: number, limit: LogRateLimitConfig): Bucket {
+    const { burst, perSecond, maxKeys } = limit;
+    let bucket = this.buckets.get(key);
+    if (bucket) {
+      this.buckets.delete(key);
+      const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+      bucket.tokens = Math.min(burst, bucket.tokens + elapsed * perSecond);
+      bucket.updatedAt = now;
+    } else {
+      bucket = { tokens: burst, updatedAt: now, suppressed: 0 };
+      const oldest = this.buckets.keys().next();
+      if (this.buckets.size >= (maxKeys ?? DEFAULT_MAX_KEYS) && !oldest.done) {
+        const evicted = this.buckets.get(oldest.value);
+        if (evicted) this.summarize(oldest.value, evicted);
+        this.buckets.delete(oldest.value);
+      }
+    }
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+}
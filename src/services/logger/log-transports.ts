@@ -0,0 +1,131 @@
+/**
+ * Log transport pipeline for LoggerService
+ * Builds transports from config and dispatches each entry to every matching one.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { LogEntry } from "../../types/config.types";
+import {
+  ConsoleTransportOptions,
+  LogTransport,
+  LogTransportConfig,
+  LogTransportOptions,
+} from "../../types/log-transport.types";
+import { createPrettyFormatter, supportsColor } from "./pretty-log-format";
+
+/** Senders for transports that need LoggerService internals */
+export interface BuiltinLogSenders {
+  controller: (entry: LogEntry) => Promise<void>;
+  redis: (entry: LogEntry) => Promise<void>;
+  events: (entry: LogEntry) => void;
+}
+
+/**
+ * Console transport: one JSON line per entry, or colored human-readable lines with
+ * `output: "pretty"` (errors to stderr, others to stdout)
+ * @param options - Levels, filter, format, output and colors
+ */
+export function createConsoleTransport(
+  options: ConsoleTransportOptions = {},
+): LogTransport {
+  const { output, colors, ...routing } = options;
+  const render =
+    output === "pretty"
+      ? createPrettyFormatter(colors ?? supportsColor())
+      : (entry: LogEntry) => JSON.stringify(entry);
+  return {
+    ...routing,
+    name: "console",
+    send: (entry) => {
+      const line = render(entry);
+      if (entry.level === "error") {
+        // eslint-disable-next-line no-console -- Console transport output
+        console.error(line);
+      } else {
+        // eslint-disable-next-line no-console -- Console transport output
+        console.log(line);
+      }
+    },
+  };
+}
+
+/**
+ * File transport: appends NDJSON (parent directory created on first write). Node.js only.
+ * @param filePath - Target file
+ * @param options - Levels, filter and format
+ */
+export function createFileTransport(
+  filePath: string,
+  options?: LogTransportOptions,
+): LogTransport {
+  let ready: Promise<unknown> | null = null;
+  // Writes run in call order
+  let tail: Promise<unknown> = Promise.resolve();
+  return {
+    ...options,
+    name: "file",
+    send: (entry) => {
+      ready ??= fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const write = tail
+        .then(() => ready)
+        .then(() =>
+          fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`),
+        );
+      tail = write.catch(() => undefined);
+      return write;
+    },
+  };
+}
+
+function buildTransport(
+  config: LogTransportConfig,
+  senders: BuiltinLogSenders,
+): LogTransport {
+  if ("send" in config) return config;
+  const { type, ...options } = config;
+  switch (config.type) {
+    case "console":
+      return createConsoleTransport(options);
+    case "file":
+      return createFileTransport(config.path, options);
+    default:
+      return { ...options, name: type, send: senders[config.type] };
+  }
+}
+
+/**
+ * Build transports from config
+ * @param configs - Transport configs or custom transports
+ * @param senders - Senders for "controller", "redis" and "events"
+ * @returns Transports in config order
+ */
+export function buildLogTransports(
+  configs: LogTransportConfig[],
+  senders: BuiltinLogSenders,
+): LogTransport[] {
+  return configs.map((config) => buildTransport(config, senders));
+}
+
+/**
+ * Send an entry to every transport whose levels and filter accept it.
+ * Transport errors are swallowed so one failing destination never blocks the others.
+ */
+export async function dispatchToTransports(
+  transports: LogTransport[],
+  entry: LogEntry,
+): Promise<void> {
+  await Promise.all(
+    transports.map(async (transport) => {
+      if (transport.levels && !transport.levels.includes(entry.level)) return;
+      try {
+        if (transport.filter && !transport.filter(entry)) return;
+        await transport.send(
+          transport.format ? transport.format(entry) : entry,
+        );
+      } catch {
+        // Never break logging
+      }
+    }),
+  );
+}
@@ -24,6 +24,15 @@ export interface LoggerContext {
   requestId?: string;
   requestSize?: number;
   token?: string; // JWT token for extraction
+  // Keycloak realm / tenant (realm from the token issuer; both set by validateTokenLocal)
+  realm?: string;
+  tenantId?: string;
+  // W3C Trace Context (from traceparent or generated per request)
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  traceFlags?: string;
+  traceState?: string;
 }
 
 /**
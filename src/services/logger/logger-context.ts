@@ -11,15 +11,22 @@ import { extractRequestContext } from "../../utils/request-context";
 import { ApplicationContextService } from "../application-context.service";
 import { pickFirstNonEmpty } from "./trace-field-utils";
 
+/** Keycloak realm name from an issuer URL (".../realms/<realm>") */
+function realmFromIssuer(iss: unknown): string | undefined {
+  if (typeof iss !== "string") return undefined;
+  return /\/realms\/([^/]+)\/?$/.exec(iss)?.[1];
+}
+
 /**
  * Extract JWT token information
  * @param token - JWT token string
- * @returns Extracted context with userId, applicationId, sessionId, roles, permissions
+ * @returns Extracted context with userId, applicationId, sessionId, realm, roles, permissions
  */
 export function extractJwtContext(token?: string): {
   userId?: string;
   applicationId?: string;
   sessionId?: string;
+  realm?: string;
   roles?: string[];
   permissions?: string[];
 } {
@@ -37,6 +44,7 @@ export function extractJwtContext(token?: string): {
         | string
         | undefined,
       sessionId: (decoded.sessionId || decoded.sid) as string | undefined,
+      realm: realmFromIssuer(decoded.iss),
       roles: (decoded.roles ||
         (decoded.realm_access as { roles?: string[] } | undefined)?.roles ||
         []) as string[],
@@ -13,6 +13,39 @@ export function isAuthError(error: unknown): boolean {
   return (error as { statusCode?: number }).statusCode === 401;
 }
 
+function assertNever(value: never): never {
+  throw new Error(`Unhandled log level: ${String(value)}`);
+}
+
+/** Controller log type and level for a log entry level */
+export function mapLogType(level: LogEntry["level"]): {
+  logType: "audit" | "error" | "general";
+  logLevel: "info" | "warn" | "error" | "debug";
+} {
+  const logType =
+    level === "audit" ? "audit" : level === "error" ? "error" : "general";
+  let logLevel: "info" | "warn" | "error" | "debug";
+  switch (level) {
+    case "audit":
+    case "info":
+      logLevel = "info";
+      break;
+    case "warn":
+      logLevel = "warn";
+      break;
+    case "error":
+      logLevel = "error";
+      break;
+    case "debug":
+      logLevel = "debug";
+      break;
+    default:
+      logLevel = assertNever(level);
+  }
+
+  return { logType, logLevel };
+}
+
 export async function sendAuditLogPayload(
   apiClient: ApiClient,
   logEntry: LogEntry,
@@ -7,9 +7,17 @@ import { Request } from "express";
 import { HttpClient } from "../../utils/http-client";
 import { ApiClient } from "../../api";
 import { RedisService } from "../redis.service";
+import { appendLogsToStream, getLogStreamKey } from "../redis-log-stream";
 import { DataMasker } from "../../utils/data-masker";
 import { LogEntry } from "../../types/config.types";
+import {
+  LogTransport,
+  LogTransportConfig,
+} from "../../types/log-transport.types";
 import { AuditLogQueue } from "../../utils/audit-log-queue";
+import { LogSpool, spoolOrDrop } from "../../utils/log-spool";
+import { LogCircuitBreaker } from "../../utils/log-circuit-breaker";
+import { sdkMetrics } from "../../utils/sdk-metrics";
 import { LoggerChain } from "./logger-chain";
 import { ApplicationContextService } from "../application-context.service";
 import { LoggerContextStorage } from "./logger-context-storage";
@@ -19,8 +27,18 @@ import {
   getLogWithRequest,
   getWithContext,
 } from "./logger-context";
-import { isAuthError, sendAuditLogPayload } from "./logger-http-utils";
+import {
+  isAuthError,
+  mapLogType,
+  sendAuditLogPayload,
+} from "./logger-http-utils";
 import { shouldLogLevel } from "./log-level-policy";
+import {
+  buildLogTransports,
+  createConsoleTransport,
+  dispatchToTransports,
+} from "./log-transports";
+import { LogSampler, SuppressedSummary } from "./log-sampler";
 import {
   buildEnrichedLogContext,
   buildLogEntryFromParams,
@@ -58,13 +76,14 @@ export class LoggerService extends EventEmitter {
   private maskSensitiveData = true; // Default: mask sensitive data
   private correlationCounter = 0;
   private auditLogQueue: AuditLogQueue | null = null;
+  private spool?: LogSpool;
+  private transports?: { source: LogTransportConfig[]; built: LogTransport[] };
+  private sampler?: LogSampler;
+  private consoleTransport?: LogTransport;
   private applicationContextService: ApplicationContextService;
   private loggerContextStorage = LoggerContextStorage.getInstance();
   // Circuit breaker for HTTP logging - skip attempts after repeated failures
-  private httpLoggingFailures = 0;
-  private httpLoggingDisabledUntil: number | null = null;
-  private static readonly MAX_FAILURES = 3;
-  private static readonly DISABLE_DURATION_MS = 60000; // 1 minute
+  private circuitBreaker = new LogCircuitBreaker();
 
   constructor(httpClient: HttpClient, redis: RedisService) {
     super(); // Initialize EventEmitter
@@ -72,8 +91,29 @@ export class LoggerService extends EventEmitter {
     this.httpClient = httpClient;
     this.applicationContextService = new ApplicationContextService(httpClient);
 
-    // Initialize audit log queue if batch logging is enabled
+    const { consoleOutput } = this.httpClient.config;
+    if (consoleOutput) {
+      this.consoleTransport = createConsoleTransport({ output: consoleOutput });
+    }
+    const { logSampling } = this.httpClient.config;
+    if (logSampling) {
+      const onSummary = (summary: SuppressedSummary): void => {
+        this.writeSummary(summary).catch(() => undefined);
+      };
+      this.sampler = new LogSampler(logSampling, Math.random, onSummary);
+    }
     const auditConfig = this.httpClient.config.audit || {};
+    if (auditConfig.spool) {
+      this.spool = new LogSpool(auditConfig.spool);
+      this.spool.startReplay(
+        async (logs) => {
+          if (!this.apiClient) throw new Error("ApiClient not initialized");
+          await this.apiClient.logs.createBatchLogs({ logs });
+        },
+        () => !this.circuitBreaker.isOpen(),
+      );
+    }
+    // Initialize audit log queue if batch logging is enabled
     if (
       auditConfig.batchSize !== undefined ||
       auditConfig.batchInterval !== undefined
@@ -83,10 +123,17 @@ export class LoggerService extends EventEmitter {
         redis,
         this.httpClient.config,
         this,
+        this.spool,
       );
     }
   }
 
+  /** Stop background work (disk spool replay, log sampling summaries) */
+  stop(): void {
+    this.spool?.stop();
+    this.sampler?.stop();
+  }
+
   setHttpClient(httpClient: HttpClient): void {
     this.httpClient = httpClient;
     this.applicationContextService = new ApplicationContextService(httpClient);
@@ -201,7 +248,7 @@ export class LoggerService extends EventEmitter {
     }
   }
   /**
-   * Internal log method with enhanced features
+   * Internal log method: level, sampling and rate limit checks (audit always passes)
    */
   private async log(
     level: LogEntry["level"],
@@ -213,7 +260,36 @@ export class LoggerService extends EventEmitter {
     if (!shouldLogLevel(this.httpClient.config.logLevel, level)) {
       return;
     }
+    const admission = this.sampler?.admit(level, message, context);
+    if (admission && !admission.allowed) {
+      sdkMetrics.logsDropped.inc({ reason: admission.reason ?? "sampled" });
+      return;
+    }
+    if (admission?.key && admission.suppressed) {
+      const { key, suppressed } = admission;
+      await this.writeSummary({ key, level, message, suppressed });
+    }
+    await this.write(level, message, context, stackTrace, options);
+  }
 
+  /** Log a "suppressed N similar messages" summary for a rate limited key */
+  private async writeSummary(summary: SuppressedSummary): Promise<void> {
+    const { key, level, message, suppressed } = summary;
+    const text = `Suppressed ${suppressed} similar messages: ${message}`;
+    await this.write(level, text, {
+      messageKey: key,
+      suppressedCount: suppressed,
+    });
+  }
+
+  /** Build, mask and route one entry */
+  private async write(
+    level: LogEntry["level"],
+    message: string,
+    context?: Record<string, unknown>,
+    stackTrace?: string,
+    options?: ClientLoggingOptions,
+  ): Promise<void> {
     const loggerContext = this.loggerContextStorage.getContext() || {};
     const jwtContext = loggerContext.token
       ? extractJwtContext(loggerContext.token)
@@ -240,12 +316,26 @@ export class LoggerService extends EventEmitter {
       clientId: this.httpClient.config.clientId,
     });
 
+    await this.route(logEntry);
+  }
+
+  /** Dispatch to configured transports, else (console output plus) events -> audit queue -> Redis -> HTTP */
+  private async route(logEntry: LogEntry): Promise<void> {
+    const transports = this.getTransports();
+    if (transports) {
+      await dispatchToTransports(transports, logEntry);
+      return;
+    }
+    if (this.consoleTransport) {
+      await dispatchToTransports([this.consoleTransport], logEntry);
+    }
+
     if (this.httpClient.config.emitEvents) {
       this.emit("log", logEntry);
       return;
     }
 
-    if (level === "audit" && this.auditLogQueue) {
+    if (logEntry.level === "audit" && this.auditLogQueue) {
       await this.auditLogQueue.add(logEntry);
       return;
     }
@@ -254,11 +344,37 @@ export class LoggerService extends EventEmitter {
       return;
     }
 
-    if (this.isCircuitOpen()) {
+    await this.sendToController(logEntry);
+  }
+
+  /** Transports built from config.logTransports (rebuilt when the array changes) */
+  private getTransports(): LogTransport[] | null {
+    const configs = this.httpClient.config.logTransports;
+    if (!configs) return null;
+    if (this.transports?.source !== configs) {
+      const built = buildLogTransports(configs, {
+        controller: (entry) =>
+          entry.level === "audit" && this.auditLogQueue
+            ? this.auditLogQueue.add(entry)
+            : this.sendToController(entry),
+        redis: async (entry) => {
+          await this.sendToRedis(entry);
+        },
+        events: (entry) => this.emit("log", entry),
+      });
+      this.transports = { source: configs, built };
+    }
+    return this.transports.built;
+  }
+
+  /** HTTP unless the circuit is open (spooled when configured) */
+  private async sendToController(logEntry: LogEntry): Promise<void> {
+    if (this.circuitBreaker.isOpen()) {
+      await spoolOrDrop(this.spool, [logEntry], "circuit_open");
       return;
     }
 
-    await this.sendToHttp(level, logEntry);
+    await this.sendToHttp(logEntry.level, logEntry);
   }
 
   /**
@@ -279,47 +395,16 @@ export class LoggerService extends EventEmitter {
     if (!this.redis.isConnected()) {
       return false;
     }
-    const queueName = `logs:${this.httpClient.config.clientId}`;
+    const { clientId, redis: redisConfig } = this.httpClient.config;
+    if (redisConfig?.logQueue === "stream") {
+      const stream = getLogStreamKey("logs", clientId);
+      return appendLogsToStream(this.redis, stream, [logEntry], redisConfig);
+    }
+    const queueName = `logs:${clientId}`;
     const success = await this.redis.rpush(queueName, JSON.stringify(logEntry));
     return Boolean(success);
   }
 
-  private isCircuitOpen(): boolean {
-    const now = Date.now();
-    return Boolean(
-      this.httpLoggingDisabledUntil && now < this.httpLoggingDisabledUntil,
-    );
-  }
-  private mapLogType(level: LogEntry["level"]): {
-    logType: "audit" | "error" | "general";
-    logLevel: "info" | "warn" | "error" | "debug";
-  } {
-    const logType =
-      level === "audit" ? "audit" : level === "error" ? "error" : "general";
-    let logLevel: "info" | "warn" | "error" | "debug";
-    switch (level) {
-      case "audit":
-      case "info":
-        logLevel = "info";
-        break;
-      case "warn":
-        logLevel = "warn";
-        break;
-      case "error":
-        logLevel = "error";
-        break;
-      case "debug":
-        logLevel = "debug";
-        break;
-      default:
-        logLevel = this.assertNever(level);
-    }
-
-    return { logType, logLevel };
-  }
-  private assertNever(value: never): never {
-    throw new Error(`Unhandled log level: ${String(value)}`);
-  }
   private async sendToHttp(
     level: LogEntry["level"],
     logEntry: LogEntry,
@@ -331,7 +416,7 @@ export class LoggerService extends EventEmitter {
           "ApiClient not initialized. Call setApiClient() before logging.",
         );
       }
-      const { logType, logLevel } = this.mapLogType(level);
+      const { logType, logLevel } = mapLogType(level);
       const enrichedContext = buildEnrichedLogContext(logEntry);
 
       if (level === "audit") {
@@ -353,16 +438,11 @@ export class LoggerService extends EventEmitter {
           },
         });
       }
-      this.httpLoggingFailures = 0;
-      this.httpLoggingDisabledUntil = null;
+      this.circuitBreaker.record(true, now);
     } catch (error) {
       if (!isAuthError(error)) {
-        this.httpLoggingFailures++;
-        if (this.httpLoggingFailures >= LoggerService.MAX_FAILURES) {
-          this.httpLoggingDisabledUntil =
-            now + LoggerService.DISABLE_DURATION_MS;
-          this.httpLoggingFailures = 0;
-        }
+        await spoolOrDrop(this.spool, [logEntry], "delivery_failed");
+        this.circuitBreaker.record(false, now);
       }
     }
   }
@@ -0,0 +1,97 @@
+/**
+ * Human-readable log lines for local development (console transport "pretty" output)
+ * e.g. `12:04:05.123 WARN  [corr-1] user=u1 Slow query  table=orders durationMs=1200`
+ */
+
+import { LogEntry } from "../../types/config.types";
+
+const LEVEL_COLORS: Record<LogEntry["level"], string> = {
+  error: "31", // red
+  warn: "33", // yellow
+  info: "32", // green
+  debug: "90", // gray
+  audit: "36", // cyan
+};
+
+/** Correlation IDs whose last context is remembered for diffs */
+const MAX_TRACKED_CONTEXTS = 200;
+
+function paint(text: string, code: string, colors: boolean): string {
+  return colors ? `\u001b[${code}m${text}\u001b[0m` : text;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string")
+    return /\s/.test(value) ? JSON.stringify(value) : value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime())
+    ? timestamp
+    : date.toISOString().slice(11, 23);
+}
+
+/** Whether color output is appropriate (TTY and NO_COLOR unset) */
+export function supportsColor(): boolean {
+  if (typeof process === "undefined") return false;
+  return Boolean(process.stdout?.isTTY) && !process.env.NO_COLOR;
+}
+
+/**
+ * Create a pretty formatter. Context is printed as a diff: for entries sharing a
+ * correlation ID, only keys added or changed since the previous entry are shown.
+ * @param colors - Use ANSI colors
+ * @returns Function that renders an entry (stack trace on following lines)
+ */
+export function createPrettyFormatter(
+  colors: boolean,
+): (entry: LogEntry) => string {
+  const lastContexts = new Map<string, Record<string, string>>();
+
+  const contextDiff = (entry: LogEntry): string[] => {
+    const current: Record<string, string> = {};
+    for (const [key, value] of Object.entries(entry.context ?? {})) {
+      if (value !== undefined) current[key] = formatValue(value);
+    }
+    const previous = entry.correlationId
+      ? lastContexts.get(entry.correlationId)
+      : undefined;
+    if (entry.correlationId) {
+      lastContexts.delete(entry.correlationId);
+      lastContexts.set(entry.correlationId, current);
+      if (lastContexts.size > MAX_TRACKED_CONTEXTS) {
+        lastContexts.delete(lastContexts.keys().next().value as string);
+      }
+    }
+    return Object.entries(current)
+      .filter(([key, value]) => previous?.[key] !== value)
+      .map(([key, value]) => `${paint(key, "2", colors)}=${value}`);
+  };
+
+  return (entry) => {
+    const parts = [
+      paint(formatTime(entry.timestamp), "2", colors),
+      paint(
+        entry.level.toUpperCase().padEnd(5),
+        LEVEL_COLORS[entry.level],
+        colors,
+      ),
+    ];
+    if (entry.correlationId) {
+      parts.push(paint(`[${entry.correlationId}]`, "2", colors));
+    }
+    if (entry.userId) parts.push(paint(`user=${entry.userId}`, "2", colors));
+    parts.push(entry.message);
+    const diff = contextDiff(entry);
+    let line = parts.join(" ");
+    if (diff.length > 0) line += `  ${diff.join(" ")}`;
+    if (entry.stackTrace) line += `\n${paint(entry.stackTrace, "2", colors)}`;
+    return line;
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * OpenID Connect discovery (`/.well-known/openid-configuration`)
+ * Loads and caches provider metadata (issuer, JWKS URI, algorithms, endpoints) for
+ * Keycloak, Entra ID, Auth0 and other OIDC providers.
+ */
+
+import { OidcDiscoveryDocument } from "../types/token-validation.types";
+
+/** Path of the discovery document, relative to the issuer */
+export const OIDC_DISCOVERY_PATH = "/.well-known/openid-configuration";
+
+/** Error code used by OidcDiscoveryError (mapped to errorCode "discovery_failed") */
+export const OIDC_DISCOVERY_ERROR_CODE = "ERR_OIDC_DISCOVERY_FAILED";
+
+/**
+ * Discovery document could not be loaded or does not belong to the issuer
+ */
+export class OidcDiscoveryError extends Error {
+  readonly code = OIDC_DISCOVERY_ERROR_CODE;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcDiscoveryError";
+  }
+}
+
+/**
+ * Discovery URL of an issuer (trailing slashes, e.g. Auth0 issuers, are removed)
+ * @param issuer - Issuer URL
+ */
+export function discoveryUrl(issuer: string): string {
+  return `${issuer.replace(/\/+$/, "")}${OIDC_DISCOVERY_PATH}`;
+}
+
+export class OidcDiscoveryService {
+  // Document cache: discovery URL -> { document, expiresAt } (in-flight loads are shared)
+  private cache = new Map<
+    string,
+    { document: Promise<OidcDiscoveryDocument>; expiresAt: number }
+  >();
+  private readonly CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+  private timeoutMs: number;
+
+  /**
+   * @param timeoutMs - Request timeout for loading a document (default 10 seconds)
+   */
+  constructor(timeoutMs = 10000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Load the discovery document of an issuer (cached for 1 hour)
+   * @param issuer - Expected `issuer` of the document
+   * @param url - Discovery URL (default: derived from the issuer, e.g. override with an internal URL)
+   * @returns Discovery document
+   * @throws OidcDiscoveryError when the document cannot be loaded, is invalid or has another issuer
+   */
+  async discover(
+    issuer: string,
+    url: string = discoveryUrl(issuer),
+  ): Promise<OidcDiscoveryDocument> {
+    const cached = this.cache.get(url);
+    if (cached && cached.expiresAt > Date.now()) return cached.document;
+
+    const document = this.load(issuer, url);
+    this.cache.set(url, {
+      document,
+      expiresAt: Date.now() + this.CACHE_TTL_MS,
+    });
+    // Failed loads are retried on the next call
+    document.catch(() => {
+      if (this.cache.get(url)?.document === document) this.cache.delete(url);
+    });
+    return document;
+  }
+
+  /**
+   * Clear cached documents
+   * @param url - Specific discovery URL to clear, or all if not provided
+   */
+  clearCache(url?: string): void {
+    if (url) {
+      this.cache.delete(url);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private async load(
+    issuer: string,
+    url: string,
+  ): Promise<OidcDiscoveryDocument> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    let body: unknown;
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: "application/json" },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new OidcDiscoveryError(
+          `OIDC discovery failed for ${url}: HTTP ${response.status}`,
+        );
+      }
+      body = await response.json();
+    } catch (error) {
+      if (error instanceof OidcDiscoveryError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new OidcDiscoveryError(
+        `OIDC discovery failed for ${url}: ${message}`,
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+    return this.checkDocument(body, issuer, url);
+  }
+
+  private checkDocument(
+    body: unknown,
+    issuer: string,
+    url: string,
+  ): OidcDiscoveryDocument {
+    const document = body as Partial<OidcDiscoveryDocument> | null;
+    if (
+      typeof document?.issuer !== "string" ||
+      typeof document.jwks_uri !== "string"
+    ) {
+      throw new OidcDiscoveryError(
+        `OIDC discovery document at ${url} is missing issuer or jwks_uri`,
+      );
+    }
+    // OpenID Connect Discovery 1.0, section 4.3: the issuer must match exactly
+    if (document.issuer !== issuer) {
+      throw new OidcDiscoveryError(
+        `OIDC discovery issuer mismatch: expected ${issuer}, got ${document.issuer}`,
+      );
+    }
+    return document as OidcDiscoveryDocument;
+  }
+}
@@ -5,11 +5,29 @@
 import { HttpClient } from "../utils/http-client";
 import { ApiClient } from "../api";
 import { CacheService } from "./cache.service";
-import { AuthStrategy, AuthMethod } from "../types/config.types";
+import {
+  AuthStrategy,
+  AuthMethod,
+  PermissionExplanation,
+  PermissionMatcher,
+} from "../types/config.types";
 import { extractUserIdFromToken } from "../utils/browser-jwt-decoder";
 import { ApplicationContextService } from "./application-context.service";
+import { LocalRbacService } from "./local-rbac.service";
 import { extractErrorInfo } from "../utils/error-extractor";
 import { logErrorWithContext } from "../utils/console-logger";
+import {
+  getWithRevalidation,
+  RevalidationOptions,
+  SingleFlight,
+} from "../utils/cache-revalidation";
+import {
+  buildPermissionExplanation,
+  PermissionResolution,
+  findMissingPermissions,
+  hasMatchingPermission,
+  resolvePermissionMatcher,
+} from "../utils/permission-matcher";
 
 interface PermissionCacheData {
   permissions: string[];
@@ -21,18 +39,32 @@ export class PermissionService {
   private apiClient: ApiClient;
   private cache: CacheService;
   private permissionTTL: number;
+  private revalidation: RevalidationOptions;
   private applicationContextService: ApplicationContextService;
+  private localRbac?: LocalRbacService;
+  private permissionMatcher: PermissionMatcher;
 
   constructor(
     httpClient: HttpClient,
     apiClient: ApiClient,
     cache: CacheService,
+    localRbac?: LocalRbacService,
   ) {
     this.cache = cache;
+    this.localRbac = localRbac;
     this.httpClient = httpClient;
     this.apiClient = apiClient;
     this.permissionTTL = this.httpClient.config.cache?.permissionTTL || 900; // 15 minutes default
+    this.revalidation = {
+      ttl: this.permissionTTL,
+      staleTtl: this.httpClient.config.cache?.staleWhileRevalidate || 0,
+      flights: new SingleFlight(),
+      logContext: "[PermissionService]",
+    };
     this.applicationContextService = new ApplicationContextService(httpClient);
+    this.permissionMatcher = resolvePermissionMatcher(
+      this.httpClient.config.permissionMatcher,
+    );
   }
 
   /**
@@ -76,7 +108,9 @@ export class PermissionService {
   }
 
   /**
-   * Get user permissions with caching
+   * Get user permissions with caching (or from the rbac policy in local RBAC mode)
+   * Concurrent cache misses for a user are coalesced into one controller call;
+   * with `cache.staleWhileRevalidate`, expired permissions are served while one refresh runs
    * @param token - User authentication token
    * @param authStrategy - Optional authentication strategy override
    */
@@ -84,35 +118,28 @@ export class PermissionService {
     token: string,
     authStrategy?: AuthStrategy,
   ): Promise<string[]> {
+    if (this.localRbac) return this.localRbac.getPermissions(token);
     try {
-      let userId = extractUserIdFromToken(token);
-      const cacheKey = userId ? `permissions:${userId}` : null;
-
-      // Check cache first
-      if (cacheKey) {
-        const cached = await this.cache.get<PermissionCacheData>(cacheKey);
-        if (cached) return cached.permissions || [];
-      }
-
-      // Resolve userId if not in token
-      if (!userId) {
-        userId = await this.resolveUserId(token, authStrategy);
-        if (!userId) return [];
-      }
-
-      // Fetch from controller
-      const permissions = await this.fetchPermissionsFromController(
-        token,
-        authStrategy,
-      );
+      // Resolve userId from the JWT, or via the controller if not in token
+      const userId =
+        extractUserIdFromToken(token) ||
+        (await this.resolveUserId(token, authStrategy));
+      if (!userId) return [];
 
-      // Cache result
-      await this.cache.set<PermissionCacheData>(
+      // Cached permissions; concurrent misses share one controller call
+      const cached = await getWithRevalidation<PermissionCacheData>(
+        this.cache,
         `permissions:${userId}`,
-        { permissions, timestamp: Date.now() },
-        this.permissionTTL,
+        async () => ({
+          permissions: await this.fetchPermissionsFromController(
+            token,
+            authStrategy,
+          ),
+          timestamp: Date.now(),
+        }),
+        this.revalidation,
       );
-      return permissions;
+      return cached?.permissions || [];
     } catch (error) {
       const errorInfo = extractErrorInfo(error, {
         endpoint: "/api/auth/permissions",
@@ -153,7 +180,11 @@ export class PermissionService {
     authStrategy?: AuthStrategy,
   ): Promise<boolean> {
     const permissions = await this.getPermissions(token, authStrategy);
-    return permissions.includes(permission);
+    return hasMatchingPermission(
+      permissions,
+      permission,
+      this.permissionMatcher,
+    );
   }
 
   /**
@@ -169,7 +200,11 @@ export class PermissionService {
   ): Promise<boolean> {
     const userPermissions = await this.getPermissions(token, authStrategy);
     return permissions.some((permission) =>
-      userPermissions.includes(permission),
+      hasMatchingPermission(
+        userPermissions,
+        permission,
+        this.permissionMatcher,
+      ),
     );
   }
 
@@ -185,11 +220,78 @@ export class PermissionService {
     authStrategy?: AuthStrategy,
   ): Promise<boolean> {
     const userPermissions = await this.getPermissions(token, authStrategy);
-    return permissions.every((permission) =>
-      userPermissions.includes(permission),
+    return (
+      findMissingPermissions(
+        userPermissions,
+        permissions,
+        this.permissionMatcher,
+      ).length === 0
     );
   }
 
+  /**
+   * Explain a permission check: resolved userId, permission source (memory, Redis,
+   * controller or local RBAC), cache age, auth methods, granted and missing permissions
+   * @param token - User authentication token
+   * @param permissions - Permission or permissions to check
+   * @param authStrategy - Optional authentication strategy override
+   */
+  async explainPermission(
+    token: string,
+    permissions: string | string[],
+    authStrategy?: AuthStrategy,
+  ): Promise<PermissionExplanation> {
+    const required = Array.isArray(permissions) ? permissions : [permissions];
+    const authMethods = this.buildAuthStrategy(token, authStrategy).methods;
+    const explain = (
+      resolution: Omit<PermissionResolution, "authMethods">,
+    ): PermissionExplanation =>
+      buildPermissionExplanation(
+        { ...resolution, authMethods },
+        required,
+        this.permissionMatcher,
+      );
+
+    if (this.localRbac) {
+      const userPermissions = await this.localRbac.getPermissions(token);
+      const userId = extractUserIdFromToken(token);
+      return explain({ userId, source: "local", userPermissions });
+    }
+    try {
+      const userId = await this.resolveUserId(token, authStrategy);
+      if (!userId) {
+        return explain({ userId, source: "controller", userPermissions: [] });
+      }
+      const cached = await this.cache.getWithSource<PermissionCacheData>(
+        `permissions:${userId}`,
+      );
+      if (cached) {
+        return explain({
+          userId,
+          source: cached.source,
+          userPermissions: cached.value.permissions || [],
+          cachedAt: cached.value.timestamp,
+        });
+      }
+      const userPermissions = await this.getPermissions(token, authStrategy);
+      return explain({ userId, source: "controller", userPermissions });
+    } catch (error) {
+      const errorInfo = extractErrorInfo(error, {
+        endpoint: "/api/auth/permissions",
+        method: "GET",
+        correlationId: (error as { correlationId?: string })?.correlationId,
+      });
+      errorInfo.message = `Failed to explain permissions: ${errorInfo.message}`;
+      logErrorWithContext(errorInfo, "[PermissionService]");
+      return explain({
+        userId: null,
+        source: "controller",
+        userPermissions: [],
+        error: errorInfo.message,
+      });
+    }
+  }
+
   /**
    * Force refresh permissions from controller (bypass cache)
    * @param token - User authentication token
@@ -199,6 +301,7 @@ export class PermissionService {
     token: string,
     authStrategy?: AuthStrategy,
   ): Promise<string[]> {
+    if (this.localRbac) return this.localRbac.getPermissions(token);
     try {
       const authStrategyWithToken = this.buildAuthStrategy(token, authStrategy);
       const userInfo = await this.apiClient.auth.validateToken(
@@ -245,6 +348,7 @@ export class PermissionService {
     token: string,
     authStrategy?: AuthStrategy,
   ): Promise<void> {
+    if (this.localRbac) return; // Local RBAC mode does not cache permissions
     try {
       const authStrategyWithToken = this.buildAuthStrategy(token, authStrategy);
       const userInfo = await this.apiClient.auth.validateToken(
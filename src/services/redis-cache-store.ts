@@ -0,0 +1,42 @@
+/**
+ * CacheStore backed by RedisService (keys are scoped by RedisConfig.keyPrefix)
+ */
+
+import { CacheStore } from "../types/cache-store.types";
+import { RedisService } from "./redis.service";
+
+export class RedisCacheStore implements CacheStore {
+  private redis: RedisService;
+
+  constructor(redis: RedisService) {
+    this.redis = redis;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.redis.get(key);
+  }
+
+  async set(key: string, value: string, ttl: number): Promise<boolean> {
+    return this.redis.set(key, value, ttl);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.redis.delete(key);
+  }
+
+  async scan(pattern: string): Promise<string[]> {
+    return this.redis.scan(pattern);
+  }
+
+  async ttl(key: string): Promise<number | null> {
+    return this.redis.ttl(key);
+  }
+
+  async deleteByPattern(pattern: string): Promise<number> {
+    return this.redis.deleteByPattern(pattern);
+  }
+
+  isAvailable(): boolean {
+    return this.redis.isConnected();
+  }
+}
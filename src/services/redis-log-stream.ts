@@ -0,0 +1,67 @@
+/**
+ * Redis Streams log queue
+ * Entries are appended with XADD (approximate MAXLEN retention) so they can be
+ * consumed by a consumer group and acknowledged after delivery (LogStreamConsumer).
+ */
+
+import { RedisService } from "./redis.service";
+import { LogEntry, RedisConfig } from "../types/config.types";
+
+/** Stream message field holding the JSON log entry */
+export const LOG_STREAM_FIELD = "log";
+
+/** Default approximate maximum stream length */
+export const DEFAULT_LOG_STREAM_MAX_LEN = 100000;
+
+/**
+ * Stream key for a log kind ("logs" for general logs, "audit-logs" for batched audit logs)
+ * @param kind - Log kind (same prefix as the list queue)
+ * @param clientId - Application client ID
+ * @returns Stream key, e.g. "audit-logs:ctrl-dev-my-app:stream"
+ */
+export function getLogStreamKey(
+  kind: "logs" | "audit-logs",
+  clientId: string,
+): string {
+  return `${kind}:${clientId}:stream`;
+}
+
+/**
+ * Append log entries to a stream in one MULTI transaction (one message per entry).
+ * @param redis - Redis service
+ * @param stream - Stream key
+ * @param entries - Log entries
+ * @param config - Redis config (logStreamMaxLen)
+ * @returns True if all entries were appended
+ */
+export async function appendLogsToStream(
+  redis: RedisService,
+  stream: string,
+  entries: LogEntry[],
+  config?: RedisConfig,
+): Promise<boolean> {
+  const maxLen = config?.logStreamMaxLen ?? DEFAULT_LOG_STREAM_MAX_LEN;
+  return redis.execute(
+    "xadd",
+    false,
+    async (client) => {
+      const transaction = client.multi();
+      for (const entry of entries) {
+        transaction.xadd(
+          stream,
+          "MAXLEN",
+          "~",
+          maxLen,
+          "*",
+          LOG_STREAM_FIELD,
+          JSON.stringify(entry),
+        );
+      }
+      const results = await transaction.exec();
+      const failed = !results || results.some(([error]) => error);
+      if (failed) throw new Error("Transaction failed");
+      return true;
+    },
+    { stream, entries: entries.length },
+  );
+}
@@ -1,21 +1,54 @@
 /**
  * Redis service for caching and log queuing
+ * Emits `stateChange` (and the new state name) on connection state transitions
+ * and reconnects in the background with exponential backoff when Redis is down.
  */
 
-import Redis from "ioredis";
-import { RedisConfig } from "../types/config.types";
+import { EventEmitter } from "events";
+import Redis, { Cluster } from "ioredis";
+import {
+  RedisConfig,
+  RedisConnectionState,
+  RedisStateChange,
+} from "../types/config.types";
+import { escapeGlob } from "../utils/glob-pattern";
+import {
+  createRedisClient,
+  DEFAULT_REDIS_KEY_PREFIX,
+} from "../utils/redis-connection";
+import { recordRedisState } from "../utils/sdk-metrics";
 
-export class RedisService {
-  private redis?: Redis;
+/** Keys requested per SCAN iteration */
+const SCAN_COUNT = 500;
+
+/** Default background reconnect delays */
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class RedisService extends EventEmitter {
+  private redis?: Redis | Cluster;
+  private subscriber?: Redis | Cluster;
+  private channelHandlers: Map<string, Array<(message: string) => void>> =
+    new Map();
   private config?: RedisConfig;
   private connected = false;
+  private state: RedisConnectionState = "disconnected";
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempt = 0;
 
   constructor(config?: RedisConfig) {
+    super(); // Initialize EventEmitter
     this.config = config;
   }
 
   /**
-   * Connect to Redis if configured.
+   * Connect to Redis if configured (single node, URL, Sentinel or Cluster).
+   * On failure the error is rethrown and a background reconnect is scheduled
+   * (unless `reconnect: false`).
    */
   async connect(): Promise<void> {
     if (!this.config) {
@@ -23,63 +56,129 @@ export class RedisService {
       return;
     }
 
+    this.clearReconnectTimer();
     try {
-      this.redis = new Redis({
-        host: this.config.host,
-        port: this.config.port,
-        password: this.config.password,
-        db: this.config.db || 0,
-        keyPrefix: this.config.keyPrefix || "miso:",
-        maxRetriesPerRequest: 3,
-        lazyConnect: true,
-        enableReadyCheck: false, // Disable ready check to avoid this.info error
-        disableClientInfo: true, // Disable client info for Redis < 7.2 compatibility
-      });
-
-      await this.redis.connect();
-      this.connected = true;
+      await this.openConnection(this.config);
       // Connection successful - no need to log in production
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error("Failed to connect to Redis:", {
-        errorMessage: error instanceof Error ? error.message : String(error),
+        errorMessage: toErrorMessage(error),
       });
-      this.connected = false;
+      this.scheduleReconnect();
       throw error;
     }
   }
 
   /**
-   * Disconnect from Redis.
+   * Disconnect from Redis and stop background reconnection.
    */
   async disconnect(): Promise<void> {
-    if (this.redis) {
-      await this.redis.disconnect();
+    this.clearReconnectTimer();
+    const subscriber = this.subscriber;
+    const client = this.redis;
+    this.subscriber = undefined;
+    this.redis = undefined;
+    this.connected = false;
+    if (subscriber) await subscriber.disconnect();
+    if (client) await client.disconnect();
+    this.setState("disconnected");
+    // Disconnection successful - no need to log in production
+  }
+
+  /**
+   * Current connection state.
+   */
+  getState(): RedisConnectionState {
+    return this.state;
+  }
+
+  /** Create client, wait until connected and restore pub/sub subscriptions */
+  private async openConnection(config: RedisConfig): Promise<void> {
+    this.setState("connecting");
+    const client = createRedisClient(config);
+    this.redis = client;
+    this.attachListeners(client);
+    try {
+      await client.connect();
+    } catch (error) {
+      // Stop the client's own retries; background reconnect takes over
+      this.redis = undefined;
       this.connected = false;
-      // Disconnection successful - no need to log in production
+      client.disconnect();
+      this.setState("down", error);
+      throw error;
+    }
+    this.connected = true;
+    this.reconnectAttempt = 0;
+    this.setState("ready");
+    await this.restoreSubscriptions();
+  }
+
+  /** Track live connection state of the current client */
+  private attachListeners(client: Redis | Cluster): void {
+    client.on("ready", () => {
+      if (client !== this.redis || this.state !== "degraded") return;
+      this.connected = true;
+      this.setState("ready");
+    });
+    client.on("reconnecting", () => {
+      if (client !== this.redis || this.state === "connecting") return;
+      this.connected = false;
+      this.setState("degraded");
+    });
+    client.on("end", () => {
+      if (client !== this.redis) return;
+      this.redis = undefined;
+      this.connected = false;
+      this.setState("down");
+      this.scheduleReconnect();
+    });
+    // Errors are reported via state transitions; listener prevents unhandled error events
+    client.on("error", () => undefined);
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.config || this.config.reconnect === false || this.reconnectTimer)
+      return;
+    const initial = this.config.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+    const max =
+      this.config.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS;
+    const delay = Math.min(initial * 2 ** this.reconnectAttempt, max);
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (!this.config) return;
+      this.openConnection(this.config).catch(() => this.scheduleReconnect());
+    }, delay);
+    // Use unref() so the timer doesn't keep the process alive
+    this.reconnectTimer.unref?.();
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
     }
   }
 
+  private setState(state: RedisConnectionState, error?: unknown): void {
+    if (state === this.state) return;
+    const change: RedisStateChange = { state, previous: this.state };
+    if (error !== undefined) change.error = toErrorMessage(error);
+    this.state = state;
+    recordRedisState(state);
+    this.emit("stateChange", change);
+    this.emit(state, change);
+  }
+
   /**
    * Get a cached value by key.
    * @param key - Cache key.
    * @returns Cached value or null.
    */
   async get(key: string): Promise<string | null> {
-    if (!this.redis || !this.connected) {
-      return null;
-    }
-
-    try {
-      return await this.redis.get(key);
-    } catch (error) {
-      // eslint-disable-next-line no-console
-      console.error("Redis get error:", {
-        key,
-        errorMessage: error instanceof Error ? error.message : String(error),
-      });
-      return null;
-    }
+    return this.execute("get", null, (client) => client.get(key), { key });
   }
 
   /**
@@ -90,46 +189,145 @@ export class RedisService {
    * @returns True if set succeeded.
    */
   async set(key: string, value: string, ttl: number): Promise<boolean> {
+    return this.execute(
+      "set",
+      false,
+      async (client) => {
+        await client.setex(key, ttl, value);
+        return true;
+      },
+      { key },
+    );
+  }
+
+  /**
+   * Delete a cached value.
+   * @param key - Cache key.
+   * @returns True if delete succeeded.
+   */
+  async delete(key: string): Promise<boolean> {
+    return this.execute(
+      "delete",
+      false,
+      async (client) => {
+        await client.del(key);
+        return true;
+      },
+      { key },
+    );
+  }
+
+  /**
+   * Delete all keys matching a glob pattern using SCAN + UNLINK (non-blocking).
+   * @param pattern - Glob pattern relative to keyPrefix (e.g. "permissions:*").
+   * @returns Number of keys deleted (0 when disconnected or on error).
+   */
+  async deleteByPattern(pattern: string): Promise<number> {
     if (!this.redis || !this.connected) {
-      return false;
+      return 0;
     }
 
+    const client = this.redis;
+    let deleted = 0;
     try {
-      await this.redis.setex(key, ttl, value);
-      return true;
+      await this.scanPages(pattern, async (keys) => {
+        if (this.isCluster()) {
+          // One key per call on Cluster: keys span slots
+          const counts = await Promise.all(keys.map((k) => client.unlink(k)));
+          deleted += counts.reduce((sum, count) => sum + count, 0);
+        } else {
+          deleted += await client.unlink(...keys);
+        }
+      });
+      return deleted;
     } catch (error) {
       // eslint-disable-next-line no-console
-      console.error("Redis set error:", {
-        key,
-        errorMessage: error instanceof Error ? error.message : String(error),
+      console.error("Redis deleteByPattern error:", {
+        pattern,
+        deleted,
+        errorMessage: toErrorMessage(error),
       });
-      return false;
+      return deleted;
     }
   }
 
   /**
-   * Delete a cached value.
-   * @param key - Cache key.
-   * @returns True if delete succeeded.
+   * List keys matching a glob pattern using SCAN (non-blocking).
+   * @param pattern - Glob pattern relative to keyPrefix (e.g. "permissions:*").
+   * @returns Matching keys without keyPrefix (empty when disconnected or on error).
    */
-  async delete(key: string): Promise<boolean> {
+  async scan(pattern: string): Promise<string[]> {
     if (!this.redis || !this.connected) {
-      return false;
+      return [];
     }
 
+    const found: string[] = [];
     try {
-      await this.redis.del(key);
-      return true;
+      await this.scanPages(pattern, async (keys) => {
+        found.push(...keys);
+      });
+      return found;
     } catch (error) {
       // eslint-disable-next-line no-console
-      console.error("Redis delete error:", {
-        key,
-        errorMessage: error instanceof Error ? error.message : String(error),
+      console.error("Redis scan error:", {
+        pattern,
+        errorMessage: toErrorMessage(error),
       });
-      return false;
+      return [];
     }
   }
 
+  /**
+   * Get the remaining time to live of a key.
+   * @param key - Cache key.
+   * @returns Remaining TTL in seconds, or null when missing, without expiry or on error.
+   */
+  async ttl(key: string): Promise<number | null> {
+    return this.execute(
+      "ttl",
+      null,
+      async (client) => {
+        const seconds = await client.ttl(key);
+        return seconds >= 0 ? seconds : null;
+      },
+      { key },
+    );
+  }
+
+  /** SCAN every node (each master on Cluster) and pass non-empty pages of unprefixed keys */
+  private async scanPages(
+    pattern: string,
+    onKeys: (keys: string[]) => Promise<void>,
+  ): Promise<void> {
+    // SCAN MATCH and returned keys are not affected by ioredis keyPrefix; other commands are
+    const keyPrefix = this.getKeyPrefix();
+    const match = `${escapeGlob(keyPrefix)}${pattern}`;
+    const nodes = this.isCluster()
+      ? (this.redis as Cluster).nodes("master")
+      : [this.redis as Redis];
+    for (const node of nodes) {
+      let cursor = "0";
+      do {
+        const [next, keys] = await node.scan(
+          cursor,
+          "MATCH",
+          match,
+          "COUNT",
+          SCAN_COUNT,
+        );
+        cursor = next;
+        if (keys.length > 0) {
+          await onKeys(keys.map((key) => key.slice(keyPrefix.length)));
+        }
+      } while (cursor !== "0");
+    }
+  }
+
+  /** Whether the client is a Redis Cluster client */
+  private isCluster(): boolean {
+    return !!this.config?.cluster && this.config.cluster.length > 0;
+  }
+
   /**
    * Push a value onto a Redis list.
    * @param queue - Queue/list name.
@@ -137,23 +335,137 @@ export class RedisService {
    * @returns True if push succeeded.
    */
   async rpush(queue: string, value: string): Promise<boolean> {
+    return this.execute(
+      "rpush",
+      false,
+      async (client) => {
+        await client.rpush(queue, value);
+        return true;
+      },
+      { queue },
+    );
+  }
+
+  /**
+   * Publish a message on a pub/sub channel.
+   * @param channel - Channel name (not affected by keyPrefix).
+   * @param message - Serialized message.
+   * @returns True if publish succeeded.
+   */
+  async publish(channel: string, message: string): Promise<boolean> {
+    return this.execute(
+      "publish",
+      false,
+      async (client) => {
+        await client.publish(channel, message);
+        return true;
+      },
+      { channel },
+    );
+  }
+
+  /**
+   * Run a command on the connected client.
+   * Errors are logged as `Redis {name} error:` and never thrown.
+   * @param name - Command name for error logs.
+   * @param fallback - Result when disconnected or on error.
+   * @param command - Command to run (keys are subject to keyPrefix).
+   * @param details - Extra error log fields (e.g. key).
+   * @returns Command result or fallback.
+   */
+  async execute<T>(
+    name: string,
+    fallback: T,
+    command: (client: Redis | Cluster) => Promise<T>,
+    details?: Record<string, unknown>,
+  ): Promise<T> {
+    if (!this.redis || !this.connected) {
+      return fallback;
+    }
+
+    try {
+      return await command(this.redis);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Redis ${name} error:`, {
+        ...details,
+        errorMessage: toErrorMessage(error),
+      });
+      return fallback;
+    }
+  }
+
+  /**
+   * Subscribe to a pub/sub channel on a dedicated subscriber connection.
+   * @param channel - Channel name (not affected by keyPrefix).
+   * @param handler - Called with each message received on the channel.
+   * @returns True if subscribe succeeded.
+   */
+  async subscribe(
+    channel: string,
+    handler: (message: string) => void,
+  ): Promise<boolean> {
     if (!this.redis || !this.connected) {
       return false;
     }
 
     try {
-      await this.redis.rpush(queue, value);
+      if (!this.subscriber) {
+        this.subscriber = this.createSubscriber(this.redis);
+      }
+      if (!this.channelHandlers.has(channel)) {
+        await this.subscriber.subscribe(channel);
+      }
+      this.channelHandlers.set(channel, [
+        ...(this.channelHandlers.get(channel) || []),
+        handler,
+      ]);
       return true;
     } catch (error) {
       // eslint-disable-next-line no-console
-      console.error("Redis rpush error:", {
-        queue,
-        errorMessage: error instanceof Error ? error.message : String(error),
+      console.error("Redis subscribe error:", {
+        channel,
+        errorMessage: toErrorMessage(error),
       });
       return false;
     }
   }
 
+  /** A connection in subscriber mode cannot run regular commands */
+  private createSubscriber(client: Redis | Cluster): Redis | Cluster {
+    const subscriber = client.duplicate();
+    subscriber.on("message", (channel: string, message: string) => {
+      this.channelHandlers.get(channel)?.forEach((h) => h(message));
+    });
+    return subscriber;
+  }
+
+  /** Re-subscribe existing channel handlers after a new connection is opened */
+  private async restoreSubscriptions(): Promise<void> {
+    if (!this.redis || this.channelHandlers.size === 0) return;
+    try {
+      await this.subscriber?.disconnect();
+      this.subscriber = this.createSubscriber(this.redis);
+      await this.subscriber.subscribe(...this.channelHandlers.keys());
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error("Redis subscribe error:", {
+        channels: [...this.channelHandlers.keys()],
+        errorMessage: toErrorMessage(error),
+      });
+    }
+  }
+
+  /**
+   * Key prefix applied to all keys (also used to scope pub/sub channels).
+   */
+  getKeyPrefix(): string {
+    return this.config?.keyPrefix || DEFAULT_REDIS_KEY_PREFIX;
+  }
+
+  /**
+   * Whether Redis is currently usable (live state; false while degraded or down).
+   */
   isConnected(): boolean {
     return this.connected;
   }
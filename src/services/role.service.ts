@@ -8,8 +8,14 @@ import { CacheService } from "./cache.service";
 import { AuthStrategy, AuthMethod } from "../types/config.types";
 import { extractUserIdFromToken } from "../utils/browser-jwt-decoder";
 import { ApplicationContextService } from "./application-context.service";
+import { LocalRbacService } from "./local-rbac.service";
 import { extractErrorInfo } from "../utils/error-extractor";
 import { logErrorWithContext } from "../utils/console-logger";
+import {
+  getWithRevalidation,
+  RevalidationOptions,
+  SingleFlight,
+} from "../utils/cache-revalidation";
 
 interface RoleCacheData {
   roles: string[];
@@ -21,17 +27,27 @@ export class RoleService {
   private apiClient: ApiClient;
   private cache: CacheService;
   private roleTTL: number;
+  private revalidation: RevalidationOptions;
   private applicationContextService: ApplicationContextService;
+  private localRbac?: LocalRbacService;
 
   constructor(
     httpClient: HttpClient,
     apiClient: ApiClient,
     cache: CacheService,
+    localRbac?: LocalRbacService,
   ) {
     this.cache = cache;
+    this.localRbac = localRbac;
     this.httpClient = httpClient;
     this.apiClient = apiClient;
     this.roleTTL = this.httpClient.config.cache?.roleTTL || 900; // 15 minutes default
+    this.revalidation = {
+      ttl: this.roleTTL,
+      staleTtl: this.httpClient.config.cache?.staleWhileRevalidate || 0,
+      flights: new SingleFlight(),
+      logContext: "[RoleService]",
+    };
     this.applicationContextService = new ApplicationContextService(httpClient);
   }
 
@@ -76,7 +92,9 @@ export class RoleService {
   }
 
   /**
-   * Get user roles with Redis caching
+   * Get user roles with Redis caching (or from the verified JWT in local RBAC mode)
+   * Concurrent cache misses for a user are coalesced into one controller call;
+   * with `cache.staleWhileRevalidate`, expired roles are served while one refresh runs
    * @param token - User authentication token
    * @param authStrategy - Optional authentication strategy override
    */
@@ -84,32 +102,25 @@ export class RoleService {
     token: string,
     authStrategy?: AuthStrategy,
   ): Promise<string[]> {
+    if (this.localRbac) return this.localRbac.getRoles(token);
     try {
-      let userId = extractUserIdFromToken(token);
-      const cacheKey = userId ? `roles:${userId}` : null;
-
-      // Check cache first
-      if (cacheKey) {
-        const cached = await this.cache.get<RoleCacheData>(cacheKey);
-        if (cached) return cached.roles || [];
-      }
-
-      // Resolve userId if not in token
-      if (!userId) {
-        userId = await this.resolveUserId(token, authStrategy);
-        if (!userId) return [];
-      }
-
-      // Fetch from controller
-      const roles = await this.fetchRolesFromController(token, authStrategy);
+      // Resolve userId from the JWT, or via the controller if not in token
+      const userId =
+        extractUserIdFromToken(token) ||
+        (await this.resolveUserId(token, authStrategy));
+      if (!userId) return [];
 
-      // Cache result
-      await this.cache.set<RoleCacheData>(
+      // Cached roles; concurrent misses share one controller call
+      const cached = await getWithRevalidation<RoleCacheData>(
+        this.cache,
         `roles:${userId}`,
-        { roles, timestamp: Date.now() },
-        this.roleTTL,
+        async () => ({
+          roles: await this.fetchRolesFromController(token, authStrategy),
+          timestamp: Date.now(),
+        }),
+        this.revalidation,
       );
-      return roles;
+      return cached?.roles || [];
     } catch (error) {
       const errorInfo = extractErrorInfo(error, {
         endpoint: "/api/auth/roles",
@@ -192,6 +203,7 @@ export class RoleService {
     token: string,
     authStrategy?: AuthStrategy,
   ): Promise<string[]> {
+    if (this.localRbac) return this.localRbac.getRoles(token);
     try {
       const authStrategyWithToken = this.buildAuthStrategy(token, authStrategy);
       const userInfo = await this.apiClient.auth.validateToken(
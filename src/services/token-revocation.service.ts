@@ -0,0 +1,138 @@
+/**
+ * Token revocation list for local JWT validation
+ * Revoked token IDs (`jti`) and sessions (`sid`) are stored through CacheService, so
+ * with Redis every instance sharing the key prefix sees a logout immediately.
+ */
+
+import { decodeJwt } from "jose";
+import { CacheService } from "./cache.service";
+
+/** Seconds a revoked session stays listed (covers refreshed tokens; Keycloak SSO Session Max is 10h) */
+export const DEFAULT_SESSION_REVOCATION_TTL = 10 * 60 * 60;
+
+/** Seconds a revoked token ID stays listed when the token has no `exp` */
+const DEFAULT_TOKEN_REVOCATION_TTL = 60 * 60;
+
+const revokedTokenKey = (jti: string): string => `revoked:jti:${jti}`;
+const revokedSessionKey = (sid: string): string => `revoked:sid:${sid}`;
+const revokedSubjectKey = (sub: string): string => `revoked:sub:${sub}`;
+
+/** Non-empty string claim (absent or empty claims are never looked up) */
+const isClaim = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+/** Claims used for revocation checks */
+export interface RevocationClaims {
+  jti?: unknown;
+  sid?: unknown;
+  sub?: unknown;
+  iat?: unknown;
+}
+
+export class TokenRevocationService {
+  private cache: CacheService;
+
+  constructor(cache: CacheService) {
+    this.cache = cache;
+  }
+
+  /**
+   * Revoke a token by its `jti` (until `exp`) and its session by `sid`
+   * @param token - JWT (signature is not verified)
+   * @returns True if the token had a `jti` or `sid` to revoke
+   */
+  async revokeToken(token: string): Promise<boolean> {
+    let claims: Record<string, unknown>;
+    try {
+      claims = decodeJwt(token);
+    } catch {
+      return false;
+    }
+    const { jti, sid, exp } = claims;
+    if (isClaim(jti)) {
+      const remaining =
+        typeof exp === "number"
+          ? exp - Math.floor(Date.now() / 1000)
+          : DEFAULT_TOKEN_REVOCATION_TTL;
+      if (remaining > 0) await this.revokeTokenId(jti, remaining);
+    }
+    if (isClaim(sid)) await this.revokeSession(sid);
+    return isClaim(jti) || isClaim(sid);
+  }
+
+  /**
+   * Revoke a single token ID
+   * @param jti - JWT ID claim
+   * @param ttlSeconds - How long to keep it listed (normally until the token expires)
+   */
+  async revokeTokenId(
+    jti: string,
+    ttlSeconds: number = DEFAULT_TOKEN_REVOCATION_TTL,
+  ): Promise<void> {
+    await this.add(revokedTokenKey(jti), ttlSeconds);
+  }
+
+  /**
+   * Revoke every token of a session (e.g. logout, back-channel logout)
+   * @param sid - Session ID claim
+   * @param ttlSeconds - How long to keep it listed (default 10 hours)
+   */
+  async revokeSession(
+    sid: string,
+    ttlSeconds: number = DEFAULT_SESSION_REVOCATION_TTL,
+  ): Promise<void> {
+    await this.add(revokedSessionKey(sid), ttlSeconds);
+  }
+
+  /**
+   * Revoke every token issued to a user up to now (logout of all sessions)
+   * @param sub - Subject (user ID) claim
+   * @param ttlSeconds - How long to keep it listed (default 10 hours)
+   */
+  async revokeSubject(
+    sub: string,
+    ttlSeconds: number = DEFAULT_SESSION_REVOCATION_TTL,
+  ): Promise<void> {
+    await this.add(revokedSubjectKey(sub), ttlSeconds);
+  }
+
+  /**
+   * Whether a token's `jti` or `sid` is revoked, or its `sub` was revoked after `iat`
+   * (only claims present on the token are looked up)
+   * @param claims - Verified token payload
+   */
+  async isRevoked(claims: RevocationClaims | undefined): Promise<boolean> {
+    const keys: string[] = [];
+    if (isClaim(claims?.jti)) keys.push(revokedTokenKey(claims.jti));
+    if (isClaim(claims?.sid)) keys.push(revokedSessionKey(claims.sid));
+    for (const key of keys) {
+      if ((await this.cache.get<number>(key)) !== null) return true;
+    }
+    if (!isClaim(claims?.sub)) return false;
+    const revokedAt = await this.cache.get<number>(
+      revokedSubjectKey(claims.sub),
+    );
+    if (revokedAt === null) return false;
+    // Tokens without iat are treated as issued before the revocation
+    return typeof claims.iat !== "number" || claims.iat * 1000 <= revokedAt;
+  }
+
+  /**
+   * Whether a token is revoked (see isRevoked); tokens that are not JWTs are never revoked
+   * @param token - JWT (signature is not verified; use for tokens already validated elsewhere)
+   */
+  async isTokenRevoked(token: string): Promise<boolean> {
+    let claims: RevocationClaims;
+    try {
+      claims = decodeJwt(token);
+    } catch {
+      return false;
+    }
+    return this.isRevoked(claims);
+  }
+
+  /** CacheService.set never throws (Redis errors fall back to memory) */
+  private async add(key: string, ttlSeconds: number): Promise<void> {
+    await this.cache.set(key, Date.now(), Math.max(1, Math.ceil(ttlSeconds)));
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * JWT validation policy helpers for TokenValidationService
+ * Maps policies to jose verify options, checks policy claims and classifies jose errors.
+ */
+
+import type { JWTVerifyOptions } from "jose";
+import {
+  TokenPayload,
+  TokenValidationErrorCode,
+  TokenValidationPolicy,
+} from "../types/token-validation.types";
+import { OIDC_DISCOVERY_ERROR_CODE } from "./oidc-discovery.service";
+
+/** Structured validation failure */
+export interface TokenValidationFailure {
+  errorCode: TokenValidationErrorCode;
+  error: string;
+}
+
+/**
+ * Merge a per-call policy over a provider policy (fields set in the override win)
+ */
+export function mergePolicies(
+  base?: TokenValidationPolicy,
+  override?: TokenValidationPolicy,
+): TokenValidationPolicy | undefined {
+  return override ? { ...base, ...override } : base;
+}
+
+/**
+ * jose verify options enforced during signature verification
+ */
+export function toVerifyOptions(
+  policy?: TokenValidationPolicy,
+): JWTVerifyOptions {
+  const options: JWTVerifyOptions = {};
+  if (!policy) return options;
+  if (policy.algorithms) options.algorithms = policy.algorithms;
+  if (policy.clockTolerance !== undefined)
+    options.clockTolerance = policy.clockTolerance;
+  if (policy.maxTokenAge !== undefined)
+    options.maxTokenAge = policy.maxTokenAge;
+  if (policy.requiredClaims) options.requiredClaims = policy.requiredClaims;
+  return options;
+}
+
+const missingClaim = (claim: string): TokenValidationFailure => ({
+  errorCode: "missing_claim",
+  error: `missing required "${claim}" claim`,
+});
+
+const invalidClaim = (claim: string): TokenValidationFailure => ({
+  errorCode: "invalid_claim",
+  error: `unexpected "${claim}" claim value`,
+});
+
+/** Check azp, typ and scope against the policy */
+function checkStandardClaims(
+  payload: TokenPayload,
+  policy: TokenValidationPolicy,
+): TokenValidationFailure | null {
+  if (policy.authorizedParty !== undefined) {
+    const allowed = ([] as string[]).concat(policy.authorizedParty);
+    if (typeof payload.azp !== "string") return missingClaim("azp");
+    if (!allowed.includes(payload.azp)) return invalidClaim("azp");
+  }
+  if (policy.typ !== undefined) {
+    if (payload.typ === undefined) return missingClaim("typ");
+    if (payload.typ !== policy.typ) return invalidClaim("typ");
+  }
+  if (policy.requiredScopes?.length) {
+    if (typeof payload.scope !== "string") return missingClaim("scope");
+    const scopes = payload.scope.split(/\s+/);
+    const missing = policy.requiredScopes.filter((s) => !scopes.includes(s));
+    if (missing.length > 0) {
+      return {
+        errorCode: "invalid_claim",
+        error: `missing required scope: ${missing.join(" ")}`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check policy claims not covered by jose (azp, typ, scope, custom validators)
+ * @param payload - Verified token payload
+ * @param policy - Validation policy
+ * @returns Failure, or null when the payload satisfies the policy
+ */
+export async function checkPolicyClaims(
+  payload: TokenPayload,
+  policy: TokenValidationPolicy,
+): Promise<TokenValidationFailure | null> {
+  const failure = checkStandardClaims(payload, policy);
+  if (failure) return failure;
+  for (const validator of policy.claimValidators ?? []) {
+    const error = await validator(payload);
+    if (error) return { errorCode: "invalid_claim", error };
+  }
+  return null;
+}
+
+/** Claim validation failure → error code (jose reports the claim and a reason) */
+function classifyClaimError(
+  claim: unknown,
+  reason: unknown,
+): TokenValidationErrorCode {
+  if (reason === "missing") return "missing_claim";
+  if (claim === "nbf") return "not_yet_valid";
+  if (claim === "iss") return "invalid_issuer";
+  if (claim === "aud") return "invalid_audience";
+  return "invalid_claim";
+}
+
+/**
+ * Classify a jose verification error by its `code`
+ * @param error - Error thrown during decoding or verification
+ * @returns Structured error code ("validation_failed" when unknown)
+ */
+export function classifyValidationError(
+  error: unknown,
+): TokenValidationErrorCode {
+  const { code, claim, reason } = (error ?? {}) as Record<string, unknown>;
+  switch (code) {
+    case "ERR_JWT_EXPIRED":
+      return claim === "iat" ? "token_too_old" : "expired";
+    case "ERR_JWT_CLAIM_VALIDATION_FAILED":
+      return classifyClaimError(claim, reason);
+    case "ERR_JWS_SIGNATURE_VERIFICATION_FAILED":
+    case "ERR_JWKS_NO_MATCHING_KEY":
+    case "ERR_JWKS_MULTIPLE_MATCHING_KEYS":
+      return "invalid_signature";
+    case "ERR_JOSE_ALG_NOT_ALLOWED":
+      return "algorithm_not_allowed";
+    case "ERR_JWT_INVALID":
+    case "ERR_JWS_INVALID":
+      return "malformed";
+    case OIDC_DISCOVERY_ERROR_CODE:
+      return "discovery_failed";
+    default:
+      return "validation_failed";
+  }
+}
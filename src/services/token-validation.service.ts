@@ -8,17 +8,49 @@ import {
   decodeJwt,
   createRemoteJWKSet,
   JWTVerifyGetKey,
+  JWTVerifyOptions,
 } from "jose";
 import {
-  TokenType,
   TokenValidationOptions,
   TokenValidationResult,
   TokenPayload,
   KeycloakConfig,
   DelegatedProviderConfig,
   ValidationCacheEntry,
+  TokenValidationErrorCode,
+  TokenValidationPolicy,
+  KeycloakRealmRegistry,
 } from "../types/token-validation.types";
 import { resolveKeycloakUrl } from "../utils/controller-url-resolver";
+import {
+  checkPolicyClaims,
+  classifyValidationError,
+  mergePolicies,
+  toVerifyOptions,
+} from "./token-validation-policy";
+import type { TokenRevocationService } from "./token-revocation.service";
+import {
+  KeycloakRealmResolver,
+  keycloakIssuer,
+} from "./keycloak-realm-resolver";
+import { LoggerContextStorage } from "./logger/logger-context-storage";
+import {
+  OidcDiscoveryService,
+  OIDC_DISCOVERY_PATH,
+} from "./oidc-discovery.service";
+
+/** Definitive failures that are cached like valid results */
+const CACHEABLE_ERROR_CODES = new Set<TokenValidationErrorCode>([
+  "expired",
+  "invalid_signature",
+  "algorithm_not_allowed",
+  "malformed",
+]);
+
+/** JWKS location: a fixed URI, or the `jwks_uri` of an issuer's OIDC discovery document */
+type KeySource =
+  | { jwksUri: string }
+  | { issuer: string; discoveryUrl?: string };
 
 export class TokenValidationService {
   // JWKS cache: jwksUri -> { keySet, expiresAt }
@@ -33,9 +65,23 @@ export class TokenValidationService {
   private readonly RESULT_CACHE_TTL_MS = 60 * 1000; // 1 minute
 
   private keycloakConfig?: KeycloakConfig;
+  private revocation?: TokenRevocationService;
+  private realms: KeycloakRealmResolver;
+  private discovery = new OidcDiscoveryService();
 
-  constructor(keycloakConfig?: KeycloakConfig) {
+  /**
+   * @param keycloakConfig - Keycloak server configuration (default realm)
+   * @param revocation - Revocation list consulted before any valid result is returned
+   * @param realms - Additional realms (one per tenant), routed by the token's `iss`
+   */
+  constructor(
+    keycloakConfig?: KeycloakConfig,
+    revocation?: TokenRevocationService,
+    realms?: KeycloakRealmRegistry,
+  ) {
     this.keycloakConfig = keycloakConfig;
+    this.revocation = revocation;
+    this.realms = new KeycloakRealmResolver(realms);
   }
 
   /**
@@ -46,6 +92,14 @@ export class TokenValidationService {
     this.keycloakConfig = config;
   }
 
+  /**
+   * Set or replace the additional Keycloak realms
+   * @param realms - Static realm list or async lookup by issuer
+   */
+  setKeycloakRealms(realms: KeycloakRealmRegistry): void {
+    this.realms = new KeycloakRealmResolver(realms);
+  }
+
   /**
    * Validate token locally using JWKS
    * @param token - JWT token to validate
@@ -56,24 +110,28 @@ export class TokenValidationService {
     token: string,
     options?: TokenValidationOptions,
   ): Promise<TokenValidationResult> {
+    // Per-call policies can differ between calls, so their results are not cached
+    const useCache = !options?.skipResultCache && !options?.policy;
     try {
       // 1. Check validation result cache (unless skipResultCache)
-      if (!options?.skipResultCache) {
-        const cached = this.getCachedResult(token);
-        if (cached) {
-          return { ...cached, cached: true };
+      const cached = useCache ? this.getCachedResult(token) : null;
+      let result: TokenValidationResult;
+      if (cached) {
+        result = { ...cached, cached: true };
+      } else {
+        // 2. Perform actual validation
+        result = await this.performValidation(token, options);
+
+        // 3. Cache result (unless skipResultCache or shouldn't cache)
+        if (useCache && this.shouldCacheResult(result)) {
+          this.cacheResult(token, result);
         }
       }
 
-      // 2. Perform actual validation
-      const result = await this.performValidation(token, options);
-
-      // 3. Cache result (unless skipResultCache or shouldn't cache)
-      if (!options?.skipResultCache && this.shouldCacheResult(result)) {
-        this.cacheResult(token, result);
-      }
-
-      return result;
+      // 4. Revocation check and logger context (fresh and cached results)
+      const checked = await this.checkRevocation(token, result, options);
+      this.annotateLoggerContext(checked);
+      return checked;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Token validation failed";
@@ -81,6 +139,7 @@ export class TokenValidationService {
         valid: false,
         tokenType: options?.tokenType || "auto",
         error: errorMessage,
+        errorCode: classifyValidationError(error),
       };
     }
   }
@@ -110,10 +169,50 @@ export class TokenValidationService {
   clearAllCaches(): void {
     this.jwksCache.clear();
     this.resultCache.clear();
+    this.realms.clearCache();
+    this.discovery.clearCache();
   }
 
   // ==================== PRIVATE METHODS ====================
 
+  /**
+   * Record the realm and tenant of a valid token on the current logger context.
+   * The store is updated in place so the caller's continuation sees it too.
+   */
+  private annotateLoggerContext(result: TokenValidationResult): void {
+    if (!result.valid || !result.realm) return;
+    const context = LoggerContextStorage.getInstance().getContext();
+    if (context) {
+      Object.assign(context, {
+        realm: result.realm,
+        tenantId: result.tenantId,
+      });
+    }
+  }
+
+  /**
+   * Turn a valid result into "revoked" when its jti or sid is on the revocation list.
+   */
+  private async checkRevocation(
+    token: string,
+    result: TokenValidationResult,
+    options?: TokenValidationOptions,
+  ): Promise<TokenValidationResult> {
+    if (!result.valid || !this.revocation || options?.skipRevocationCheck) {
+      return result;
+    }
+    if (!(await this.revocation.isRevoked(result.payload))) return result;
+    this.resultCache.delete(this.getTokenHash(token));
+    return {
+      valid: false,
+      tokenType: result.tokenType,
+      realm: result.realm,
+      tenantId: result.tenantId,
+      error: "Token has been revoked",
+      errorCode: "revoked",
+    };
+  }
+
   /**
    * Perform token validation by resolving issuer and validation flow.
    */
@@ -130,96 +229,76 @@ export class TokenValidationService {
         valid: false,
         tokenType: "auto",
         error: "Token missing issuer (iss) claim",
+        errorCode: "missing_claim",
       };
     }
 
-    const tokenType = this.determineTokenType(issuer, options?.tokenType);
-
-    if (tokenType === "keycloak") {
-      return this.validateKeycloakToken(token, options);
+    // Route by issuer: the default realm or a registered realm is a Keycloak token
+    const hint = options?.tokenType;
+    const realm =
+      hint === "delegated"
+        ? null
+        : await this.realms.resolve(issuer, this.keycloakConfig);
+    if (realm || hint === "keycloak") {
+      return this.validateKeycloakToken(
+        token,
+        realm ?? this.keycloakConfig,
+        options,
+      );
     }
     return this.validateDelegatedToken(token, issuer, options);
   }
 
   /**
-   * Determine token type based on issuer and optional hint.
-   */
-  private determineTokenType(issuer: string, hint?: TokenType): TokenType {
-    if (hint && hint !== "auto") return hint;
-
-    if (this.keycloakConfig) {
-      // Use public URL for issuer matching (tokens contain public URL in iss claim)
-      const issuerUrl =
-        this.keycloakConfig.authServerPublicUrl ||
-        this.keycloakConfig.authServerUrl;
-      const keycloakIssuer = `${issuerUrl}/realms/${this.keycloakConfig.realm}`;
-      if (issuer === keycloakIssuer) return "keycloak";
-    }
-
-    return "delegated";
-  }
-
-  /**
-   * Validate Keycloak tokens using JWKS and issuer validation.
+   * Validate Keycloak tokens using the realm's JWKS and issuer validation.
    */
   private async validateKeycloakToken(
     token: string,
+    realm: KeycloakConfig | undefined,
     options?: TokenValidationOptions,
   ): Promise<TokenValidationResult> {
-    if (!this.keycloakConfig) {
+    if (!realm) {
       return {
         valid: false,
         tokenType: "keycloak",
         error: "Keycloak not configured",
+        errorCode: "not_configured",
       };
     }
 
     // Use resolved URL for JWKS fetching (private on server, public on browser)
-    const resolvedKeycloakUrl = resolveKeycloakUrl(this.keycloakConfig);
-    const jwksUri = `${resolvedKeycloakUrl}/realms/${this.keycloakConfig.realm}/protocol/openid-connect/certs`;
-
+    const realmUrl = `${resolveKeycloakUrl(realm)}/realms/${realm.realm}`;
     // For issuer validation, use public URL (matches token's iss claim)
-    // Tokens are always issued with the public URL in the iss claim
-    const issuerUrl =
-      this.keycloakConfig.authServerPublicUrl ||
-      this.keycloakConfig.authServerUrl;
-    const expectedIssuer = `${issuerUrl}/realms/${this.keycloakConfig.realm}`;
-
-    try {
-      const jwks = await this.getJWKS(jwksUri);
-      const verifyOptions: { issuer: string; audience?: string } = {
-        issuer: expectedIssuer,
-      };
-
-      if (
-        this.keycloakConfig.verifyAudience &&
-        this.keycloakConfig.clientId &&
-        !options?.skipAudienceValidation
-      ) {
-        verifyOptions.audience = this.keycloakConfig.clientId;
-      }
-
-      const { payload } = await jwtVerify(token, jwks, verifyOptions);
-
-      return {
-        valid: true,
-        tokenType: "keycloak",
-        payload: this.mapPayload(payload),
-      };
-    } catch (error) {
-      return {
-        valid: false,
-        tokenType: "keycloak",
-        error:
-          error instanceof Error
-            ? error.message
-            : "Keycloak token validation failed",
-      };
+    const issuer = keycloakIssuer(realm);
+    const keys: KeySource = realm.discovery
+      ? { issuer, discoveryUrl: `${realmUrl}${OIDC_DISCOVERY_PATH}` }
+      : { jwksUri: `${realmUrl}/protocol/openid-connect/certs` };
+
+    const verifyOptions: JWTVerifyOptions = { issuer };
+    if (
+      realm.verifyAudience &&
+      realm.clientId &&
+      !options?.skipAudienceValidation
+    ) {
+      verifyOptions.audience = realm.clientId;
     }
+
+    const base: Pick<
+      TokenValidationResult,
+      "tokenType" | "realm" | "tenantId"
+    > = { tokenType: "keycloak", realm: realm.realm };
+    if (realm.tenantId) base.tenantId = realm.tenantId;
+    return this.verifyToken(
+      token,
+      keys,
+      verifyOptions,
+      mergePolicies(realm.policy, options?.policy),
+      base,
+    );
   }
 
   /**
-   * Validate delegated tokens using provider-specific JWKS.
+   * Validate delegated tokens using the provider JWKS (configured `jwksUri` or OIDC discovery).
    */
   private async validateDelegatedToken(
     token: string,
@@ -239,40 +318,85 @@ export class TokenValidationService {
         valid: false,
         tokenType: "delegated",
         error: `No delegated provider configured for issuer: ${issuer}`,
+        errorCode: "not_configured",
       };
     }
 
-    try {
-      const jwks = await this.getJWKS(provider.jwksUri);
-      const verifyOptions: { issuer: string; audience?: string } = {
-        issuer: provider.issuer,
-      };
-
-      if (!options?.skipAudienceValidation && provider.audience) {
-        verifyOptions.audience = provider.audience;
-      }
+    const verifyOptions: JWTVerifyOptions = { issuer: provider.issuer };
+    if (!options?.skipAudienceValidation && provider.audience) {
+      verifyOptions.audience = provider.audience;
+    }
 
-      const { payload } = await jwtVerify(token, jwks, verifyOptions);
+    return this.verifyToken(
+      token,
+      provider.jwksUri
+        ? { jwksUri: provider.jwksUri }
+        : { issuer: provider.issuer },
+      verifyOptions,
+      mergePolicies(provider.policy, options?.policy),
+      { tokenType: "delegated", providerKey: provider.key ?? provider.issuer },
+    );
+  }
 
-      return {
-        valid: true,
-        tokenType: "delegated",
-        providerKey: provider.key,
-        payload: this.mapPayload(payload),
-      };
+  /**
+   * Verify signature and standard claims with jose, then the policy claims.
+   */
+  private async verifyToken(
+    token: string,
+    keys: KeySource,
+    verifyOptions: JWTVerifyOptions,
+    policy: TokenValidationPolicy | undefined,
+    base: Pick<
+      TokenValidationResult,
+      "tokenType" | "providerKey" | "realm" | "tenantId"
+    >,
+  ): Promise<TokenValidationResult> {
+    try {
+      const { jwks, algorithms } = await this.loadKeys(keys, policy);
+      const { payload } = await jwtVerify(token, jwks, {
+        ...(algorithms && { algorithms }),
+        ...verifyOptions,
+        ...toVerifyOptions(policy),
+      });
+      const mapped = this.mapPayload(payload);
+      const failure = policy ? await checkPolicyClaims(mapped, policy) : null;
+      if (failure) return { valid: false, ...base, ...failure };
+      return { valid: true, ...base, payload: mapped };
     } catch (error) {
+      const provider = base.tokenType === "keycloak" ? "Keycloak" : "Delegated";
       return {
         valid: false,
-        tokenType: "delegated",
-        providerKey: provider.key,
+        ...base,
         error:
           error instanceof Error
             ? error.message
-            : "Delegated token validation failed",
+            : `${provider} token validation failed`,
+        errorCode: classifyValidationError(error),
       };
     }
   }
 
+  /**
+   * Key set for a source; discovered algorithms are used only when the policy opts in
+   * with `useDiscoveredAlgorithms` (a policy's `algorithms` still takes precedence).
+   */
+  private async loadKeys(
+    keys: KeySource,
+    policy?: TokenValidationPolicy,
+  ): Promise<{ jwks: JWTVerifyGetKey; algorithms?: string[] }> {
+    if ("jwksUri" in keys) return { jwks: await this.getJWKS(keys.jwksUri) };
+    const document = await this.discovery.discover(
+      keys.issuer,
+      keys.discoveryUrl,
+    );
+    const jwks = await this.getJWKS(document.jwks_uri);
+    if (!policy?.useDiscoveredAlgorithms) return { jwks };
+    const algorithms = document.id_token_signing_alg_values_supported?.filter(
+      (alg) => alg !== "none",
+    );
+    return { jwks, algorithms: algorithms?.length ? algorithms : undefined };
+  }
+
   /**
    * Normalize JWT payload to TokenPayload structure.
    */
@@ -355,6 +479,8 @@ export class TokenValidationService {
     // Cache valid results and definitive invalid results
     // Don't cache config errors (provider not found, etc.)
     if (result.valid) return true;
+    if (result.errorCode && CACHEABLE_ERROR_CODES.has(result.errorCode))
+      return true;
     if (result.error?.includes("expired")) return true;
     if (result.error?.includes('"exp"')) return true; // jose library format
     if (result.error?.includes("signature")) return true;
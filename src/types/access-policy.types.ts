@@ -0,0 +1,96 @@
+/**
+ * Attribute-based access control (ABAC) policy types
+ * Declarative rules evaluated against subject, resource and request context attributes
+ */
+
+/** Attribute reference resolved at evaluation time (e.g. `{ ref: "subject.userId" }`) */
+export interface AccessAttributeRef {
+  /** Dotted path rooted at `subject`, `resource` or `context` */
+  ref: string;
+}
+
+/** Value operand: literal value or {@link AccessAttributeRef} */
+export type AccessOperand = unknown;
+
+/**
+ * Declarative rule condition. Exactly one operator key per object:
+ * - `role` / `permission`: subject has any of the listed roles/permissions
+ * - `owner`: resource attribute (e.g. "ownerId") equals the subject's user ID
+ * - `emailDomain`: subject email belongs to one of the domains
+ * - `attr` + `equals` / `notEquals` / `in`: compare an attribute path with an operand
+ * - `all` / `any` / `not`: combine conditions
+ */
+export type AccessCondition =
+  | { role: string | string[] }
+  | { permission: string | string[] }
+  | { owner: string }
+  | { emailDomain: string | string[] }
+  | { attr: string; equals: AccessOperand }
+  | { attr: string; notEquals: AccessOperand }
+  | { attr: string; in: AccessOperand[] | AccessAttributeRef }
+  | { all: AccessCondition[] }
+  | { any: AccessCondition[] }
+  | { not: AccessCondition };
+
+/** Access rule: applies to matching actions/resource types when its condition holds */
+export interface AccessRule {
+  /** Rule identifier reported in decisions */
+  id: string;
+  /** Optional human-readable description */
+  description?: string;
+  /** Rule effect (default: "allow"); matching deny rules always win */
+  effect?: "allow" | "deny";
+  /** Actions the rule applies to (supports `*` wildcards, e.g. "orders:*") */
+  actions: string | string[];
+  /** Resource types the rule applies to (default: all) */
+  resources?: string | string[];
+  /** Condition that must hold (default: always) */
+  when?: AccessCondition;
+}
+
+/** Access policy (deny by default) */
+export interface AccessPolicy {
+  rules: AccessRule[];
+}
+
+/** User attributes available to policy conditions */
+export interface AccessSubject {
+  userId?: string;
+  email?: string;
+  roles: string[];
+  permissions: string[];
+  /** Additional user attributes (e.g. tenantId) */
+  attributes?: Record<string, unknown>;
+}
+
+/** Resource being accessed; `type` selects applicable rules */
+export interface AccessResource {
+  type?: string;
+  [attribute: string]: unknown;
+}
+
+/** Per-rule evaluation trace */
+export interface AccessRuleTrace {
+  rule: string;
+  effect: "allow" | "deny";
+  /** Whether the rule targets the requested action and resource type */
+  applicable: boolean;
+  /** Whether the rule's condition held */
+  matched: boolean;
+  /** Why the condition held or failed */
+  reason?: string;
+}
+
+/** Access decision with explanation */
+export interface AccessDecision {
+  allowed: boolean;
+  action: string;
+  resourceType?: string;
+  /** Rule that decided the outcome (absent on default deny) */
+  rule?: string;
+  /** Human-readable explanation of the outcome */
+  reason: string;
+  /** True when the policy could not be evaluated (details are logged, not returned) */
+  error?: boolean;
+  trace: AccessRuleTrace[];
+}
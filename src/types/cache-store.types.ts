@@ -0,0 +1,33 @@
+/**
+ * Pluggable cache backend types
+ */
+
+/**
+ * Key/value cache backend used by CacheService (server) and DataClient (browser).
+ * Values are serialized strings; TTLs are in seconds. Implementations should not
+ * throw for backend outages: return null/false/empty results instead.
+ */
+export interface CacheStore {
+  /** Get a value; null when missing or expired */
+  get(key: string): Promise<string | null>;
+  /** Set a value with TTL in seconds; true if stored */
+  set(key: string, value: string, ttl: number): Promise<boolean>;
+  /** Delete a value; true if the key existed */
+  delete(key: string): Promise<boolean>;
+  /** Keys matching a glob pattern (`*`, `?`, `\` escape) */
+  scan(pattern: string): Promise<string[]>;
+  /** Remaining TTL in seconds; null when missing or without expiry */
+  ttl(key: string): Promise<number | null>;
+  /** Delete keys matching a glob pattern (default: scan + delete); returns count */
+  deleteByPattern?(pattern: string): Promise<number>;
+  /** Whether the backend is currently usable (default: true) */
+  isAvailable?(): boolean;
+}
+
+/**
+ * Cache backend selection for `MisoClientConfig.cache.store`.
+ * - `redis`: Redis when configured (default), in-memory otherwise
+ * - `memory`: in-memory only, even when Redis is configured
+ * - a `CacheStore`: custom backend (Memcached, SQL table, ...)
+ */
+export type CacheStoreOption = "redis" | "memory" | CacheStore;
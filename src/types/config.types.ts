@@ -2,16 +2,26 @@
  * Configuration types for MisoClient
  */
 
-/**
- * Redis configuration for caching.
- */
-export interface RedisConfig {
-  host: string;
-  port: number;
-  password?: string;
-  db?: number;
-  keyPrefix?: string;
-}
+import type { RbacPolicy } from "./rbac.types";
+import type { AccessPolicy } from "./access-policy.types";
+import type { RedisConfig } from "./redis.types";
+import type { CacheStoreOption } from "./cache-store.types";
+import type {
+  ConsoleLogOutput,
+  LogTransportConfig,
+} from "./log-transport.types";
+import type { LogSamplingConfig } from "./log-sampling.types";
+import type {
+  KeycloakConfig,
+  KeycloakRealmRegistry,
+} from "./token-validation.types";
+export type {
+  RedisConfig,
+  RedisConnectionState,
+  RedisNodeAddress,
+  RedisStateChange,
+  RedisTlsOptions,
+} from "./redis.types";
 
 /**
  * Authentication method types
@@ -22,6 +32,66 @@ export type AuthMethod =
   | "client-credentials"
   | "api-key";
 
+/**
+ * Local RBAC configuration.
+ * In "local" mode roles come from the verified JWT (`realm_access` / `resource_access`)
+ * and permissions are derived from an rbac.yaml/JSON policy, without controller calls.
+ */
+export interface RbacConfig {
+  /** "controller" (default) uses the controller APIs; "local" evaluates the policy offline */
+  mode?: "controller" | "local";
+  /** Parsed policy document (takes precedence over policyPath) */
+  policy?: RbacPolicy;
+  /** Path to rbac.yaml / rbac.yml / JSON policy file */
+  policyPath?: string;
+  /** Client whose `resource_access` roles are used (default: keycloak.clientId, else all clients) */
+  resourceClientId?: string;
+  /** Include `realm_access` roles (default: true) */
+  includeRealmRoles?: boolean;
+}
+
+/**
+ * Permission matcher used by permission checks.
+ * Returns true when a granted permission satisfies a required permission.
+ */
+export type PermissionMatcher = (granted: string, required: string) => boolean;
+
+/**
+ * Where resolved permissions came from ("store" = custom cache store).
+ */
+export type PermissionSource =
+  | "memory"
+  | "redis"
+  | "store"
+  | "controller"
+  | "local";
+
+/**
+ * Explanation of a permission check (see `explainPermission`).
+ */
+export interface PermissionExplanation {
+  /** Resolved user ID (null when it could not be resolved) */
+  userId: string | null;
+  /** Where the user's permissions came from */
+  source: PermissionSource;
+  /** Age of the cached permissions in milliseconds (cache sources only) */
+  cacheAgeMs?: number;
+  /** Auth methods used for controller calls */
+  authMethods: AuthMethod[];
+  /** Permissions that were checked */
+  required: string[];
+  /** Required permissions the user has */
+  granted: string[];
+  /** Required permissions the user lacks */
+  missing: string[];
+  /** All permissions the user has */
+  userPermissions: string[];
+  /** True when no required permission is missing */
+  allowed: boolean;
+  /** Error message when permissions could not be resolved */
+  error?: string;
+}
+
 /**
  * Supported general log levels across SDK public APIs.
  */
@@ -129,10 +199,31 @@ export interface MisoClientConfig {
     tokenValidationTTL?: number; // Max TTL (default 900s / 15 minutes)
     minValidationTTL?: number; // Min TTL (default 60s) - used for smart TTL calculation
     userTTL?: number; // Default 300s (5 minutes) - user info cache TTL
+    /** Seconds expired role/permission/user entries are served while one background refresh runs; default 0 (disabled) */
+    staleWhileRevalidate?: number;
     /** Encryption encrypt/decrypt response cache TTL in seconds; 0 = disabled; default 300 when not set */
     encryptionCacheTTL?: number;
+    /** Maximum in-memory cache entries (LRU eviction); default 10000 */
+    maxEntries?: number;
+    /** Maximum approximate in-memory cache size in bytes (LRU eviction); default unbounded */
+    maxBytes?: number;
+    /** Shared cache backend: "redis" (default), "memory" or a custom CacheStore */
+    store?: CacheStoreOption;
   };
 
+  // Optional: Permission matcher for hasPermission/hasAnyPermission/hasAllPermissions
+  // Default: exact string comparison
+  // Use `wildcardPermissionMatcher` to honor granted wildcards (`miso-test:*`, `*:read`, `orders:invoices:*`)
+  permissionMatcher?: PermissionMatcher;
+
+  // Optional: Local RBAC evaluation from rbac.yaml (no controller roles/permissions calls)
+  // Requires `keycloak` config: roles are read from the locally verified JWT
+  rbac?: RbacConfig;
+
+  // Optional: Attribute-based access policy used by client.can()/client.authorize()
+  // and the requireAccess Express middleware (deny by default)
+  accessPolicy?: AccessPolicy;
+
   // Optional: Sensitive fields configuration file path
   sensitiveFieldsConfig?: string;
 
@@ -144,6 +235,17 @@ export interface MisoClientConfig {
   // Useful for direct SDK embedding in your own application to save logs directly to DB
   emitEvents?: boolean; // Default: false (maintains backward compatibility)
 
+  // Optional: Log transport pipeline (replaces the events -> Redis -> HTTP cascade)
+  // e.g. [{ type: "console", levels: ["debug"] }, { type: "controller", levels: ["audit", "error"] }]
+  logTransports?: LogTransportConfig[];
+
+  // Optional: Also write entries to the console ("pretty" for local development, "json" for containers)
+  // Ignored when logTransports is set (add { type: "console", output } there instead)
+  consoleOutput?: ConsoleLogOutput;
+
+  // Optional: Sampling (e.g. { rates: { debug: 0.1 } }) and per-message rate limiting; audit always passes
+  logSampling?: LogSamplingConfig;
+
   // Optional: Default authentication strategy
   // If not specified, defaults to ['bearer', 'client-token']
   authStrategy?: AuthStrategy;
@@ -155,15 +257,11 @@ export interface MisoClientConfig {
   allowedOrigins?: string[];
 
   // Optional: Keycloak configuration for local token validation
-  keycloak?: {
-    authServerUrl: string; // Keep for backward compatibility (fallback)
-    authServerPrivateUrl?: string; // For server-side JWKS fetching (internal network)
-    authServerPublicUrl?: string; // For browser-side and issuer validation (public network)
-    realm: string;
-    clientId?: string;
-    clientSecret?: string;
-    verifyAudience?: boolean;
-  };
+  // (authServerUrl is the fallback; private URL for JWKS fetching, public URL for issuer validation)
+  keycloak?: KeycloakConfig;
+
+  // Optional: Additional Keycloak realms (one per tenant), routed by the token's `iss`
+  keycloakRealms?: KeycloakRealmRegistry;
 
   // Optional: Enable/disable response structure validation
   // When enabled, validates that API responses match expected structure
@@ -187,6 +285,21 @@ export interface AuditConfig {
   batchSize?: number; // Batch size for queued logs (default: 10)
   batchInterval?: number; // Flush interval in ms (default: 100)
   skipEndpoints?: string[]; // Endpoints to skip audit logging
+  spool?: LogSpoolConfig; // Local file spool while HTTP logging is unavailable (Node.js only)
+}
+
+/**
+ * Disk spool for logs that cannot be delivered (circuit breaker open or HTTP failure).
+ * Entries are appended as NDJSON and replayed in order via createBatchLogs from a
+ * background timer.
+ */
+export interface LogSpoolConfig {
+  directory: string; // Spool directory (created if missing; one per process)
+  maxFileBytes?: number; // Rotate to a new file above this size (default: 5 MB)
+  maxTotalBytes?: number; // Drop the oldest files above this total size (default: 50 MB)
+  replayBatchSize?: number; // Entries per createBatchLogs call on replay (default: 100)
+  replayInterval?: number; // Replay attempt interval in ms while the circuit is closed (default: 30000)
+  allLevels?: boolean; // Also spool non-audit logs (default: false, audit entries only)
 }
 
 /**
@@ -232,6 +345,10 @@ export interface LogEntry {
   sessionId?: string;
   correlationId?: string;
   stackTrace?: string;
+  traceId?: string; // W3C trace ID (32 hex)
+  spanId?: string; // W3C span ID (16 hex)
+  realm?: string; // Keycloak realm of the validated token
+  tenantId?: string; // Tenant of that realm (multi-realm setups)
 
   // Indexed context fields (top-level for fast queries)
   sourceId?: string;
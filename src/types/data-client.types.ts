@@ -3,6 +3,7 @@
  */
 
 import { MisoClientConfig } from "./config.types";
+import type { CacheStore } from "./cache-store.types";
 
 // Re-export MisoClientConfig for convenience
 export type { MisoClientConfig };
@@ -64,6 +65,12 @@ export interface CacheConfig {
    * Enable cache (default: true)
    */
   enabled?: boolean;
+
+  /**
+   * Persistent store behind the in-memory cache, e.g.
+   * `new WebStorageCacheStore(sessionStorage)` or an IndexedDB-backed CacheStore
+   */
+  store?: CacheStore;
 }
 
 /**
@@ -164,6 +171,12 @@ export interface DataClientConfig {
    */
   defaultHeaders?: Record<string, string>;
 
+  /**
+   * Send W3C `traceparent`/`tracestate` for the active trace (default: true).
+   * Disable for cross-origin APIs that do not allow these headers (CORS).
+   */
+  propagateTraceContext?: boolean;
+
   /**
    * Callback to refresh user token when expired (for browser usage)
    * Called automatically when a request receives 401 Unauthorized
@@ -0,0 +1,41 @@
+/**
+ * Log sampling and rate limiting types
+ */
+
+import type { LogEntry } from "./config.types";
+
+/** Levels that can be sampled or rate limited (audit entries always pass) */
+export type SampledLogLevel = Exclude<LogEntry["level"], "audit">;
+
+/**
+ * Per-message token bucket: `burst` entries at once, refilled at `perSecond`.
+ */
+export interface LogRateLimitConfig {
+  /** Bucket size (entries allowed back to back per key) */
+  burst: number;
+  /** Tokens added per second per key */
+  perSecond: number;
+  /** Levels rate limited (default: all except audit) */
+  levels?: SampledLogLevel[];
+  /** Message key (default: level + message) */
+  key?: (
+    level: SampledLogLevel,
+    message: string,
+    context?: Record<string, unknown>,
+  ) => string;
+  /** Maximum keys tracked; least recently used keys are forgotten (default 1000) */
+  maxKeys?: number;
+  /** Milliseconds between summaries of suppressed entries not yet summarized (default 10000) */
+  summaryInterval?: number;
+}
+
+/**
+ * Sampling and rate limiting applied before masking and transport.
+ * Audit entries always bypass both.
+ */
+export interface LogSamplingConfig {
+  /** Fraction of entries kept per level, 0-1 (e.g. { debug: 0.1 }); default 1 */
+  rates?: Partial<Record<SampledLogLevel, number>>;
+  /** Per-message rate limit; suppressed entries are summarized */
+  rateLimit?: LogRateLimitConfig;
+}
@@ -0,0 +1,56 @@
+/**
+ * Log transport pipeline types
+ */
+
+import type { LogEntry } from "./config.types";
+
+/**
+ * Per-transport routing options.
+ */
+export interface LogTransportOptions {
+  /** Levels sent to this transport (default: all levels that pass logLevel) */
+  levels?: Array<LogEntry["level"]>;
+  /** Return false to skip an entry */
+  filter?: (entry: LogEntry) => boolean;
+  /** Transform the entry for this transport only (e.g. drop or rename fields) */
+  format?: (entry: LogEntry) => LogEntry;
+}
+
+/** Console output: JSON lines (default) or colored, human-readable lines */
+export type ConsoleLogOutput = "json" | "pretty";
+
+/**
+ * Console transport options.
+ */
+export interface ConsoleTransportOptions extends LogTransportOptions {
+  /** Line format (default "json") */
+  output?: ConsoleLogOutput;
+  /** ANSI colors for "pretty" output (default: stdout is a TTY and NO_COLOR is unset) */
+  colors?: boolean;
+}
+
+/**
+ * Log destination. Errors thrown by send() are swallowed and never affect other
+ * transports or the caller.
+ */
+export interface LogTransport extends LogTransportOptions {
+  /** Transport name (for diagnostics) */
+  name: string;
+  send(entry: LogEntry): void | Promise<void>;
+}
+
+/**
+ * Built-in transport types:
+ * - "controller": HTTP to the controller (circuit breaker, disk spool, audit batching)
+ * - "redis": Redis log queue only (dropped when Redis is unavailable)
+ * - "events": emit "log" on the logger (same as emitEvents)
+ * - "console": one JSON or pretty line per entry to stdout/stderr
+ * - "file": append NDJSON to a file (Node.js only)
+ */
+export type LogTransportConfig =
+  | (LogTransportOptions & {
+      type: "controller" | "redis" | "events";
+    })
+  | (ConsoleTransportOptions & { type: "console" })
+  | (LogTransportOptions & { type: "file"; path: string })
+  | LogTransport;
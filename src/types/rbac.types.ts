@@ -0,0 +1,30 @@
+/**
+ * RBAC policy document types for local (controller-less) role and permission evaluation
+ * Same shape as the builder `rbac.yaml` / `*-deploy.json` roles and permissions sections
+ */
+
+/** Role definition from rbac.yaml */
+export interface RbacRoleDefinition {
+  /** Display name (e.g. "AI Fabrix Admin") */
+  name?: string;
+  /** Role value as it appears in JWT role claims (e.g. "aifabrix-admin") */
+  value: string;
+  /** Optional description */
+  description?: string;
+}
+
+/** Permission definition with the roles that grant it */
+export interface RbacPermissionDefinition {
+  /** Permission name (e.g. "miso-test:read") */
+  name: string;
+  /** Role values that grant this permission */
+  roles: string[];
+  /** Optional description */
+  description?: string;
+}
+
+/** RBAC policy document (roles plus permissions-to-roles mapping) */
+export interface RbacPolicy {
+  roles: RbacRoleDefinition[];
+  permissions: RbacPermissionDefinition[];
+}
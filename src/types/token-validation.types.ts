@@ -24,18 +24,49 @@ export interface KeycloakConfig {
   clientSecret?: string;
   /** Enable audience validation (default: false) */
   verifyAudience?: boolean;
+  /** Validation policy for Keycloak tokens */
+  policy?: TokenValidationPolicy;
+  /** Tenant served by this realm (multi-realm setups) */
+  tenantId?: string;
+  /** Load the JWKS URI from the realm's OIDC discovery document */
+  discovery?: boolean;
 }
 
+/** Function to look up the Keycloak realm config by token issuer */
+export type KeycloakRealmLookup = (
+  issuer: string,
+) => Promise<KeycloakConfig | null>;
+
+/** Additional Keycloak realms (one per tenant): static list or lookup by issuer */
+export type KeycloakRealmRegistry = KeycloakConfig[] | KeycloakRealmLookup;
+
 /** Configuration for delegated OAuth providers */
 export interface DelegatedProviderConfig {
-  /** Provider identifier (e.g., "google", "github") */
-  key: string;
+  /** Provider identifier (e.g., "google", "github"; default: the issuer) */
+  key?: string;
   /** Expected issuer claim value */
   issuer: string;
-  /** JWKS endpoint URL */
-  jwksUri: string;
+  /** JWKS endpoint URL (default: `jwks_uri` from the issuer's OIDC discovery document) */
+  jwksUri?: string;
   /** Expected audience (optional) */
   audience?: string;
+  /** Validation policy for this provider's tokens */
+  policy?: TokenValidationPolicy;
+}
+
+/** OpenID Connect discovery document (`/.well-known/openid-configuration`) */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  jwks_uri: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  introspection_endpoint?: string;
+  revocation_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+  scopes_supported?: string[];
+  [key: string]: unknown;
 }
 
 /** Function to look up delegated provider by issuer */
@@ -43,6 +74,53 @@ export type DelegatedProviderLookup = (
   issuer: string,
 ) => Promise<DelegatedProviderConfig | null>;
 
+/**
+ * Custom claim check
+ * @returns Error message to reject the token, or null/undefined to accept it
+ */
+export type TokenClaimValidator = (
+  payload: TokenPayload,
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/** JWT validation policy (per provider, overridable per call) */
+export interface TokenValidationPolicy {
+  /** Allowed signing algorithms, e.g. ["RS256"] (default: any the key supports) */
+  algorithms?: string[];
+  /** With OIDC discovery, allow only the document's `id_token_signing_alg_values_supported` (`algorithms` takes precedence) */
+  useDiscoveredAlgorithms?: boolean;
+  /** Allowed clock skew for exp/nbf/iat, in seconds or as a time span like "30s" */
+  clockTolerance?: number | string;
+  /** Maximum time since `iat`, in seconds or as a time span like "1h" (requires `iat`) */
+  maxTokenAge?: number | string;
+  /** Claims that must be present */
+  requiredClaims?: string[];
+  /** Allowed authorized party (`azp` claim) */
+  authorizedParty?: string | string[];
+  /** Expected `typ` claim (Keycloak: "Bearer" for access tokens, "ID" for ID tokens) */
+  typ?: string;
+  /** Scopes the space-separated `scope` claim must contain */
+  requiredScopes?: string[];
+  /** Custom claim checks, run after the signature and the claims above are verified */
+  claimValidators?: TokenClaimValidator[];
+}
+
+/** Structured reason for a failed validation */
+export type TokenValidationErrorCode =
+  | "expired"
+  | "not_yet_valid"
+  | "token_too_old"
+  | "invalid_signature"
+  | "algorithm_not_allowed"
+  | "invalid_issuer"
+  | "invalid_audience"
+  | "missing_claim"
+  | "invalid_claim"
+  | "malformed"
+  | "revoked"
+  | "not_configured"
+  | "discovery_failed"
+  | "validation_failed";
+
 /** Options for token validation */
 export interface TokenValidationOptions {
   /** Force token type detection */
@@ -53,6 +131,10 @@ export interface TokenValidationOptions {
   skipAudienceValidation?: boolean;
   /** Skip validation result cache (for high-security scenarios) */
   skipResultCache?: boolean;
+  /** Skip the revocation list check (e.g. for logout tokens) */
+  skipRevocationCheck?: boolean;
+  /** Policy fields overriding the provider policy (results are not cached) */
+  policy?: TokenValidationPolicy;
 }
 
 /** Result of token validation */
@@ -65,8 +147,14 @@ export interface TokenValidationResult {
   payload?: TokenPayload;
   /** Error message (if invalid) */
   error?: string;
+  /** Structured error reason (if invalid) */
+  errorCode?: TokenValidationErrorCode;
   /** Provider key for delegated tokens */
   providerKey?: string;
+  /** Keycloak realm that issued the token */
+  realm?: string;
+  /** Tenant of the realm (from `KeycloakConfig.tenantId`) */
+  tenantId?: string;
   /** True if result came from cache */
   cached?: boolean;
 }
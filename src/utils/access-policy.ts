@@ -0,0 +1,313 @@
+/**
+ * Access policy engine - evaluates declarative ABAC rules
+ * Deny rules override allow rules; requests that no rule allows are denied.
+ */
+
+import type {
+  AccessCondition,
+  AccessDecision,
+  AccessPolicy,
+  AccessResource,
+  AccessRule,
+  AccessRuleTrace,
+  AccessSubject,
+} from "../types/access-policy.types";
+import type { PermissionMatcher } from "../types/config.types";
+import {
+  exactPermissionMatcher,
+  hasMatchingPermission,
+  wildcardPermissionMatcher,
+} from "./permission-matcher";
+
+/** Input to a policy evaluation */
+export interface AccessRequest {
+  subject: AccessSubject;
+  action: string;
+  resource?: AccessResource;
+  context?: Record<string, unknown>;
+}
+
+interface ConditionResult {
+  matched: boolean;
+  reason: string;
+}
+
+interface EvaluationScope {
+  request: AccessRequest;
+  matcher: PermissionMatcher;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function format(value: unknown): string {
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+/** Resolve dotted attribute path rooted at subject, resource or context */
+function resolvePath(scope: EvaluationScope, path: string): unknown {
+  const [root, ...keys] = path.split(".");
+  const roots: Record<string, unknown> = {
+    subject: scope.request.subject,
+    resource: scope.request.resource ?? {},
+    context: scope.request.context ?? {},
+  };
+  let value: unknown = roots[root];
+  for (const key of keys) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function resolveOperand(scope: EvaluationScope, operand: unknown): unknown {
+  const isRef =
+    typeof operand === "object" &&
+    operand !== null &&
+    typeof (operand as { ref?: unknown }).ref === "string";
+  return isRef ? resolvePath(scope, (operand as { ref: string }).ref) : operand;
+}
+
+/** Missing attributes never compare equal (avoids undefined === undefined grants) */
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+function evaluateRole(
+  roles: string[],
+  scope: EvaluationScope,
+): ConditionResult {
+  const granted = roles.find((role) =>
+    scope.request.subject.roles.includes(role),
+  );
+  return granted
+    ? { matched: true, reason: `has role ${granted}` }
+    : { matched: false, reason: `missing role ${roles.join(" | ")}` };
+}
+
+function evaluatePermission(
+  permissions: string[],
+  scope: EvaluationScope,
+): ConditionResult {
+  const granted = permissions.find((permission) =>
+    hasMatchingPermission(
+      scope.request.subject.permissions,
+      permission,
+      scope.matcher,
+    ),
+  );
+  return granted
+    ? { matched: true, reason: `has permission ${granted}` }
+    : {
+        matched: false,
+        reason: `missing permission ${permissions.join(" | ")}`,
+      };
+}
+
+function evaluateOwner(
+  attribute: string,
+  scope: EvaluationScope,
+): ConditionResult {
+  const ownerId = resolvePath(scope, `resource.${attribute}`);
+  const userId = scope.request.subject.userId;
+  const matched = isPresent(userId) && ownerId === userId;
+  return {
+    matched,
+    reason: `${matched ? "is" : "not"} owner (resource.${attribute})`,
+  };
+}
+
+function evaluateEmailDomain(
+  domains: string[],
+  scope: EvaluationScope,
+): ConditionResult {
+  const email = scope.request.subject.email;
+  const domain = email?.includes("@")
+    ? email.split("@").pop()?.toLowerCase()
+    : undefined;
+  const matched = !!domain && domains.some((d) => d.toLowerCase() === domain);
+  return {
+    matched,
+    reason: matched
+      ? `email domain is ${domain}`
+      : `email domain not in ${domains.join(" | ")}`,
+  };
+}
+
+function evaluateAttribute(
+  condition: { attr: string } & Record<string, unknown>,
+  scope: EvaluationScope,
+): ConditionResult {
+  const { attr } = condition;
+  const actual = resolvePath(scope, attr);
+  if ("equals" in condition) {
+    const expected = resolveOperand(scope, condition.equals);
+    const matched = isPresent(actual) && actual === expected;
+    return {
+      matched,
+      reason: `${attr} ${matched ? "equals" : "does not equal"} ${format(expected)}`,
+    };
+  }
+  if ("notEquals" in condition) {
+    const expected = resolveOperand(scope, condition.notEquals);
+    if (!isPresent(actual))
+      return { matched: false, reason: `${attr} is missing` };
+    const matched = actual !== expected;
+    return {
+      matched,
+      reason: `${attr} ${matched ? "does not equal" : "equals"} ${format(expected)}`,
+    };
+  }
+  if ("in" in condition) {
+    const list = resolveOperand(scope, condition.in);
+    const items = Array.isArray(list)
+      ? list.map((item) => resolveOperand(scope, item))
+      : [];
+    const matched = isPresent(actual) && items.includes(actual);
+    return {
+      matched,
+      reason: `${attr} ${matched ? "is" : "is not"} in ${format(items)}`,
+    };
+  }
+  return { matched: false, reason: `unsupported condition on ${attr}` };
+}
+
+function evaluateAll(
+  conditions: AccessCondition[],
+  scope: EvaluationScope,
+): ConditionResult {
+  const reasons: string[] = [];
+  for (const condition of conditions) {
+    const result = evaluateCondition(condition, scope);
+    if (!result.matched) return result;
+    reasons.push(result.reason);
+  }
+  return { matched: true, reason: reasons.join(" and ") };
+}
+
+function evaluateAny(
+  conditions: AccessCondition[],
+  scope: EvaluationScope,
+): ConditionResult {
+  const reasons: string[] = [];
+  for (const condition of conditions) {
+    const result = evaluateCondition(condition, scope);
+    if (result.matched) return result;
+    reasons.push(result.reason);
+  }
+  return {
+    matched: false,
+    reason: reasons.length > 0 ? reasons.join(" or ") : "no conditions",
+  };
+}
+
+function evaluateCondition(
+  condition: AccessCondition,
+  scope: EvaluationScope,
+): ConditionResult {
+  if ("all" in condition) return evaluateAll(condition.all, scope);
+  if ("any" in condition) return evaluateAny(condition.any, scope);
+  if ("not" in condition) {
+    const result = evaluateCondition(condition.not, scope);
+    return { matched: !result.matched, reason: `not (${result.reason})` };
+  }
+  if ("role" in condition) return evaluateRole(toArray(condition.role), scope);
+  if ("permission" in condition)
+    return evaluatePermission(toArray(condition.permission), scope);
+  if ("owner" in condition) return evaluateOwner(condition.owner, scope);
+  if ("emailDomain" in condition)
+    return evaluateEmailDomain(toArray(condition.emailDomain), scope);
+  return evaluateAttribute(condition, scope);
+}
+
+/** Whether the rule targets the requested action and resource type */
+function isApplicable(rule: AccessRule, request: AccessRequest): boolean {
+  const actionMatches = toArray(rule.actions).some((action) =>
+    wildcardPermissionMatcher(action, request.action),
+  );
+  if (!actionMatches) return false;
+  if (!rule.resources) return true;
+  const resources = toArray(rule.resources);
+  const type = request.resource?.type;
+  if (resources.includes("*")) return true;
+  return (
+    !!type &&
+    resources.some((resource) => wildcardPermissionMatcher(resource, type))
+  );
+}
+
+function evaluateRule(
+  rule: AccessRule,
+  scope: EvaluationScope,
+): AccessRuleTrace {
+  const effect = rule.effect ?? "allow";
+  if (!isApplicable(rule, scope.request)) {
+    return { rule: rule.id, effect, applicable: false, matched: false };
+  }
+  const result = rule.when
+    ? evaluateCondition(rule.when, scope)
+    : { matched: true, reason: "unconditional" };
+  return { rule: rule.id, effect, applicable: true, ...result };
+}
+
+function describeDefaultDeny(
+  request: AccessRequest,
+  trace: AccessRuleTrace[],
+): string {
+  const target = request.resource?.type
+    ? `'${request.action}' on '${request.resource.type}'`
+    : `'${request.action}'`;
+  const failed = trace
+    .filter((t) => t.applicable && t.effect === "allow")
+    .map((t) => `${t.rule} (${t.reason})`);
+  return failed.length > 0
+    ? `No rule allows ${target}: ${failed.join("; ")}`
+    : `No rule allows ${target}`;
+}
+
+/**
+ * Evaluate an access policy.
+ * @param policy - Access policy (rules)
+ * @param request - Subject, action, resource and context to evaluate
+ * @param matcher - Permission matcher used by `permission` conditions (default: exact)
+ * @returns Decision with the deciding rule, explanation and per-rule trace
+ */
+export function evaluateAccessPolicy(
+  policy: AccessPolicy,
+  request: AccessRequest,
+  matcher: PermissionMatcher = exactPermissionMatcher,
+): AccessDecision {
+  const trace = policy.rules.map((rule) =>
+    evaluateRule(rule, { request, matcher }),
+  );
+  const base = {
+    action: request.action,
+    resourceType: request.resource?.type,
+    trace,
+  };
+
+  const deny = trace.find((t) => t.matched && t.effect === "deny");
+  if (deny) {
+    return {
+      ...base,
+      allowed: false,
+      rule: deny.rule,
+      reason: `Denied by rule '${deny.rule}': ${deny.reason}`,
+    };
+  }
+  const allow = trace.find((t) => t.matched && t.effect === "allow");
+  if (allow) {
+    return {
+      ...base,
+      allowed: true,
+      rule: allow.rule,
+      reason: `Allowed by rule '${allow.rule}': ${allow.reason}`,
+    };
+  }
+  return {
+    ...base,
+    allowed: false,
+    reason: describeDefaultDeny(request, trace),
+  };
+}
@@ -8,6 +8,13 @@ import { LogEntry, MisoClientConfig } from "../types/config.types";
 import { HttpClient } from "./http-client";
 import { ApiClient } from "../api";
 import { RedisService } from "../services/redis.service";
+import { LogSpool, spoolOrDrop } from "./log-spool";
+import { LogCircuitBreaker } from "./log-circuit-breaker";
+import { sdkMetrics } from "./sdk-metrics";
+import {
+  appendLogsToStream,
+  getLogStreamKey,
+} from "../services/redis-log-stream";
 
 interface QueuedLogEntry {
   entry: LogEntry;
@@ -25,22 +32,22 @@ export class AuditLogQueue {
   private batchInterval: number;
   private isFlushing = false;
   private eventEmitter?: EventEmitter;
+  private spool?: LogSpool;
   // Circuit breaker for HTTP logging - skip attempts after repeated failures
-  private httpLoggingFailures = 0;
-  private httpLoggingDisabledUntil: number | null = null;
-  private static readonly MAX_FAILURES = 3;
-  private static readonly DISABLE_DURATION_MS = 60000; // 1 minute
+  private circuitBreaker = new LogCircuitBreaker();
 
   constructor(
     httpClient: HttpClient,
     redis: RedisService,
     config: MisoClientConfig,
     eventEmitter?: EventEmitter,
+    spool?: LogSpool,
   ) {
     this.httpClient = httpClient;
     this.redis = redis;
     this.config = config;
     this.eventEmitter = eventEmitter;
+    this.spool = spool;
     const auditConfig = config.audit || {};
     this.batchSize = auditConfig.batchSize ?? 10;
     this.batchInterval = auditConfig.batchInterval ?? 100;
@@ -70,6 +77,7 @@ export class AuditLogQueue {
       entry,
       timestamp: Date.now(),
     });
+    sdkMetrics.auditQueueDepth.set({}, this.queue.length);
 
     // Flush if batch size reached
     if (this.queue.length >= this.batchSize) {
@@ -106,6 +114,7 @@ export class AuditLogQueue {
     this.isFlushing = true;
     try {
       const entries = this.queue.splice(0);
+      sdkMetrics.auditQueueDepth.set({}, 0);
       if (entries.length === 0) {
         return;
       }
@@ -129,6 +138,15 @@ export class AuditLogQueue {
 
   private async flushToRedis(logEntries: LogEntry[]): Promise<boolean> {
     if (!this.redis.isConnected()) return false;
+    if (this.config.redis?.logQueue === "stream") {
+      const stream = getLogStreamKey("audit-logs", this.config.clientId);
+      return appendLogsToStream(
+        this.redis,
+        stream,
+        logEntries,
+        this.config.redis,
+      );
+    }
     const queueName = `audit-logs:${this.config.clientId}`;
     const success = await this.redis.rpush(
       queueName,
@@ -139,25 +157,26 @@ export class AuditLogQueue {
 
   private async flushToHttp(logEntries: LogEntry[]): Promise<void> {
     const now = Date.now();
-    if (this.httpLoggingDisabledUntil && now < this.httpLoggingDisabledUntil) {
+    if (this.circuitBreaker.isOpen(now)) {
+      await spoolOrDrop(this.spool, logEntries, "circuit_open");
       return;
     }
     try {
-      if (this.apiClient) {
-        await this.apiClient.logs.createBatchLogs({ logs: logEntries });
-      } else {
-        await this.httpClient.request("POST", "/api/v1/logs/batch", {
-          logs: logEntries,
-        });
-      }
-      this.httpLoggingFailures = 0;
-      this.httpLoggingDisabledUntil = null;
+      await this.sendBatch(logEntries);
+      this.circuitBreaker.record(true, now);
     } catch {
-      this.httpLoggingFailures++;
-      if (this.httpLoggingFailures >= AuditLogQueue.MAX_FAILURES) {
-        this.httpLoggingDisabledUntil = now + AuditLogQueue.DISABLE_DURATION_MS;
-        this.httpLoggingFailures = 0;
-      }
+      await spoolOrDrop(this.spool, logEntries, "delivery_failed");
+      this.circuitBreaker.record(false, now);
+    }
+  }
+
+  private async sendBatch(logEntries: LogEntry[]): Promise<void> {
+    if (this.apiClient) {
+      await this.apiClient.logs.createBatchLogs({ logs: logEntries });
+    } else {
+      await this.httpClient.request("POST", "/api/v1/logs/batch", {
+        logs: logEntries,
+      });
     }
   }
 
@@ -177,5 +196,6 @@ export class AuditLogQueue {
       this.flushTimer = null;
     }
     this.queue = [];
+    sdkMetrics.auditQueueDepth.set({}, 0);
   }
 }
@@ -0,0 +1,103 @@
+/**
+ * Request coalescing and stale-while-revalidate helpers for cached lookups
+ * Used by RoleService, PermissionService and AuthService so that concurrent
+ * cache misses for the same key trigger a single controller call.
+ */
+
+import type { CacheService } from "../services/cache.service";
+import { extractErrorInfo } from "./error-extractor";
+import { logErrorWithContext } from "./console-logger";
+
+/**
+ * Single-flight: concurrent calls for the same key share one in-flight promise
+ */
+export class SingleFlight {
+  private inflight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run the loader unless a call for the key is already in flight
+   * @param key - Coalescing key (e.g. cache key)
+   * @param fn - Loader
+   * @returns Result of the in-flight (or new) call
+   */
+  run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T>;
+    const promise = fn().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /** Whether a call for the key is in flight */
+  has(key: string): boolean {
+    return this.inflight.has(key);
+  }
+}
+
+/** Cached data carrying the time it was loaded */
+export interface TimestampedCacheData {
+  timestamp?: number;
+  /** Per-entry freshness TTL in seconds (overrides RevalidationOptions.ttl) */
+  ttl?: number;
+}
+
+/** Revalidation settings for a cached lookup */
+export interface RevalidationOptions {
+  /** Freshness TTL in seconds */
+  ttl: number;
+  /** Seconds an expired entry is still served while one background refresh runs (0 = disabled) */
+  staleTtl: number;
+  /** Shared single-flight registry */
+  flights: SingleFlight;
+  /** Log prefix for background refresh failures (e.g. "[RoleService]") */
+  logContext: string;
+}
+
+/**
+ * Get a cached value, loading it once on miss and refreshing stale entries in the background.
+ * Entries are stored for `ttl + staleTtl`; within the stale window the cached value is
+ * returned immediately while a single refresh runs. Null loader results are not cached.
+ * @param cache - Cache service
+ * @param key - Cache key
+ * @param load - Loader (e.g. controller call)
+ * @param options - Revalidation settings
+ * @returns Cached or loaded data, or null
+ */
+export async function getWithRevalidation<T extends TimestampedCacheData>(
+  cache: CacheService,
+  key: string,
+  load: () => Promise<T | null>,
+  options: RevalidationOptions,
+): Promise<T | null> {
+  const refresh = (): Promise<T | null> =>
+    options.flights.run(key, async () => {
+      const data = await load();
+      if (data !== null) {
+        await cache.set<T>(
+          key,
+          data,
+          (data.ttl ?? options.ttl) + options.staleTtl,
+        );
+      }
+      return data;
+    });
+
+  const cached = await cache.get<T>(key);
+  if (!cached) return refresh();
+
+  const isStale =
+    options.staleTtl > 0 &&
+    typeof cached.timestamp === "number" &&
+    Date.now() - cached.timestamp >= (cached.ttl ?? options.ttl) * 1000;
+  if (isStale) {
+    refresh().catch((error) => {
+      const errorInfo = extractErrorInfo(error, {
+        endpoint: key,
+        method: "revalidate",
+      });
+      errorInfo.message = `Background refresh failed: ${errorInfo.message}`;
+      logErrorWithContext(errorInfo, options.logContext);
+    });
+  }
+  return cached;
+}
@@ -0,0 +1,178 @@
+/**
+ * Built-in CacheStore implementations that work in Node.js and browsers
+ * (RedisCacheStore lives in services/redis-cache-store.ts).
+ */
+
+import { CacheStore } from "../types/cache-store.types";
+import { globToRegExp } from "./glob-pattern";
+import { LruCache } from "./lru-cache";
+
+interface StoredValue {
+  value: string;
+  expiresAt: number;
+}
+
+/** Remaining whole seconds until expiresAt */
+function remainingSeconds(expiresAt: number): number {
+  return Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+}
+
+/**
+ * Delete keys matching a glob pattern via scan + delete (for stores without deleteByPattern)
+ * @param store - Cache store
+ * @param pattern - Glob pattern
+ * @returns Number of keys deleted
+ */
+export async function deleteMatching(
+  store: CacheStore,
+  pattern: string,
+): Promise<number> {
+  const keys = await store.scan(pattern);
+  const deleted = await Promise.all(keys.map((key) => store.delete(key)));
+  return deleted.filter(Boolean).length;
+}
+
+/** MemoryCacheStore limits */
+export interface MemoryCacheStoreOptions {
+  /** Maximum number of entries (default: 10000) */
+  maxEntries?: number;
+  /** Maximum approximate size in bytes (default: unbounded) */
+  maxBytes?: number;
+}
+
+/**
+ * In-process CacheStore backed by a bounded LRU map
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries: LruCache<string, StoredValue>;
+
+  constructor(options?: MemoryCacheStoreOptions) {
+    this.entries = new LruCache({
+      maxEntries: options?.maxEntries ?? 10000,
+      maxBytes: options?.maxBytes,
+      sizeOf: (entry) => entry.value.length * 2,
+    });
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttl: number): Promise<boolean> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+    return true;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async scan(pattern: string): Promise<string[]> {
+    const regex = globToRegExp(pattern);
+    const now = Date.now();
+    // peek() so scanning does not change LRU order
+    return [...this.entries.keys()].filter(
+      (key) =>
+        regex.test(key) && (this.entries.peek(key)?.expiresAt ?? 0) > now,
+    );
+  }
+
+  async ttl(key: string): Promise<number | null> {
+    const entry = this.read(key);
+    return entry ? remainingSeconds(entry.expiresAt) : null;
+  }
+
+  /** Unexpired entry (expired entries are removed on access) */
+  private read(key: string): StoredValue | undefined {
+    const entry = this.entries.peek(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry ? this.entries.get(key) : undefined;
+  }
+}
+
+/** Minimal Web Storage API (window.sessionStorage / window.localStorage) */
+export interface WebStorageLike {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/** WebStorageCacheStore options */
+export interface WebStorageCacheStoreOptions {
+  /** Prefix for stored keys, isolating cache entries from other storage users (default: "miso:cache:") */
+  prefix?: string;
+}
+
+/**
+ * Browser CacheStore backed by sessionStorage or localStorage.
+ * Entries are stored as JSON `{ value, expiresAt }` under a key prefix; when the
+ * storage quota is exceeded set() returns false.
+ */
+export class WebStorageCacheStore implements CacheStore {
+  private storage: WebStorageLike;
+  private prefix: string;
+
+  constructor(storage: WebStorageLike, options?: WebStorageCacheStoreOptions) {
+    this.storage = storage;
+    this.prefix = options?.prefix ?? "miso:cache:";
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttl: number): Promise<boolean> {
+    const entry: StoredValue = { value, expiresAt: Date.now() + ttl * 1000 };
+    try {
+      this.storage.setItem(this.prefix + key, JSON.stringify(entry));
+      return true;
+    } catch {
+      // Quota exceeded or storage disabled
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const exists = this.storage.getItem(this.prefix + key) !== null;
+    this.storage.removeItem(this.prefix + key);
+    return exists;
+  }
+
+  async scan(pattern: string): Promise<string[]> {
+    const regex = globToRegExp(pattern);
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const stored = this.storage.key(i);
+      if (stored?.startsWith(this.prefix)) {
+        keys.push(stored.slice(this.prefix.length));
+      }
+    }
+    return keys.filter((key) => regex.test(key) && this.read(key) !== null);
+  }
+
+  async ttl(key: string): Promise<number | null> {
+    const entry = this.read(key);
+    return entry ? remainingSeconds(entry.expiresAt) : null;
+  }
+
+  /** Unexpired entry (expired or corrupt entries are removed on access) */
+  private read(key: string): StoredValue | null {
+    const raw = this.storage.getItem(this.prefix + key);
+    if (raw === null) return null;
+    try {
+      const entry = JSON.parse(raw) as StoredValue;
+      if (typeof entry.value === "string" && entry.expiresAt > Date.now()) {
+        return entry;
+      }
+    } catch {
+      // Corrupt entry - removed below
+    }
+    this.storage.removeItem(this.prefix + key);
+    return null;
+  }
+}
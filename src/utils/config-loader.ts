@@ -9,21 +9,95 @@ import {
   RedisConfig,
   AuthStrategy,
   AuthMethod,
+  RbacConfig,
+  RedisNodeAddress,
 } from "../types/config.types";
+import { ConsoleLogOutput } from "../types/log-transport.types";
+
+/**
+ * Parse a comma-separated `host:port` list (e.g. "10.0.0.1:26379,10.0.0.2:26379")
+ * @param value - Address list
+ * @param defaultPort - Port used when an entry has none
+ */
+function parseRedisNodes(
+  value: string,
+  defaultPort: number,
+): RedisNodeAddress[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.lastIndexOf(":");
+      if (separator <= 0) return { host: entry, port: defaultPort };
+      const port = parseInt(entry.slice(separator + 1), 10);
+      return {
+        host: entry.slice(0, separator),
+        port: Number.isNaN(port) ? defaultPort : port,
+      };
+    });
+}
+
+/** Load Redis TLS option from environment (REDIS_TLS, REDIS_TLS_*) */
+function loadRedisTls(): RedisConfig["tls"] {
+  const servername = process.env.REDIS_TLS_SERVERNAME;
+  const rejectUnauthorized = process.env.REDIS_TLS_REJECT_UNAUTHORIZED;
+  if (process.env.REDIS_TLS !== "true" && !servername && !rejectUnauthorized)
+    return undefined;
+  if (!servername && !rejectUnauthorized) return true;
+  return {
+    servername,
+    rejectUnauthorized:
+      rejectUnauthorized === undefined
+        ? undefined
+        : rejectUnauthorized !== "false",
+  };
+}
+
+/** Load Redis Sentinel / Cluster topology from environment */
+function loadRedisTopology(redisConfig: RedisConfig): void {
+  if (process.env.REDIS_SENTINELS) {
+    redisConfig.sentinels = parseRedisNodes(process.env.REDIS_SENTINELS, 26379);
+  }
+  if (process.env.REDIS_SENTINEL_NAME)
+    redisConfig.sentinelName = process.env.REDIS_SENTINEL_NAME;
+  if (process.env.REDIS_SENTINEL_PASSWORD)
+    redisConfig.sentinelPassword = process.env.REDIS_SENTINEL_PASSWORD;
+  if (process.env.REDIS_CLUSTER_NODES) {
+    redisConfig.cluster = parseRedisNodes(
+      process.env.REDIS_CLUSTER_NODES,
+      6379,
+    );
+  }
+}
 
 /** Load Redis configuration from environment */
 function loadRedisConfig(): RedisConfig | undefined {
   const redisHost = process.env.REDIS_HOST;
-  if (!redisHost) return undefined;
+  const redisUrl = process.env.REDIS_URL;
+  if (
+    !redisHost &&
+    !redisUrl &&
+    !process.env.REDIS_SENTINELS &&
+    !process.env.REDIS_CLUSTER_NODES
+  )
+    return undefined;
 
   const redisConfig: RedisConfig = {
     host: redisHost,
     port: parseInt(process.env.REDIS_PORT || "6379", 10),
     password: process.env.REDIS_PASSWORD,
   };
+  if (!redisHost) delete redisConfig.host;
+  if (redisUrl) redisConfig.url = redisUrl;
+  if (process.env.REDIS_USERNAME)
+    redisConfig.username = process.env.REDIS_USERNAME;
   if (process.env.REDIS_DB) redisConfig.db = parseInt(process.env.REDIS_DB, 10);
   if (process.env.REDIS_KEY_PREFIX)
     redisConfig.keyPrefix = process.env.REDIS_KEY_PREFIX;
+  const tls = loadRedisTls();
+  if (tls) redisConfig.tls = tls;
+  loadRedisTopology(redisConfig);
   return redisConfig;
 }
 
@@ -67,6 +141,29 @@ function loadKeycloakConfig(): MisoClientConfig["keycloak"] | undefined {
   };
 }
 
+/** Load local RBAC configuration from environment */
+function loadRbacConfig(): RbacConfig | undefined {
+  const mode = process.env.MISO_RBAC_MODE?.toLowerCase();
+  if (mode !== "local" && mode !== "controller") return undefined;
+  const rbac: RbacConfig = { mode };
+  if (process.env.MISO_RBAC_POLICY_PATH)
+    rbac.policyPath = process.env.MISO_RBAC_POLICY_PATH;
+  if (process.env.MISO_RBAC_CLIENT_ID)
+    rbac.resourceClientId = process.env.MISO_RBAC_CLIENT_ID;
+  if (process.env.MISO_RBAC_INCLUDE_REALM_ROLES)
+    rbac.includeRealmRoles =
+      process.env.MISO_RBAC_INCLUDE_REALM_ROLES.toLowerCase() === "true";
+  return rbac;
+}
+
+/** Console log output: MISO_LOG_FORMAT (pretty, json or off); "pretty" in development */
+function loadConsoleOutput(): ConsoleLogOutput | undefined {
+  const format = process.env.MISO_LOG_FORMAT?.toLowerCase();
+  if (format === "pretty" || format === "json") return format;
+  if (format) return undefined;
+  return process.env.NODE_ENV === "development" ? "pretty" : undefined;
+}
+
 /** Load allowed origins from environment */
 function loadAllowedOrigins(): string[] | undefined {
   if (!process.env.MISO_ALLOWED_ORIGINS) return undefined;
@@ -110,6 +207,8 @@ function applyOptionalConfig(config: MisoClientConfig): void {
     config.sensitiveFieldsConfig = process.env.MISO_SENSITIVE_FIELDS_CONFIG;
   if (process.env.MISO_EMIT_EVENTS)
     config.emitEvents = process.env.MISO_EMIT_EVENTS.toLowerCase() === "true";
+  const consoleOutput = loadConsoleOutput();
+  if (consoleOutput) config.consoleOutput = consoleOutput;
 
   const authStrategy = loadAuthStrategy();
   if (authStrategy) config.authStrategy = authStrategy;
@@ -126,6 +225,8 @@ function applyOptionalConfig(config: MisoClientConfig): void {
 
   const keycloak = loadKeycloakConfig();
   if (keycloak) config.keycloak = keycloak;
+  const rbac = loadRbacConfig();
+  if (rbac) config.rbac = rbac;
   if (process.env.ENCRYPTION_KEY)
     config.encryptionKey = process.env.ENCRYPTION_KEY;
 }
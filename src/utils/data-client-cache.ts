@@ -5,7 +5,10 @@
 
 import { CacheEntry, CacheConfig } from "../types/data-client.types";
 import { generateCacheKey } from "./data-client-utils";
+import { evictOverflow, touchEntry } from "./lru-cache";
 import { ApiRequestOptions } from "../types/data-client.types";
+import { CacheStore } from "../types/cache-store.types";
+import { deleteMatching } from "./cache-stores";
 
 /**
  * Cache manager interface
@@ -26,7 +29,7 @@ export function getCachedEntry<T>(
   cacheKey: string,
   metrics: { cacheHits: number; cacheMisses: number },
 ): T | null {
-  const cached = cache.get(cacheKey);
+  const cached = touchEntry(cache, cacheKey);
   if (cached && cached.expiresAt > Date.now()) {
     metrics.cacheHits++;
     return cached.data as T;
@@ -36,7 +39,40 @@ export function getCachedEntry<T>(
 }
 
 /**
- * Set cache entry with TTL and enforce max size
+ * Get cached entry from memory, then from the persistent store
+ * Store hits are copied into the memory cache (evicting least recently used entries over max size).
+ */
+export async function getStoredEntry<T>(
+  store: CacheStore,
+  cache: Map<string, CacheEntry>,
+  cacheKey: string,
+  metrics: { cacheHits: number; cacheMisses: number },
+  maxSize: number,
+): Promise<T | null> {
+  const cached = touchEntry(cache, cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    metrics.cacheHits++;
+    return cached.data as T;
+  }
+  try {
+    const raw = await store.get(cacheKey);
+    const stored = raw ? (JSON.parse(raw) as CacheEntry) : null;
+    if (stored && stored.expiresAt > Date.now()) {
+      cache.set(cacheKey, stored);
+      evictOverflow(cache, maxSize);
+      metrics.cacheHits++;
+      return stored.data as T;
+    }
+  } catch {
+    // Store unavailable or corrupt entry - treat as miss
+  }
+  metrics.cacheMisses++;
+  return null;
+}
+
+/**
+ * Set cache entry with TTL and evict least recently used entries over max size
+ * When a persistent store is given the entry is also written there (best effort).
  */
 export function setCacheEntry(
   cache: Map<string, CacheEntry>,
@@ -44,20 +80,28 @@ export function setCacheEntry(
   data: unknown,
   ttl: number,
   maxSize: number,
+  store?: CacheStore,
 ): void {
-  cache.set(cacheKey, {
+  const entry: CacheEntry = {
     data,
     expiresAt: Date.now() + ttl * 1000,
     key: cacheKey,
-  });
-
-  // Enforce max cache size
-  if (cache.size > maxSize) {
-    const firstKey = cache.keys().next().value;
-    if (firstKey) cache.delete(firstKey);
+  };
+  cache.delete(cacheKey);
+  cache.set(cacheKey, entry);
+  evictOverflow(cache, maxSize);
+  if (store) {
+    store.set(cacheKey, JSON.stringify(entry), ttl).catch(() => undefined);
   }
 }
 
+/**
+ * Clear all entries from a persistent store (best effort)
+ */
+export function clearCacheStore(store: CacheStore): void {
+  deleteMatching(store, "*").catch(() => undefined);
+}
+
 /**
  * Check if caching is enabled for request
  */
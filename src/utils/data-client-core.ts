@@ -13,6 +13,8 @@ import { ClientTokenInfo } from "./token-utils";
 import { isBrowser } from "./data-client-utils";
 import {
   getCachedEntry,
+  getStoredEntry,
+  clearCacheStore,
   isCacheEnabled,
   getCacheKeyForRequest,
 } from "./data-client-cache";
@@ -193,6 +195,7 @@ export class DataClientCore {
 
   clearCache(): void {
     this.cache.clear();
+    if (this.config.cache?.store) clearCacheStore(this.config.cache.store);
   }
 
   getMetrics(): RequestMetrics {
@@ -276,12 +279,21 @@ export class DataClientCore {
     });
   }
 
-  protected getCachedResponse<T>(
+  protected async getCachedResponse<T>(
     cacheEnabled: boolean,
     cacheKey: string,
-  ): T | null {
+  ): Promise<T | null> {
     if (!cacheEnabled) return null;
-    return getCachedEntry<T>(this.cache, cacheKey, this.metrics);
+    const store = this.config.cache?.store;
+    return store
+      ? getStoredEntry<T>(
+          store,
+          this.cache,
+          cacheKey,
+          this.metrics,
+          this.config.cache?.maxSize || 100,
+        )
+      : getCachedEntry<T>(this.cache, cacheKey, this.metrics);
   }
 
   protected getPendingGetRequest<T>(
@@ -348,7 +360,7 @@ export class DataClientCore {
     const cacheEnabled = isCacheEnabled(method, this.config.cache, options);
 
     this.checkCircuitBreaker(cacheKey);
-    const cached = this.getCachedResponse<T>(cacheEnabled, cacheKey);
+    const cached = await this.getCachedResponse<T>(cacheEnabled, cacheKey);
     if (cached !== null) return cached;
 
     const pending = this.getPendingGetRequest<T>(isGetRequest, cacheKey);
@@ -5,6 +5,7 @@
 
 import { BrowserPermissionService } from "../services/browser-permission.service";
 import { MisoClient } from "../miso-client";
+import { PermissionExplanation } from "../types/config.types";
 
 /**
  * Get user permissions (uses token from localStorage if not provided)
@@ -108,6 +109,32 @@ export async function hasAllPermissions(
   return permissionService.hasAllPermissions(userToken, permissions);
 }
 
+/**
+ * Explain a permission check (userId, source, cache age, granted and missing)
+ * @param permissionService - Browser permission service instance
+ * @param misoClient - MisoClient instance (for availability check)
+ * @param getTokenFn - Function to get user token
+ * @param permissions - Permission or permissions to check
+ * @param token - Optional user authentication token
+ * @returns Explanation, or null when no client or token is available
+ */
+export async function explainPermission(
+  permissionService: BrowserPermissionService | null,
+  misoClient: MisoClient | null,
+  getTokenFn: () => string | null,
+  permissions: string | string[],
+  token?: string,
+): Promise<PermissionExplanation | null> {
+  if (!misoClient || !permissionService) {
+    return null;
+  }
+  const userToken = token || getTokenFn();
+  if (!userToken) {
+    return null;
+  }
+  return permissionService.explainPermission(userToken, permissions);
+}
+
 /**
  * Force refresh permissions from controller (bypass cache)
  * @param permissionService - Browser permission service instance
@@ -21,6 +21,7 @@ import {
   waitForRetry,
 } from "./data-client-response";
 import { writeWarn } from "./console-logger";
+import { getTraceHeaders } from "./trace-context";
 import {
   RetryConfig,
   RequestRetryState,
@@ -158,6 +159,11 @@ export async function makeFetchRequest(
 ): Promise<Response> {
   const headers = new Headers(config.defaultHeaders);
   applyOptionHeaders(headers, options?.headers);
+  if (config.propagateTraceContext !== false) {
+    for (const [name, value] of Object.entries(getTraceHeaders())) {
+      if (!headers.has(name)) headers.set(name, value);
+    }
+  }
 
   if (!options?.skipAuth) {
     const token = getToken();
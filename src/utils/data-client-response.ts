@@ -284,7 +284,14 @@ function cacheSuccessfulResponse<T>(opts: {
     opts;
   if (!cacheEnabled || !response.ok) return;
   const ttl = options?.cache?.ttl || config.cache?.defaultTTL || 300;
-  setCacheEntry(cache, cacheKey, data, ttl, config.cache?.maxSize || 100);
+  setCacheEntry(
+    cache,
+    cacheKey,
+    data,
+    ttl,
+    config.cache?.maxSize || 100,
+    config.cache?.store,
+  );
 }
 
 async function auditSuccessResponse<T>(opts: {
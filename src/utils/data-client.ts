@@ -12,7 +12,7 @@ import * as permissionHelpers from "./data-client-permissions";
 import * as roleHelpers from "./data-client-roles";
 import { getEnvironmentToken } from "./data-client-auth";
 import { DataClientCore } from "./data-client-core";
-import { UserInfo } from "../types/config.types";
+import { PermissionExplanation, UserInfo } from "../types/config.types";
 
 export class DataClient extends DataClientCore {
   async get<T>(endpoint: string, options?: ApiRequestOptions): Promise<T> {
@@ -120,6 +120,19 @@ export class DataClient extends DataClientCore {
     );
   }
 
+  async explainPermission(
+    permissions: string | string[],
+    token?: string,
+  ): Promise<PermissionExplanation | null> {
+    return permissionHelpers.explainPermission(
+      this.permissionService,
+      this.misoClient,
+      () => this.getToken(),
+      permissions,
+      token,
+    );
+  }
+
   async refreshPermissions(token?: string): Promise<string[]> {
     return permissionHelpers.refreshPermissions(
       this.permissionService,
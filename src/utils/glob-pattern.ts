@@ -0,0 +1,77 @@
+/**
+ * Redis-style glob pattern helpers
+ * Used to apply the same key patterns to Redis `SCAN MATCH` and the in-memory cache.
+ *
+ * Supported syntax: `*` (any run of characters), `?` (any single character),
+ * `[abc]`, `[a-z]` and `[^abc]` character classes, and `\` to escape the next character.
+ */
+
+const GLOB_SPECIAL = /[*?[\]\\]/g;
+const REGEXP_SPECIAL = /[.*+?^${}()|[\]\\]/g;
+const CLASS_SPECIAL = /[\\\]^[-]/g;
+
+/**
+ * Escape glob metacharacters so the value matches literally.
+ * @param value - Literal text (e.g. a key prefix)
+ * @returns Glob-safe text
+ */
+export function escapeGlob(value: string): string {
+  return value.replace(GLOB_SPECIAL, "\\$&");
+}
+
+/**
+ * Convert a `[...]` class starting at `start` (same rules as Redis `stringmatchlen`).
+ * @returns RegExp class source and index of the closing `]`; null when unterminated
+ */
+function parseClass(
+  pattern: string,
+  start: number,
+): { source: string; end: number } | null {
+  const escape = (char: string): string => char.replace(CLASS_SPECIAL, "\\$&");
+  let i = start + 1;
+  const negate = pattern[i] === "^";
+  if (negate) i++;
+  let body = "";
+  while (i < pattern.length && pattern[i] !== "]") {
+    if (pattern[i] === "\\" && i + 1 < pattern.length) {
+      body += escape(pattern[++i]);
+    } else if (pattern[i + 1] === "-" && i + 2 < pattern.length) {
+      // Reversed ranges (e.g. z-a) match like Redis instead of being a RegExp error
+      const [from, to] = [pattern[i], pattern[i + 2]].sort();
+      body += `${escape(from)}-${escape(to)}`;
+      i += 2;
+    } else {
+      body += escape(pattern[i]);
+    }
+    i++;
+  }
+  if (i >= pattern.length) return null;
+  return { source: `[${negate ? "^" : ""}${body}]`, end: i };
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ * An unterminated `[` matches literally.
+ * @param pattern - Glob pattern (e.g. "permissions:*")
+ * @returns RegExp matching whole keys
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const charClass = char === "[" ? parseClass(pattern, i) : null;
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += pattern[++i].replace(REGEXP_SPECIAL, "\\$&");
+    } else if (char === "*") {
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else if (charClass) {
+      source += charClass.source;
+      i = charClass.end;
+    } else {
+      source += char.replace(REGEXP_SPECIAL, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "s");
+}
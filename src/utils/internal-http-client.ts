@@ -23,6 +23,8 @@ import {
   refreshClientTokenFromCallback,
 } from "./client-token-manager";
 import { LoggerContextStorage } from "../services/logger/logger-context-storage";
+import { getTraceHeaders } from "./trace-context";
+import { normalizeEndpoint, sdkMetrics } from "./sdk-metrics";
 
 export class InternalHttpClient {
   private axios: AxiosInstance;
@@ -30,6 +32,7 @@ export class InternalHttpClient {
   private tokenState: TokenState = { token: null, expiresAt: null };
   private tokenRefreshPromise: Promise<string> | null = null;
   private loggerContextStorage = LoggerContextStorage.getInstance();
+  private requestStartTimes = new WeakMap<InternalAxiosRequestConfig, number>();
 
   constructor(config: MisoClientConfig) {
     this.config = config;
@@ -89,6 +92,7 @@ export class InternalHttpClient {
     this.axios.interceptors.request.use(
       async (config: InternalAxiosRequestConfig) => {
         config.headers = config.headers || {};
+        this.requestStartTimes.set(config, Date.now());
         this.attachTraceHeaders(config);
         if (
           !config.headers["x-client-token"] &&
@@ -111,8 +115,15 @@ export class InternalHttpClient {
 
     // Response interceptor: handle 401 errors with auth-specific messages
     this.axios.interceptors.response.use(
-      (response: AxiosResponse) => response,
+      (response: AxiosResponse) => {
+        this.recordRequestMetric(response.config, String(response.status));
+        return response;
+      },
       (error: AxiosError) => {
+        this.recordRequestMetric(
+          error.config,
+          String(error.response?.status ?? "error"),
+        );
         if (error.response?.status === 401) {
           this.handle401Error(error);
         }
@@ -121,8 +132,30 @@ export class InternalHttpClient {
     );
   }
 
-  /** Attach correlation headers from async logger context when available. */
+  /** Observe controller request latency (started in the request interceptor) */
+  private recordRequestMetric(
+    config: InternalAxiosRequestConfig | undefined,
+    status: string,
+  ): void {
+    const start = config && this.requestStartTimes.get(config);
+    if (!config || start === undefined) return;
+    this.requestStartTimes.delete(config);
+    sdkMetrics.controllerRequestDuration.observe(
+      {
+        method: (config.method ?? "get").toUpperCase(),
+        endpoint: normalizeEndpoint(config.url),
+        status,
+      },
+      (Date.now() - start) / 1000,
+    );
+  }
+
+  /** Attach W3C trace and correlation headers from the active trace / logger context. */
   private attachTraceHeaders(config: InternalAxiosRequestConfig): void {
+    for (const [name, value] of Object.entries(getTraceHeaders())) {
+      if (!config.headers[name]) config.headers[name] = value;
+    }
+
     const context = this.loggerContextStorage.getContext();
     if (!context) return;
 
@@ -195,7 +228,12 @@ export class InternalHttpClient {
   ): Promise<string> {
     this.tokenRefreshPromise = refreshFn();
     try {
-      return await this.tokenRefreshPromise;
+      const token = await this.tokenRefreshPromise;
+      sdkMetrics.tokenRefreshes.inc({ type: "client", outcome: "success" });
+      return token;
+    } catch (error) {
+      sdkMetrics.tokenRefreshes.inc({ type: "client", outcome: "failure" });
+      throw error;
     } finally {
       this.tokenRefreshPromise = null;
     }
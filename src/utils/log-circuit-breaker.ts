@@ -0,0 +1,30 @@
+/**
+ * Circuit breaker for HTTP log delivery
+ * Skips delivery attempts for a while after repeated failures.
+ */
+
+export class LogCircuitBreaker {
+  private failures = 0;
+  private disabledUntil: number | null = null;
+  private static readonly MAX_FAILURES = 3;
+  private static readonly DISABLE_DURATION_MS = 60000; // 1 minute
+
+  /** Whether delivery is currently skipped */
+  isOpen(now: number = Date.now()): boolean {
+    return Boolean(this.disabledUntil && now < this.disabledUntil);
+  }
+
+  /** Record a delivery attempt made at `now` */
+  record(success: boolean, now: number = Date.now()): void {
+    if (success) {
+      this.failures = 0;
+      this.disabledUntil = null;
+      return;
+    }
+    this.failures++;
+    if (this.failures >= LogCircuitBreaker.MAX_FAILURES) {
+      this.disabledUntil = now + LogCircuitBreaker.DISABLE_DURATION_MS;
+      this.failures = 0;
+    }
+  }
+}
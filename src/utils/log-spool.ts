@@ -0,0 +1,274 @@
+/**
+ * Append-only disk spool for logs that cannot be delivered
+ * Entries are written as NDJSON to rotating files in one directory and replayed
+ * oldest-first from a background timer. When the size cap is reached the oldest
+ * files are dropped. Node.js only.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { LogEntry, LogSpoolConfig } from "../types/config.types";
+import { writeErr, writeWarn } from "./console-logger";
+import { sdkMetrics } from "./sdk-metrics";
+
+const FILE_PATTERN = /^miso-logs-\d{13}-\d{6}\.ndjson$/;
+
+interface SpoolFile {
+  name: string;
+  size: number;
+}
+
+/** Parse NDJSON lines, skipping blank or corrupt (e.g. partially written) lines */
+function parseLines(content: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LogEntry);
+    } catch {
+      // Skip corrupt line
+    }
+  }
+  return entries;
+}
+
+function toNdjson(entries: LogEntry[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+export class LogSpool {
+  private directory: string;
+  private maxFileBytes: number;
+  private maxTotalBytes: number;
+  private replayBatchSize: number;
+  private replayInterval: number;
+  private allLevels: boolean;
+  private replayTimer: ReturnType<typeof setInterval> | null = null;
+  private replaying = false;
+  private activeFile: string | null = null;
+  private activeBytes = 0;
+  private totalBytes: number | null = null;
+  private sequence = 0;
+  // File operations run one at a time in call order
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(config: LogSpoolConfig) {
+    this.directory = config.directory;
+    this.maxFileBytes = config.maxFileBytes ?? 5 * 1024 * 1024;
+    this.maxTotalBytes = config.maxTotalBytes ?? 50 * 1024 * 1024;
+    this.replayBatchSize = config.replayBatchSize ?? 100;
+    this.replayInterval = config.replayInterval ?? 30000;
+    this.allLevels = config.allLevels ?? false;
+  }
+
+  /**
+   * Whether the entry is spooled (audit entries only, unless allLevels is set)
+   */
+  accepts(entry: LogEntry): boolean {
+    return this.allLevels || entry.level === "audit";
+  }
+
+  /**
+   * Append entries to the active spool file. Entries the spool does not
+   * accept are skipped.
+   * @param entries - Log entries
+   * @returns True if written (false on file system errors)
+   */
+  append(entries: LogEntry[]): Promise<boolean> {
+    const accepted = entries.filter((entry) => this.accepts(entry));
+    return this.enqueue(async () => {
+      if (accepted.length === 0) return true;
+      try {
+        await this.load();
+        const data = toNdjson(accepted);
+        const bytes = Buffer.byteLength(data);
+        let file = this.activeFile;
+        if (!file || this.activeBytes + bytes > this.maxFileBytes) {
+          file = this.rotate();
+        }
+        await fs.promises.appendFile(this.filePath(file), data);
+        this.activeBytes += bytes;
+        this.totalBytes = (this.totalBytes ?? 0) + bytes;
+        await this.enforceCap();
+        return true;
+      } catch (error) {
+        writeErr(`[LogSpool] Failed to spool logs: ${String(error)}`);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Whether spooled entries are waiting for replay
+   */
+  hasPending(): Promise<boolean> {
+    return this.enqueue(async () => {
+      try {
+        await this.load();
+      } catch {
+        return false;
+      }
+      return (this.totalBytes ?? 0) > 0;
+    });
+  }
+
+  /**
+   * Replay spooled entries oldest-first. Each file is deleted once delivered; on
+   * failure the undelivered remainder is kept for the next replay.
+   * @param send - Delivers one batch (e.g. createBatchLogs); throws on failure
+   * @returns True if the spool was fully drained
+   */
+  replay(send: (logs: LogEntry[]) => Promise<void>): Promise<boolean> {
+    return this.enqueue(async () => {
+      try {
+        await this.load();
+        // Later appends start a new file
+        this.activeFile = null;
+        for (const file of await this.listFiles()) {
+          if (!(await this.replayFile(file, send))) return false;
+        }
+        return true;
+      } catch (error) {
+        writeErr(`[LogSpool] Failed to replay logs: ${String(error)}`);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Replay pending entries every replayInterval ms until stop() is called.
+   * Runs never overlap; the timer does not keep the process alive.
+   * @param send - Delivers one batch (e.g. createBatchLogs); throws on failure
+   * @param canReplay - Skip a run while this returns false (e.g. circuit breaker open)
+   */
+  startReplay(
+    send: (logs: LogEntry[]) => Promise<void>,
+    canReplay: () => boolean = () => true,
+  ): void {
+    if (this.replayTimer) return;
+    this.replayTimer = setInterval(() => {
+      if (this.replaying || !canReplay()) return;
+      this.replaying = true;
+      void this.hasPending()
+        .then((pending) => (pending ? this.replay(send) : true))
+        .finally(() => {
+          this.replaying = false;
+        });
+    }, this.replayInterval);
+    this.replayTimer.unref?.();
+  }
+
+  /** Stop background replay (spooled files are kept) */
+  stop(): void {
+    if (this.replayTimer) {
+      clearInterval(this.replayTimer);
+      this.replayTimer = null;
+    }
+  }
+
+  private async replayFile(
+    file: SpoolFile,
+    send: (logs: LogEntry[]) => Promise<void>,
+  ): Promise<boolean> {
+    const filePath = this.filePath(file.name);
+    const entries = parseLines(await fs.promises.readFile(filePath, "utf8"));
+    for (let i = 0; i < entries.length; i += this.replayBatchSize) {
+      try {
+        await send(entries.slice(i, i + this.replayBatchSize));
+      } catch {
+        await this.rewrite(file, entries.slice(i));
+        return false;
+      }
+    }
+    await fs.promises.unlink(filePath);
+    this.totalBytes = Math.max(0, (this.totalBytes ?? 0) - file.size);
+    return true;
+  }
+
+  /** Replace a file with its undelivered remainder (write + rename) */
+  private async rewrite(file: SpoolFile, remaining: LogEntry[]): Promise<void> {
+    const data = toNdjson(remaining);
+    const filePath = this.filePath(file.name);
+    await fs.promises.writeFile(`${filePath}.tmp`, data);
+    await fs.promises.rename(`${filePath}.tmp`, filePath);
+    const bytes = Buffer.byteLength(data);
+    this.totalBytes = Math.max(0, (this.totalBytes ?? 0) - file.size + bytes);
+  }
+
+  /** Drop the oldest files (never the active one) while over maxTotalBytes */
+  private async enforceCap(): Promise<void> {
+    if ((this.totalBytes ?? 0) <= this.maxTotalBytes) return;
+    for (const file of await this.listFiles()) {
+      if ((this.totalBytes ?? 0) <= this.maxTotalBytes) break;
+      if (file.name === this.activeFile) continue;
+      const filePath = this.filePath(file.name);
+      const dropped = parseLines(await fs.promises.readFile(filePath, "utf8"));
+      await fs.promises.unlink(filePath);
+      sdkMetrics.logsDropped.inc({ reason: "spool_cap" }, dropped.length);
+      this.totalBytes = (this.totalBytes ?? 0) - file.size;
+      writeWarn(
+        `[LogSpool] Size cap of ${this.maxTotalBytes} bytes reached, dropped ${file.name}`,
+      );
+    }
+  }
+
+  /** Create the directory and size existing files (once) */
+  private async load(): Promise<void> {
+    if (this.totalBytes !== null) return;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const files = await this.listFiles();
+    this.totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  }
+
+  /** Spool files, oldest first */
+  private async listFiles(): Promise<SpoolFile[]> {
+    const names = (await fs.promises.readdir(this.directory))
+      .filter((name) => FILE_PATTERN.test(name))
+      .sort();
+    return Promise.all(
+      names.map(async (name) => ({
+        name,
+        size: (await fs.promises.stat(this.filePath(name))).size,
+      })),
+    );
+  }
+
+  /** Start a new active file; names sort in creation order */
+  private rotate(): string {
+    this.sequence = (this.sequence + 1) % 1000000;
+    const time = String(Date.now()).padStart(13, "0");
+    const sequence = String(this.sequence).padStart(6, "0");
+    this.activeFile = `miso-logs-${time}-${sequence}.ndjson`;
+    this.activeBytes = 0;
+    return this.activeFile;
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.directory, name);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(task, task);
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Spool the entries the spool accepts and count the rest as dropped
+ * @param spool - Disk spool, if any
+ * @param logEntries - Undeliverable entries
+ * @param reason - Why the entries could not be sent
+ */
+export async function spoolOrDrop(
+  spool: LogSpool | undefined,
+  logEntries: LogEntry[],
+  reason: "circuit_open" | "delivery_failed",
+): Promise<void> {
+  const spooled = spool
+    ? logEntries.filter((entry) => spool.accepts(entry))
+    : [];
+  if (spooled.length > 0) await spool?.append(spooled);
+  const dropped = logEntries.length - spooled.length;
+  if (dropped > 0) sdkMetrics.logsDropped.inc({ reason }, dropped);
+}
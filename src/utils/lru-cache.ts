@@ -0,0 +1,168 @@
+/**
+ * Least-recently-used (LRU) cache primitives
+ * Shared by CacheService (server memory cache) and DataClient (browser HTTP cache).
+ *
+ * Recency is tracked with Map insertion order: reading an entry moves it to the
+ * end, and eviction removes entries from the front.
+ */
+
+/** LRU cache limits */
+export interface LruCacheOptions<V> {
+  /** Maximum number of entries (default: unbounded) */
+  maxEntries?: number;
+  /** Maximum approximate size in bytes (default: unbounded) */
+  maxBytes?: number;
+  /** Approximate size of a value in bytes (default: estimateSize) */
+  sizeOf?: (value: V) => number;
+}
+
+/** LRU cache size and eviction counters */
+export interface LruCacheStats {
+  entries: number;
+  maxEntries?: number;
+  /** Approximate size in bytes (only tracked when maxBytes is set) */
+  approximateBytes?: number;
+  maxBytes?: number;
+  evictions: number;
+}
+
+/**
+ * Mark an entry as most recently used.
+ * @param map - Map used as LRU store
+ * @param key - Entry key
+ * @returns Entry value or undefined when absent
+ */
+export function touchEntry<K, V>(map: Map<K, V>, key: K): V | undefined {
+  if (!map.has(key)) return undefined;
+  const value = map.get(key) as V;
+  map.delete(key);
+  map.set(key, value);
+  return value;
+}
+
+/**
+ * Evict least recently used entries until the map holds at most maxEntries.
+ * @param map - Map used as LRU store
+ * @param maxEntries - Maximum number of entries
+ * @param onEvict - Optional callback for each evicted entry
+ * @returns Number of evicted entries
+ */
+export function evictOverflow<K, V>(
+  map: Map<K, V>,
+  maxEntries: number,
+  onEvict?: (key: K, value: V) => void,
+): number {
+  let evicted = 0;
+  while (map.size > Math.max(0, maxEntries)) {
+    const [key, value] = map.entries().next().value as [K, V];
+    map.delete(key);
+    onEvict?.(key, value);
+    evicted++;
+  }
+  return evicted;
+}
+
+/**
+ * Approximate in-memory size of a value (UTF-16 length of its JSON form).
+ * @param value - Value to measure
+ * @returns Approximate size in bytes (0 when not serializable)
+ */
+export function estimateSize(value: unknown): number {
+  try {
+    return (JSON.stringify(value)?.length ?? 0) * 2;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Bounded LRU cache with entry and approximate byte limits
+ */
+export class LruCache<K, V> {
+  private map = new Map<K, V>();
+  private sizes = new Map<K, number>();
+  private bytes = 0;
+  private evictions = 0;
+  private readonly maxEntries?: number;
+  private readonly maxBytes?: number;
+  private readonly sizeOf: (value: V) => number;
+
+  constructor(options?: LruCacheOptions<V>) {
+    this.maxEntries = options?.maxEntries;
+    this.maxBytes = options?.maxBytes;
+    this.sizeOf = options?.sizeOf ?? estimateSize;
+  }
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  /** Get a value and mark it as most recently used */
+  get(key: K): V | undefined {
+    return touchEntry(this.map, key);
+  }
+
+  /** Get a value without changing its recency */
+  peek(key: K): V | undefined {
+    return this.map.get(key);
+  }
+
+  has(key: K): boolean {
+    return this.map.has(key);
+  }
+
+  /** Set a value as most recently used and evict entries over the limits */
+  set(key: K, value: V): void {
+    this.delete(key);
+    this.map.set(key, value);
+    if (this.maxBytes !== undefined) {
+      const size = this.sizeOf(value);
+      this.sizes.set(key, size);
+      this.bytes += size;
+    }
+    if (this.maxEntries !== undefined) {
+      this.evictions += evictOverflow(this.map, this.maxEntries, (k) =>
+        this.releaseSize(k),
+      );
+    }
+    while (this.maxBytes !== undefined && this.bytes > this.maxBytes) {
+      this.evictions += evictOverflow(this.map, this.map.size - 1, (k) =>
+        this.releaseSize(k),
+      );
+    }
+  }
+
+  delete(key: K): boolean {
+    this.releaseSize(key);
+    return this.map.delete(key);
+  }
+
+  clear(): void {
+    this.map.clear();
+    this.sizes.clear();
+    this.bytes = 0;
+  }
+
+  keys(): IterableIterator<K> {
+    return this.map.keys();
+  }
+
+  entries(): IterableIterator<[K, V]> {
+    return this.map.entries();
+  }
+
+  getStats(): LruCacheStats {
+    return {
+      entries: this.map.size,
+      maxEntries: this.maxEntries,
+      approximateBytes: this.maxBytes !== undefined ? this.bytes : undefined,
+      maxBytes: this.maxBytes,
+      evictions: this.evictions,
+    };
+  }
+
+  private releaseSize(key: K): void {
+    this.bytes -= this.sizes.get(key) ?? 0;
+    this.sizes.delete(key);
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Minimal metrics registry with Prometheus text exposition (format 0.0.4)
+ * Counters, gauges and histograms with labels; no external dependencies.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+interface Series<T> {
+  labels: MetricLabels;
+  value: T;
+}
+
+/** Default histogram buckets in seconds */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+abstract class Metric<T> {
+  protected series = new Map<string, Series<T>>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram",
+  ) {}
+
+  /** Remove all series */
+  reset(): void {
+    this.series.clear();
+  }
+
+  /** Exposition lines (HELP, TYPE and samples) */
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help.replace(/\n/g, " ")}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected entry(labels: MetricLabels, initial: () => T): Series<T> {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract renderSeries(labels: MetricLabels, value: T): string[];
+}
+
+/** Monotonically increasing count */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    if (amount < 0) return;
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  /** All series with their values */
+  values(): Array<Series<number>> {
+    return [...this.series.values()].map((s) => ({ ...s }));
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/** Value that can go up and down */
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  buckets: number[]; // non-cumulative counts per upper bound
+  sum: number;
+  count: number;
+}
+
+/** Distribution of observations in cumulative buckets */
+export class Histogram extends Metric<HistogramValue> {
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, "histogram");
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const entry = this.entry(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) entry.value.buckets[index]++;
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  /** Observation count and sum for a series */
+  get(labels: MetricLabels = {}): { count: number; sum: number } {
+    const value = this.series.get(seriesKey(labels))?.value;
+    return { count: value?.count ?? 0, sum: value?.sum ?? 0 };
+  }
+
+  protected renderSeries(
+    labels: MetricLabels,
+    value: HistogramValue,
+  ): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += value.buckets[i];
+      const bucketLabels = { ...labels, le: formatValue(bound) };
+      lines.push(
+        `${this.name}_bucket${formatLabels(bucketLabels)} ${cumulative}`,
+      );
+    });
+    const infLabels = formatLabels({ ...labels, le: "+Inf" });
+    lines.push(`${this.name}_bucket${infLabels} ${value.count}`);
+    lines.push(
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+    );
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Named metrics plus collectors that refresh gauges before each render
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+  private collectors = new Set<() => void>();
+
+  /** Get or create a counter */
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help), Counter);
+  }
+
+  /** Get or create a gauge */
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help), Gauge);
+  }
+
+  /** Get or create a histogram */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(
+      name,
+      () => new Histogram(name, help, buckets),
+      Histogram,
+    );
+  }
+
+  /**
+   * Run a function before each render (e.g. to set gauges from live state)
+   * @returns Function that removes the collector
+   */
+  addCollector(collector: () => void): () => void {
+    this.collectors.add(collector);
+    return () => {
+      this.collectors.delete(collector);
+    };
+  }
+
+  /** Prometheus text exposition of all metrics */
+  render(): string {
+    for (const collector of this.collectors) {
+      try {
+        collector();
+      } catch {
+        // A failing collector never breaks the scrape
+      }
+    }
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render());
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  /** Clear all recorded values (metrics and collectors stay registered) */
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  private register<M extends Metric<unknown>>(
+    name: string,
+    create: () => M,
+    type: abstract new (...args: never[]) => M,
+  ): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(
+          `Metric ${name} is already registered as ${existing.type}`,
+        );
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/** Registry used by SDK internals and metricsHandler() */
+export const metricsRegistry = new MetricsRegistry();
@@ -0,0 +1,148 @@
+/**
+ * Permission matching utilities
+ * Shared by PermissionService, BrowserPermissionService and DataClient so that
+ * permission semantics are identical server- and browser-side.
+ *
+ * Permissions are namespaced with ":" (e.g. `miso-test:read`, `orders:invoices:read`).
+ * Matching is exact by default. The wildcard matcher (opt-in via `permissionMatcher`)
+ * supports `*` in granted permissions only; required permissions are compared literally:
+ * - `*` matches exactly one segment (`*:read` matches `orders:read`)
+ * - a trailing `*` matches one or more remaining segments (`orders:*` matches `orders:invoices:read`)
+ * - a bare `*` matches every permission
+ */
+
+import {
+  AuthMethod,
+  PermissionExplanation,
+  PermissionMatcher,
+  PermissionSource,
+} from "../types/config.types";
+
+const PERMISSION_SEPARATOR = ":";
+const WILDCARD = "*";
+
+/**
+ * Exact permission matcher (default, legacy `includes` semantics).
+ * @param granted - Permission granted to the user
+ * @param required - Permission being checked
+ * @returns True when both strings are equal
+ */
+export const exactPermissionMatcher: PermissionMatcher = (granted, required) =>
+  granted === required;
+
+/** Check whether segment at index is a trailing wildcard */
+function isTrailingWildcard(segments: string[], index: number): boolean {
+  return segments[index] === WILDCARD && index === segments.length - 1;
+}
+
+/** Compare segment lists honoring single-segment and trailing wildcards in granted */
+function segmentsMatch(granted: string[], required: string[]): boolean {
+  for (let i = 0; i < granted.length; i++) {
+    if (isTrailingWildcard(granted, i)) return i < required.length;
+    if (i >= required.length) return false;
+    if (granted[i] !== WILDCARD && granted[i] !== required[i]) return false;
+  }
+  return granted.length === required.length;
+}
+
+/**
+ * Wildcard/hierarchical permission matcher.
+ * @param granted - Permission granted to the user (may contain wildcards)
+ * @param required - Permission being checked (wildcards are matched literally)
+ * @returns True when the granted permission satisfies the required one
+ */
+export const wildcardPermissionMatcher: PermissionMatcher = (
+  granted,
+  required,
+) => {
+  if (!granted || !required) return false;
+  if (granted === required) return true;
+  if (!granted.includes(WILDCARD)) return false;
+  return segmentsMatch(
+    granted.split(PERMISSION_SEPARATOR),
+    required.split(PERMISSION_SEPARATOR),
+  );
+};
+
+/**
+ * Resolve matcher from config, defaulting to exact matching.
+ * @param matcher - Optional matcher from MisoClientConfig
+ * @returns Permission matcher to use
+ */
+export function resolvePermissionMatcher(
+  matcher?: PermissionMatcher,
+): PermissionMatcher {
+  return matcher || exactPermissionMatcher;
+}
+
+/**
+ * Check whether any granted permission satisfies the required permission.
+ * @param userPermissions - Permissions granted to the user
+ * @param required - Permission being checked
+ * @param matcher - Permission matcher (default: exact)
+ * @returns True when the permission is granted
+ */
+export function hasMatchingPermission(
+  userPermissions: string[],
+  required: string,
+  matcher: PermissionMatcher = exactPermissionMatcher,
+): boolean {
+  return userPermissions.some((granted) => matcher(granted, required));
+}
+
+/**
+ * Get required permissions that are not satisfied by the granted permissions.
+ * @param userPermissions - Permissions granted to the user
+ * @param required - Permissions being checked
+ * @param matcher - Permission matcher (default: exact)
+ * @returns Missing permissions (empty when all are granted)
+ */
+export function findMissingPermissions(
+  userPermissions: string[],
+  required: string[],
+  matcher: PermissionMatcher = exactPermissionMatcher,
+): string[] {
+  return required.filter(
+    (permission) =>
+      !hasMatchingPermission(userPermissions, permission, matcher),
+  );
+}
+
+/** Resolved permissions and where they came from */
+export interface PermissionResolution {
+  userId: string | null;
+  source: PermissionSource;
+  authMethods: AuthMethod[];
+  userPermissions: string[];
+  /** Cache entry timestamp (PermissionCacheData.timestamp) for cache sources */
+  cachedAt?: number;
+  error?: string;
+}
+
+/**
+ * Build a permission check explanation.
+ * @param resolution - Resolved user, permission source and cache timestamp
+ * @param required - Permissions being checked
+ * @param matcher - Permission matcher (default: exact)
+ * @returns Explanation with granted/missing permissions and cache age
+ */
+export function buildPermissionExplanation(
+  resolution: PermissionResolution,
+  required: string[],
+  matcher: PermissionMatcher = exactPermissionMatcher,
+): PermissionExplanation {
+  const { cachedAt, ...rest } = resolution;
+  const missing = findMissingPermissions(
+    resolution.userPermissions,
+    required,
+    matcher,
+  );
+  return {
+    ...rest,
+    ...(cachedAt !== undefined && { cacheAgeMs: Date.now() - cachedAt }),
+    required,
+    granted: required.filter((permission) => !missing.includes(permission)),
+    missing,
+    allowed: missing.length === 0,
+  };
+}
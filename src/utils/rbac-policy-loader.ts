@@ -0,0 +1,120 @@
+/**
+ * RBAC policy loading from rbac.yaml / JSON documents
+ * Accepts the builder `rbac.yaml` shape and `*-deploy.json` (roles + permissions sections)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type {
+  RbacPolicy,
+  RbacPermissionDefinition,
+  RbacRoleDefinition,
+} from "../types/rbac.types";
+import { parseSimpleYaml } from "./simple-yaml";
+
+function parseRole(role: unknown, index: number): RbacRoleDefinition {
+  if (typeof role === "string") return { value: role };
+  if (typeof role !== "object" || role === null) {
+    throw new Error(
+      `Invalid RBAC policy: role at index ${index} must be an object`,
+    );
+  }
+  const def = role as Record<string, unknown>;
+  if (typeof def.value !== "string" || !def.value) {
+    throw new Error(
+      `Invalid RBAC policy: role at index ${index} missing 'value'`,
+    );
+  }
+  return {
+    value: def.value,
+    name: typeof def.name === "string" ? def.name : undefined,
+    description:
+      typeof def.description === "string" ? def.description : undefined,
+  };
+}
+
+function parsePermission(
+  permission: unknown,
+  index: number,
+): RbacPermissionDefinition {
+  if (typeof permission !== "object" || permission === null) {
+    throw new Error(
+      `Invalid RBAC policy: permission at index ${index} must be an object`,
+    );
+  }
+  const def = permission as Record<string, unknown>;
+  if (typeof def.name !== "string" || !def.name) {
+    throw new Error(
+      `Invalid RBAC policy: permission at index ${index} missing 'name'`,
+    );
+  }
+  if (
+    !Array.isArray(def.roles) ||
+    !def.roles.every((r) => typeof r === "string")
+  ) {
+    throw new Error(
+      `Invalid RBAC policy: permission '${def.name}' missing 'roles' array`,
+    );
+  }
+  return {
+    name: def.name,
+    roles: def.roles as string[],
+    description:
+      typeof def.description === "string" ? def.description : undefined,
+  };
+}
+
+/**
+ * Load an RBAC policy from a parsed document.
+ * @param document - Parsed rbac.yaml / deploy JSON object
+ * @returns Validated RBAC policy
+ * @throws Error if policy format is invalid
+ */
+export function loadRbacPolicy(document: unknown): RbacPolicy {
+  if (typeof document !== "object" || document === null) {
+    throw new Error("Invalid RBAC policy: expected object");
+  }
+  const obj = document as Record<string, unknown>;
+  if (!Array.isArray(obj.permissions)) {
+    throw new Error("Invalid RBAC policy: missing 'permissions' array");
+  }
+  const roles = Array.isArray(obj.roles) ? obj.roles : [];
+  return {
+    roles: roles.map((role, i) => parseRole(role, i)),
+    permissions: obj.permissions.map((p, i) => parsePermission(p, i)),
+  };
+}
+
+/**
+ * Load an RBAC policy from a `.yaml`/`.yml` or `.json` file.
+ * @param filePath - Absolute path or path relative to the current working directory
+ * @returns Validated RBAC policy
+ * @throws Error if the file cannot be read or the policy is invalid
+ */
+export function loadRbacPolicyFile(filePath: string): RbacPolicy {
+  const resolved = path.isAbsolute(filePath)
+    ? filePath
+    : path.resolve(process.cwd(), filePath);
+  const raw = fs.readFileSync(resolved, "utf8");
+  const ext = path.extname(resolved).toLowerCase();
+  const document =
+    ext === ".yaml" || ext === ".yml" ? parseSimpleYaml(raw) : JSON.parse(raw);
+  return loadRbacPolicy(document);
+}
+
+/**
+ * Derive permissions granted by a set of roles.
+ * @param policy - RBAC policy
+ * @param roles - Role values (e.g. from JWT claims)
+ * @returns Unique permission names granted by the roles
+ */
+export function getPermissionsForRoles(
+  policy: RbacPolicy,
+  roles: string[],
+): string[] {
+  const roleSet = new Set(roles);
+  return policy.permissions
+    .filter((permission) => permission.roles.some((r) => roleSet.has(r)))
+    .map((permission) => permission.name)
+    .filter((name, i, all) => all.indexOf(name) === i);
+}
@@ -0,0 +1,93 @@
+/**
+ * Redis connection factory
+ * Builds the ioredis client for single-node, URL (`redis://` / `rediss://`),
+ * Sentinel and Cluster deployments from RedisConfig.
+ */
+
+import Redis, { Cluster, RedisOptions } from "ioredis";
+import type { ConnectionOptions } from "tls";
+import { RedisConfig } from "../types/config.types";
+
+/** Default key prefix applied to all keys */
+export const DEFAULT_REDIS_KEY_PREFIX = "miso:";
+
+/** Map RedisConfig.tls to Node TLS options (undefined when TLS is off) */
+export function buildRedisTlsOptions(
+  tls: RedisConfig["tls"],
+): ConnectionOptions | undefined {
+  if (!tls) return undefined;
+  if (tls === true) return {};
+  return {
+    ca: tls.ca,
+    cert: tls.cert,
+    key: tls.key,
+    servername: tls.servername,
+    rejectUnauthorized: tls.rejectUnauthorized,
+  };
+}
+
+/** Connection options shared by every deployment mode */
+function buildBaseOptions(config: RedisConfig): RedisOptions {
+  const options: RedisOptions = {
+    keyPrefix: config.keyPrefix || DEFAULT_REDIS_KEY_PREFIX,
+    maxRetriesPerRequest: 3,
+    lazyConnect: true,
+    enableReadyCheck: false, // Disable ready check to avoid this.info error
+    disableClientInfo: true, // Disable client info for Redis < 7.2 compatibility
+  };
+  // Only set credentials/db/tls when configured so `url` values are not overridden
+  if (config.username) options.username = config.username;
+  if (config.password) options.password = config.password;
+  if (config.db !== undefined) options.db = config.db;
+  const tls = buildRedisTlsOptions(config.tls);
+  if (tls) options.tls = tls;
+  return options;
+}
+
+/**
+ * Create an ioredis client for the configured deployment.
+ * Precedence: `cluster` nodes, then `sentinels`, then `url`, then `host`/`port`.
+ * The client is created with `lazyConnect`; call `connect()` on it.
+ * @param config - Redis configuration
+ * @returns Redis or Cluster client
+ */
+export function createRedisClient(config: RedisConfig): Redis | Cluster {
+  const options = buildBaseOptions(config);
+
+  if (config.cluster && config.cluster.length > 0) {
+    const { keyPrefix, lazyConnect, enableReadyCheck, ...redisOptions } =
+      options;
+    delete redisOptions.db; // Cluster supports only db 0
+    return new Cluster(config.cluster, {
+      keyPrefix,
+      lazyConnect,
+      enableReadyCheck,
+      redisOptions,
+      // TLS endpoints (e.g. Azure, ElastiCache) need the original hostname for SNI
+      dnsLookup: options.tls
+        ? (address, callback) => callback(null, address)
+        : undefined,
+    });
+  }
+
+  if (config.sentinels && config.sentinels.length > 0) {
+    return new Redis({
+      ...options,
+      sentinels: config.sentinels,
+      name: config.sentinelName || "mymaster",
+      sentinelPassword: config.sentinelPassword,
+      enableTLSForSentinelMode: options.tls !== undefined,
+    });
+  }
+
+  if (config.url) {
+    return new Redis(config.url, options);
+  }
+
+  return new Redis({
+    ...options,
+    host: config.host,
+    port: config.port,
+    db: config.db || 0,
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * SDK metrics recorded in the default metrics registry
+ * Exposed with metricsHandler() (express) or metricsRegistry.render().
+ */
+
+import { RedisConnectionState } from "../types/redis.types";
+import { metricsRegistry } from "./metrics-registry";
+
+const REDIS_STATES: RedisConnectionState[] = [
+  "disconnected",
+  "connecting",
+  "ready",
+  "degraded",
+  "down",
+];
+
+// Path segments that identify a resource rather than a route
+const ID_SEGMENT =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24,}|(?=.*\d)[A-Za-z0-9_-]{20,})$/i;
+
+export const sdkMetrics = {
+  controllerRequestDuration: metricsRegistry.histogram(
+    "miso_controller_request_duration_seconds",
+    "Controller request latency in seconds by method, endpoint and status",
+  ),
+  tokenRefreshes: metricsRegistry.counter(
+    "miso_token_refresh_total",
+    "Token refreshes by type (client, user) and outcome (success, failure)",
+  ),
+  cacheLookups: metricsRegistry.counter(
+    "miso_cache_lookups_total",
+    "Cache lookups by namespace and result (hit, miss)",
+  ),
+  cacheHitRatio: metricsRegistry.gauge(
+    "miso_cache_hit_ratio",
+    "Cache hit ratio by namespace since process start",
+  ),
+  auditQueueDepth: metricsRegistry.gauge(
+    "miso_audit_queue_depth",
+    "Audit log entries waiting to be flushed",
+  ),
+  logsDropped: metricsRegistry.counter(
+    "miso_logs_dropped_total",
+    "Log entries dropped by reason (circuit_open, delivery_failed, spool_cap, sampled, rate_limited)",
+  ),
+  redisState: metricsRegistry.gauge(
+    "miso_redis_state",
+    "Redis connection state (1 for the current state, 0 otherwise)",
+  ),
+};
+
+metricsRegistry.addCollector(() => {
+  const totals = new Map<string, { hit: number; miss: number }>();
+  for (const { labels, value } of sdkMetrics.cacheLookups.values()) {
+    const total = totals.get(labels.namespace) ?? { hit: 0, miss: 0 };
+    if (labels.result === "hit") total.hit += value;
+    else total.miss += value;
+    totals.set(labels.namespace, total);
+  }
+  for (const [namespace, { hit, miss }] of totals) {
+    sdkMetrics.cacheHitRatio.set({ namespace }, hit / (hit + miss));
+  }
+});
+
+/**
+ * Route label for a request URL: path only, with ID-like segments replaced by ":id"
+ * (keeps label cardinality bounded)
+ * @param url - Request URL or path
+ */
+export function normalizeEndpoint(url: string | undefined): string {
+  const path = (url ?? "").replace(/^[a-z]+:\/\/[^/]+/i, "").split("?")[0];
+  return (
+    path
+      .split("/")
+      .map((segment) => (ID_SEGMENT.test(segment) ? ":id" : segment))
+      .join("/") || "/"
+  );
+}
+
+/**
+ * Cache namespace of a key: text before the first ":" (e.g. "roles:user-1" -> "roles")
+ * @param key - Cache key
+ */
+export function cacheNamespace(key: string): string {
+  const index = key.indexOf(":");
+  return index > 0 ? key.slice(0, index) : "default";
+}
+
+/** Record a cache lookup result */
+export function recordCacheLookup(key: string, hit: boolean): void {
+  sdkMetrics.cacheLookups.inc({
+    namespace: cacheNamespace(key),
+    result: hit ? "hit" : "miss",
+  });
+}
+
+/** Set the Redis state gauge (1 for the current state) */
+export function recordRedisState(current: RedisConnectionState): void {
+  for (const state of REDIS_STATES) {
+    sdkMetrics.redisState.set({ state }, state === current ? 1 : 0);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Minimal YAML parser for SDK policy documents (e.g. builder `rbac.yaml`)
+ *
+ * Supports the block-style subset used by AI Fabrix builder files: nested
+ * mappings, sequences (including sequences of mappings), inline flow lists
+ * (`[a, b]`), quoted/unquoted scalars, booleans, numbers, null and comments.
+ * Anchors, multi-line strings and multiple documents are not supported.
+ * Mappings are created without a prototype and `__proto__`, `constructor` and
+ * `prototype` keys are rejected.
+ */
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNumber: number;
+}
+
+interface ParserState {
+  lines: YamlLine[];
+  index: number;
+}
+
+const KEY_VALUE_PATTERN = /^([^\s'"#][^:]*?|"[^"]*"|'[^']*'):(?:\s+(.*))?$/;
+const FORBIDDEN_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/** Strip trailing comment that is not inside quotes */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/** Split document into meaningful lines with indentation */
+function tokenize(source: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    if (raw.includes("\t")) {
+      throw new Error(`Invalid YAML: tab indentation on line ${i + 1}`);
+    }
+    const text = stripComment(raw);
+    const trimmed = text.trim();
+    if (!trimmed || trimmed === "---") return;
+    lines.push({
+      indent: text.length - text.trimStart().length,
+      text: trimmed,
+      lineNumber: i + 1,
+    });
+  });
+  return lines;
+}
+
+/** Split flow list items on commas that are not inside quotes */
+function splitFlowItems(inner: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ",") {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start));
+  return items;
+}
+
+/** Parse a scalar value */
+function parseScalar(value: string): unknown {
+  const v = value.trim();
+  if (
+    (v.startsWith('"') && v.endsWith('"')) ||
+    (v.startsWith("'") && v.endsWith("'"))
+  ) {
+    return v.slice(1, -1);
+  }
+  if (v.startsWith("[") && v.endsWith("]")) {
+    const inner = v.slice(1, -1).trim();
+    return inner ? splitFlowItems(inner).map((item) => parseScalar(item)) : [];
+  }
+  if (v === "true") return true;
+  if (v === "false") return false;
+  if (v === "null" || v === "~" || v === "") return null;
+  if (/^-?\d+(\.\d+)?$/.test(v)) return Number(v);
+  return v;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+/** Parse the block starting at the current line */
+function parseBlock(state: ParserState, indent: number): unknown {
+  const line = state.lines[state.index];
+  return isSequenceItem(line.text)
+    ? parseSequence(state, indent)
+    : parseMapping(state, indent);
+}
+
+/** Parse nested value following "key:" or "-" with no inline value */
+function parseNested(state: ParserState, parentIndent: number): unknown {
+  const next = state.lines[state.index];
+  if (!next) return null;
+  if (next.indent > parentIndent) return parseBlock(state, next.indent);
+  if (next.indent === parentIndent && isSequenceItem(next.text)) {
+    return parseSequence(state, parentIndent);
+  }
+  return null;
+}
+
+function parseSequence(state: ParserState, indent: number): unknown[] {
+  const items: unknown[] = [];
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    if (line.indent !== indent || !isSequenceItem(line.text)) break;
+    const rest = line.text.slice(1).trim();
+    if (!rest) {
+      state.index++;
+      items.push(parseNested(state, indent));
+    } else if (KEY_VALUE_PATTERN.test(rest)) {
+      // "- key: value" starts a mapping indented past the dash
+      const itemIndent = indent + (line.text.length - rest.length);
+      state.lines[state.index] = { ...line, indent: itemIndent, text: rest };
+      items.push(parseMapping(state, itemIndent));
+    } else {
+      state.index++;
+      items.push(parseScalar(rest));
+    }
+  }
+  return items;
+}
+
+function parseMapping(
+  state: ParserState,
+  indent: number,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = Object.create(null);
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    if (line.indent < indent) break;
+    if (line.indent > indent || isSequenceItem(line.text)) {
+      throw new Error(
+        `Invalid YAML: unexpected indentation on line ${line.lineNumber}`,
+      );
+    }
+    const match = KEY_VALUE_PATTERN.exec(line.text);
+    if (!match) {
+      throw new Error(
+        `Invalid YAML: expected "key: value" on line ${line.lineNumber}`,
+      );
+    }
+    const key = String(parseScalar(match[1]));
+    if (FORBIDDEN_KEYS.has(key)) {
+      throw new Error(
+        `Invalid YAML: forbidden key "${key}" on line ${line.lineNumber}`,
+      );
+    }
+    state.index++;
+    result[key] =
+      match[2] !== undefined
+        ? parseScalar(match[2])
+        : parseNested(state, indent);
+  }
+  return result;
+}
+
+/**
+ * Parse a YAML document (block-style subset).
+ * @param source - YAML source text
+ * @returns Parsed value (object, array or scalar); null for empty documents
+ * @throws Error when the document uses unsupported or invalid syntax
+ */
+export function parseSimpleYaml(source: string): unknown {
+  const state: ParserState = { lines: tokenize(source), index: 0 };
+  if (state.lines.length === 0) return null;
+  const value = parseBlock(state, state.lines[0].indent);
+  if (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    throw new Error(
+      `Invalid YAML: unexpected content on line ${line.lineNumber}`,
+    );
+  }
+  return value;
+}
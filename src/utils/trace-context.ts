@@ -0,0 +1,135 @@
+/**
+ * W3C Trace Context (traceparent / tracestate) support
+ * The active trace is read from OpenTelemetry when `@opentelemetry/api` is installed
+ * and a span is active, otherwise from the logger context set by loggerContextMiddleware.
+ */
+
+import { LoggerContextStorage } from "../services/logger/logger-context-storage";
+
+/** Trace identifiers of the current operation (lowercase hex) */
+export interface TraceContext {
+  traceId: string; // 32 hex chars
+  spanId: string; // 16 hex chars
+  traceFlags: string; // 2 hex chars ("01" = sampled)
+  traceState?: string;
+}
+
+/** Subset of the @opentelemetry/api surface used by the SDK */
+interface OtelSpan {
+  spanContext(): {
+    traceId: string;
+    spanId: string;
+    traceFlags: number;
+    traceState?: { serialize(): string };
+  };
+  setAttribute?(key: string, value: string): unknown;
+}
+
+interface OtelApi {
+  trace: { getActiveSpan(): OtelSpan | undefined };
+}
+
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+let otelApi: OtelApi | null | undefined;
+
+/** Load @opentelemetry/api once (optional peer dependency) */
+function loadOtelApi(): OtelApi | null {
+  if (otelApi === undefined) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      otelApi = require("@opentelemetry/api") as OtelApi;
+    } catch {
+      otelApi = null;
+    }
+  }
+  return otelApi;
+}
+
+function randomHex(bytes: number): string {
+  const values = globalThis.crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Generate a random 16-byte trace ID */
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+/** Generate a random 8-byte span ID */
+export function generateSpanId(): string {
+  return randomHex(8);
+}
+
+/**
+ * Parse a traceparent header (and optional tracestate)
+ * @param traceparent - e.g. "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"
+ * @param tracestate - Vendor state, passed through unchanged
+ * @returns Trace context, or null when missing or invalid
+ */
+export function parseTraceparent(
+  traceparent: string | undefined,
+  tracestate?: string,
+): TraceContext | null {
+  const match = TRACEPARENT_PATTERN.exec(traceparent?.trim() ?? "");
+  if (!match) return null;
+  const [, version, traceId, spanId, traceFlags, rest] = match;
+  // Version ff is forbidden; version 00 has no trailing fields
+  if (version === "ff" || (version === "00" && rest)) return null;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return null;
+  return { traceId, spanId, traceFlags, traceState: tracestate || undefined };
+}
+
+/** Format a trace context as a version 00 traceparent header */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags}`;
+}
+
+/** Active OpenTelemetry span, if the API is installed and the span is valid */
+export function getActiveOtelSpan(): OtelSpan | null {
+  const span = loadOtelApi()?.trace.getActiveSpan();
+  const traceId = span?.spanContext().traceId;
+  return span && traceId && traceId !== INVALID_TRACE_ID ? span : null;
+}
+
+/**
+ * Current trace: active OpenTelemetry span, else the logger context
+ * @returns Trace context or null when no trace is active
+ */
+export function getActiveTraceContext(): TraceContext | null {
+  const span = getActiveOtelSpan();
+  if (span) {
+    const { traceId, spanId, traceFlags, traceState } = span.spanContext();
+    return {
+      traceId,
+      spanId,
+      traceFlags: (traceFlags & 0xff).toString(16).padStart(2, "0"),
+      traceState: traceState?.serialize() || undefined,
+    };
+  }
+  const context = LoggerContextStorage.getInstance().getContext();
+  if (!context?.traceId || !context.spanId) return null;
+  return {
+    traceId: context.traceId,
+    spanId: context.spanId,
+    traceFlags: context.traceFlags ?? "01",
+    traceState: context.traceState,
+  };
+}
+
+/**
+ * Outgoing propagation headers for the current trace
+ * @returns `traceparent` (and `tracestate`) or an empty object
+ */
+export function getTraceHeaders(): Record<string, string> {
+  const context = getActiveTraceContext();
+  if (!context) return {};
+  const headers: Record<string, string> = {
+    traceparent: formatTraceparent(context),
+  };
+  if (context.traceState) headers.tracestate = context.traceState;
+  return headers;
+}
@@ -0,0 +1,410 @@
+/**
+ * Unit tests for authorization middleware
+ */
+
+import { Request, Response } from "express";
+import {
+  requireAuth,
+  requirePermission,
+  requireRole,
+  requireAccess,
+  AuthenticatedRequest,
+} from "../../src/express/authorization.middleware";
+import { wildcardPermissionMatcher } from "../../src/utils/permission-matcher";
+import { MisoClient } from "../../src/miso-client";
+import { buildPermissionExplanation } from "../../src/utils/permission-matcher";
+
+describe("authorization middleware", () => {
+  let mockMisoClient: jest.Mocked<MisoClient>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let jsonSpy: jest.Mock;
+  let statusSpy: jest.Mock;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    mockMisoClient = {
+      getToken: jest.fn().mockReturnValue("user-token"),
+      validateToken: jest.fn().mockResolvedValue(true),
+      getUserInfo: jest
+        .fn()
+        .mockResolvedValue({ id: "user-123", username: "jane" }),
+      getPermissions: jest
+        .fn()
+        .mockResolvedValue(["orders:read", "orders:write"]),
+      getRoles: jest.fn().mockResolvedValue(["user"]),
+      getConfig: jest.fn().mockReturnValue({ clientId: "test-client" }),
+      authorize: jest.fn(),
+    } as any;
+    // Mirror PermissionService.explainPermission on top of the mocked permissions
+    mockMisoClient.explainPermission = jest.fn(
+      async (token: string, permissions: string | string[]) =>
+        buildPermissionExplanation(
+          {
+            userId: "user-123",
+            source: "redis",
+            authMethods: ["bearer"],
+            userPermissions: await mockMisoClient.getPermissions(token),
+          },
+          Array.isArray(permissions) ? permissions : [permissions],
+          mockMisoClient.getConfig().permissionMatcher,
+        ),
+    );
+
+    jsonSpy = jest.fn();
+    statusSpy = jest.fn().mockReturnValue({ json: jsonSpy });
+    next = jest.fn();
+
+    mockRequest = {
+      method: "GET",
+      path: "/api/orders",
+      originalUrl: "/api/orders",
+      headers: { authorization: "Bearer user-token" },
+    } as any;
+
+    mockResponse = {
+      status: statusSpy,
+      setHeader: jest.fn(),
+      headersSent: false,
+    } as any;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const run = async (handler: ReturnType<typeof requireAuth>) => {
+    await handler(mockRequest as Request, mockResponse as Response, next);
+  };
+
+  describe("requireAuth", () => {
+    it("should attach user and call next when token is valid", async () => {
+      await run(requireAuth(mockMisoClient));
+
+      const req = mockRequest as AuthenticatedRequest;
+      expect(next).toHaveBeenCalled();
+      expect(req.user).toEqual({ id: "user-123", username: "jane" });
+      expect(req.userId).toBe("user-123");
+      expect(req.token).toBe("user-token");
+    });
+
+    it("should respond 401 when token is missing", async () => {
+      mockMisoClient.getToken.mockReturnValue(null);
+
+      await run(requireAuth(mockMisoClient));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(401);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        "Content-Type",
+        "application/problem+json",
+      );
+      expect(jsonSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "/Errors/Unauthorized",
+          detail: "Authentication required",
+          instance: "/api/orders",
+        }),
+      );
+    });
+
+    it("should respond 401 when token is invalid", async () => {
+      mockMisoClient.validateToken.mockResolvedValue(false);
+
+      await run(requireAuth(mockMisoClient));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(401);
+      expect(jsonSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ detail: "Invalid or expired token" }),
+      );
+      expect(mockMisoClient.getUserInfo).not.toHaveBeenCalled();
+    });
+
+    it("should pass auth strategy to client calls", async () => {
+      const authStrategy = { methods: ["bearer" as const] };
+
+      await run(requireAuth(mockMisoClient, { authStrategy }));
+
+      expect(mockMisoClient.validateToken).toHaveBeenCalledWith(
+        "user-token",
+        authStrategy,
+      );
+      expect(mockMisoClient.getUserInfo).toHaveBeenCalledWith(
+        "user-token",
+        authStrategy,
+      );
+    });
+
+    it("should reuse token attached by a previous middleware", async () => {
+      (mockRequest as AuthenticatedRequest).token = "already-validated";
+
+      await run(requireAuth(mockMisoClient));
+
+      expect(next).toHaveBeenCalled();
+      expect(mockMisoClient.validateToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("requirePermission", () => {
+    it("should call next when user has the permission", async () => {
+      await run(requirePermission(mockMisoClient, "orders:read"));
+
+      expect(next).toHaveBeenCalled();
+      expect((mockRequest as AuthenticatedRequest).userPermissions).toEqual([
+        "orders:read",
+        "orders:write",
+      ]);
+    });
+
+    it("should call next when user has any of the permissions", async () => {
+      await run(
+        requirePermission(mockMisoClient, ["orders:delete", "orders:write"]),
+      );
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should respond 403 with RBAC extensions when requireAll fails", async () => {
+      await run(
+        requirePermission(mockMisoClient, ["orders:read", "orders:delete"], {
+          requireAll: true,
+        }),
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(403);
+      expect(jsonSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "/Errors/Forbidden",
+          status: 403,
+          detail: "Insufficient permissions",
+          required: {
+            permissions: ["orders:read", "orders:delete"],
+            requireAll: true,
+          },
+          missing: {
+            permissions: ["orders:delete"],
+            userId: "user-123",
+            source: "redis",
+            cacheAgeMs: undefined,
+            authMethods: ["bearer"],
+          },
+          userPermissions: ["orders:read", "orders:write"],
+        }),
+      );
+    });
+
+    it("should respond 403 when user has none of the permissions", async () => {
+      mockMisoClient.getPermissions.mockResolvedValue([]);
+
+      await run(requirePermission(mockMisoClient, "orders:read"));
+
+      expect(statusSpy).toHaveBeenCalledWith(403);
+      expect(jsonSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          required: { permissions: ["orders:read"], requireAll: false },
+          missing: expect.objectContaining({ permissions: ["orders:read"] }),
+        }),
+      );
+    });
+
+    it("should compare permissions exactly by default", async () => {
+      mockMisoClient.getPermissions.mockResolvedValue(["orders:*"]);
+
+      await run(requirePermission(mockMisoClient, "orders:read"));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(403);
+    });
+
+    it("should honor granted wildcards with the wildcard matcher", async () => {
+      mockMisoClient.getPermissions.mockResolvedValue(["orders:*"]);
+      mockMisoClient.getConfig.mockReturnValue({
+        clientId: "test-client",
+        permissionMatcher: wildcardPermissionMatcher,
+      });
+
+      await run(
+        requirePermission(
+          mockMisoClient,
+          ["orders:read", "orders:invoices:write"],
+          { requireAll: true },
+        ),
+      );
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should not match a required wildcard against a granted permission", async () => {
+      mockMisoClient.getConfig.mockReturnValue({
+        clientId: "test-client",
+        permissionMatcher: wildcardPermissionMatcher,
+      });
+
+      await run(requirePermission(mockMisoClient, "orders:*"));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(403);
+    });
+
+    it("should respond 401 before checking permissions when unauthenticated", async () => {
+      mockMisoClient.getToken.mockReturnValue(null);
+
+      await run(requirePermission(mockMisoClient, "orders:read"));
+
+      expect(statusSpy).toHaveBeenCalledWith(401);
+      expect(mockMisoClient.explainPermission).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("requireRole", () => {
+    it("should call next when user has the role", async () => {
+      await run(requireRole(mockMisoClient, "user"));
+
+      expect(next).toHaveBeenCalled();
+      expect((mockRequest as AuthenticatedRequest).userRoles).toEqual(["user"]);
+    });
+
+    it("should respond 403 with role extensions when role is missing", async () => {
+      await run(requireRole(mockMisoClient, ["admin", "manager"]));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(403);
+      expect(jsonSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: "Insufficient roles",
+          required: { roles: ["admin", "manager"], requireAll: false },
+          missing: { roles: ["admin", "manager"] },
+          userRoles: ["user"],
+        }),
+      );
+    });
+  });
+
+  describe("requireAccess", () => {
+    const allowDecision = {
+      allowed: true,
+      action: "update",
+      resourceType: "order",
+      rule: "owner-update",
+      reason: "Allowed by rule 'owner-update': is owner (resource.ownerId)",
+      trace: [],
+    };
+
+    it("should resolve resource, attach decision and call next when allowed", async () => {
+      mockMisoClient.authorize.mockResolvedValue(allowDecision);
+      (mockRequest as any).params = { id: "o-1" };
+      (mockRequest as any).headers["x-tenant-id"] = "t-1";
+      const resolver = jest.fn((req: AuthenticatedRequest) => ({
+        type: "order",
+        id: req.params.id,
+        ownerId: "user-123",
+      }));
+
+      await run(
+        requireAccess(mockMisoClient, "update", resolver, {
+          context: (req) => ({ tenantId: req.headers["x-tenant-id"] }),
+        }),
+      );
+
+      expect(next).toHaveBeenCalled();
+      expect(mockMisoClient.authorize).toHaveBeenCalledWith(
+        "user-token",
+        "update",
+        { type: "order", id: "o-1", ownerId: "user-123" },
+        { tenantId: "t-1" },
+        undefined,
+      );
+      expect((mockRequest as AuthenticatedRequest).accessDecision).toEqual(
+        allowDecision,
+      );
+    });
+
+    it("should respond 403 without rule or reason and log the denial", async () => {
+      const logChain = {
+        addContext: jest.fn().mockReturnThis(),
+        info: jest.fn().mockResolvedValue(undefined),
+      };
+      (mockMisoClient as any).log = {
+        forRequest: jest.fn().mockReturnValue(logChain),
+      };
+      mockMisoClient.authorize.mockResolvedValue({
+        allowed: false,
+        action: "delete",
+        resourceType: "order",
+        rule: "closed-orders-locked",
+        reason:
+          "Denied by rule 'closed-orders-locked': resource.status equals \"closed\"",
+        trace: [],
+      });
+
+      await run(requireAccess(mockMisoClient, "delete", { type: "order" }));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(403);
+      const body = jsonSpy.mock.calls[0][0];
+      expect(body).toEqual(
+        expect.objectContaining({
+          detail: "Access denied",
+          decision: { action: "delete", resourceType: "order" },
+        }),
+      );
+      expect(JSON.stringify(body)).not.toContain("closed-orders-locked");
+      expect((mockRequest as AuthenticatedRequest).accessDecision?.rule).toBe(
+        "closed-orders-locked",
+      );
+      expect(logChain.addContext).toHaveBeenCalledWith(
+        "rule",
+        "closed-orders-locked",
+      );
+      expect(logChain.info).toHaveBeenCalledWith("Access denied: delete");
+    });
+
+    it("should respond 500 without details when the policy cannot be evaluated", async () => {
+      mockMisoClient.authorize.mockResolvedValue({
+        allowed: false,
+        error: true,
+        action: "delete",
+        resourceType: "order",
+        reason: "Access policy evaluation failed",
+        trace: [],
+      });
+
+      await run(requireAccess(mockMisoClient, "delete", { type: "order" }));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(500);
+      const body = jsonSpy.mock.calls[0][0];
+      expect(body.detail).toBe("Access policy evaluation failed");
+      expect(body).not.toHaveProperty("decision");
+    });
+
+    it("should respond 404 when resolver finds no resource", async () => {
+      await run(requireAccess(mockMisoClient, "read", async () => null));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusSpy).toHaveBeenCalledWith(404);
+      expect(mockMisoClient.authorize).not.toHaveBeenCalled();
+    });
+
+    it("should respond 401 without evaluating policy when unauthenticated", async () => {
+      mockMisoClient.getToken.mockReturnValue(null);
+
+      await run(requireAccess(mockMisoClient, "read"));
+
+      expect(statusSpy).toHaveBeenCalledWith(401);
+      expect(mockMisoClient.authorize).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should respond 500 when client throws unexpectedly", async () => {
+    mockMisoClient.validateToken.mockRejectedValue(new Error("boom"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await run(requireAuth(mockMisoClient));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(statusSpy).toHaveBeenCalledWith(500);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Unit tests for back-channel logout endpoint
+ */
+
+import {
+  BACKCHANNEL_LOGOUT_EVENT,
+  createBackchannelLogoutEndpoint,
+} from "../../src/express/backchannel-logout";
+import { MisoClient } from "../../src/index";
+import { CacheService } from "../../src/services/cache.service";
+import { TokenRevocationService } from "../../src/services/token-revocation.service";
+import { AuthService } from "../../src/services/auth.service";
+import { requireAuth } from "../../src/express/authorization.middleware";
+import { Request, Response } from "express";
+
+describe("backchannel-logout", () => {
+  let cache: CacheService;
+  let revocation: TokenRevocationService;
+  let mockMisoClient: jest.Mocked<MisoClient>;
+  let mockResponse: Partial<Response>;
+  let validateTokenLocal: jest.Mock;
+  const nextSpy = jest.fn();
+
+  const logoutPayload = (claims: Record<string, unknown> = {}) => ({
+    iss: "https://keycloak.example.com/realms/test-realm",
+    aud: "test-app",
+    sub: "user-123",
+    sid: "sid-1",
+    jti: "logout-1",
+    events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+    ...claims,
+  });
+
+  const request = (body: unknown): Request =>
+    ({ body, originalUrl: "/auth/backchannel-logout" }) as Request;
+
+  const run = async (
+    body: unknown,
+    options?: Parameters<typeof createBackchannelLogoutEndpoint>[1],
+  ): Promise<void> => {
+    const handler = createBackchannelLogoutEndpoint(mockMisoClient, options);
+    await handler(request(body), mockResponse as Response, nextSpy);
+  };
+
+  beforeEach(() => {
+    cache = new CacheService();
+    revocation = new TokenRevocationService(cache);
+    validateTokenLocal = jest.fn().mockResolvedValue({
+      valid: true,
+      tokenType: "keycloak",
+      payload: logoutPayload(),
+    });
+    mockMisoClient = {
+      validateTokenLocal,
+      getConfig: jest.fn().mockReturnValue({
+        keycloak: {
+          authServerUrl: "https://keycloak.example.com",
+          realm: "test-realm",
+          clientId: "test-app",
+        },
+      }),
+      cache,
+      revocation,
+    } as any;
+    mockResponse = {
+      setHeader: jest.fn(),
+      json: jest.fn(),
+      end: jest.fn(),
+    };
+    mockResponse.status = jest.fn().mockReturnValue(mockResponse);
+  });
+
+  afterEach(() => {
+    cache.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it("should verify the logout token and revoke the session", async () => {
+    await cache.set("roles:user-123", ["admin"], 60);
+
+    await run({ logout_token: "logout.token" });
+
+    expect(validateTokenLocal).toHaveBeenCalledWith("logout.token", {
+      tokenType: "keycloak",
+      skipResultCache: true,
+      skipRevocationCheck: true,
+      skipAudienceValidation: true,
+      policy: expect.objectContaining({ typ: undefined }),
+    });
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(
+      "Cache-Control",
+      "no-store",
+    );
+    expect(mockResponse.end).toHaveBeenCalled();
+    expect(
+      await revocation.isRevoked({ sub: "user-123", sid: "sid-1", iat: 1 }),
+    ).toBe(true);
+    expect(await cache.get("roles:user-123")).toBeNull();
+  });
+
+  it("should read the token from a raw form-encoded body", async () => {
+    await run("logout_token=raw.token&state=x");
+
+    expect(validateTokenLocal).toHaveBeenCalledWith(
+      "raw.token",
+      expect.any(Object),
+    );
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+  });
+
+  it("should revoke all earlier tokens of the user when sid is missing", async () => {
+    validateTokenLocal.mockResolvedValue({
+      valid: true,
+      tokenType: "keycloak",
+      payload: logoutPayload({ sid: undefined }),
+    });
+    const onLogout = jest.fn();
+
+    await run({ logout_token: "logout.token" }, { onLogout });
+
+    const issuedBefore = Math.floor(Date.now() / 1000) - 60;
+    expect(
+      await revocation.isRevoked({ sub: "user-123", iat: issuedBefore }),
+    ).toBe(true);
+    expect(
+      await revocation.isRevoked({ sub: "user-123", iat: issuedBefore + 3600 }),
+    ).toBe(false);
+    expect(onLogout).toHaveBeenCalledWith({
+      iss: "https://keycloak.example.com/realms/test-realm",
+      sub: "user-123",
+      sid: undefined,
+      jti: "logout-1",
+    });
+  });
+
+  it("should return 400 when logout_token is missing", async () => {
+    await run({});
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error: "invalid_request",
+      error_description: "Missing logout_token",
+    });
+    expect(validateTokenLocal).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 when signature verification fails", async () => {
+    validateTokenLocal.mockResolvedValue({
+      valid: false,
+      tokenType: "keycloak",
+      error: "signature verification failed",
+    });
+
+    await run({ logout_token: "bad.token" });
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error: "invalid_request",
+      error_description: "signature verification failed",
+    });
+  });
+
+  it.each([
+    [{ events: undefined }, "back-channel logout event"],
+    [{ nonce: "n-1" }, "must not contain nonce"],
+    [{ sub: undefined, sid: undefined }, "must contain sub or sid"],
+    [{ aud: ["other-app"] }, "audience mismatch"],
+  ])(
+    "should reject logout tokens with invalid claims %j",
+    async (claims, message) => {
+      validateTokenLocal.mockResolvedValue({
+        valid: true,
+        tokenType: "keycloak",
+        payload: logoutPayload(claims),
+      });
+
+      await run({ logout_token: "logout.token" });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error_description: expect.stringContaining(message),
+        }),
+      );
+      expect(await revocation.isRevoked({ sid: "sid-1" })).toBe(false);
+    },
+  );
+
+  it("should use the audience option over keycloak.clientId", async () => {
+    await run({ logout_token: "logout.token" }, { audience: "other-app" });
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+  });
+
+  it("should return 500 when onLogout fails", async () => {
+    const onLogout = jest.fn().mockRejectedValue(new Error("session store"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await run({ logout_token: "logout.token" }, { onLogout });
+
+    expect(mockResponse.status).toHaveBeenCalledWith(500);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ error: "server_error" }),
+    );
+  });
+
+  it("should reject the session's access token in requireAuth after logout", async () => {
+    const encode = (value: unknown): string =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    const accessToken = `${encode({ alg: "none" })}.${encode({
+      sub: "user-123",
+      sid: "sid-1",
+      exp: Math.floor(Date.now() / 1000) + 300,
+    })}.`;
+    const controllerValidate = jest
+      .fn()
+      .mockResolvedValue({ data: { authenticated: true } });
+    const auth = new AuthService(
+      { config: { clientId: "test-app" } } as any,
+      { auth: { validateToken: controllerValidate } } as any,
+      cache,
+      revocation,
+    );
+    Object.assign(mockMisoClient, {
+      getToken: jest.fn().mockReturnValue(accessToken),
+      validateToken: (token: string) => auth.validateToken(token),
+      getUserInfo: jest.fn().mockResolvedValue({ id: "user-123" }),
+    });
+    const authenticate = async (): Promise<void> => {
+      const req = {
+        method: "GET",
+        originalUrl: "/api/orders",
+        headers: { authorization: `Bearer ${accessToken}` },
+      } as unknown as Request;
+      await requireAuth(mockMisoClient)(req, mockResponse as Response, nextSpy);
+    };
+
+    await authenticate();
+    expect(nextSpy).toHaveBeenCalledTimes(1);
+
+    await run({ logout_token: "logout.token" });
+    nextSpy.mockClear();
+    await authenticate();
+
+    // The cached controller result no longer authenticates the token
+    expect(controllerValidate).toHaveBeenCalledTimes(1);
+    expect(nextSpy).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenLastCalledWith(401);
+  });
+});
@@ -169,6 +169,58 @@ describe("ValidationHelper", () => {
     });
   });
 
+  describe("ensureAllowed()", () => {
+    const decision = {
+      action: "update",
+      resourceType: "order",
+      reason: "No rule allows 'update' on 'order'",
+      trace: [],
+    };
+
+    it("should not throw when decision allows access", () => {
+      expect(() =>
+        ValidationHelper.ensureAllowed({ ...decision, allowed: true }),
+      ).not.toThrow();
+    });
+
+    it("should throw 403 without the decision reason when denied", () => {
+      try {
+        ValidationHelper.ensureAllowed({ ...decision, allowed: false });
+        fail("Expected AppError");
+      } catch (error) {
+        expect((error as AppError).statusCode).toBe(403);
+        expect((error as AppError).message).toBe("Access denied");
+        expect((error as AppError).errorType).toBe("/Errors/Forbidden");
+      }
+    });
+
+    it("should throw 500 when the policy could not be evaluated", () => {
+      try {
+        ValidationHelper.ensureAllowed({
+          ...decision,
+          allowed: false,
+          error: true,
+          reason: "Access policy evaluation failed",
+        });
+        fail("Expected AppError");
+      } catch (error) {
+        expect((error as AppError).statusCode).toBe(500);
+        expect((error as AppError).message).toBe(
+          "Access policy evaluation failed",
+        );
+      }
+    });
+
+    it("should use custom error message", () => {
+      expect(() =>
+        ValidationHelper.ensureAllowed(
+          { ...decision, allowed: false },
+          "Cannot edit this order",
+        ),
+      ).toThrow("Cannot edit this order");
+    });
+  });
+
   describe("validateAll()", () => {
     it("should execute all validations successfully", async () => {
       const validation1 = jest.fn().mockResolvedValue(undefined);
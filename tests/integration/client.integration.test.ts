@@ -47,6 +47,7 @@ const mockRedis = {
   del: jest.fn(),
   rpush: jest.fn(),
   isConnected: jest.fn(),
+  on: jest.fn(),
 };
 
 require("axios").create = mockAxios.create;
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for AccessPolicyService
+ */
+
+import { AccessPolicyService } from "../../src/services/access-policy.service";
+import { AuthService } from "../../src/services/auth.service";
+import { RoleService } from "../../src/services/role.service";
+import { PermissionService } from "../../src/services/permission.service";
+import { AccessPolicy } from "../../src/types/access-policy.types";
+
+const policy: AccessPolicy = {
+  rules: [
+    {
+      id: "order-update",
+      actions: "update",
+      resources: "order",
+      when: { any: [{ owner: "ownerId" }, { permission: "orders:admin" }] },
+    },
+  ],
+};
+
+describe("AccessPolicyService", () => {
+  let auth: { getUserInfo: jest.Mock };
+  let roles: { getRoles: jest.Mock };
+  let permissions: { getPermissions: jest.Mock };
+  let service: AccessPolicyService;
+
+  beforeEach(() => {
+    auth = {
+      getUserInfo: jest.fn().mockResolvedValue({
+        id: "user-1",
+        username: "jane",
+        email: "jane@example.com",
+      }),
+    };
+    roles = { getRoles: jest.fn().mockResolvedValue(["user"]) };
+    permissions = {
+      getPermissions: jest.fn().mockResolvedValue(["orders:read"]),
+    };
+    service = new AccessPolicyService(
+      auth as unknown as AuthService,
+      roles as unknown as RoleService,
+      permissions as unknown as PermissionService,
+      { policy },
+    );
+  });
+
+  it("should build subject from user info, roles and permissions", async () => {
+    const subject = await service.getSubject("token");
+
+    expect(subject).toEqual({
+      userId: "user-1",
+      email: "jane@example.com",
+      roles: ["user"],
+      permissions: ["orders:read"],
+    });
+    expect(auth.getUserInfo).toHaveBeenCalledWith("token", undefined);
+  });
+
+  it("should allow owner and deny others", async () => {
+    expect(
+      await service.can("token", "update", {
+        type: "order",
+        ownerId: "user-1",
+      }),
+    ).toBe(true);
+    expect(
+      await service.can("token", "update", {
+        type: "order",
+        ownerId: "user-2",
+      }),
+    ).toBe(false);
+  });
+
+  it("should return explained decision from authorize", async () => {
+    permissions.getPermissions.mockResolvedValue(["orders:admin"]);
+
+    const decision = await service.authorize(
+      "token",
+      "update",
+      { type: "order", ownerId: "user-2" },
+      { ip: "10.0.0.1" },
+    );
+
+    expect(decision).toMatchObject({
+      allowed: true,
+      rule: "order-update",
+      reason: "Allowed by rule 'order-update': has permission orders:admin",
+    });
+  });
+
+  it("should deny when no policy is configured", async () => {
+    const unconfigured = new AccessPolicyService(
+      auth as unknown as AuthService,
+      roles as unknown as RoleService,
+      permissions as unknown as PermissionService,
+    );
+
+    const decision = await unconfigured.authorize("token", "update");
+
+    expect(decision).toEqual({
+      allowed: false,
+      action: "update",
+      resourceType: undefined,
+      reason: "No access policy configured",
+      trace: [],
+    });
+    expect(auth.getUserInfo).not.toHaveBeenCalled();
+
+    unconfigured.setPolicy(policy);
+    expect(unconfigured.getPolicy()).toBe(policy);
+  });
+
+  it("should deny and log when subject lookup fails", async () => {
+    const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+    roles.getRoles.mockRejectedValue(new Error("Redis down"));
+
+    const decision = await service.authorize("token", "update", {
+      type: "order",
+      ownerId: "user-1",
+    });
+
+    expect(decision).toMatchObject({
+      allowed: false,
+      error: true,
+      reason: "Access policy evaluation failed",
+    });
+    expect(decision.reason).not.toContain("Redis down");
+    expect(consoleSpy).toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Unit tests for access policy engine (ABAC)
+ */
+
+import {
+  AccessRequest,
+  evaluateAccessPolicy,
+} from "../../src/utils/access-policy";
+import { AccessPolicy } from "../../src/types/access-policy.types";
+import { wildcardPermissionMatcher } from "../../src/utils/permission-matcher";
+
+const orderPolicy: AccessPolicy = {
+  rules: [
+    {
+      id: "order-read",
+      actions: "read",
+      resources: "order",
+      when: { permission: "orders:read" },
+    },
+    {
+      id: "order-update",
+      description: "Update order if owner or has orders:admin",
+      actions: ["update"],
+      resources: ["order"],
+      when: {
+        any: [{ owner: "ownerId" }, { permission: "orders:admin" }],
+      },
+    },
+    {
+      id: "closed-orders-locked",
+      effect: "deny",
+      actions: ["update", "delete"],
+      resources: "order",
+      when: { attr: "resource.status", equals: "closed" },
+    },
+    {
+      id: "same-tenant",
+      effect: "deny",
+      actions: "*",
+      resources: "*",
+      when: {
+        attr: "resource.tenantId",
+        notEquals: { ref: "context.tenantId" },
+      },
+    },
+  ],
+};
+
+const request = (overrides: Partial<AccessRequest> = {}): AccessRequest => ({
+  subject: {
+    userId: "user-1",
+    email: "jane@example.com",
+    roles: ["user"],
+    permissions: ["orders:read"],
+  },
+  action: "update",
+  resource: { type: "order", ownerId: "user-1", status: "open" },
+  ...overrides,
+});
+
+describe("evaluateAccessPolicy", () => {
+  it("should allow owner to update order and explain the decision", () => {
+    const decision = evaluateAccessPolicy(orderPolicy, request());
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.rule).toBe("order-update");
+    expect(decision.reason).toBe(
+      "Allowed by rule 'order-update': is owner (resource.ownerId)",
+    );
+    expect(decision.action).toBe("update");
+    expect(decision.resourceType).toBe("order");
+    expect(decision.trace.find((t) => t.rule === "order-read")).toEqual({
+      rule: "order-read",
+      effect: "allow",
+      applicable: false,
+      matched: false,
+    });
+  });
+
+  it("should allow orders:admin (including wildcard grants) for non-owners", () => {
+    const decision = evaluateAccessPolicy(
+      orderPolicy,
+      request({
+        subject: { userId: "user-2", roles: [], permissions: ["orders:*"] },
+      }),
+      wildcardPermissionMatcher,
+    );
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.reason).toContain("has permission orders:admin");
+  });
+
+  it("should deny non-owner without admin permission with explanation", () => {
+    const decision = evaluateAccessPolicy(
+      orderPolicy,
+      request({ subject: { userId: "user-2", roles: [], permissions: [] } }),
+    );
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule).toBeUndefined();
+    expect(decision.reason).toBe(
+      "No rule allows 'update' on 'order': order-update (not owner (resource.ownerId) or missing permission orders:admin)",
+    );
+  });
+
+  it("should let deny rules override allow rules", () => {
+    const decision = evaluateAccessPolicy(
+      orderPolicy,
+      request({
+        resource: { type: "order", ownerId: "user-1", status: "closed" },
+      }),
+    );
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule).toBe("closed-orders-locked");
+    expect(decision.reason).toBe(
+      "Denied by rule 'closed-orders-locked': resource.status equals \"closed\"",
+    );
+  });
+
+  it("should compare attributes against context references", () => {
+    const resource = { type: "order", ownerId: "user-1", tenantId: "t-1" };
+
+    expect(
+      evaluateAccessPolicy(
+        orderPolicy,
+        request({ resource, context: { tenantId: "t-1" } }),
+      ).allowed,
+    ).toBe(true);
+    const decision = evaluateAccessPolicy(
+      orderPolicy,
+      request({ resource, context: { tenantId: "t-2" } }),
+    );
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule).toBe("same-tenant");
+  });
+
+  it("should deny by default when no rule applies", () => {
+    const decision = evaluateAccessPolicy(
+      orderPolicy,
+      request({ action: "archive", resource: { type: "invoice" } }),
+    );
+
+    expect(decision).toMatchObject({
+      allowed: false,
+      reason: "No rule allows 'archive' on 'invoice'",
+    });
+  });
+
+  it("should never treat missing owner or attributes as a match", () => {
+    const policy: AccessPolicy = {
+      rules: [
+        { id: "owner", actions: "*", when: { owner: "ownerId" } },
+        {
+          id: "tenant",
+          actions: "*",
+          when: {
+            attr: "resource.tenantId",
+            equals: { ref: "subject.attributes.tenantId" },
+          },
+        },
+      ],
+    };
+
+    const decision = evaluateAccessPolicy(policy, {
+      subject: { roles: [], permissions: [] },
+      action: "read",
+      resource: {},
+    });
+
+    expect(decision.allowed).toBe(false);
+  });
+
+  it("should require the attribute to be present for notEquals", () => {
+    const policy: AccessPolicy = {
+      rules: [
+        {
+          id: "unlocked",
+          actions: "read",
+          when: { attr: "resource.status", notEquals: "locked" },
+        },
+      ],
+    };
+    const evaluate = (resource: Record<string, unknown>) =>
+      evaluateAccessPolicy(policy, {
+        subject: { roles: [], permissions: [] },
+        action: "read",
+        resource,
+      });
+
+    expect(evaluate({ status: "open" }).allowed).toBe(true);
+    expect(evaluate({ status: "locked" }).allowed).toBe(false);
+    const missing = evaluate({});
+    expect(missing.allowed).toBe(false);
+    expect(missing.reason).toContain("resource.status is missing");
+  });
+
+  it("should support role, emailDomain and in conditions", () => {
+    const policy: AccessPolicy = {
+      rules: [
+        {
+          id: "staff-drafts",
+          actions: "read",
+          when: {
+            all: [
+              { role: ["editor", "user"] },
+              { emailDomain: "EXAMPLE.com" },
+              { attr: "resource.status", in: ["draft", "review"] },
+            ],
+          },
+        },
+      ],
+    };
+
+    const allowed = evaluateAccessPolicy(
+      policy,
+      request({ action: "read", resource: { status: "draft" } }),
+    );
+    expect(allowed.allowed).toBe(true);
+    expect(allowed.reason).toBe(
+      'Allowed by rule \'staff-drafts\': has role user and email domain is example.com and resource.status is in ["draft","review"]',
+    );
+
+    const denied = evaluateAccessPolicy(
+      policy,
+      request({
+        action: "read",
+        subject: {
+          email: "jane@other.org",
+          roles: ["user"],
+          permissions: [],
+        },
+        resource: { status: "draft" },
+      }),
+    );
+    expect(denied.allowed).toBe(false);
+    expect(denied.reason).toContain("email domain not in EXAMPLE.com");
+  });
+
+  it("should compare permissions exactly by default", () => {
+    const decision = evaluateAccessPolicy(
+      orderPolicy,
+      request({
+        subject: { userId: "user-2", roles: [], permissions: ["orders:*"] },
+      }),
+    );
+
+    expect(decision.allowed).toBe(false);
+  });
+
+  it("should match wildcard actions", () => {
+    const policy: AccessPolicy = {
+      rules: [
+        { id: "orders-all", actions: "orders:*", when: { role: "admin" } },
+      ],
+    };
+    const subject = { roles: ["admin"], permissions: [] };
+
+    expect(
+      evaluateAccessPolicy(policy, { subject, action: "orders:refund" })
+        .allowed,
+    ).toBe(true);
+    expect(
+      evaluateAccessPolicy(policy, { subject, action: "invoices:refund" })
+        .allowed,
+    ).toBe(false);
+  });
+});
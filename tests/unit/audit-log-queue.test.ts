@@ -6,6 +6,7 @@ import { EventEmitter } from "events";
 import { AuditLogQueue } from "../../src/utils/audit-log-queue";
 import { HttpClient } from "../../src/utils/http-client";
 import { RedisService } from "../../src/services/redis.service";
+import { LogSpool } from "../../src/utils/log-spool";
 import { MisoClientConfig, LogEntry } from "../../src/types/config.types";
 
 // Mock HttpClient
@@ -169,6 +170,35 @@ describe("AuditLogQueue", () => {
       expect(mockHttpClient.request).not.toHaveBeenCalled();
     });
 
+    it("should append entries to the audit log stream in stream mode", async () => {
+      const transaction = {
+        xadd: jest.fn(),
+        exec: jest.fn().mockResolvedValue([[null, "1-0"]]),
+      };
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.execute = jest.fn((_name, _fallback, command) =>
+        command({ multi: () => transaction } as never),
+      ) as unknown as typeof mockRedisService.execute;
+      config.redis = { host: "localhost", logQueue: "stream" };
+
+      await auditLogQueue.add(createLogEntry("first"));
+      await auditLogQueue.add(createLogEntry("second"));
+      await auditLogQueue.flush();
+
+      expect(transaction.xadd).toHaveBeenCalledTimes(2);
+      expect(transaction.xadd).toHaveBeenCalledWith(
+        `audit-logs:${config.clientId}:stream`,
+        "MAXLEN",
+        "~",
+        100000,
+        "*",
+        "log",
+        expect.stringContaining("second"),
+      );
+      expect(mockRedisService.rpush).not.toHaveBeenCalled();
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+
     it("should fallback to HTTP when Redis push fails", async () => {
       mockRedisService.isConnected.mockReturnValue(true);
       mockRedisService.rpush.mockResolvedValue(false);
@@ -335,6 +365,59 @@ describe("AuditLogQueue", () => {
     });
   });
 
+  describe("disk spool", () => {
+    let spool: jest.Mocked<
+      Pick<LogSpool, "accepts" | "append" | "hasPending" | "replay">
+    >;
+
+    beforeEach(() => {
+      spool = {
+        accepts: jest.fn().mockReturnValue(true),
+        append: jest.fn().mockResolvedValue(true),
+        hasPending: jest.fn().mockResolvedValue(false),
+        replay: jest.fn().mockResolvedValue(true),
+      };
+      auditLogQueue = new AuditLogQueue(
+        mockHttpClient,
+        mockRedisService,
+        config,
+        undefined,
+        spool as unknown as LogSpool,
+      );
+    });
+
+    it("should spool failed batches and skip HTTP while the circuit is open", async () => {
+      mockHttpClient.request.mockRejectedValue(new Error("Network error"));
+
+      for (let i = 0; i < 4; i++) {
+        await auditLogQueue.add(createLogEntry(`batch-${i}`));
+        await auditLogQueue.flush();
+      }
+
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(3);
+      expect(spool.append).toHaveBeenCalledTimes(4);
+      expect(spool.append).toHaveBeenLastCalledWith([
+        expect.objectContaining({ message: "batch-3" }),
+      ]);
+    });
+
+    it("should send new batches directly while spooled entries are pending", async () => {
+      spool.hasPending.mockResolvedValue(true);
+      mockHttpClient.request.mockResolvedValue({});
+
+      await auditLogQueue.add(createLogEntry("live"));
+      await auditLogQueue.flush();
+
+      expect(mockHttpClient.request).toHaveBeenCalledWith(
+        "POST",
+        "/api/v1/logs/batch",
+        { logs: [expect.objectContaining({ message: "live" })] },
+      );
+      expect(spool.replay).not.toHaveBeenCalled();
+      expect(spool.append).not.toHaveBeenCalled();
+    });
+  });
+
   describe("getQueueSize", () => {
     it("should return 0 for empty queue", () => {
       expect(auditLogQueue.getQueueSize()).toBe(0);
@@ -7,6 +7,7 @@ import { AuthService } from "../../src/services/auth.service";
 import { HttpClient } from "../../src/utils/http-client";
 import { ApiClient } from "../../src/api";
 import { CacheService } from "../../src/services/cache.service";
+import { TokenRevocationService } from "../../src/services/token-revocation.service";
 import { MisoClientConfig, AuthMethod } from "../../src/types/config.types";
 import { MisoClientError } from "../../src/utils/errors";
 
@@ -776,6 +777,52 @@ describe("AuthService", () => {
       );
     });
 
+    it("should add the token's jti and sid to the revocation list", async () => {
+      mockApiClient.auth.logoutWithToken.mockResolvedValue({
+        success: true,
+        message: "Logout successful",
+        timestamp: new Date().toISOString(),
+      });
+      const encode = (value: unknown): string =>
+        Buffer.from(JSON.stringify(value)).toString("base64url");
+      const exp = Math.floor(Date.now() / 1000) + 300;
+      const token = `${encode({ alg: "none" })}.${encode({ sub: "user-1", jti: "jti-1", sid: "sid-1", exp })}.`;
+
+      await authService.logout({ token });
+
+      expect(mockCacheService.set).toHaveBeenCalledWith(
+        "revoked:jti:jti-1",
+        expect.any(Number),
+        expect.any(Number),
+      );
+      expect(mockCacheService.set).toHaveBeenCalledWith(
+        "revoked:sid:sid-1",
+        expect.any(Number),
+        expect.any(Number),
+      );
+    });
+
+    it("should revoke through the injected revocation service", async () => {
+      mockApiClient.auth.logoutWithToken.mockResolvedValue({
+        success: true,
+        message: "Logout successful",
+        timestamp: new Date().toISOString(),
+      });
+      const revocation = {
+        revokeToken: jest.fn().mockResolvedValue(true),
+      } as unknown as jest.Mocked<TokenRevocationService>;
+      authService = new AuthService(
+        mockHttpClient,
+        mockApiClient as any,
+        mockCacheService,
+        revocation,
+      );
+
+      await authService.logout({ token: "user-token" });
+
+      expect(revocation.revokeToken).toHaveBeenCalledWith("user-token");
+    });
+
     it("should complete logout even when cache delete fails (async delete errors are handled)", async () => {
       const mockResponse = {
         success: true,
@@ -1378,6 +1425,46 @@ describe("AuthService", () => {
         );
       });
 
+      it("should share one API call across concurrent cache misses", async () => {
+        const userInfo = {
+          id: "123",
+          username: "testuser",
+          email: "test@example.com",
+        };
+        jwt.decode.mockReturnValue({ sub: "123" });
+        mockCacheService.get.mockResolvedValue(null);
+        mockCacheService.set.mockResolvedValue(true);
+        mockApiClient.auth.getUser.mockResolvedValue({
+          success: true,
+          data: { authenticated: true, user: userInfo },
+          timestamp: new Date().toISOString(),
+        });
+
+        const results = await Promise.all([
+          authService.getUserInfo("valid-token"),
+          authService.getUserInfo("valid-token"),
+        ]);
+
+        expect(results).toEqual([userInfo, userInfo]);
+        expect(mockApiClient.auth.getUser).toHaveBeenCalledTimes(1);
+        expect(mockCacheService.set).toHaveBeenCalledTimes(1);
+      });
+
+      it("should not cache unauthenticated responses", async () => {
+        jwt.decode.mockReturnValue({ sub: "123" });
+        mockCacheService.get.mockResolvedValue(null);
+        mockApiClient.auth.getUser.mockResolvedValue({
+          success: true,
+          data: { authenticated: false },
+          timestamp: new Date().toISOString(),
+        });
+
+        const result = await authService.getUserInfo("valid-token");
+
+        expect(result).toBeNull();
+        expect(mockCacheService.set).not.toHaveBeenCalled();
+      });
+
       it("should use custom userTTL from config", async () => {
         // Create new service with custom TTL
         const customConfig = {
@@ -7,6 +7,7 @@ import { HttpClient } from "../../src/utils/http-client";
 import { ApiClient } from "../../src/api";
 import { CacheService } from "../../src/services/cache.service";
 import { MisoClientConfig } from "../../src/types/config.types";
+import { wildcardPermissionMatcher } from "../../src/utils/permission-matcher";
 
 // Mock dependencies
 jest.mock("../../src/utils/http-client");
@@ -267,6 +268,30 @@ describe("BrowserPermissionService", () => {
 
       expect(result).toBe(false);
     });
+
+    it("should match wildcard permissions like the server-side service", async () => {
+      (mockHttpClient as any).config = {
+        ...config,
+        permissionMatcher: wildcardPermissionMatcher,
+      };
+      const service = new BrowserPermissionService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+      );
+      decodeJWT.mockReturnValue({ sub: "123", userId: "123" });
+      mockCacheService.get.mockResolvedValue({
+        permissions: ["miso-test:*"],
+        timestamp: Date.now(),
+      });
+
+      await expect(
+        service.hasPermission("token", "miso-test:write"),
+      ).resolves.toBe(true);
+      await expect(
+        permissionService.hasPermission("token", "miso-test:write"),
+      ).resolves.toBe(false);
+    });
   });
 
   describe("hasAnyPermission", () => {
@@ -431,4 +456,55 @@ describe("BrowserPermissionService", () => {
       ).resolves.not.toThrow();
     });
   });
+
+  describe("explainPermission", () => {
+    it("should explain a memory cache hit with cache age", async () => {
+      jest.spyOn(Date, "now").mockReturnValue(50_000);
+      decodeJWT.mockReturnValue({ sub: "123" });
+      (mockCacheService as any).getWithSource = jest.fn().mockResolvedValue({
+        source: "memory",
+        value: { permissions: ["read:users"], timestamp: 45_000 },
+      });
+
+      const explanation = await permissionService.explainPermission("token", [
+        "read:users",
+        "write:posts",
+      ]);
+
+      expect(explanation).toMatchObject({
+        userId: "123",
+        source: "memory",
+        cacheAgeMs: 5_000,
+        authMethods: ["bearer"],
+        granted: ["read:users"],
+        missing: ["write:posts"],
+        allowed: false,
+      });
+      jest.restoreAllMocks();
+    });
+
+    it("should report controller source on cache miss", async () => {
+      decodeJWT.mockReturnValue({ sub: "123" });
+      (mockCacheService as any).getWithSource = jest
+        .fn()
+        .mockResolvedValue(null);
+      mockCacheService.get.mockResolvedValue(null);
+      mockApiClient.permissions.getPermissions.mockResolvedValue({
+        success: true,
+        data: { permissions: ["read:users"] },
+        timestamp: new Date().toISOString(),
+      });
+
+      const explanation = await permissionService.explainPermission(
+        "token",
+        "read:users",
+      );
+
+      expect(explanation).toMatchObject({
+        source: "controller",
+        allowed: true,
+        userPermissions: ["read:users"],
+      });
+    });
+  });
 });
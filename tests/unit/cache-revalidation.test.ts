@@ -0,0 +1,180 @@
+/**
+ * Unit tests for request coalescing and stale-while-revalidate helpers
+ */
+
+import { CacheService } from "../../src/services/cache.service";
+import {
+  getWithRevalidation,
+  RevalidationOptions,
+  SingleFlight,
+} from "../../src/utils/cache-revalidation";
+
+interface Data {
+  value: string;
+  timestamp: number;
+}
+
+describe("cache-revalidation", () => {
+  describe("SingleFlight", () => {
+    it("should share the in-flight promise for the same key", async () => {
+      const flights = new SingleFlight();
+      const fn = jest.fn().mockResolvedValue("result");
+
+      const results = await Promise.all([
+        flights.run("key", fn),
+        flights.run("key", fn),
+      ]);
+
+      expect(results).toEqual(["result", "result"]);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(flights.has("key")).toBe(false);
+    });
+
+    it("should run separately for different keys", async () => {
+      const flights = new SingleFlight();
+      const fn = jest.fn().mockResolvedValue("result");
+
+      await Promise.all([flights.run("a", fn), flights.run("b", fn)]);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should release the key after a rejection", async () => {
+      const flights = new SingleFlight();
+      const failing = jest.fn().mockRejectedValue(new Error("boom"));
+
+      await expect(flights.run("key", failing)).rejects.toThrow("boom");
+
+      expect(flights.has("key")).toBe(false);
+      await expect(
+        flights.run("key", () => Promise.resolve("ok")),
+      ).resolves.toBe("ok");
+    });
+  });
+
+  describe("getWithRevalidation", () => {
+    let cache: CacheService;
+    let options: RevalidationOptions;
+
+    beforeEach(() => {
+      cache = new CacheService();
+      options = {
+        ttl: 60,
+        staleTtl: 30,
+        flights: new SingleFlight(),
+        logContext: "[Test]",
+      };
+    });
+
+    afterEach(() => {
+      cache.destroy();
+    });
+
+    it("should load once on miss and cache for ttl + staleTtl", async () => {
+      const setSpy = jest.spyOn(cache, "set");
+      const load = jest
+        .fn()
+        .mockResolvedValue({ value: "loaded", timestamp: Date.now() });
+
+      const [a, b] = await Promise.all([
+        getWithRevalidation<Data>(cache, "k", load, options),
+        getWithRevalidation<Data>(cache, "k", load, options),
+      ]);
+
+      expect(a?.value).toBe("loaded");
+      expect(b?.value).toBe("loaded");
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(setSpy).toHaveBeenCalledWith("k", expect.anything(), 90);
+    });
+
+    it("should honour per-entry ttl for storage and staleness", async () => {
+      const setSpy = jest.spyOn(cache, "set");
+      const load = jest.fn().mockResolvedValue({
+        value: "short",
+        timestamp: Date.now() - 11 * 1000,
+        ttl: 10,
+      });
+
+      await getWithRevalidation<Data & { ttl: number }>(
+        cache,
+        "k",
+        load,
+        options,
+      );
+      await getWithRevalidation<Data & { ttl: number }>(
+        cache,
+        "k",
+        load,
+        options,
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(setSpy).toHaveBeenCalledWith("k", expect.anything(), 40);
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache null results", async () => {
+      const load = jest.fn().mockResolvedValue(null);
+
+      await getWithRevalidation<Data>(cache, "k", load, options);
+      await getWithRevalidation<Data>(cache, "k", load, options);
+
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return stale data and refresh in the background", async () => {
+      await cache.set<Data>(
+        "k",
+        { value: "stale", timestamp: Date.now() - 61 * 1000 },
+        90,
+      );
+      const load = jest
+        .fn()
+        .mockResolvedValue({ value: "fresh", timestamp: Date.now() });
+
+      const result = await getWithRevalidation<Data>(cache, "k", load, options);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(result?.value).toBe("stale");
+      expect(load).toHaveBeenCalledTimes(1);
+      expect((await cache.get<Data>("k"))?.value).toBe("fresh");
+    });
+
+    it("should keep serving stale data when the background refresh fails", async () => {
+      const consoleError = jest.spyOn(console, "error").mockImplementation();
+      await cache.set<Data>(
+        "k",
+        { value: "stale", timestamp: Date.now() - 61 * 1000 },
+        90,
+      );
+      const load = jest.fn().mockRejectedValue(new Error("controller down"));
+
+      const result = await getWithRevalidation<Data>(cache, "k", load, options);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(result?.value).toBe("stale");
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringContaining("[Test]"),
+        expect.stringContaining("Background refresh failed: controller down"),
+      );
+      consoleError.mockRestore();
+    });
+
+    it("should not refresh expired-by-timestamp data when staleTtl is 0", async () => {
+      await cache.set<Data>(
+        "k",
+        { value: "cached", timestamp: Date.now() - 3600 * 1000 },
+        60,
+      );
+      const load = jest.fn();
+
+      const result = await getWithRevalidation<Data>(cache, "k", load, {
+        ...options,
+        staleTtl: 0,
+      });
+
+      expect(result?.value).toBe("cached");
+      expect(load).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for built-in CacheStore implementations
+ */
+
+import {
+  deleteMatching,
+  MemoryCacheStore,
+  WebStorageCacheStore,
+  WebStorageLike,
+} from "../../src/utils/cache-stores";
+
+/** In-memory Web Storage API double */
+class FakeStorage implements WebStorageLike {
+  items = new Map<string, string>();
+  quotaExceeded = false;
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (this.quotaExceeded) throw new Error("QuotaExceededError");
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+describe("cache-stores", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("MemoryCacheStore", () => {
+    it("should get, set and delete values", async () => {
+      const store = new MemoryCacheStore();
+
+      expect(await store.set("a", "1", 60)).toBe(true);
+      expect(await store.get("a")).toBe("1");
+      expect(await store.delete("a")).toBe(true);
+      expect(await store.delete("a")).toBe(false);
+      expect(await store.get("a")).toBeNull();
+    });
+
+    it("should expire values and report remaining ttl", async () => {
+      const store = new MemoryCacheStore();
+      await store.set("a", "1", 10);
+
+      jest.advanceTimersByTime(2500);
+      expect(await store.ttl("a")).toBe(8);
+
+      jest.advanceTimersByTime(7500);
+      expect(await store.get("a")).toBeNull();
+      expect(await store.ttl("a")).toBeNull();
+    });
+
+    it("should scan unexpired keys matching a glob pattern", async () => {
+      const store = new MemoryCacheStore();
+      await store.set("roles:1", "[]", 60);
+      await store.set("roles:2", "[]", 1);
+      await store.set("permissions:1", "[]", 60);
+      jest.advanceTimersByTime(1000);
+
+      expect(await store.scan("roles:*")).toEqual(["roles:1"]);
+    });
+
+    it("should evict least recently used entries over maxEntries", async () => {
+      const store = new MemoryCacheStore({ maxEntries: 2 });
+      await store.set("a", "1", 60);
+      await store.set("b", "2", 60);
+      await store.get("a");
+      await store.set("c", "3", 60);
+
+      expect(await store.get("b")).toBeNull();
+      expect(await store.get("a")).toBe("1");
+    });
+  });
+
+  describe("WebStorageCacheStore", () => {
+    let storage: FakeStorage;
+    let store: WebStorageCacheStore;
+
+    beforeEach(() => {
+      storage = new FakeStorage();
+      store = new WebStorageCacheStore(storage);
+    });
+
+    it("should store entries under the default prefix", async () => {
+      await store.set("a", "1", 60);
+
+      expect(await store.get("a")).toBe("1");
+      expect(JSON.parse(storage.getItem("miso:cache:a") as string)).toEqual({
+        value: "1",
+        expiresAt: Date.now() + 60000,
+      });
+    });
+
+    it("should remove expired and corrupt entries on read", async () => {
+      await store.set("a", "1", 1);
+      storage.setItem("miso:cache:b", "not json");
+      jest.advanceTimersByTime(1000);
+
+      expect(await store.get("a")).toBeNull();
+      expect(await store.get("b")).toBeNull();
+      expect(storage.length).toBe(0);
+    });
+
+    it("should scan only its own prefix", async () => {
+      storage.setItem("other", "x");
+      const scoped = new WebStorageCacheStore(storage, { prefix: "app:" });
+      await store.set("roles:1", "[]", 60);
+      await scoped.set("roles:2", "[]", 60);
+
+      expect(await store.scan("roles:*")).toEqual(["roles:1"]);
+      expect(await scoped.scan("*")).toEqual(["roles:2"]);
+    });
+
+    it("should return false when the storage quota is exceeded", async () => {
+      storage.quotaExceeded = true;
+
+      expect(await store.set("a", "1", 60)).toBe(false);
+    });
+
+    it("should report ttl and delete entries", async () => {
+      await store.set("a", "1", 30);
+
+      expect(await store.ttl("a")).toBe(30);
+      expect(await store.delete("a")).toBe(true);
+      expect(await store.delete("a")).toBe(false);
+      expect(await store.ttl("a")).toBeNull();
+    });
+  });
+
+  describe("deleteMatching", () => {
+    it("should delete scanned keys and return the count", async () => {
+      const store = new MemoryCacheStore();
+      await store.set("roles:1", "[]", 60);
+      await store.set("roles:2", "[]", 60);
+      await store.set("permissions:1", "[]", 60);
+
+      expect(await deleteMatching(store, "roles:*")).toBe(2);
+      expect(await store.scan("*")).toEqual(["permissions:1"]);
+    });
+  });
+});
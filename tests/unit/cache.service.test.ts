@@ -4,6 +4,7 @@
 
 import { CacheService } from "../../src/services/cache.service";
 import { RedisService } from "../../src/services/redis.service";
+import { MemoryCacheStore } from "../../src/utils/cache-stores";
 
 // Mock RedisService
 jest.mock("../../src/services/redis.service");
@@ -112,6 +113,30 @@ describe("CacheService", () => {
     });
   });
 
+  describe("getWithSource", () => {
+    it("should report redis source for Redis hits", async () => {
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.get.mockResolvedValue(JSON.stringify({ a: 1 }));
+      cacheService = new CacheService(mockRedisService);
+
+      await expect(cacheService.getWithSource("key")).resolves.toEqual({
+        value: { a: 1 },
+        source: "redis",
+      });
+    });
+
+    it("should report memory source for in-memory hits", async () => {
+      cacheService = new CacheService();
+      await cacheService.set("key", "value", 60);
+
+      await expect(cacheService.getWithSource("key")).resolves.toEqual({
+        value: "value",
+        source: "memory",
+      });
+      await expect(cacheService.getWithSource("missing")).resolves.toBeNull();
+    });
+  });
+
   describe("Memory Cache Fallback", () => {
     beforeEach(() => {
       cacheService = new CacheService(); // No Redis
@@ -222,6 +247,277 @@ describe("CacheService", () => {
     });
   });
 
+  describe("Pattern Clearing", () => {
+    beforeEach(() => {
+      mockRedisService.isConnected.mockReturnValue(false);
+      mockRedisService.deleteByPattern = jest.fn().mockResolvedValue(0);
+      cacheService = new CacheService(mockRedisService);
+    });
+
+    const seed = async (): Promise<void> => {
+      await cacheService.set("permissions:user-1", ["a"], 300);
+      await cacheService.set("permissions:user-2", ["b"], 300);
+      await cacheService.set("roles:user-1", ["admin"], 300);
+      await cacheService.set("roles:user-1:extra", ["x"], 300);
+    };
+
+    it("should clear memory entries by glob pattern", async () => {
+      await seed();
+
+      const deleted = await cacheService.clearByPattern("*:user-1");
+
+      expect(deleted).toBe(2);
+      expect(await cacheService.get("permissions:user-1")).toBeNull();
+      expect(await cacheService.get("roles:user-1")).toBeNull();
+      expect(await cacheService.get("permissions:user-2")).toEqual(["b"]);
+      expect(await cacheService.get("roles:user-1:extra")).toEqual(["x"]);
+    });
+
+    it("should support single-character wildcard", async () => {
+      await seed();
+
+      const deleted = await cacheService.clearByPattern("permissions:user-?");
+
+      expect(deleted).toBe(2);
+      expect(await cacheService.get("roles:user-1")).toEqual(["admin"]);
+    });
+
+    it("should clear by literal prefix", async () => {
+      await seed();
+      await cacheService.set("permissions*literal", ["c"], 300);
+
+      const deleted = await cacheService.clearByPrefix("permissions*");
+
+      expect(deleted).toBe(1);
+      expect(await cacheService.get("permissions:user-1")).toEqual(["a"]);
+    });
+
+    it("should clear namespace", async () => {
+      await seed();
+
+      const deleted = await cacheService.clearNamespace("roles");
+
+      expect(deleted).toBe(2);
+      expect(await cacheService.get("roles:user-1")).toBeNull();
+      expect(await cacheService.get("permissions:user-1")).toEqual(["a"]);
+    });
+
+    it("should delete matching Redis keys when connected", async () => {
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.set.mockResolvedValue(true);
+      (mockRedisService.deleteByPattern as jest.Mock).mockResolvedValue(42);
+      await cacheService.set("permissions:user-1", ["a"], 300);
+
+      const deleted = await cacheService.clearNamespace("permissions");
+
+      expect(deleted).toBe(42);
+      expect(mockRedisService.deleteByPattern).toHaveBeenCalledWith(
+        "permissions:*",
+      );
+      mockRedisService.get.mockResolvedValue(null);
+      expect(await cacheService.get("permissions:user-1")).toBeNull();
+    });
+  });
+
+  describe("Bounded LRU and Stats", () => {
+    it("should evict least recently used memory entries over maxEntries", async () => {
+      cacheService = new CacheService(undefined, { maxEntries: 2 });
+      await cacheService.set("a", 1, 300);
+      await cacheService.set("b", 2, 300);
+      await cacheService.get("a");
+      await cacheService.set("c", 3, 300);
+
+      expect(await cacheService.get("b")).toBeNull();
+      expect(await cacheService.get("a")).toBe(1);
+      expect(await cacheService.get("c")).toBe(3);
+      expect(cacheService.getStats()).toEqual(
+        expect.objectContaining({ entries: 2, maxEntries: 2, evictions: 1 }),
+      );
+    });
+
+    it("should default to 10000 max entries", () => {
+      cacheService = new CacheService();
+      expect(cacheService.getStats().maxEntries).toBe(10000);
+    });
+
+    it("should evict by approximate bytes", async () => {
+      cacheService = new CacheService(undefined, { maxBytes: 30 });
+      await cacheService.set("a", "x".repeat(8), 300);
+      await cacheService.set("b", "y".repeat(8), 300);
+
+      expect(await cacheService.get("a")).toBeNull();
+      expect(cacheService.getStats()).toEqual(
+        expect.objectContaining({
+          entries: 1,
+          approximateBytes: 20,
+          maxBytes: 30,
+        }),
+      );
+    });
+
+    it("should count hits and misses across Redis and memory", async () => {
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.get
+        .mockResolvedValueOnce(JSON.stringify("from-redis"))
+        .mockResolvedValue(null);
+      cacheService = new CacheService(mockRedisService);
+
+      await cacheService.get("redis-key");
+      await cacheService.get("redis-key");
+      await cacheService.get("missing");
+
+      expect(cacheService.getStats()).toEqual(
+        expect.objectContaining({ hits: 2, misses: 1, hitRate: 2 / 3 }),
+      );
+    });
+
+    it("should report zero hit rate before lookups", () => {
+      cacheService = new CacheService();
+      expect(cacheService.getStats()).toEqual(
+        expect.objectContaining({ hits: 0, misses: 0, hitRate: 0 }),
+      );
+    });
+  });
+
+  describe("getOrSet and wrap", () => {
+    const flushPromises = async (): Promise<void> => {
+      for (let i = 0; i < 10; i++) await Promise.resolve();
+    };
+
+    beforeEach(() => {
+      cacheService = new CacheService();
+    });
+
+    it("should load on miss and serve cached value afterwards", async () => {
+      const loader = jest.fn().mockResolvedValue({ id: "o1" });
+
+      const first = await cacheService.getOrSet("order:o1", loader, {
+        ttl: 60,
+      });
+      const second = await cacheService.getOrSet("order:o1", loader, {
+        ttl: 60,
+      });
+
+      expect(first).toEqual({ id: "o1" });
+      expect(second).toEqual({ id: "o1" });
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it("should share one loader call across concurrent misses", async () => {
+      const loader = jest.fn().mockResolvedValue("value");
+
+      const results = await Promise.all([
+        cacheService.getOrSet("k", loader, { ttl: 60 }),
+        cacheService.getOrSet("k", loader, { ttl: 60 }),
+      ]);
+
+      expect(results).toEqual(["value", "value"]);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reload after ttl expires", async () => {
+      const loader = jest
+        .fn()
+        .mockResolvedValueOnce("v1")
+        .mockResolvedValueOnce("v2");
+
+      await cacheService.getOrSet("k", loader, { ttl: 60 });
+      jest.advanceTimersByTime(61 * 1000);
+
+      expect(await cacheService.getOrSet("k", loader, { ttl: 60 })).toBe("v2");
+    });
+
+    it("should not cache not-found results without negativeTtl", async () => {
+      const loader = jest.fn().mockResolvedValue(undefined);
+
+      expect(await cacheService.getOrSet("k", loader, { ttl: 60 })).toBeNull();
+      await cacheService.getOrSet("k", loader, { ttl: 60 });
+
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cache not-found results for negativeTtl", async () => {
+      const loader = jest
+        .fn()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce("found");
+      const options = { ttl: 300, negativeTtl: 10 };
+
+      expect(await cacheService.getOrSet("k", loader, options)).toBeNull();
+      expect(await cacheService.getOrSet("k", loader, options)).toBeNull();
+      expect(loader).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(11 * 1000);
+      expect(await cacheService.getOrSet("k", loader, options)).toBe("found");
+    });
+
+    it("should serve stale value while refreshing within staleTtl", async () => {
+      const loader = jest
+        .fn()
+        .mockResolvedValueOnce("v1")
+        .mockResolvedValueOnce("v2");
+      const options = { ttl: 60, staleTtl: 30 };
+
+      await cacheService.getOrSet("k", loader, options);
+      jest.advanceTimersByTime(70 * 1000);
+
+      expect(await cacheService.getOrSet("k", loader, options)).toBe("v1");
+      await flushPromises();
+      expect(loader).toHaveBeenCalledTimes(2);
+      expect(await cacheService.getOrSet("k", loader, options)).toBe("v2");
+    });
+
+    it("should propagate loader errors without caching", async () => {
+      const loader = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("db down"))
+        .mockResolvedValueOnce("ok");
+
+      await expect(
+        cacheService.getOrSet("k", loader, { ttl: 60 }),
+      ).rejects.toThrow("db down");
+      expect(await cacheService.getOrSet("k", loader, { ttl: 60 })).toBe("ok");
+    });
+
+    it("should store values in Redis when connected", async () => {
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.get.mockResolvedValue(null);
+      mockRedisService.set.mockResolvedValue(true);
+      cacheService = new CacheService(mockRedisService);
+
+      await cacheService.getOrSet("k", async () => "v", {
+        ttl: 60,
+        staleTtl: 15,
+      });
+
+      expect(mockRedisService.set).toHaveBeenCalledWith(
+        "k",
+        expect.stringContaining('"value":"v"'),
+        75,
+      );
+    });
+
+    it("should memoize a function by key", async () => {
+      const findUser = jest.fn(async (id: string) =>
+        id === "missing" ? null : { id },
+      );
+      const cachedFindUser = cacheService.wrap(
+        findUser,
+        (id: string) => `user:${id}`,
+        { ttl: 60, negativeTtl: 5 },
+      );
+
+      expect(await cachedFindUser("u1")).toEqual({ id: "u1" });
+      expect(await cachedFindUser("u1")).toEqual({ id: "u1" });
+      expect(await cachedFindUser("missing")).toBeNull();
+      expect(await cachedFindUser("missing")).toBeNull();
+
+      expect(findUser).toHaveBeenCalledTimes(2);
+      expect(findUser).toHaveBeenCalledWith("u1");
+      expect(findUser).toHaveBeenCalledWith("missing");
+    });
+  });
+
   describe("Type Safety", () => {
     beforeEach(() => {
       cacheService = new CacheService();
@@ -337,4 +633,180 @@ describe("CacheService", () => {
       // Note: In actual implementation, it might still check Redis, but should also have it in memory
     });
   });
+
+  describe("Cross-instance invalidation", () => {
+    let onMessage: (message: string) => void;
+
+    beforeEach(() => {
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.set.mockResolvedValue(true);
+      mockRedisService.delete.mockResolvedValue(true);
+      mockRedisService.getKeyPrefix = jest.fn().mockReturnValue("miso:");
+      mockRedisService.publish = jest.fn().mockResolvedValue(true);
+      mockRedisService.subscribe = jest
+        .fn()
+        .mockImplementation(async (_channel, handler) => {
+          onMessage = handler;
+          return true;
+        });
+      cacheService = new CacheService(mockRedisService);
+    });
+
+    it("should subscribe to prefixed invalidation channel", async () => {
+      await expect(cacheService.enableInvalidation()).resolves.toBe(true);
+      await cacheService.enableInvalidation();
+
+      expect(mockRedisService.subscribe).toHaveBeenCalledTimes(1);
+      expect(mockRedisService.subscribe).toHaveBeenCalledWith(
+        "miso:cache:invalidate",
+        expect.any(Function),
+      );
+    });
+
+    it("should not enable invalidation when Redis is disconnected", async () => {
+      mockRedisService.isConnected.mockReturnValue(false);
+
+      await expect(cacheService.enableInvalidation()).resolves.toBe(false);
+      expect(mockRedisService.subscribe).not.toHaveBeenCalled();
+    });
+
+    it("should not publish before invalidation is enabled", async () => {
+      await cacheService.delete("roles:user-1");
+
+      expect(mockRedisService.publish).not.toHaveBeenCalled();
+    });
+
+    it("should publish invalidations on set, delete and clear", async () => {
+      await cacheService.enableInvalidation();
+
+      await cacheService.set("permissions:user-1", ["a"], 60);
+      await cacheService.delete("roles:user-1");
+      await cacheService.clear();
+
+      const messages = (mockRedisService.publish as jest.Mock).mock.calls.map(
+        ([channel, message]) => {
+          expect(channel).toBe("miso:cache:invalidate");
+          return JSON.parse(message);
+        },
+      );
+      expect(messages).toEqual([
+        expect.objectContaining({ keys: ["permissions:user-1"] }),
+        expect.objectContaining({ keys: ["roles:user-1"] }),
+        expect.objectContaining({ all: true }),
+      ]);
+    });
+
+    it("should evict memory entries invalidated by another instance", async () => {
+      await cacheService.enableInvalidation();
+      mockRedisService.isConnected.mockReturnValue(false);
+      await cacheService.set("roles:user-1", ["admin"], 300);
+      await cacheService.set("roles:user-2", ["user"], 300);
+
+      onMessage(JSON.stringify({ origin: "other", keys: ["roles:user-1"] }));
+
+      expect(await cacheService.get("roles:user-1")).toBeNull();
+      expect(await cacheService.get("roles:user-2")).toEqual(["user"]);
+
+      onMessage(JSON.stringify({ origin: "other", all: true }));
+      expect(await cacheService.get("roles:user-2")).toBeNull();
+    });
+
+    it("should broadcast and apply pattern invalidations", async () => {
+      mockRedisService.deleteByPattern = jest.fn().mockResolvedValue(1);
+      await cacheService.enableInvalidation();
+
+      await cacheService.clearNamespace("permissions");
+      expect(
+        JSON.parse((mockRedisService.publish as jest.Mock).mock.calls[0][1]),
+      ).toEqual(expect.objectContaining({ pattern: "permissions:*" }));
+
+      mockRedisService.isConnected.mockReturnValue(false);
+      await cacheService.set("permissions:user-1", ["a"], 300);
+      await cacheService.set("roles:user-1", ["admin"], 300);
+      onMessage(JSON.stringify({ origin: "other", pattern: "permissions:*" }));
+
+      expect(await cacheService.get("permissions:user-1")).toBeNull();
+      expect(await cacheService.get("roles:user-1")).toEqual(["admin"]);
+    });
+
+    it("should ignore its own invalidations", async () => {
+      await cacheService.enableInvalidation();
+      await cacheService.set("roles:user-1", ["admin"], 300);
+      const own = (mockRedisService.publish as jest.Mock).mock.calls[0][1];
+
+      mockRedisService.isConnected.mockReturnValue(false);
+      onMessage(own);
+
+      expect(await cacheService.get("roles:user-1")).toEqual(["admin"]);
+    });
+  });
+
+  describe("Cache Stores", () => {
+    it("should read and write a custom store and report it as source", async () => {
+      const store = new MemoryCacheStore();
+      cacheService = new CacheService(undefined, { store });
+
+      await cacheService.set("roles:user-1", ["admin"], 300);
+      expect(await store.get("roles:user-1")).toBe('["admin"]');
+
+      const other = new CacheService(undefined, { store });
+      expect(await other.getWithSource("roles:user-1")).toEqual({
+        value: ["admin"],
+        source: "store",
+      });
+      other.destroy();
+    });
+
+    it("should prefer a custom store over Redis", async () => {
+      mockRedisService.isConnected.mockReturnValue(true);
+      const store = new MemoryCacheStore();
+      cacheService = new CacheService(mockRedisService, { store });
+
+      await cacheService.set("key", "value", 60);
+
+      expect(mockRedisService.set).not.toHaveBeenCalled();
+      expect(await store.get("key")).toBe('"value"');
+    });
+
+    it("should use memory only when store is 'memory'", async () => {
+      mockRedisService.isConnected.mockReturnValue(true);
+      cacheService = new CacheService(mockRedisService, { store: "memory" });
+
+      await cacheService.set("key", "value", 60);
+
+      expect(mockRedisService.set).not.toHaveBeenCalled();
+      expect(await cacheService.getWithSource("key")).toEqual({
+        value: "value",
+        source: "memory",
+      });
+    });
+
+    it("should skip an unavailable store", async () => {
+      const store = {
+        get: jest.fn(),
+        set: jest.fn(),
+        delete: jest.fn(),
+        scan: jest.fn(),
+        ttl: jest.fn(),
+        isAvailable: jest.fn().mockReturnValue(false),
+      };
+      cacheService = new CacheService(undefined, { store });
+
+      await cacheService.set("key", "value", 60);
+
+      expect(store.set).not.toHaveBeenCalled();
+      expect(await cacheService.get("key")).toBe("value");
+    });
+
+    it("should clear by pattern with scan + delete when the store has no deleteByPattern", async () => {
+      const store = new MemoryCacheStore();
+      cacheService = new CacheService(undefined, { store });
+      await cacheService.set("permissions:1", ["a"], 60);
+      await cacheService.set("permissions:2", ["b"], 60);
+      await cacheService.set("roles:1", ["admin"], 60);
+
+      expect(await cacheService.clearNamespace("permissions")).toBe(2);
+      expect(await store.scan("*")).toEqual(["roles:1"]);
+    });
+  });
 });
@@ -15,6 +15,7 @@ jest.mock("ioredis", () => {
     set: jest.fn().mockResolvedValue(true),
     del: jest.fn().mockResolvedValue(true),
     rpush: jest.fn().mockResolvedValue(true),
+    on: jest.fn(),
   }));
 });
 
@@ -68,6 +69,7 @@ describe("MisoClient", () => {
         set: jest.fn(),
         del: jest.fn(),
         rpush: jest.fn(),
+        on: jest.fn(),
       }));
 
       const clientWithoutRedis = new MisoClient({
@@ -380,6 +382,19 @@ describe("MisoClient", () => {
     });
   });
 
+  describe("Token revocation", () => {
+    it("should share one revocation list between logout and local validation", () => {
+      const services = client as unknown as {
+        auth: { revocation: unknown };
+        tokenValidation: { revocation: unknown };
+      };
+
+      expect(client.revocation).toBeDefined();
+      expect(services.auth.revocation).toBe(client.revocation);
+      expect(services.tokenValidation.revocation).toBe(client.revocation);
+    });
+  });
+
   describe("Redis Status", () => {
     it("should report Redis connection status", async () => {
       expect(client.isRedisConnected()).toBe(false);
@@ -393,11 +408,76 @@ describe("MisoClient", () => {
         set: jest.fn(),
         del: jest.fn(),
         rpush: jest.fn(),
+        on: jest.fn(),
       }));
 
       await client.initialize();
       expect(client.isRedisConnected()).toBe(true);
     });
+
+    it("should expose Redis state and notify state listeners", async () => {
+      const mockRedis = require("ioredis");
+      mockRedis.mockImplementation(() => ({
+        connect: jest.fn().mockResolvedValue(undefined),
+        disconnect: jest.fn(),
+        on: jest.fn(),
+      }));
+      const listener = jest.fn();
+      const unsubscribe = client.onRedisStateChange(listener);
+      expect(client.getRedisState()).toBe("disconnected");
+
+      await client.initialize();
+
+      expect(client.getRedisState()).toBe("ready");
+      expect(listener).toHaveBeenCalledWith({
+        state: "ready",
+        previous: "connecting",
+      });
+      unsubscribe();
+      listener.mockClear();
+      await client.disconnect();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should enable cache invalidation once Redis reconnects", async () => {
+      jest.useFakeTimers();
+      const subscriber = {
+        on: jest.fn(),
+        subscribe: jest.fn().mockResolvedValue(1),
+        disconnect: jest.fn(),
+      };
+      const connect = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("Connection failed"))
+        .mockResolvedValue(undefined);
+      const mockRedis = require("ioredis");
+      mockRedis.mockImplementation(() => ({
+        connect,
+        disconnect: jest.fn(),
+        on: jest.fn(),
+        duplicate: jest.fn(() => subscriber),
+      }));
+      const reconnecting = new MisoClient({
+        ...config,
+        redis: { host: "localhost", port: 6379, reconnectDelayMs: 100 },
+      });
+
+      try {
+        await reconnecting.initialize();
+        expect(reconnecting.getRedisState()).toBe("down");
+        expect(subscriber.subscribe).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(100);
+
+        expect(reconnecting.isRedisConnected()).toBe(true);
+        expect(subscriber.subscribe).toHaveBeenCalledWith(
+          "miso:cache:invalidate",
+        );
+      } finally {
+        await reconnecting.disconnect();
+        jest.useRealTimers();
+      }
+    });
   });
 
   describe("Application status", () => {
@@ -75,6 +75,31 @@ describe("ConfigLoader", () => {
       });
     });
 
+    describe("console output", () => {
+      beforeEach(() => {
+        process.env.MISO_CLIENTID = "test-client-id";
+        process.env.MISO_CLIENTSECRET = "test-secret";
+        delete process.env.MISO_LOG_FORMAT;
+        delete process.env.NODE_ENV;
+      });
+
+      it("should read MISO_LOG_FORMAT", () => {
+        process.env.MISO_LOG_FORMAT = "JSON";
+
+        expect(loadConfig().consoleOutput).toBe("json");
+      });
+
+      it("should default to pretty output in development only", () => {
+        expect(loadConfig().consoleOutput).toBeUndefined();
+
+        process.env.NODE_ENV = "development";
+        expect(loadConfig().consoleOutput).toBe("pretty");
+
+        process.env.MISO_LOG_FORMAT = "off";
+        expect(loadConfig().consoleOutput).toBeUndefined();
+      });
+    });
+
     describe("Redis configuration", () => {
       beforeEach(() => {
         // Set required fields for all Redis tests
@@ -158,6 +183,74 @@ describe("ConfigLoader", () => {
       });
     });
 
+    describe("Redis deployment configuration", () => {
+      beforeEach(() => {
+        process.env.MISO_CLIENTID = "test-client-id";
+        process.env.MISO_CLIENTSECRET = "test-secret";
+        delete process.env.REDIS_HOST;
+      });
+
+      it("should load Redis URL and username without REDIS_HOST", () => {
+        process.env.REDIS_URL = "rediss://cache.example.com:6380";
+        process.env.REDIS_USERNAME = "app";
+        process.env.REDIS_PASSWORD = "secret";
+
+        const config = loadConfig();
+
+        expect(config.redis).toMatchObject({
+          url: "rediss://cache.example.com:6380",
+          username: "app",
+          password: "secret",
+        });
+        expect(config.redis?.host).toBeUndefined();
+      });
+
+      it("should load TLS flag", () => {
+        process.env.REDIS_HOST = "cache.example.com";
+        process.env.REDIS_TLS = "true";
+
+        expect(loadConfig().redis?.tls).toBe(true);
+      });
+
+      it("should load TLS options", () => {
+        process.env.REDIS_HOST = "10.0.0.5";
+        process.env.REDIS_TLS_SERVERNAME = "cache.example.com";
+        process.env.REDIS_TLS_REJECT_UNAUTHORIZED = "false";
+
+        expect(loadConfig().redis?.tls).toEqual({
+          servername: "cache.example.com",
+          rejectUnauthorized: false,
+        });
+      });
+
+      it("should load Sentinel configuration", () => {
+        process.env.REDIS_SENTINELS = "10.0.0.1:26380, 10.0.0.2";
+        process.env.REDIS_SENTINEL_NAME = "cache";
+        process.env.REDIS_SENTINEL_PASSWORD = "sentinel-secret";
+
+        const config = loadConfig();
+
+        expect(config.redis).toMatchObject({
+          sentinels: [
+            { host: "10.0.0.1", port: 26380 },
+            { host: "10.0.0.2", port: 26379 },
+          ],
+          sentinelName: "cache",
+          sentinelPassword: "sentinel-secret",
+        });
+      });
+
+      it("should load Cluster nodes", () => {
+        process.env.REDIS_CLUSTER_NODES = "node-1:7000,node-2:7001,node-3";
+
+        expect(loadConfig().redis?.cluster).toEqual([
+          { host: "node-1", port: 7000 },
+          { host: "node-2", port: 7001 },
+          { host: "node-3", port: 6379 },
+        ]);
+      });
+    });
+
     describe("error cases", () => {
       it("should throw error when MISO_CLIENTID is missing", () => {
         delete process.env.MISO_CLIENTID;
@@ -374,6 +467,47 @@ describe("ConfigLoader", () => {
       });
     });
 
+    describe("RBAC configuration", () => {
+      beforeEach(() => {
+        process.env.MISO_CLIENTID = "test-client-id";
+        process.env.MISO_CLIENTSECRET = "test-secret";
+        delete process.env.MISO_RBAC_MODE;
+        delete process.env.MISO_RBAC_POLICY_PATH;
+        delete process.env.MISO_RBAC_CLIENT_ID;
+        delete process.env.MISO_RBAC_INCLUDE_REALM_ROLES;
+      });
+
+      it("should not set rbac when MISO_RBAC_MODE is not provided", () => {
+        const config = loadConfig();
+
+        expect(config.rbac).toBeUndefined();
+      });
+
+      it("should load local RBAC configuration from environment", () => {
+        process.env.MISO_RBAC_MODE = "LOCAL";
+        process.env.MISO_RBAC_POLICY_PATH = "./rbac.yaml";
+        process.env.MISO_RBAC_CLIENT_ID = "miso-test";
+        process.env.MISO_RBAC_INCLUDE_REALM_ROLES = "false";
+
+        const config = loadConfig();
+
+        expect(config.rbac).toEqual({
+          mode: "local",
+          policyPath: "./rbac.yaml",
+          resourceClientId: "miso-test",
+          includeRealmRoles: false,
+        });
+      });
+
+      it("should ignore unknown MISO_RBAC_MODE values", () => {
+        process.env.MISO_RBAC_MODE = "offline";
+
+        const config = loadConfig();
+
+        expect(config.rbac).toBeUndefined();
+      });
+    });
+
     describe("encryption key configuration", () => {
       beforeEach(() => {
         // Set required fields for all encryption key tests
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for DataClient cache helpers
+ */
+
+import {
+  clearCacheStore,
+  getCachedEntry,
+  getStoredEntry,
+  setCacheEntry,
+} from "../../src/utils/data-client-cache";
+import { CacheEntry } from "../../src/types/data-client.types";
+import { MemoryCacheStore } from "../../src/utils/cache-stores";
+
+describe("data-client-cache", () => {
+  let cache: Map<string, CacheEntry>;
+  let metrics: { cacheHits: number; cacheMisses: number };
+
+  beforeEach(() => {
+    cache = new Map();
+    metrics = { cacheHits: 0, cacheMisses: 0 };
+  });
+
+  it("should return valid entries and count hits and misses", () => {
+    setCacheEntry(cache, "a", { id: 1 }, 60, 10);
+
+    expect(getCachedEntry(cache, "a", metrics)).toEqual({ id: 1 });
+    expect(getCachedEntry(cache, "b", metrics)).toBeNull();
+    expect(metrics).toEqual({ cacheHits: 1, cacheMisses: 1 });
+  });
+
+  it("should evict the least recently used entry over max size", () => {
+    setCacheEntry(cache, "a", 1, 60, 2);
+    setCacheEntry(cache, "b", 2, 60, 2);
+    getCachedEntry(cache, "a", metrics);
+    setCacheEntry(cache, "c", 3, 60, 2);
+
+    expect([...cache.keys()]).toEqual(["a", "c"]);
+  });
+
+  it("should refresh recency when overwriting an entry", () => {
+    setCacheEntry(cache, "a", 1, 60, 2);
+    setCacheEntry(cache, "b", 2, 60, 2);
+    setCacheEntry(cache, "a", 10, 60, 2);
+    setCacheEntry(cache, "c", 3, 60, 2);
+
+    expect([...cache.keys()]).toEqual(["a", "c"]);
+    expect(cache.get("a")?.data).toBe(10);
+  });
+
+  describe("persistent store", () => {
+    it("should write entries through to the store", async () => {
+      const store = new MemoryCacheStore();
+      setCacheEntry(cache, "a", { id: 1 }, 60, 10, store);
+      await Promise.resolve();
+
+      expect(JSON.parse((await store.get("a")) as string)).toEqual(
+        expect.objectContaining({ data: { id: 1 }, key: "a" }),
+      );
+    });
+
+    it("should load store hits into memory and count metrics", async () => {
+      const store = new MemoryCacheStore();
+      const entry = {
+        data: { id: 2 },
+        expiresAt: Date.now() + 60000,
+        key: "b",
+      };
+      await store.set("b", JSON.stringify(entry), 60);
+
+      expect(await getStoredEntry(store, cache, "b", metrics, 10)).toEqual({
+        id: 2,
+      });
+      expect(cache.get("b")).toEqual(entry);
+      expect(
+        await getStoredEntry(store, cache, "missing", metrics, 10),
+      ).toBeNull();
+      expect(metrics).toEqual({ cacheHits: 1, cacheMisses: 1 });
+    });
+
+    it("should evict over max size when loading store hits", async () => {
+      const store = new MemoryCacheStore();
+      const entry = { data: 3, expiresAt: Date.now() + 60000, key: "c" };
+      await store.set("c", JSON.stringify(entry), 60);
+      setCacheEntry(cache, "a", 1, 60, 2);
+      setCacheEntry(cache, "b", 2, 60, 2);
+
+      expect(await getStoredEntry(store, cache, "c", metrics, 2)).toBe(3);
+      expect([...cache.keys()]).toEqual(["b", "c"]);
+    });
+
+    it("should treat store errors as misses", async () => {
+      const store = new MemoryCacheStore();
+      jest.spyOn(store, "get").mockRejectedValue(new Error("unavailable"));
+
+      expect(await getStoredEntry(store, cache, "a", metrics, 10)).toBeNull();
+      expect(metrics.cacheMisses).toBe(1);
+    });
+
+    it("should clear all store entries", async () => {
+      const store = new MemoryCacheStore();
+      await store.set("a", "{}", 60);
+      await store.set("b", "{}", 60);
+
+      clearCacheStore(store);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await store.scan("*")).toEqual([]);
+    });
+  });
+});
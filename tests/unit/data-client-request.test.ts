@@ -1,5 +1,6 @@
 import { executeHttpRequest } from "../../src/utils/data-client-request";
 import { DataClientConfig } from "../../src/types/data-client.types";
+import { LoggerContextStorage } from "../../src/services/logger/logger-context-storage";
 
 function jsonResponse(body: unknown, status: number): Response {
   return new Response(JSON.stringify(body), {
@@ -117,3 +118,55 @@ describe("data-client-request auth recovery", () => {
     expect(opts.handleAuthError).toHaveBeenCalledTimes(1);
   });
 });
+
+describe("data-client-request trace propagation", () => {
+  const traceparent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const setTraceContext = (): void =>
+    LoggerContextStorage.getInstance().setContext({
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      spanId: "00f067aa0ba902b7",
+    });
+
+  afterEach(() => {
+    LoggerContextStorage.getInstance().clearContext();
+  });
+
+  const sentHeaders = (fetchMock: jest.SpyInstance): Headers =>
+    (fetchMock.mock.calls[0][1] as RequestInit).headers as Headers;
+
+  it("sends traceparent for the active trace", async () => {
+    setTraceContext();
+    const fetchMock = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ ok: true }, 200));
+
+    await executeHttpRequest(createBaseOptions(createBaseConfig()));
+
+    expect(sentHeaders(fetchMock).get("traceparent")).toBe(traceparent);
+  });
+
+  it("keeps explicit headers and honors propagateTraceContext: false", async () => {
+    setTraceContext();
+    const fetchMock = jest
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => jsonResponse({ ok: true }, 200));
+
+    await executeHttpRequest(
+      createBaseOptions(
+        createBaseConfig({ defaultHeaders: { traceparent: "custom" } }),
+      ),
+    );
+    expect(sentHeaders(fetchMock).get("traceparent")).toBe("custom");
+
+    fetchMock.mockClear();
+    await executeHttpRequest(
+      createBaseOptions(createBaseConfig({ propagateTraceContext: false })),
+    );
+    expect(sentHeaders(fetchMock).has("traceparent")).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for glob pattern helpers
+ */
+
+import { escapeGlob, globToRegExp } from "../../src/utils/glob-pattern";
+
+describe("glob-pattern", () => {
+  describe("globToRegExp", () => {
+    it("should match any run of characters with *", () => {
+      const regex = globToRegExp("permissions:*");
+      expect(regex.test("permissions:user-1")).toBe(true);
+      expect(regex.test("permissions:")).toBe(true);
+      expect(regex.test("roles:user-1")).toBe(false);
+    });
+
+    it("should match a single character with ?", () => {
+      const regex = globToRegExp("roles:user-?");
+      expect(regex.test("roles:user-1")).toBe(true);
+      expect(regex.test("roles:user-12")).toBe(false);
+    });
+
+    it("should anchor the whole key", () => {
+      expect(globToRegExp("roles").test("my-roles")).toBe(false);
+    });
+
+    it("should treat regex metacharacters literally", () => {
+      const regex = globToRegExp("encryption:(a+b).*");
+      expect(regex.test("encryption:(a+b).x")).toBe(true);
+      expect(regex.test("encryption:aab.x")).toBe(false);
+    });
+
+    it("should honour backslash escapes", () => {
+      const regex = globToRegExp("a\\*b");
+      expect(regex.test("a*b")).toBe(true);
+      expect(regex.test("axb")).toBe(false);
+    });
+
+    it("should match character classes like Redis SCAN MATCH", () => {
+      const regex = globToRegExp("user:[ab]:[0-9]");
+      expect(regex.test("user:a:1")).toBe(true);
+      expect(regex.test("user:b:9")).toBe(true);
+      expect(regex.test("user:c:1")).toBe(false);
+      expect(regex.test("user:[ab]:[0-9]")).toBe(false);
+    });
+
+    it("should support negated, reversed and escaped classes", () => {
+      expect(globToRegExp("k[^a]").test("kb")).toBe(true);
+      expect(globToRegExp("k[^a]").test("ka")).toBe(false);
+      expect(globToRegExp("k[z-a]").test("km")).toBe(true);
+      expect(globToRegExp("k[\\]-]").test("k]")).toBe(true);
+      expect(globToRegExp("k[\\]-]").test("k-")).toBe(true);
+      expect(globToRegExp("k[.]").test("kx")).toBe(false);
+    });
+
+    it("should match an unterminated [ literally", () => {
+      expect(globToRegExp("k[ab").test("k[ab")).toBe(true);
+    });
+  });
+
+  describe("escapeGlob", () => {
+    it("should escape glob metacharacters", () => {
+      expect(escapeGlob("app[1]:*?")).toBe("app\\[1\\]:\\*\\?");
+    });
+
+    it("should round-trip to a literal match", () => {
+      const literal = "a*b?[c]\\d";
+      const regex = globToRegExp(escapeGlob(literal));
+      expect(regex.test(literal)).toBe(true);
+      expect(regex.test("aXbY[c]\\d")).toBe(false);
+    });
+  });
+});
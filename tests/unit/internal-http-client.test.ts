@@ -50,6 +50,8 @@ import axios, {
   InternalAxiosRequestConfig,
 } from "axios";
 import { LoggerContextStorage } from "../../src/services/logger/logger-context-storage";
+import { metricsRegistry } from "../../src/utils/metrics-registry";
+import { sdkMetrics } from "../../src/utils/sdk-metrics";
 
 describe("InternalHttpClient", () => {
   let httpClient: InternalHttpClient;
@@ -63,6 +65,7 @@ describe("InternalHttpClient", () => {
   let responseErrorHandlerFn:
     | ((error: AxiosError) => Promise<AxiosError>)
     | null;
+  let responseSuccessFn: ((response: AxiosResponse) => AxiosResponse) | null;
 
   beforeEach(() => {
     config = {
@@ -82,6 +85,7 @@ describe("InternalHttpClient", () => {
         },
         response: {
           use: jest.fn((onFulfilled, onRejected) => {
+            responseSuccessFn = onFulfilled;
             responseErrorHandlerFn = onRejected;
             return 0;
           }),
@@ -110,6 +114,7 @@ describe("InternalHttpClient", () => {
 
     requestInterceptorFn = null;
     responseErrorHandlerFn = null;
+    responseSuccessFn = null;
 
     jest.clearAllMocks();
     httpClient = new InternalHttpClient(config);
@@ -136,6 +141,24 @@ describe("InternalHttpClient", () => {
       expect(updatedConfig.headers["x-request-id"]).toBe("req-456");
     });
 
+    it("should propagate traceparent and tracestate from logger context", async () => {
+      LoggerContextStorage.getInstance().setContext({
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+        traceFlags: "01",
+        traceState: "vendor=1",
+      });
+
+      const updatedConfig = await requestInterceptorFn!({
+        headers: { "x-client-id": "client-id-header" },
+      } as unknown as InternalAxiosRequestConfig);
+
+      expect(updatedConfig.headers["traceparent"]).toBe(
+        "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      );
+      expect(updatedConfig.headers["tracestate"]).toBe("vendor=1");
+    });
+
     it("should not override existing correlation headers", async () => {
       LoggerContextStorage.getInstance().setContext({
         correlationId: "corr-from-context",
@@ -157,6 +180,63 @@ describe("InternalHttpClient", () => {
     });
   });
 
+  describe("request metrics", () => {
+    beforeEach(() => {
+      metricsRegistry.reset();
+    });
+
+    it("should observe latency by method, normalized endpoint and status", async () => {
+      const requestConfig = await requestInterceptorFn!({
+        method: "get",
+        url: "/api/v1/users/12345/roles?page=1",
+        headers: { "x-client-id": "client-id-header" },
+      } as unknown as InternalAxiosRequestConfig);
+      responseSuccessFn!({
+        status: 200,
+        config: requestConfig,
+      } as unknown as AxiosResponse);
+
+      expect(
+        sdkMetrics.controllerRequestDuration.get({
+          method: "GET",
+          endpoint: "/api/v1/users/:id/roles",
+          status: "200",
+        }).count,
+      ).toBe(1);
+    });
+
+    it("should label failed requests with the response status or error", async () => {
+      const first = await requestInterceptorFn!({
+        method: "post",
+        url: "/api/v1/logs",
+        headers: { "x-client-id": "client-id-header" },
+      } as unknown as InternalAxiosRequestConfig);
+      const second = await requestInterceptorFn!({
+        method: "post",
+        url: "/api/v1/logs",
+        headers: { "x-client-id": "client-id-header" },
+      } as unknown as InternalAxiosRequestConfig);
+
+      await responseErrorHandlerFn!({
+        config: first,
+        response: { status: 503 },
+      } as unknown as AxiosError).catch(() => undefined);
+      await responseErrorHandlerFn!({
+        config: second,
+      } as unknown as AxiosError).catch(() => undefined);
+
+      const labels = { method: "POST", endpoint: "/api/v1/logs" };
+      expect(
+        sdkMetrics.controllerRequestDuration.get({ ...labels, status: "503" })
+          .count,
+      ).toBe(1);
+      expect(
+        sdkMetrics.controllerRequestDuration.get({ ...labels, status: "error" })
+          .count,
+      ).toBe(1);
+    });
+  });
+
   describe("constructor", () => {
     it("should create axios instance with correct config", () => {
       expect(axios.create).toHaveBeenCalledWith(
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for KeycloakRealmResolver
+ */
+
+import {
+  KeycloakRealmResolver,
+  keycloakIssuer,
+} from "../../src/services/keycloak-realm-resolver";
+import { KeycloakConfig } from "../../src/types/token-validation.types";
+
+describe("KeycloakRealmResolver", () => {
+  const realm = (name: string, tenantId?: string): KeycloakConfig => ({
+    authServerUrl: "http://keycloak:8080",
+    authServerPublicUrl: "https://auth.example.com",
+    realm: name,
+    tenantId,
+  });
+  const issuer = (name: string): string =>
+    `https://auth.example.com/realms/${name}`;
+
+  it("should build the issuer from the public URL", () => {
+    expect(keycloakIssuer(realm("acme"))).toBe(issuer("acme"));
+    expect(
+      keycloakIssuer({ authServerUrl: "https://kc.example.com", realm: "x" }),
+    ).toBe("https://kc.example.com/realms/x");
+  });
+
+  it("should prefer the default realm, then the static list", async () => {
+    const defaultRealm = realm("platform");
+    const acme = realm("acme", "tenant-acme");
+    const resolver = new KeycloakRealmResolver([acme, realm("globex")]);
+
+    expect(await resolver.resolve(issuer("platform"), defaultRealm)).toBe(
+      defaultRealm,
+    );
+    expect(await resolver.resolve(issuer("acme"), defaultRealm)).toBe(acme);
+    expect(await resolver.resolve(issuer("unknown"), defaultRealm)).toBeNull();
+    expect(
+      await new KeycloakRealmResolver().resolve(issuer("acme")),
+    ).toBeNull();
+  });
+
+  it("should cache lookup results by issuer", async () => {
+    const acme = realm("acme", "tenant-acme");
+    const lookup = jest.fn(async (iss: string) =>
+      iss === issuer("acme") ? acme : null,
+    );
+    const resolver = new KeycloakRealmResolver(lookup);
+
+    expect(await resolver.resolve(issuer("acme"))).toBe(acme);
+    expect(await resolver.resolve(issuer("acme"))).toBe(acme);
+    expect(await resolver.resolve(issuer("unknown"))).toBeNull();
+    expect(await resolver.resolve(issuer("unknown"))).toBeNull();
+    expect(lookup).toHaveBeenCalledTimes(2);
+
+    resolver.clearCache();
+    await resolver.resolve(issuer("acme"));
+    expect(lookup).toHaveBeenCalledTimes(3);
+  });
+
+  it("should expire cached misses after a minute", async () => {
+    jest.useFakeTimers();
+    try {
+      const lookup = jest.fn().mockResolvedValue(null);
+      const resolver = new KeycloakRealmResolver(lookup);
+
+      await resolver.resolve(issuer("new-tenant"));
+      jest.advanceTimersByTime(61 * 1000);
+      await resolver.resolve(issuer("new-tenant"));
+
+      expect(lookup).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should ignore lookup results for a different issuer", async () => {
+    const resolver = new KeycloakRealmResolver(async () => realm("other"));
+
+    expect(await resolver.resolve(issuer("acme"))).toBeNull();
+  });
+});
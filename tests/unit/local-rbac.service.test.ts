@@ -0,0 +1,169 @@
+/**
+ * Unit tests for LocalRbacService
+ */
+
+import * as path from "path";
+import {
+  LocalRbacService,
+  createLocalRbacService,
+} from "../../src/services/local-rbac.service";
+import { TokenValidationService } from "../../src/services/token-validation.service";
+import { MisoClientConfig } from "../../src/types/config.types";
+import { RbacPolicy } from "../../src/types/rbac.types";
+
+const policy: RbacPolicy = {
+  roles: [{ value: "app-admin" }, { value: "app-user" }],
+  permissions: [
+    { name: "docs:read", roles: ["app-user", "app-admin"] },
+    { name: "docs:delete", roles: ["app-admin"] },
+  ],
+};
+
+describe("LocalRbacService", () => {
+  let validateTokenLocal: jest.Mock;
+  let tokenValidation: TokenValidationService;
+
+  beforeEach(() => {
+    validateTokenLocal = jest.fn();
+    tokenValidation = {
+      validateTokenLocal,
+    } as unknown as TokenValidationService;
+  });
+
+  const validResult = (payload: Record<string, unknown>) => ({
+    valid: true,
+    payload,
+    tokenType: "keycloak",
+    cached: false,
+  });
+
+  it("should read realm and client roles from the verified token", async () => {
+    validateTokenLocal.mockResolvedValue(
+      validResult({
+        realmAccess: { roles: ["app-user", "offline_access"] },
+        resourceAccess: {
+          "my-app": { roles: ["app-admin"] },
+          other: { roles: ["app-user"] },
+        },
+      }),
+    );
+    const service = new LocalRbacService(policy, tokenValidation, {
+      resourceClientId: "my-app",
+    });
+
+    expect(await service.getRoles("token")).toEqual(["app-user", "app-admin"]);
+    expect(await service.getPermissions("token")).toEqual([
+      "docs:read",
+      "docs:delete",
+    ]);
+    expect(validateTokenLocal).toHaveBeenCalledWith("token");
+  });
+
+  it("should skip realm roles when includeRealmRoles is false", async () => {
+    validateTokenLocal.mockResolvedValue(
+      validResult({
+        realmAccess: { roles: ["app-admin"] },
+        resourceAccess: { "my-app": { roles: ["app-user"] } },
+      }),
+    );
+    const service = new LocalRbacService(policy, tokenValidation, {
+      includeRealmRoles: false,
+    });
+
+    expect(await service.getRoles("token")).toEqual(["app-user"]);
+    expect(await service.getPermissions("token")).toEqual(["docs:read"]);
+  });
+
+  it("should return empty arrays for invalid tokens", async () => {
+    validateTokenLocal.mockResolvedValue({
+      valid: false,
+      error: "Token expired",
+      cached: false,
+    });
+    const service = new LocalRbacService(policy, tokenValidation);
+
+    expect(await service.getRoles("token")).toEqual([]);
+    expect(await service.getPermissions("token")).toEqual([]);
+  });
+
+  it("should return empty array when validation throws", async () => {
+    const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+    validateTokenLocal.mockRejectedValue(new Error("JWKS unavailable"));
+    const service = new LocalRbacService(policy, tokenValidation);
+
+    expect(await service.getRoles("token")).toEqual([]);
+    consoleSpy.mockRestore();
+  });
+
+  describe("createLocalRbacService", () => {
+    const baseConfig: MisoClientConfig = {
+      controllerUrl: "https://controller.aifabrix.ai",
+      clientId: "ctrl-dev-test-app",
+      clientSecret: "secret",
+    };
+
+    it("should return undefined outside local mode", () => {
+      expect(
+        createLocalRbacService(baseConfig, tokenValidation),
+      ).toBeUndefined();
+      expect(
+        createLocalRbacService(
+          { ...baseConfig, rbac: { mode: "controller", policy } },
+          tokenValidation,
+        ),
+      ).toBeUndefined();
+    });
+
+    it("should load policy from policyPath", () => {
+      const service = createLocalRbacService(
+        {
+          ...baseConfig,
+          rbac: {
+            mode: "local",
+            policyPath: path.resolve(
+              __dirname,
+              "../../builder/miso-test/rbac.yaml",
+            ),
+          },
+        },
+        tokenValidation,
+      );
+
+      expect(service?.getPolicy().permissions).toHaveLength(4);
+    });
+
+    it("should default resourceClientId to keycloak clientId", async () => {
+      validateTokenLocal.mockResolvedValue(
+        validResult({
+          resourceAccess: {
+            "kc-client": { roles: ["app-admin"] },
+            other: { roles: ["app-user"] },
+          },
+        }),
+      );
+      const service = createLocalRbacService(
+        {
+          ...baseConfig,
+          keycloak: {
+            authServerUrl: "https://kc",
+            realm: "r",
+            clientId: "kc-client",
+          },
+          rbac: { mode: "local", policy },
+        },
+        tokenValidation,
+      );
+
+      expect(await service?.getRoles("token")).toEqual(["app-admin"]);
+    });
+
+    it("should throw when local mode has no policy", () => {
+      expect(() =>
+        createLocalRbacService(
+          { ...baseConfig, rbac: { mode: "local" } },
+          tokenValidation,
+        ),
+      ).toThrow("Local RBAC mode requires rbac.policy or rbac.policyPath");
+    });
+  });
+});
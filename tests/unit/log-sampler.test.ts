@@ -0,0 +1,165 @@
+/**
+ * Unit tests for LogSampler
+ */
+
+import { LogSampler } from "../../src/services/logger/log-sampler";
+
+describe("LogSampler", () => {
+  it("should keep entries by per-level sample rate", () => {
+    const values = [0.05, 0.5];
+    const sampler = new LogSampler(
+      { rates: { debug: 0.1 } },
+      () => values.shift() ?? 0,
+    );
+
+    expect(sampler.admit("debug", "a")).toEqual({ allowed: true });
+    expect(sampler.admit("debug", "a")).toEqual({
+      allowed: false,
+      reason: "sampled",
+    });
+    expect(sampler.admit("info", "a").allowed).toBe(true);
+  });
+
+  it("should always admit audit entries", () => {
+    const sampler = new LogSampler({ rateLimit: { burst: 0, perSecond: 0 } });
+
+    expect(sampler.admit("audit", "a")).toEqual({ allowed: true });
+    expect(sampler.admit("info", "a").allowed).toBe(false);
+  });
+
+  it("should rate limit per key with a refilling token bucket", () => {
+    const sampler = new LogSampler({ rateLimit: { burst: 2, perSecond: 2 } });
+
+    expect(sampler.admit("warn", "hot", undefined, 0).allowed).toBe(true);
+    expect(sampler.admit("warn", "hot", undefined, 0).allowed).toBe(true);
+    expect(sampler.admit("warn", "hot", undefined, 0)).toEqual({
+      allowed: false,
+      reason: "rate_limited",
+      key: "warn:hot",
+    });
+    expect(sampler.admit("warn", "other", undefined, 0).allowed).toBe(true);
+    expect(sampler.admit("error", "hot", undefined, 0).allowed).toBe(true);
+    expect(sampler.admit("warn", "hot", undefined, 200).allowed).toBe(false);
+
+    expect(sampler.admit("warn", "hot", undefined, 500)).toEqual({
+      allowed: true,
+      key: "warn:hot",
+      suppressed: 2,
+    });
+    expect(sampler.admit("warn", "hot", undefined, 1000).suppressed).toBe(0);
+  });
+
+  it("should use a custom key and only limit the configured levels", () => {
+    const sampler = new LogSampler({
+      rateLimit: {
+        burst: 1,
+        perSecond: 0,
+        levels: ["warn"],
+        key: (_level, _message, context) => String(context?.code),
+      },
+    });
+
+    expect(sampler.admit("warn", "first", { code: 1 }, 0).allowed).toBe(true);
+    expect(sampler.admit("warn", "second", { code: 1 }, 0).allowed).toBe(false);
+    expect(sampler.admit("warn", "third", { code: 2 }, 0).allowed).toBe(true);
+    expect(sampler.admit("info", "first", { code: 1 }, 0).allowed).toBe(true);
+  });
+
+  it("should forget the least recently used key beyond maxKeys", () => {
+    const sampler = new LogSampler({
+      rateLimit: { burst: 1, perSecond: 0, maxKeys: 2 },
+    });
+
+    sampler.admit("warn", "a", undefined, 0);
+    sampler.admit("warn", "b", undefined, 0);
+    sampler.admit("warn", "a", undefined, 0);
+    sampler.admit("warn", "c", undefined, 0);
+
+    expect(sampler.admit("warn", "a", undefined, 0).allowed).toBe(false);
+    expect(sampler.admit("warn", "b", undefined, 0).allowed).toBe(true);
+  });
+
+  describe("suppressed summaries", () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should report pending counts on flush without a later allowed entry", () => {
+      const onSummary = jest.fn();
+      const sampler = new LogSampler(
+        { rateLimit: { burst: 1, perSecond: 0 } },
+        Math.random,
+        onSummary,
+      );
+
+      sampler.admit("warn", "hot", undefined, 0);
+      sampler.admit("warn", "hot", undefined, 0);
+      sampler.admit("warn", "hot", undefined, 0);
+      sampler.flush();
+      sampler.flush();
+
+      expect(onSummary).toHaveBeenCalledTimes(1);
+      expect(onSummary).toHaveBeenCalledWith({
+        key: "warn:hot",
+        level: "warn",
+        message: "hot",
+        suppressed: 2,
+      });
+    });
+
+    it("should report the counts of a key when it is forgotten", () => {
+      const onSummary = jest.fn();
+      const sampler = new LogSampler(
+        { rateLimit: { burst: 1, perSecond: 0, maxKeys: 1 } },
+        Math.random,
+        onSummary,
+      );
+
+      sampler.admit("warn", "a", undefined, 0);
+      sampler.admit("warn", "a", undefined, 0);
+      sampler.admit("warn", "b", undefined, 0);
+
+      expect(onSummary).toHaveBeenCalledWith(
+        expect.objectContaining({ key: "warn:a", suppressed: 1 }),
+      );
+    });
+
+    it("should flush on the summary interval", () => {
+      jest.useFakeTimers();
+      const onSummary = jest.fn();
+      const sampler = new LogSampler(
+        { rateLimit: { burst: 0, perSecond: 0, summaryInterval: 5000 } },
+        Math.random,
+        onSummary,
+      );
+
+      sampler.admit("error", "down");
+      jest.advanceTimersByTime(4999);
+      expect(onSummary).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+
+      expect(onSummary).toHaveBeenCalledWith(
+        expect.objectContaining({ key: "error:down", suppressed: 1 }),
+      );
+    });
+
+    it("should stop the summary timer and report pending counts on stop", () => {
+      jest.useFakeTimers();
+      const onSummary = jest.fn();
+      const sampler = new LogSampler(
+        { rateLimit: { burst: 0, perSecond: 0, summaryInterval: 5000 } },
+        Math.random,
+        onSummary,
+      );
+
+      sampler.admit("error", "down");
+      sampler.stop();
+      expect(onSummary).toHaveBeenCalledTimes(1);
+
+      sampler.admit("error", "down");
+      jest.advanceTimersByTime(10000);
+      expect(onSummary).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+});
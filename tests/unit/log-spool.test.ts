@@ -0,0 +1,205 @@
+/**
+ * Unit tests for LogSpool
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LogSpool } from "../../src/utils/log-spool";
+import { LogEntry } from "../../src/types/config.types";
+
+describe("LogSpool", () => {
+  let dir: string;
+
+  const entry = (
+    message: string,
+    level: LogEntry["level"] = "audit",
+  ): LogEntry => ({
+    timestamp: "2026-01-01T00:00:00.000Z",
+    level,
+    environment: "test",
+    application: "app",
+    applicationId: "",
+    message,
+  });
+
+  const spoolFiles = (): string[] =>
+    fs.readdirSync(dir).filter((name) => name.endsWith(".ndjson"));
+
+  beforeEach(() => {
+    dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "spool-")), "logs");
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(dir), { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("should append entries as NDJSON in a created directory", async () => {
+    const spool = new LogSpool({ directory: dir });
+
+    expect(await spool.hasPending()).toBe(false);
+    expect(await spool.append([entry("a"), entry("b")])).toBe(true);
+
+    const files = spoolFiles();
+    expect(files).toHaveLength(1);
+    const lines = fs
+      .readFileSync(path.join(dir, files[0]), "utf8")
+      .trim()
+      .split("\n");
+    expect(lines.map((line) => JSON.parse(line).message)).toEqual(["a", "b"]);
+    expect(await spool.hasPending()).toBe(true);
+  });
+
+  it("should rotate files above maxFileBytes", async () => {
+    const spool = new LogSpool({ directory: dir, maxFileBytes: 200 });
+
+    await spool.append([entry("a")]);
+    await spool.append([entry("b")]);
+
+    expect(spoolFiles()).toHaveLength(2);
+  });
+
+  it("should drop the oldest files above maxTotalBytes", async () => {
+    const spool = new LogSpool({
+      directory: dir,
+      maxFileBytes: 200,
+      maxTotalBytes: 300,
+    });
+
+    await spool.append([entry("a")]);
+    await spool.append([entry("b")]);
+    await spool.append([entry("c")]);
+
+    const sent: string[] = [];
+    await spool.replay(async (logs) => {
+      sent.push(...logs.map((log) => log.message));
+    });
+    expect(sent).toEqual(["b", "c"]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Size cap of 300 bytes reached"),
+    );
+  });
+
+  it("should replay oldest-first in batches and delete delivered files", async () => {
+    const spool = new LogSpool({
+      directory: dir,
+      maxFileBytes: 200,
+      replayBatchSize: 2,
+    });
+    for (const message of ["1", "2", "3"]) {
+      await spool.append([entry(message)]);
+    }
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    expect(await spool.replay(send)).toBe(true);
+
+    expect(
+      send.mock.calls.map(([logs]) => logs.map((l: LogEntry) => l.message)),
+    ).toEqual([["1"], ["2"], ["3"]]);
+    expect(spoolFiles()).toHaveLength(0);
+    expect(await spool.hasPending()).toBe(false);
+  });
+
+  it("should keep the undelivered remainder when a batch fails", async () => {
+    const spool = new LogSpool({ directory: dir, replayBatchSize: 1 });
+    await spool.append([entry("1"), entry("2"), entry("3")]);
+    const send = jest
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("503"));
+
+    expect(await spool.replay(send)).toBe(false);
+    expect(await spool.hasPending()).toBe(true);
+
+    send.mockReset().mockResolvedValue(undefined);
+    expect(await spool.replay(send)).toBe(true);
+    expect(send.mock.calls.map(([logs]) => logs[0].message)).toEqual([
+      "2",
+      "3",
+    ]);
+  });
+
+  it("should replay files left by a previous process and skip corrupt lines", async () => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, "miso-logs-0000000000001-000001.ndjson"),
+      `${JSON.stringify(entry("old"))}\n{"trunc`,
+    );
+    const spool = new LogSpool({ directory: dir });
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    expect(await spool.hasPending()).toBe(true);
+    expect(await spool.replay(send)).toBe(true);
+    expect(send).toHaveBeenCalledWith([entry("old")]);
+  });
+
+  it("should spool only audit entries unless allLevels is set", async () => {
+    const auditOnly = new LogSpool({ directory: dir });
+    await auditOnly.append([entry("a"), entry("b", "info")]);
+
+    const sent: string[] = [];
+    await auditOnly.replay(async (logs) => {
+      sent.push(...logs.map((log) => log.message));
+    });
+    expect(sent).toEqual(["a"]);
+    expect(auditOnly.accepts(entry("c", "error"))).toBe(false);
+    expect(
+      new LogSpool({ directory: dir, allLevels: true }).accepts(
+        entry("c", "error"),
+      ),
+    ).toBe(true);
+  });
+
+  describe("startReplay", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should replay on the interval while canReplay allows, until stopped", async () => {
+      const spool = new LogSpool({ directory: dir, replayInterval: 1000 });
+      jest.spyOn(spool, "hasPending").mockResolvedValue(true);
+      const replay = jest.spyOn(spool, "replay").mockResolvedValue(true);
+      const send = jest.fn();
+      let circuitOpen = true;
+
+      spool.startReplay(send, () => !circuitOpen);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(replay).not.toHaveBeenCalled();
+
+      circuitOpen = false;
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(replay).toHaveBeenCalledWith(send);
+
+      spool.stop();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(replay).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not start a run while the previous one is in progress", async () => {
+      const spool = new LogSpool({ directory: dir, replayInterval: 1000 });
+      jest.spyOn(spool, "hasPending").mockResolvedValue(true);
+      let finish: (drained: boolean) => void = () => undefined;
+      const replay = jest.spyOn(spool, "replay").mockImplementation(
+        () =>
+          new Promise<boolean>((resolve) => {
+            finish = resolve;
+          }),
+      );
+
+      spool.startReplay(jest.fn());
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(replay).toHaveBeenCalledTimes(1);
+
+      finish(true);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(replay).toHaveBeenCalledTimes(2);
+      spool.stop();
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Unit tests for LogStreamConsumer
+ */
+
+import { LogStreamConsumer } from "../../src/services/log-stream-consumer";
+import { RedisService } from "../../src/services/redis.service";
+import { ApiClient } from "../../src/api";
+
+type Message = [string, string[] | null];
+
+describe("LogStreamConsumer", () => {
+  let client: {
+    xgroup: jest.Mock;
+    xautoclaim: jest.Mock;
+    xreadgroup: jest.Mock;
+    xpending: jest.Mock;
+    xadd: jest.Mock;
+    xack: jest.Mock;
+  };
+  let redis: RedisService;
+  let apiClient: ApiClient;
+  let createBatchLogs: jest.Mock;
+
+  const message = (id: string, text: string): Message => [
+    id,
+    ["log", JSON.stringify({ level: "audit", message: text })],
+  ];
+  const readResult = (messages: Message[]) =>
+    messages.length > 0 ? [["audit-logs:app:stream", messages]] : null;
+
+  beforeEach(() => {
+    client = {
+      xgroup: jest.fn().mockResolvedValue("OK"),
+      xautoclaim: jest.fn().mockResolvedValue(["0-0", [], []]),
+      xreadgroup: jest.fn().mockResolvedValue(null),
+      xpending: jest.fn().mockResolvedValue([]),
+      xadd: jest.fn().mockResolvedValue("2-0"),
+      xack: jest.fn(async (_stream, _group, ...ids) => ids.length),
+    };
+    // Same contract as RedisService.execute: fallback on error
+    redis = {
+      execute: jest.fn(async (_name, fallback, command) => {
+        try {
+          return await command(client);
+        } catch {
+          return fallback;
+        }
+      }),
+    } as unknown as RedisService;
+    createBatchLogs = jest.fn().mockResolvedValue({ success: true });
+    apiClient = { logs: { createBatchLogs } } as unknown as ApiClient;
+  });
+
+  const createConsumer = () =>
+    new LogStreamConsumer(redis, apiClient, "app", { consumer: "worker-1" });
+
+  it("should create the consumer group on the default audit stream", async () => {
+    await createConsumer().drainOnce();
+    await createConsumer().drainOnce();
+
+    expect(client.xgroup).toHaveBeenCalledWith(
+      "CREATE",
+      "audit-logs:app:stream",
+      "miso-log-shippers",
+      "0",
+      "MKSTREAM",
+    );
+  });
+
+  it("should tolerate an existing group", async () => {
+    client.xgroup.mockRejectedValue(
+      new Error("BUSYGROUP Consumer Group name already exists"),
+    );
+    client.xreadgroup
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(readResult([message("1-0", "a")]));
+
+    expect(await createConsumer().drainOnce()).toBe(1);
+  });
+
+  it("should ship new messages and acknowledge them", async () => {
+    client.xreadgroup
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(
+        readResult([message("1-0", "a"), message("1-1", "b")]),
+      );
+
+    const shipped = await createConsumer().drainOnce();
+
+    expect(shipped).toBe(2);
+    expect(client.xreadgroup).toHaveBeenNthCalledWith(
+      1,
+      "GROUP",
+      "miso-log-shippers",
+      "worker-1",
+      "COUNT",
+      100,
+      "STREAMS",
+      "audit-logs:app:stream",
+      "0",
+    );
+    expect(client.xreadgroup.mock.calls[1][7]).toBe(">");
+    expect(createBatchLogs).toHaveBeenCalledWith({
+      logs: [
+        { level: "audit", message: "a" },
+        { level: "audit", message: "b" },
+      ],
+    });
+    expect(client.xack).toHaveBeenCalledWith(
+      "audit-logs:app:stream",
+      "miso-log-shippers",
+      "1-0",
+      "1-1",
+    );
+  });
+
+  it("should leave messages pending when delivery fails and retry them first", async () => {
+    const consumer = createConsumer();
+    createBatchLogs.mockRejectedValueOnce(new Error("Controller down"));
+    client.xreadgroup
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(readResult([message("1-0", "a")]))
+      .mockResolvedValueOnce(readResult([message("1-0", "a")]));
+
+    expect(await consumer.drainOnce()).toBe(0);
+    expect(client.xack).not.toHaveBeenCalled();
+
+    expect(await consumer.drainOnce()).toBe(1);
+    expect(client.xreadgroup.mock.calls[2][7]).toBe("0");
+    expect(client.xack).toHaveBeenCalledWith(
+      "audit-logs:app:stream",
+      "miso-log-shippers",
+      "1-0",
+    );
+  });
+
+  it("should acknowledge trimmed and unparsable messages without delivery", async () => {
+    client.xreadgroup.mockResolvedValueOnce(
+      readResult([
+        ["1-0", null],
+        ["1-1", ["log", "not json"]],
+      ]),
+    );
+
+    expect(await createConsumer().drainOnce()).toBe(2);
+    expect(createBatchLogs).not.toHaveBeenCalled();
+    expect(client.xack).toHaveBeenCalled();
+  });
+
+  it("should claim idle messages from other consumers", async () => {
+    await createConsumer().drainOnce();
+
+    expect(client.xautoclaim).toHaveBeenCalledWith(
+      "audit-logs:app:stream",
+      "miso-log-shippers",
+      "worker-1",
+      60000,
+      "0-0",
+      "COUNT",
+      100,
+    );
+  });
+
+  it("should stop claiming when the server has no XAUTOCLAIM", async () => {
+    const consumer = createConsumer();
+    client.xautoclaim.mockRejectedValue(
+      new Error("ERR unknown command 'xautoclaim'"),
+    );
+
+    await consumer.drainOnce();
+    await consumer.drainOnce();
+
+    expect(client.xautoclaim).toHaveBeenCalledTimes(1);
+    expect(client.xreadgroup).toHaveBeenCalledTimes(4);
+  });
+
+  it("should dead-letter pending messages over maxDeliveries and ship the rest", async () => {
+    client.xreadgroup.mockResolvedValueOnce(
+      readResult([message("1-0", "poison"), message("1-1", "retry")]),
+    );
+    client.xpending.mockResolvedValue([
+      ["1-0", "worker-1", 1000, 6],
+      ["1-1", "worker-1", 1000, 2],
+    ]);
+
+    expect(await createConsumer().drainOnce()).toBe(2);
+
+    expect(client.xpending).toHaveBeenCalledWith(
+      "audit-logs:app:stream",
+      "miso-log-shippers",
+      "1-0",
+      "1-1",
+      2,
+      "worker-1",
+    );
+    expect(client.xadd).toHaveBeenCalledWith(
+      "audit-logs:app:stream:dead-letter",
+      "*",
+      "log",
+      JSON.stringify({ level: "audit", message: "poison" }),
+      "sourceId",
+      "1-0",
+      "deliveries",
+      "6",
+    );
+    expect(client.xack).toHaveBeenNthCalledWith(
+      1,
+      "audit-logs:app:stream",
+      "miso-log-shippers",
+      "1-0",
+    );
+    expect(createBatchLogs).toHaveBeenCalledWith({
+      logs: [{ level: "audit", message: "retry" }],
+    });
+  });
+
+  it("should keep pending messages when dead-lettering fails", async () => {
+    createBatchLogs.mockRejectedValue(new Error("Controller down"));
+    client.xreadgroup.mockResolvedValueOnce(
+      readResult([message("1-0", "poison")]),
+    );
+    client.xpending.mockResolvedValue([["1-0", "worker-1", 1000, 6]]);
+    client.xadd.mockRejectedValue(new Error("READONLY"));
+
+    expect(await createConsumer().drainOnce()).toBe(0);
+    expect(client.xack).not.toHaveBeenCalled();
+  });
+
+  it("should stop draining when messages cannot be acknowledged", async () => {
+    client.xack.mockRejectedValue(new Error("READONLY"));
+    client.xreadgroup
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(readResult([message("1-0", "a")]))
+      .mockResolvedValue(readResult([message("1-0", "a")]));
+
+    expect(await createConsumer().drain()).toBe(0);
+    expect(createBatchLogs).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-create the group after a read error", async () => {
+    const consumer = createConsumer();
+    client.xreadgroup.mockRejectedValueOnce(new Error("NOGROUP"));
+
+    expect(await consumer.drainOnce()).toBe(0);
+    await consumer.drainOnce();
+
+    expect(client.xgroup).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drain until the stream is empty", async () => {
+    client.xreadgroup
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(readResult([message("1-0", "a")]))
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(readResult([message("1-1", "b")]))
+      .mockResolvedValue(null);
+
+    expect(await createConsumer().drain()).toBe(2);
+    expect(createBatchLogs).toHaveBeenCalledTimes(2);
+  });
+
+  it("should poll until stopped", async () => {
+    jest.useFakeTimers();
+    try {
+      const consumer = new LogStreamConsumer(redis, apiClient, "app", {
+        pollIntervalMs: 500,
+      });
+      consumer.start();
+      await jest.advanceTimersByTimeAsync(0);
+      await jest.advanceTimersByTimeAsync(500);
+      const reads = client.xreadgroup.mock.calls.length;
+      expect(reads).toBe(4);
+
+      consumer.stop();
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(client.xreadgroup).toHaveBeenCalledTimes(reads);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the log transport pipeline
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  buildLogTransports,
+  BuiltinLogSenders,
+  createConsoleTransport,
+  createFileTransport,
+  dispatchToTransports,
+} from "../../src/services/logger/log-transports";
+import { LogEntry } from "../../src/types/config.types";
+import { LogTransport } from "../../src/types/log-transport.types";
+
+describe("log-transports", () => {
+  let senders: jest.Mocked<BuiltinLogSenders>;
+
+  const entry = (level: LogEntry["level"], message = "msg"): LogEntry => ({
+    timestamp: "2026-01-01T00:00:00.000Z",
+    level,
+    environment: "test",
+    application: "app",
+    applicationId: "",
+    message,
+  });
+
+  beforeEach(() => {
+    senders = {
+      controller: jest.fn().mockResolvedValue(undefined),
+      redis: jest.fn().mockResolvedValue(undefined),
+      events: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("dispatchToTransports", () => {
+    it("should route entries by level", async () => {
+      const transports = buildLogTransports(
+        [
+          { type: "controller", levels: ["audit", "error"] },
+          { type: "events", levels: ["debug"] },
+        ],
+        senders,
+      );
+
+      await dispatchToTransports(transports, entry("debug"));
+      await dispatchToTransports(transports, entry("audit"));
+
+      expect(senders.events).toHaveBeenCalledWith(entry("debug"));
+      expect(senders.controller).toHaveBeenCalledTimes(1);
+      expect(senders.controller).toHaveBeenCalledWith(entry("audit"));
+      expect(senders.redis).not.toHaveBeenCalled();
+    });
+
+    it("should apply per-transport filter and format", async () => {
+      const transports = buildLogTransports(
+        [
+          {
+            type: "redis",
+            filter: (e) => e.message !== "skip",
+            format: (e) => ({ ...e, message: e.message.toUpperCase() }),
+          },
+          { type: "events" },
+        ],
+        senders,
+      );
+
+      await dispatchToTransports(transports, entry("info", "skip"));
+      await dispatchToTransports(transports, entry("info", "keep"));
+
+      expect(senders.redis).toHaveBeenCalledTimes(1);
+      expect(senders.redis).toHaveBeenCalledWith(entry("info", "KEEP"));
+      expect(senders.events).toHaveBeenCalledWith(entry("info", "skip"));
+    });
+
+    it("should isolate failing transports", async () => {
+      const custom: LogTransport = {
+        name: "custom",
+        send: jest.fn().mockRejectedValue(new Error("down")),
+      };
+      senders.controller.mockImplementation(() => {
+        throw new Error("sync failure");
+      });
+      const transports = buildLogTransports(
+        [custom, { type: "controller" }, { type: "events" }],
+        senders,
+      );
+
+      await expect(
+        dispatchToTransports(transports, entry("info")),
+      ).resolves.toBeUndefined();
+      expect(custom.send).toHaveBeenCalled();
+      expect(senders.events).toHaveBeenCalled();
+    });
+  });
+
+  describe("createConsoleTransport", () => {
+    it("should write JSON lines, errors to stderr", () => {
+      const log = jest.spyOn(console, "log").mockImplementation(() => {});
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+      const transport = createConsoleTransport();
+
+      transport.send(entry("info"));
+      transport.send(entry("error"));
+
+      expect(log).toHaveBeenCalledWith(JSON.stringify(entry("info")));
+      expect(error).toHaveBeenCalledWith(JSON.stringify(entry("error")));
+    });
+  });
+
+  describe("pretty console output", () => {
+    const pretty = (colors = false): LogTransport =>
+      createConsoleTransport({ output: "pretty", colors });
+
+    it("should render aligned human-readable lines", () => {
+      const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+      pretty().send({
+        ...entry("warn", "Slow query"),
+        timestamp: "2026-01-01T12:04:05.123Z",
+        correlationId: "corr-1",
+        userId: "user-1",
+        context: { table: "orders", durationMs: 1200, note: "two words" },
+      });
+
+      expect(log).toHaveBeenCalledWith(
+        '12:04:05.123 WARN  [corr-1] user=user-1 Slow query  table=orders durationMs=1200 note="two words"',
+      );
+    });
+
+    it("should only show context keys that changed within a correlation", () => {
+      const log = jest.spyOn(console, "log").mockImplementation(() => {});
+      const transport = pretty();
+      const withContext = (
+        message: string,
+        context: Record<string, unknown>,
+      ) => ({
+        ...entry("info", message),
+        correlationId: "corr-1",
+        context,
+      });
+
+      transport.send(withContext("start", { path: "/orders", step: 1 }));
+      transport.send(withContext("next", { path: "/orders", step: 2 }));
+
+      expect(log.mock.calls[0][0]).toMatch(/start {2}path=\/orders step=1$/);
+      expect(log.mock.calls[1][0]).toMatch(/next {2}step=2$/);
+    });
+
+    it("should color levels and print stack traces to stderr", () => {
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+      pretty(true).send({
+        ...entry("error", "Boom"),
+        stackTrace: "Error: Boom\n    at test",
+      });
+
+      const line = error.mock.calls[0][0] as string;
+      expect(line).toContain("\u001b[31mERROR\u001b[0m");
+      expect(line).toContain("Boom\n\u001b[2mError: Boom");
+    });
+  });
+
+  describe("createFileTransport", () => {
+    it("should append NDJSON in order, creating the directory", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "log-transport-"));
+      const file = path.join(dir, "nested", "audit.ndjson");
+      try {
+        const transport = createFileTransport(file);
+
+        await Promise.all([
+          transport.send(entry("audit", "1")),
+          transport.send(entry("audit", "2")),
+        ]);
+
+        const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+        expect(lines.map((line) => JSON.parse(line).message)).toEqual([
+          "1",
+          "2",
+        ]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -52,4 +52,68 @@ describe("loggerContextMiddleware", () => {
     });
     expect(next).toHaveBeenCalled();
   });
+
+  it("should store the Keycloak realm from the bearer token issuer", () => {
+    const encode = (value: unknown): string =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    const token = `${encode({ alg: "none" })}.${encode({
+      sub: "user-1",
+      iss: "https://auth.example.com/realms/acme",
+    })}.`;
+    const req = {
+      method: "GET",
+      path: "/api/items",
+      headers: { authorization: `Bearer ${token}` },
+      socket: {} as Socket,
+    } as Partial<Request>;
+
+    loggerContextMiddleware(req as Request, {} as Response, jest.fn());
+
+    expect(contextStorage.getContext()).toMatchObject({
+      userId: "user-1",
+      realm: "acme",
+    });
+  });
+
+  describe("W3C trace context", () => {
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const parentSpanId = "00f067aa0ba902b7";
+
+    const run = (headers: Record<string, string>) => {
+      const req = {
+        method: "GET",
+        path: "/api/items",
+        headers,
+        socket: {} as Socket,
+      } as Partial<Request>;
+      loggerContextMiddleware(req as Request, {} as Response, jest.fn());
+      return contextStorage.getContext();
+    };
+
+    it("should continue the incoming trace with a new server span", () => {
+      const context = run({
+        traceparent: `00-${traceId}-${parentSpanId}-01`,
+        tracestate: "vendor=1",
+        "x-correlation-id": "corr-123",
+      });
+
+      expect(context).toMatchObject({
+        traceId,
+        parentSpanId,
+        traceFlags: "01",
+        traceState: "vendor=1",
+        correlationId: "corr-123",
+      });
+      expect(context?.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(context?.spanId).not.toBe(parentSpanId);
+    });
+
+    it("should start a new trace and use its ID as correlation ID", () => {
+      const context = run({ traceparent: "invalid" });
+
+      expect(context?.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(context?.parentSpanId).toBeUndefined();
+      expect(context?.correlationId).toBe(context?.traceId);
+    });
+  });
 });
@@ -5,11 +5,14 @@
 import { LoggerService } from "../../src/services/logger";
 import { HttpClient } from "../../src/utils/http-client";
 import { RedisService } from "../../src/services/redis.service";
-import { MisoClientConfig } from "../../src/types/config.types";
+import { LogSpoolConfig, MisoClientConfig } from "../../src/types/config.types";
 import { Request } from "express";
 import { ApiClient } from "../../src/api";
 import { LoggerContextStorage } from "../../src/services/logger/logger-context-storage";
 import jwt from "jsonwebtoken";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 
 // Mock HttpClient
 jest.mock("../../src/utils/http-client");
@@ -107,6 +110,35 @@ describe("LoggerService", () => {
       expect(mockHttpClient.request).not.toHaveBeenCalled();
     });
 
+    it("should append to the log stream in stream mode", async () => {
+      const transaction = {
+        xadd: jest.fn(),
+        exec: jest.fn().mockResolvedValue([[null, "1-0"]]),
+      };
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.execute = jest.fn((_name, _fallback, command) =>
+        command({ multi: () => transaction } as never),
+      ) as unknown as typeof mockRedisService.execute;
+      setHttpClientConfig(mockHttpClient, {
+        ...config,
+        redis: { host: "localhost", logQueue: "stream", logStreamMaxLen: 1000 },
+      });
+
+      await loggerService.error("Test error");
+
+      expect(transaction.xadd).toHaveBeenCalledWith(
+        "logs:ctrl-dev-test-app:stream",
+        "MAXLEN",
+        "~",
+        1000,
+        "*",
+        "log",
+        expect.stringContaining('"message":"Test error"'),
+      );
+      expect(mockRedisService.rpush).not.toHaveBeenCalled();
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+
     it("should fallback to HTTP when Redis fails", async () => {
       mockRedisService.isConnected.mockReturnValue(true);
       mockRedisService.rpush.mockResolvedValue(false);
@@ -149,6 +181,300 @@ describe("LoggerService", () => {
     });
   });
 
+  describe("log transports", () => {
+    it("should dispatch to configured transports instead of Redis/HTTP", async () => {
+      const custom = { name: "custom", send: jest.fn() };
+      const listener = jest.fn();
+      loggerService.on("log", listener);
+      mockRedisService.isConnected.mockReturnValue(true);
+      setHttpClientConfig(mockHttpClient, {
+        ...config,
+        logTransports: [
+          { type: "events", levels: ["debug"] },
+          { ...custom, levels: ["audit", "error"] },
+        ],
+      });
+
+      await loggerService.debug("Debug only");
+      await loggerService.audit("user.login", "users");
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Debug only" }),
+      );
+      expect(custom.send).toHaveBeenCalledTimes(1);
+      expect(custom.send).toHaveBeenCalledWith(
+        expect.objectContaining({ level: "audit" }),
+      );
+      expect(mockRedisService.rpush).not.toHaveBeenCalled();
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+
+    it("should send controller transport entries over HTTP", async () => {
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockHttpClient.request.mockResolvedValue({});
+      setHttpClientConfig(mockHttpClient, {
+        ...config,
+        logTransports: [{ type: "controller" }],
+      });
+
+      await loggerService.error("Controller only");
+
+      expect(mockRedisService.rpush).not.toHaveBeenCalled();
+      expect(mockApiClient.logs.createLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ message: "Controller only" }),
+        }),
+      );
+    });
+  });
+
+  describe("console output", () => {
+    it("should also write entries to the console when consoleOutput is set", async () => {
+      const log = jest.spyOn(console, "log").mockImplementation(() => {});
+      setHttpClientConfig(mockHttpClient, {
+        ...config,
+        emitEvents: true,
+        consoleOutput: "json",
+      });
+      loggerService = new LoggerService(mockHttpClient, mockRedisService);
+      const listener = jest.fn();
+      loggerService.on("log", listener);
+
+      try {
+        await loggerService.info("Offline message");
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(log).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(log.mock.calls[0][0] as string)).toMatchObject({
+          level: "info",
+          message: "Offline message",
+        });
+      } finally {
+        log.mockRestore();
+      }
+    });
+  });
+
+  describe("log sampling", () => {
+    const createSampledLogger = (
+      logSampling: MisoClientConfig["logSampling"],
+    ): jest.Mock => {
+      setHttpClientConfig(mockHttpClient, {
+        ...config,
+        logLevel: "debug",
+        emitEvents: true,
+        logSampling,
+      });
+      loggerService = new LoggerService(mockHttpClient, mockRedisService);
+      const listener = jest.fn();
+      loggerService.on("log", listener);
+      return listener;
+    };
+
+    it("should drop entries below the sample rate but never audit entries", async () => {
+      const listener = createSampledLogger({
+        rates: { debug: 0 },
+        rateLimit: { burst: 0, perSecond: 0 },
+      });
+
+      await loggerService.debug("Sampled out");
+      await loggerService.info("Rate limited");
+      await loggerService.audit("user.login", "users");
+      await loggerService.audit("user.login", "users");
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(
+        listener.mock.calls.every(([entry]) => entry.level === "audit"),
+      ).toBe(true);
+    });
+
+    it("should rate limit repeated messages and log a suppressed summary", async () => {
+      jest.useFakeTimers({ now: 0 });
+      try {
+        const listener = createSampledLogger({
+          rateLimit: { burst: 2, perSecond: 1 },
+        });
+
+        for (let i = 0; i < 5; i++) {
+          await loggerService.warn("Hot loop", { password: "secret" });
+        }
+        await loggerService.warn("Other message");
+        jest.setSystemTime(1000);
+        await loggerService.warn("Hot loop");
+
+        const messages = listener.mock.calls.map(([entry]) => entry.message);
+        expect(messages).toEqual([
+          "Hot loop",
+          "Hot loop",
+          "Other message",
+          "Suppressed 3 similar messages: Hot loop",
+          "Hot loop",
+        ]);
+        expect(listener.mock.calls[3][0].context).toEqual(
+          expect.objectContaining({
+            messageKey: "warn:Hot loop",
+            suppressedCount: 3,
+          }),
+        );
+        expect(listener.mock.calls[0][0].context.password).not.toBe("secret");
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should log the summary on the interval when no later message is allowed", async () => {
+      jest.useFakeTimers({ now: 0 });
+      try {
+        const listener = createSampledLogger({
+          rateLimit: { burst: 1, perSecond: 0, summaryInterval: 1000 },
+        });
+
+        await loggerService.error("Database down");
+        await loggerService.error("Database down");
+        await loggerService.error("Database down");
+        await jest.advanceTimersByTimeAsync(1000);
+
+        const messages = listener.mock.calls.map(([entry]) => entry.message);
+        expect(messages).toEqual([
+          "Database down",
+          "Suppressed 2 similar messages: Database down",
+        ]);
+        expect(listener.mock.calls[1][0].level).toBe("error");
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should stop the summary timer on stop()", async () => {
+      jest.useFakeTimers({ now: 0 });
+      try {
+        createSampledLogger({
+          rateLimit: { burst: 1, perSecond: 0, summaryInterval: 1000 },
+        });
+        expect(jest.getTimerCount()).toBe(1);
+
+        loggerService.stop();
+
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe("disk spool", () => {
+    let dir: string;
+
+    const createLogger = (spool: Partial<LogSpoolConfig> = {}): void => {
+      setHttpClientConfig(mockHttpClient, {
+        ...config,
+        audit: { spool: { directory: dir, replayInterval: 60000, ...spool } },
+      });
+      loggerService = new LoggerService(mockHttpClient, mockRedisService);
+      loggerService.setApiClient(mockApiClient);
+    };
+
+    const spooledEntries = (): Array<{ level: string; message: string }> =>
+      fs
+        .readdirSync(dir)
+        .flatMap((name) =>
+          fs.readFileSync(path.join(dir, name), "utf8").trim().split("\n"),
+        )
+        .map((line) => JSON.parse(line));
+
+    const waitFor = async (condition: () => boolean): Promise<void> => {
+      for (let i = 0; i < 200 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "logger-spool-"));
+      (mockApiClient.logs as unknown as Record<string, jest.Mock>)[
+        "createBatchLogs"
+      ] = jest
+        .fn()
+        .mockImplementation(async (body: unknown) =>
+          mockHttpClient.request("POST", "/api/v1/logs/batch", body),
+        );
+      mockRedisService.isConnected.mockReturnValue(false);
+    });
+
+    afterEach(() => {
+      loggerService.stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    });
+
+    it("should spool while the circuit is open and replay from the timer once it closes", async () => {
+      createLogger({ allLevels: true, replayInterval: 200 });
+      mockHttpClient.request.mockRejectedValue(new Error("ECONNREFUSED"));
+      for (const message of ["1", "2", "3", "4"]) {
+        await loggerService.info(message);
+      }
+      // The circuit opens after 3 failures, so the 4th entry is spooled without a request
+      expect(mockApiClient.logs.createLog).toHaveBeenCalledTimes(3);
+      expect(spooledEntries().map((log) => log.message)).toEqual([
+        "1",
+        "2",
+        "3",
+        "4",
+      ]);
+
+      // No replay while the circuit is open
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      expect(mockApiClient.logs.createBatchLogs).not.toHaveBeenCalled();
+
+      mockHttpClient.request.mockReset().mockResolvedValue({});
+      const reopenAt = Date.now() + 61000;
+      jest.spyOn(Date, "now").mockReturnValue(reopenAt);
+      await waitFor(() => fs.readdirSync(dir).length === 0);
+
+      // One batch per spool file, oldest first
+      const replayed = mockHttpClient.request.mock.calls.flatMap(([, , body]) =>
+        (body as { logs: Array<{ message: string }> }).logs.map(
+          (log) => log.message,
+        ),
+      );
+      expect(replayed).toEqual(["1", "2", "3", "4"]);
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it("should send new entries directly while spooled entries are pending", async () => {
+      createLogger({ allLevels: true });
+      mockHttpClient.request.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+      await loggerService.info("1");
+
+      mockHttpClient.request.mockResolvedValue({});
+      await loggerService.info("2");
+
+      expect(mockApiClient.logs.createLog).toHaveBeenCalledTimes(2);
+      expect(mockApiClient.logs.createBatchLogs).not.toHaveBeenCalled();
+      expect(spooledEntries().map((log) => log.message)).toEqual(["1"]);
+    });
+
+    it("should spool only audit entries by default", async () => {
+      createLogger();
+      mockHttpClient.request.mockRejectedValue(new Error("ECONNREFUSED"));
+
+      await loggerService.info("general");
+      await loggerService.audit("user.created", "users");
+
+      expect(spooledEntries().map((log) => log.level)).toEqual(["audit"]);
+    });
+
+    it("should not spool when delivery succeeds", async () => {
+      createLogger({ allLevels: true });
+      mockHttpClient.request.mockResolvedValue({});
+
+      await loggerService.info("ok");
+
+      expect(fs.readdirSync(dir)).toEqual([]);
+      expect(mockApiClient.logs.createBatchLogs).not.toHaveBeenCalled();
+    });
+  });
+
   describe("audit", () => {
     it("should log audit event with action and resource", async () => {
       mockRedisService.isConnected.mockReturnValue(true);
@@ -360,6 +686,21 @@ describe("LoggerService", () => {
       await expect(loggerService.error("Test error")).resolves.toBeUndefined();
     });
 
+    it("should include W3C trace IDs from logger context", async () => {
+      LoggerContextStorage.getInstance().setContext({
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+      });
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.rpush.mockResolvedValue(true);
+
+      await loggerService.info("Traced");
+
+      const payload = JSON.parse(mockRedisService.rpush.mock.calls[0][1]);
+      expect(payload.traceId).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+      expect(payload.spanId).toBe("00f067aa0ba902b7");
+    });
+
     it("should prefer logger context over JWT token values", async () => {
       mockedJwtDecode.mockReturnValue({
         sub: "jwt-user",
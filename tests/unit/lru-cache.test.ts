@@ -0,0 +1,139 @@
+/**
+ * Unit tests for LRU cache primitives
+ */
+
+import {
+  LruCache,
+  estimateSize,
+  evictOverflow,
+  touchEntry,
+} from "../../src/utils/lru-cache";
+
+describe("lru-cache", () => {
+  describe("touchEntry", () => {
+    it("should move entry to most recently used position", () => {
+      const map = new Map([
+        ["a", 1],
+        ["b", 2],
+      ]);
+
+      expect(touchEntry(map, "a")).toBe(1);
+      expect([...map.keys()]).toEqual(["b", "a"]);
+    });
+
+    it("should return undefined for missing keys", () => {
+      const map = new Map<string, number>();
+      expect(touchEntry(map, "a")).toBeUndefined();
+      expect(map.size).toBe(0);
+    });
+  });
+
+  describe("evictOverflow", () => {
+    it("should evict oldest entries over the limit", () => {
+      const map = new Map([
+        ["a", 1],
+        ["b", 2],
+        ["c", 3],
+      ]);
+      const onEvict = jest.fn();
+
+      expect(evictOverflow(map, 1, onEvict)).toBe(2);
+      expect([...map.keys()]).toEqual(["c"]);
+      expect(onEvict).toHaveBeenCalledWith("a", 1);
+      expect(onEvict).toHaveBeenCalledWith("b", 2);
+    });
+  });
+
+  describe("estimateSize", () => {
+    it("should estimate UTF-16 size of JSON form", () => {
+      expect(estimateSize("ab")).toBe(8);
+      expect(estimateSize(["x"])).toBe(10);
+    });
+
+    it("should return 0 for unserializable values", () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      expect(estimateSize(circular)).toBe(0);
+      expect(estimateSize(undefined)).toBe(0);
+    });
+  });
+
+  describe("LruCache", () => {
+    it("should evict least recently used entry over maxEntries", () => {
+      const cache = new LruCache<string, number>({ maxEntries: 2 });
+      cache.set("a", 1);
+      cache.set("b", 2);
+      cache.get("a");
+      cache.set("c", 3);
+
+      expect(cache.has("a")).toBe(true);
+      expect(cache.has("b")).toBe(false);
+      expect(cache.has("c")).toBe(true);
+      expect(cache.getStats()).toEqual(
+        expect.objectContaining({ entries: 2, maxEntries: 2, evictions: 1 }),
+      );
+    });
+
+    it("should not change recency on peek", () => {
+      const cache = new LruCache<string, number>({ maxEntries: 2 });
+      cache.set("a", 1);
+      cache.set("b", 2);
+      expect(cache.peek("a")).toBe(1);
+      cache.set("c", 3);
+
+      expect(cache.has("a")).toBe(false);
+    });
+
+    it("should evict by approximate bytes", () => {
+      const cache = new LruCache<string, string>({
+        maxBytes: 10,
+        sizeOf: (value) => value.length,
+      });
+      cache.set("a", "12345");
+      cache.set("b", "12345");
+      expect(cache.getStats().approximateBytes).toBe(10);
+
+      cache.set("c", "123");
+
+      expect(cache.has("a")).toBe(false);
+      expect([...cache.keys()]).toEqual(["b", "c"]);
+      expect(cache.getStats()).toEqual(
+        expect.objectContaining({ approximateBytes: 8, evictions: 1 }),
+      );
+    });
+
+    it("should not keep a value larger than maxBytes", () => {
+      const cache = new LruCache<string, string>({
+        maxBytes: 4,
+        sizeOf: (value) => value.length,
+      });
+      cache.set("a", "123456");
+
+      expect(cache.size).toBe(0);
+      expect(cache.getStats().approximateBytes).toBe(0);
+    });
+
+    it("should track bytes on overwrite, delete and clear", () => {
+      const cache = new LruCache<string, string>({
+        maxBytes: 100,
+        sizeOf: (value) => value.length,
+      });
+      cache.set("a", "1234");
+      cache.set("a", "12");
+      cache.set("b", "123");
+      expect(cache.getStats().approximateBytes).toBe(5);
+
+      cache.delete("b");
+      expect(cache.getStats().approximateBytes).toBe(2);
+
+      cache.clear();
+      expect(cache.getStats().approximateBytes).toBe(0);
+    });
+
+    it("should not track bytes without maxBytes", () => {
+      const cache = new LruCache<string, string>();
+      cache.set("a", "x");
+      expect(cache.getStats().approximateBytes).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for MetricsRegistry and metricsHandler
+ */
+
+import { Request, Response } from "express";
+import { Counter, MetricsRegistry } from "../../src/utils/metrics-registry";
+import {
+  metricsHandler,
+  PROMETHEUS_CONTENT_TYPE,
+} from "../../src/express/metrics-handler";
+
+describe("MetricsRegistry", () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it("should render counters with HELP, TYPE and labels", () => {
+    const counter = registry.counter("requests_total", "Requests");
+    counter.inc({ method: "GET" });
+    counter.inc({ method: "GET" }, 2);
+    counter.inc({ method: "POST" });
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests",
+        "# TYPE requests_total counter",
+        'requests_total{method="GET"} 3',
+        'requests_total{method="POST"} 1',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should treat label order as the same series and ignore negative counter increments", () => {
+    const counter = registry.counter("c", "C");
+    counter.inc({ a: "1", b: "2" });
+    counter.inc({ b: "2", a: "1" });
+    counter.inc({ a: "1", b: "2" }, -5);
+
+    expect(counter.get({ b: "2", a: "1" })).toBe(2);
+    expect(counter.values()).toHaveLength(1);
+  });
+
+  it("should escape label values", () => {
+    registry.gauge("g", "G").set({ path: 'a"b\\c\nd' }, 1);
+
+    expect(registry.render()).toContain('g{path="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it("should render cumulative histogram buckets, sum and count", () => {
+    const histogram = registry.histogram(
+      "latency_seconds",
+      "Latency",
+      [0.1, 1],
+    );
+    histogram.observe({ status: "200" }, 0.05);
+    histogram.observe({ status: "200" }, 0.5);
+    histogram.observe({ status: "200" }, 5);
+
+    const output = registry.render();
+    expect(output).toContain('latency_seconds_bucket{status="200",le="0.1"} 1');
+    expect(output).toContain('latency_seconds_bucket{status="200",le="1"} 2');
+    expect(output).toContain(
+      'latency_seconds_bucket{status="200",le="+Inf"} 3',
+    );
+    expect(output).toContain('latency_seconds_sum{status="200"} 5.55');
+    expect(output).toContain('latency_seconds_count{status="200"} 3');
+    expect(histogram.get({ status: "200" })).toEqual({ count: 3, sum: 5.55 });
+  });
+
+  it("should return the existing metric for a name and reject type mismatches", () => {
+    const counter = registry.counter("shared", "Shared");
+
+    expect(registry.counter("shared", "Shared")).toBe(counter);
+    expect(counter).toBeInstanceOf(Counter);
+    expect(() => registry.gauge("shared", "Shared")).toThrow(
+      "Metric shared is already registered as counter",
+    );
+  });
+
+  it("should run collectors before rendering and survive failing ones", () => {
+    const gauge = registry.gauge("live", "Live value");
+    let value = 1;
+    registry.addCollector(() => {
+      throw new Error("collector failed");
+    });
+    const remove = registry.addCollector(() => gauge.set({}, value));
+
+    expect(registry.render()).toContain("live 1");
+    value = 2;
+    remove();
+    expect(registry.render()).toContain("live 1");
+  });
+
+  it("should clear values on reset but keep metrics registered", () => {
+    const counter = registry.counter("c", "C");
+    counter.inc();
+    registry.reset();
+
+    expect(counter.get()).toBe(0);
+    expect(registry.render()).toBe("# HELP c C\n# TYPE c counter\n");
+  });
+});
+
+describe("metricsHandler", () => {
+  it("should send the registry in the Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("hits_total", "Hits").inc();
+    const res = {
+      setHeader: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      send: jest.fn(),
+    };
+
+    metricsHandler(registry)({} as Request, res as unknown as Response);
+
+    expect(res.setHeader).toHaveBeenCalledWith(
+      "Content-Type",
+      PROMETHEUS_CONTENT_TYPE,
+    );
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.send).toHaveBeenCalledWith(registry.render());
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for OidcDiscoveryService
+ */
+
+import {
+  OidcDiscoveryError,
+  OidcDiscoveryService,
+  discoveryUrl,
+} from "../../src/services/oidc-discovery.service";
+
+describe("OidcDiscoveryService", () => {
+  const issuer = "https://tenant.auth0.com/";
+  const document = {
+    issuer,
+    jwks_uri: "https://tenant.auth0.com/.well-known/jwks.json",
+    token_endpoint: "https://tenant.auth0.com/oauth/token",
+    id_token_signing_alg_values_supported: ["RS256"],
+  };
+  let fetchMock: jest.SpyInstance;
+  let service: OidcDiscoveryService;
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockImplementation(async () => new Response(JSON.stringify(document)));
+    service = new OidcDiscoveryService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should build the discovery URL from the issuer", () => {
+    expect(discoveryUrl(issuer)).toBe(
+      "https://tenant.auth0.com/.well-known/openid-configuration",
+    );
+    expect(
+      discoveryUrl("https://login.microsoftonline.com/tenant-id/v2.0"),
+    ).toBe(
+      "https://login.microsoftonline.com/tenant-id/v2.0/.well-known/openid-configuration",
+    );
+  });
+
+  it("should load the document once and share concurrent loads", async () => {
+    const [first, second] = await Promise.all([
+      service.discover(issuer),
+      service.discover(issuer),
+    ]);
+    const third = await service.discover(issuer);
+
+    expect(first).toEqual(document);
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://tenant.auth0.com/.well-known/openid-configuration",
+      expect.objectContaining({ headers: { Accept: "application/json" } }),
+    );
+
+    service.clearCache();
+    await service.discover(issuer);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should load from an explicit discovery URL", async () => {
+    const url =
+      "http://keycloak:8080/realms/acme/.well-known/openid-configuration";
+
+    await service.discover(issuer, url);
+
+    expect(fetchMock).toHaveBeenCalledWith(url, expect.any(Object));
+  });
+
+  it("should reject HTTP errors and retry on the next call", async () => {
+    fetchMock.mockImplementationOnce(
+      async () => new Response("not found", { status: 404 }),
+    );
+
+    await expect(service.discover(issuer)).rejects.toThrow(
+      "OIDC discovery failed for https://tenant.auth0.com/.well-known/openid-configuration: HTTP 404",
+    );
+    await expect(service.discover(issuer)).resolves.toEqual(document);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wrap network errors", async () => {
+    fetchMock.mockRejectedValueOnce(new Error("getaddrinfo ENOTFOUND"));
+
+    const error = await service.discover(issuer).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OidcDiscoveryError);
+    expect((error as OidcDiscoveryError).code).toBe(
+      "ERR_OIDC_DISCOVERY_FAILED",
+    );
+    expect((error as Error).message).toContain("getaddrinfo ENOTFOUND");
+  });
+
+  it("should reject documents for another issuer or without jwks_uri", async () => {
+    fetchMock.mockImplementationOnce(
+      async () =>
+        new Response(JSON.stringify({ ...document, issuer: "https://evil" })),
+    );
+    await expect(service.discover(issuer)).rejects.toThrow(
+      "OIDC discovery issuer mismatch",
+    );
+
+    fetchMock.mockImplementationOnce(
+      async () => new Response(JSON.stringify({ issuer })),
+    );
+    await expect(service.discover(issuer)).rejects.toThrow(
+      "missing issuer or jwks_uri",
+    );
+  });
+});
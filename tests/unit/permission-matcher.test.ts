@@ -0,0 +1,146 @@
+/**
+ * Unit tests for permission matcher utilities
+ */
+
+import {
+  exactPermissionMatcher,
+  wildcardPermissionMatcher,
+  hasMatchingPermission,
+  findMissingPermissions,
+  resolvePermissionMatcher,
+  buildPermissionExplanation,
+} from "../../src/utils/permission-matcher";
+
+describe("permission-matcher", () => {
+  describe("wildcardPermissionMatcher", () => {
+    it.each([
+      ["miso-test:read", "miso-test:read"],
+      ["miso-test:*", "miso-test:read"],
+      ["*:read", "miso-test:read"],
+      ["*", "miso-test:read"],
+      ["orders:*", "orders:invoices:read"],
+      ["orders:invoices:*", "orders:invoices:approve"],
+      ["orders:*:read", "orders:invoices:read"],
+      ["orders:*", "orders:*"],
+    ])("should match granted %s against required %s", (granted, required) => {
+      expect(wildcardPermissionMatcher(granted, required)).toBe(true);
+    });
+
+    it.each([
+      ["miso-test:read", "miso-test:write"],
+      ["miso-test:*", "other:read"],
+      ["*:read", "miso-test:write"],
+      ["*:read", "orders:invoices:read"],
+      ["orders:*", "orders"],
+      ["orders:invoices:*", "orders:read"],
+      ["orders:*:read", "orders:invoices:write"],
+      ["orders:read", "orders:*"],
+      ["orders:invoices:read", "*:invoices:*"],
+      ["orders:read:extra", "orders:*:read"],
+      ["", "orders:read"],
+      ["orders:read", ""],
+    ])(
+      "should not match granted %s against required %s",
+      (granted, required) => {
+        expect(wildcardPermissionMatcher(granted, required)).toBe(false);
+      },
+    );
+  });
+
+  describe("exactPermissionMatcher", () => {
+    it("should only match identical strings", () => {
+      expect(exactPermissionMatcher("orders:read", "orders:read")).toBe(true);
+      expect(exactPermissionMatcher("orders:*", "orders:read")).toBe(false);
+    });
+  });
+
+  describe("hasMatchingPermission", () => {
+    it("should default to exact matching", () => {
+      expect(hasMatchingPermission(["orders:*"], "orders:read")).toBe(false);
+      expect(hasMatchingPermission(["orders:read"], "orders:read")).toBe(true);
+    });
+
+    it("should use provided matcher", () => {
+      expect(
+        hasMatchingPermission(
+          ["orders:*"],
+          "orders:read",
+          wildcardPermissionMatcher,
+        ),
+      ).toBe(true);
+    });
+
+    it("should return false for empty permissions", () => {
+      expect(hasMatchingPermission([], "orders:read")).toBe(false);
+    });
+  });
+
+  describe("findMissingPermissions", () => {
+    it("should return only unsatisfied permissions", () => {
+      expect(
+        findMissingPermissions(
+          ["orders:*", "customers:read"],
+          ["orders:write", "customers:write", "customers:read"],
+          wildcardPermissionMatcher,
+        ),
+      ).toEqual(["customers:write"]);
+    });
+  });
+
+  describe("resolvePermissionMatcher", () => {
+    it("should fall back to exact matcher", () => {
+      expect(resolvePermissionMatcher()).toBe(exactPermissionMatcher);
+    });
+
+    it("should return configured matcher", () => {
+      expect(resolvePermissionMatcher(wildcardPermissionMatcher)).toBe(
+        wildcardPermissionMatcher,
+      );
+    });
+  });
+
+  describe("buildPermissionExplanation", () => {
+    it("should split required permissions into granted and missing", () => {
+      const explanation = buildPermissionExplanation(
+        {
+          userId: "u1",
+          source: "controller",
+          authMethods: ["bearer"],
+          userPermissions: ["orders:*"],
+        },
+        ["orders:read", "users:read"],
+        wildcardPermissionMatcher,
+      );
+
+      expect(explanation).toEqual({
+        userId: "u1",
+        source: "controller",
+        authMethods: ["bearer"],
+        userPermissions: ["orders:*"],
+        required: ["orders:read", "users:read"],
+        granted: ["orders:read"],
+        missing: ["users:read"],
+        allowed: false,
+      });
+    });
+
+    it("should compute cache age from cachedAt", () => {
+      jest.spyOn(Date, "now").mockReturnValue(10_000);
+
+      const explanation = buildPermissionExplanation(
+        {
+          userId: "u1",
+          source: "memory",
+          authMethods: ["bearer"],
+          userPermissions: ["orders:read"],
+          cachedAt: 7_500,
+        },
+        ["orders:read"],
+      );
+
+      expect(explanation.cacheAgeMs).toBe(2_500);
+      expect(explanation.allowed).toBe(true);
+      jest.restoreAllMocks();
+    });
+  });
+});
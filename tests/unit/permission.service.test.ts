@@ -7,6 +7,8 @@ import { HttpClient } from "../../src/utils/http-client";
 import { ApiClient } from "../../src/api";
 import { CacheService } from "../../src/services/cache.service";
 import { MisoClientConfig } from "../../src/types/config.types";
+import { wildcardPermissionMatcher } from "../../src/utils/permission-matcher";
+import { LocalRbacService } from "../../src/services/local-rbac.service";
 
 // Mock dependencies
 jest.mock("../../src/utils/http-client");
@@ -729,6 +731,104 @@ describe("PermissionService", () => {
     });
   });
 
+  describe("wildcard permission matching", () => {
+    const createWildcardService = (): PermissionService => {
+      (mockHttpClient as any).config = {
+        ...config,
+        permissionMatcher: wildcardPermissionMatcher,
+      };
+      return new PermissionService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+      );
+    };
+
+    beforeEach(() => {
+      mockExtractUserIdFromToken.mockReturnValue("123");
+    });
+
+    it("should compare permissions exactly by default", async () => {
+      mockCacheService.get.mockResolvedValue({
+        permissions: ["miso-test:*"],
+        timestamp: Date.now(),
+      });
+
+      await expect(
+        permissionService.hasPermission("token", "miso-test:read"),
+      ).resolves.toBe(false);
+      await expect(
+        permissionService.hasPermission("token", "miso-test:*"),
+      ).resolves.toBe(true);
+    });
+
+    it("should match namespace wildcard granted to the user", async () => {
+      const service = createWildcardService();
+      mockCacheService.get.mockResolvedValue({
+        permissions: ["miso-test:*"],
+        timestamp: Date.now(),
+      });
+
+      await expect(
+        service.hasPermission("token", "miso-test:read"),
+      ).resolves.toBe(true);
+      await expect(service.hasPermission("token", "other:read")).resolves.toBe(
+        false,
+      );
+    });
+
+    it("should match hierarchical and action wildcards in hasAllPermissions", async () => {
+      const service = createWildcardService();
+      mockCacheService.get.mockResolvedValue({
+        permissions: ["orders:invoices:*", "*:read"],
+        timestamp: Date.now(),
+      });
+
+      const result = await service.hasAllPermissions("token", [
+        "orders:invoices:approve",
+        "customers:read",
+      ]);
+
+      expect(result).toBe(true);
+    });
+
+    it("should not expand wildcards in required permissions", async () => {
+      const service = createWildcardService();
+      mockCacheService.get.mockResolvedValue({
+        permissions: ["orders:read"],
+        timestamp: Date.now(),
+      });
+
+      const result = await service.hasAnyPermission("token", [
+        "customers:*",
+        "orders:*",
+      ]);
+
+      expect(result).toBe(false);
+    });
+
+    it("should use custom permission matcher from config", async () => {
+      (mockHttpClient as any).config = {
+        ...config,
+        permissionMatcher: (granted: string, required: string) =>
+          granted.toLowerCase() === required.toLowerCase(),
+      };
+      const service = new PermissionService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+      );
+      mockCacheService.get.mockResolvedValue({
+        permissions: ["Miso-Test:Read"],
+        timestamp: Date.now(),
+      });
+
+      await expect(
+        service.hasPermission("token", "miso-test:read"),
+      ).resolves.toBe(true);
+    });
+  });
+
   describe("refreshPermissions edge cases", () => {
     it("should handle refresh when userId extracted from token", async () => {
       mockExtractUserIdFromToken.mockReturnValue("refresh-user");
@@ -836,4 +936,214 @@ describe("PermissionService", () => {
       expect(service).toBeDefined();
     });
   });
+
+  describe("local RBAC mode", () => {
+    it("should resolve permissions from LocalRbacService without calling controller", async () => {
+      const localRbac = {
+        getPermissions: jest
+          .fn()
+          .mockResolvedValue(["miso-test:read", "miso-test:write"]),
+      } as unknown as LocalRbacService;
+      const localService = new PermissionService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+        localRbac,
+      );
+
+      expect(await localService.getPermissions("token")).toEqual([
+        "miso-test:read",
+        "miso-test:write",
+      ]);
+      expect(await localService.refreshPermissions("token")).toEqual([
+        "miso-test:read",
+        "miso-test:write",
+      ]);
+      expect(
+        await localService.hasAllPermissions("token", [
+          "miso-test:read",
+          "miso-test:write",
+        ]),
+      ).toBe(true);
+      await localService.clearPermissionsCache("token");
+      expect(mockApiClient.auth.validateToken).not.toHaveBeenCalled();
+      expect(mockCacheService.get).not.toHaveBeenCalled();
+      expect(mockCacheService.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("explainPermission", () => {
+    let getWithSource: jest.Mock;
+
+    beforeEach(() => {
+      getWithSource = jest.fn();
+      (mockCacheService as any).getWithSource = getWithSource;
+      mockExtractUserIdFromToken.mockReturnValue("user-1");
+    });
+
+    it("should explain a Redis cache hit with cache age and missing permissions", async () => {
+      jest.spyOn(Date, "now").mockReturnValue(1_000_000);
+      getWithSource.mockResolvedValue({
+        source: "redis",
+        value: { permissions: ["orders:read"], timestamp: 940_000 },
+      });
+
+      const explanation = await permissionService.explainPermission("token", [
+        "orders:read",
+        "users:delete",
+      ]);
+
+      expect(explanation).toEqual({
+        userId: "user-1",
+        source: "redis",
+        cacheAgeMs: 60_000,
+        authMethods: ["bearer"],
+        required: ["orders:read", "users:delete"],
+        granted: ["orders:read"],
+        missing: ["users:delete"],
+        userPermissions: ["orders:read"],
+        allowed: false,
+      });
+      expect(getWithSource).toHaveBeenCalledWith("permissions:user-1");
+      expect(mockApiClient.permissions.getPermissions).not.toHaveBeenCalled();
+      jest.restoreAllMocks();
+    });
+
+    it("should report controller source on cache miss", async () => {
+      getWithSource.mockResolvedValue(null);
+      mockCacheService.get.mockResolvedValue(null);
+      mockApiClient.permissions.getPermissions.mockResolvedValue({
+        success: true,
+        data: { permissions: ["orders:read"] },
+        timestamp: new Date().toISOString(),
+      });
+
+      const explanation = await permissionService.explainPermission(
+        "token",
+        "orders:read",
+        { methods: ["client-token", "bearer"] },
+      );
+
+      expect(explanation).toMatchObject({
+        userId: "user-1",
+        source: "controller",
+        authMethods: ["client-token", "bearer"],
+        granted: ["orders:read"],
+        missing: [],
+        allowed: true,
+      });
+      expect(explanation.cacheAgeMs).toBeUndefined();
+    });
+
+    it("should return error explanation when resolution fails", async () => {
+      const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+      getWithSource.mockRejectedValue(new Error("cache exploded"));
+
+      const explanation = await permissionService.explainPermission(
+        "token",
+        "orders:read",
+      );
+
+      expect(explanation).toMatchObject({
+        userId: null,
+        source: "controller",
+        missing: ["orders:read"],
+        allowed: false,
+      });
+      expect(explanation.error).toContain("cache exploded");
+      consoleSpy.mockRestore();
+    });
+
+    it("should report local source in local RBAC mode", async () => {
+      const localRbac = {
+        getPermissions: jest.fn().mockResolvedValue(["miso-test:read"]),
+      } as unknown as LocalRbacService;
+      const localService = new PermissionService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+        localRbac,
+      );
+
+      const explanation = await localService.explainPermission("token", [
+        "miso-test:read",
+        "miso-test:admin",
+      ]);
+
+      expect(explanation).toMatchObject({
+        userId: "user-1",
+        source: "local",
+        granted: ["miso-test:read"],
+        missing: ["miso-test:admin"],
+      });
+      expect(getWithSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("request coalescing and stale-while-revalidate", () => {
+    const permissionsResponse = (permissions: string[]) => ({
+      success: true,
+      data: { permissions },
+      timestamp: new Date().toISOString(),
+    });
+
+    it("should share one controller call across concurrent cache misses", async () => {
+      mockCacheService.get.mockResolvedValue(null);
+      mockCacheService.set.mockResolvedValue(true);
+      mockExtractUserIdFromToken.mockReturnValue("123");
+      mockApiClient.permissions.getPermissions.mockResolvedValue(
+        permissionsResponse(["orders:read"]),
+      );
+
+      const results = await Promise.all([
+        permissionService.getPermissions("token"),
+        permissionService.hasPermission("token", "orders:read"),
+      ]);
+
+      expect(results).toEqual([["orders:read"], true]);
+      expect(mockApiClient.permissions.getPermissions).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fetch again after the in-flight call settles", async () => {
+      mockCacheService.get.mockResolvedValue(null);
+      mockCacheService.set.mockResolvedValue(true);
+      mockExtractUserIdFromToken.mockReturnValue("123");
+      mockApiClient.permissions.getPermissions.mockResolvedValue(
+        permissionsResponse(["orders:read"]),
+      );
+
+      await permissionService.getPermissions("token");
+      await permissionService.getPermissions("token");
+
+      expect(mockApiClient.permissions.getPermissions).toHaveBeenCalledTimes(2);
+    });
+
+    it("should serve stale permissions while one background refresh runs", async () => {
+      config.cache = { permissionTTL: 900, staleWhileRevalidate: 120 };
+      const service = new PermissionService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+      );
+      mockExtractUserIdFromToken.mockReturnValue("123");
+      mockCacheService.get.mockResolvedValue({
+        permissions: ["orders:read"],
+        timestamp: Date.now() - 1000 * 1000,
+      });
+      mockCacheService.set.mockResolvedValue(true);
+      mockApiClient.permissions.getPermissions.mockResolvedValue(
+        permissionsResponse(["orders:write"]),
+      );
+
+      expect(await service.getPermissions("token")).toEqual(["orders:read"]);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockApiClient.permissions.getPermissions).toHaveBeenCalledTimes(1);
+      expect(mockCacheService.set).toHaveBeenCalledWith(
+        "permissions:123",
+        expect.objectContaining({ permissions: ["orders:write"] }),
+        1020,
+      );
+    });
+  });
 });
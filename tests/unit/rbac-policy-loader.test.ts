@@ -0,0 +1,104 @@
+/**
+ * Unit tests for RBAC policy loader
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  getPermissionsForRoles,
+  loadRbacPolicy,
+  loadRbacPolicyFile,
+} from "../../src/utils/rbac-policy-loader";
+
+describe("RBAC policy loader", () => {
+  const builderRbacPath = path.resolve(
+    __dirname,
+    "../../builder/miso-test/rbac.yaml",
+  );
+
+  describe("loadRbacPolicyFile", () => {
+    it("should load the builder rbac.yaml", () => {
+      const policy = loadRbacPolicyFile(builderRbacPath);
+
+      expect(policy.roles.map((r) => r.value)).toEqual([
+        "aifabrix-admin",
+        "aifabrix-user",
+        "aifabrix-developer",
+      ]);
+      expect(policy.permissions).toContainEqual({
+        name: "miso-test:delete",
+        roles: ["aifabrix-admin"],
+        description: "Delete application data",
+      });
+    });
+
+    it("should load JSON policy files", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rbac-"));
+      const file = path.join(dir, "policy.json");
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          roles: [{ value: "viewer" }],
+          permissions: [{ name: "docs:read", roles: ["viewer"] }],
+        }),
+      );
+
+      try {
+        expect(loadRbacPolicyFile(file)).toEqual({
+          roles: [{ value: "viewer" }],
+          permissions: [{ name: "docs:read", roles: ["viewer"] }],
+        });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should throw when the file does not exist", () => {
+      expect(() => loadRbacPolicyFile("/nonexistent/rbac.yaml")).toThrow();
+    });
+  });
+
+  describe("loadRbacPolicy", () => {
+    it("should accept string roles and missing roles section", () => {
+      expect(
+        loadRbacPolicy({
+          roles: ["admin"],
+          permissions: [{ name: "a:b", roles: ["admin"] }],
+        }).roles,
+      ).toEqual([{ value: "admin" }]);
+      expect(
+        loadRbacPolicy({ permissions: [{ name: "a:b", roles: [] }] }).roles,
+      ).toEqual([]);
+    });
+
+    it("should reject invalid documents", () => {
+      expect(() => loadRbacPolicy(null)).toThrow(
+        "Invalid RBAC policy: expected object",
+      );
+      expect(() => loadRbacPolicy({ roles: [] })).toThrow(
+        "Invalid RBAC policy: missing 'permissions' array",
+      );
+      expect(() => loadRbacPolicy({ roles: [{}], permissions: [] })).toThrow(
+        "Invalid RBAC policy: role at index 0 missing 'value'",
+      );
+      expect(() =>
+        loadRbacPolicy({ permissions: [{ name: "a:b", roles: "admin" }] }),
+      ).toThrow("Invalid RBAC policy: permission 'a:b' missing 'roles' array");
+    });
+  });
+
+  describe("getPermissionsForRoles", () => {
+    it("should return unique permissions granted by any role", () => {
+      const policy = loadRbacPolicyFile(builderRbacPath);
+
+      expect(getPermissionsForRoles(policy, ["aifabrix-user"])).toEqual([
+        "miso-test:read",
+      ]);
+      expect(
+        getPermissionsForRoles(policy, ["aifabrix-user", "aifabrix-developer"]),
+      ).toEqual(["miso-test:read", "miso-test:write"]);
+      expect(getPermissionsForRoles(policy, [])).toEqual([]);
+    });
+  });
+});
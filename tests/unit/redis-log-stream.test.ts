@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the Redis Streams log queue
+ */
+
+import {
+  appendLogsToStream,
+  getLogStreamKey,
+} from "../../src/services/redis-log-stream";
+import { RedisService } from "../../src/services/redis.service";
+import { LogEntry } from "../../src/types/config.types";
+
+describe("redis-log-stream", () => {
+  let transaction: { xadd: jest.Mock; exec: jest.Mock };
+  let redis: RedisService;
+
+  const entry = (message: string): LogEntry => ({
+    timestamp: "2026-01-01T00:00:00.000Z",
+    level: "audit",
+    environment: "test",
+    application: "app",
+    applicationId: "",
+    message,
+  });
+
+  beforeEach(() => {
+    transaction = {
+      xadd: jest.fn(),
+      exec: jest.fn().mockResolvedValue([[null, "1-0"]]),
+    };
+    // Same contract as RedisService.execute: fallback on error
+    redis = {
+      execute: jest.fn(async (_name, fallback, command) => {
+        try {
+          return await command({ multi: () => transaction });
+        } catch {
+          return fallback;
+        }
+      }),
+    } as unknown as RedisService;
+  });
+
+  it("should build stream keys per log kind", () => {
+    expect(getLogStreamKey("logs", "app")).toBe("logs:app:stream");
+    expect(getLogStreamKey("audit-logs", "app")).toBe("audit-logs:app:stream");
+  });
+
+  it("should append one message per entry with approximate MAXLEN", async () => {
+    const result = await appendLogsToStream(redis, "audit-logs:app:stream", [
+      entry("a"),
+      entry("b"),
+    ]);
+
+    expect(result).toBe(true);
+    expect(transaction.xadd).toHaveBeenCalledTimes(2);
+    expect(transaction.xadd).toHaveBeenCalledWith(
+      "audit-logs:app:stream",
+      "MAXLEN",
+      "~",
+      100000,
+      "*",
+      "log",
+      JSON.stringify(entry("a")),
+    );
+  });
+
+  it("should use the configured max length", async () => {
+    await appendLogsToStream(redis, "logs:app:stream", [entry("a")], {
+      host: "localhost",
+      logStreamMaxLen: 500,
+    });
+
+    expect(transaction.xadd.mock.calls[0][3]).toBe(500);
+  });
+
+  it("should return false when the transaction fails", async () => {
+    transaction.exec.mockResolvedValueOnce([[new Error("OOM"), null]]);
+    expect(await appendLogsToStream(redis, "s", [entry("a")])).toBe(false);
+
+    transaction.exec.mockResolvedValueOnce(null);
+    expect(await appendLogsToStream(redis, "s", [entry("a")])).toBe(false);
+  });
+});
@@ -6,6 +6,12 @@ import { RedisService } from "../../src/services/redis.service";
 import { RedisConfig } from "../../src/types/config.types";
 
 // Mock ioredis
+const mockSubscriber = {
+  subscribe: jest.fn(),
+  on: jest.fn(),
+  disconnect: jest.fn(),
+};
+
 const mockRedis = {
   connect: jest.fn(),
   disconnect: jest.fn(),
@@ -13,10 +19,29 @@ const mockRedis = {
   setex: jest.fn(),
   del: jest.fn(),
   rpush: jest.fn(),
+  publish: jest.fn(),
+  scan: jest.fn(),
+  unlink: jest.fn(),
+  ttl: jest.fn(),
+  on: jest.fn(),
+  duplicate: jest.fn(() => mockSubscriber),
+};
+
+const mockClusterNodes = [{ scan: jest.fn() }, { scan: jest.fn() }];
+
+const mockCluster = {
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+  unlink: jest.fn(),
+  on: jest.fn(),
+  nodes: jest.fn(() => mockClusterNodes),
 };
 
 jest.mock("ioredis", () => {
-  return jest.fn().mockImplementation(() => mockRedis);
+  const RedisMock = jest.fn().mockImplementation(() => mockRedis);
+  return Object.assign(RedisMock, {
+    Cluster: jest.fn().mockImplementation(() => mockCluster),
+  });
 });
 
 // Mock console methods to avoid test output noise
@@ -173,17 +198,393 @@ describe("RedisService", () => {
     });
   });
 
+  describe("Pattern Deletion", () => {
+    beforeEach(async () => {
+      mockRedis.connect.mockResolvedValue(undefined);
+      await redisService.connect();
+    });
+
+    it("should scan with prefixed pattern and unlink unprefixed keys", async () => {
+      mockRedis.scan
+        .mockResolvedValueOnce(["42", ["test:permissions:u1"]])
+        .mockResolvedValueOnce([
+          "0",
+          ["test:permissions:u2", "test:permissions:u3"],
+        ]);
+      mockRedis.unlink.mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+      const result = await redisService.deleteByPattern("permissions:*");
+
+      expect(result).toBe(3);
+      expect(mockRedis.scan).toHaveBeenNthCalledWith(
+        1,
+        "0",
+        "MATCH",
+        "test:permissions:*",
+        "COUNT",
+        expect.any(Number),
+      );
+      expect(mockRedis.scan).toHaveBeenNthCalledWith(
+        2,
+        "42",
+        "MATCH",
+        "test:permissions:*",
+        "COUNT",
+        expect.any(Number),
+      );
+      expect(mockRedis.unlink).toHaveBeenCalledWith("permissions:u1");
+      expect(mockRedis.unlink).toHaveBeenCalledWith(
+        "permissions:u2",
+        "permissions:u3",
+      );
+    });
+
+    it("should skip unlink for empty scan pages", async () => {
+      mockRedis.scan.mockResolvedValueOnce(["0", []]);
+
+      const result = await redisService.deleteByPattern("roles:*");
+
+      expect(result).toBe(0);
+      expect(mockRedis.unlink).not.toHaveBeenCalled();
+    });
+
+    it("should escape glob characters in key prefix", async () => {
+      const service = new RedisService({ ...config, keyPrefix: "app[1]:" });
+      await service.connect();
+      mockRedis.scan.mockResolvedValueOnce(["0", []]);
+
+      await service.deleteByPattern("roles:*");
+
+      expect(mockRedis.scan).toHaveBeenCalledWith(
+        "0",
+        "MATCH",
+        "app\\[1\\]:roles:*",
+        "COUNT",
+        expect.any(Number),
+      );
+    });
+
+    it("should scan every cluster master and unlink keys individually", async () => {
+      const service = new RedisService({
+        keyPrefix: "test:",
+        cluster: [{ host: "n1", port: 6379 }],
+      });
+      mockCluster.connect.mockResolvedValue(undefined);
+      await service.connect();
+      mockClusterNodes[0].scan.mockResolvedValueOnce([
+        "0",
+        ["test:roles:u1", "test:roles:u2"],
+      ]);
+      mockClusterNodes[1].scan.mockResolvedValueOnce(["0", ["test:roles:u3"]]);
+      mockCluster.unlink.mockResolvedValue(1);
+
+      const result = await service.deleteByPattern("roles:*");
+
+      expect(result).toBe(3);
+      expect(mockCluster.nodes).toHaveBeenCalledWith("master");
+      expect(mockCluster.unlink).toHaveBeenCalledTimes(3);
+      expect(mockCluster.unlink).toHaveBeenCalledWith("roles:u1");
+      expect(mockCluster.unlink).toHaveBeenCalledWith("roles:u3");
+      expect(mockRedis.scan).not.toHaveBeenCalled();
+    });
+
+    it("should return keys deleted before an error", async () => {
+      mockRedis.scan
+        .mockResolvedValueOnce(["7", ["test:roles:u1"]])
+        .mockRejectedValueOnce(new Error("Scan error"));
+      mockRedis.unlink.mockResolvedValueOnce(1);
+
+      const result = await redisService.deleteByPattern("roles:*");
+
+      expect(result).toBe(1);
+    });
+  });
+
+  describe("Scan and TTL", () => {
+    beforeEach(async () => {
+      mockRedis.connect.mockResolvedValue(undefined);
+      await redisService.connect();
+    });
+
+    it("should scan all pages and return unprefixed keys", async () => {
+      mockRedis.scan
+        .mockResolvedValueOnce(["5", ["test:roles:u1"]])
+        .mockResolvedValueOnce(["0", ["test:roles:u2"]]);
+
+      const keys = await redisService.scan("roles:*");
+
+      expect(keys).toEqual(["roles:u1", "roles:u2"]);
+      expect(mockRedis.scan).toHaveBeenCalledWith(
+        "0",
+        "MATCH",
+        "test:roles:*",
+        "COUNT",
+        expect.any(Number),
+      );
+      expect(mockRedis.unlink).not.toHaveBeenCalled();
+    });
+
+    it("should return no keys on scan errors", async () => {
+      mockRedis.scan.mockRejectedValueOnce(new Error("Scan error"));
+
+      expect(await redisService.scan("roles:*")).toEqual([]);
+    });
+
+    it("should return remaining ttl or null for missing keys", async () => {
+      mockRedis.ttl
+        .mockResolvedValueOnce(42)
+        .mockResolvedValueOnce(-2)
+        .mockResolvedValueOnce(-1);
+
+      expect(await redisService.ttl("a")).toBe(42);
+      expect(await redisService.ttl("missing")).toBeNull();
+      expect(await redisService.ttl("persistent")).toBeNull();
+    });
+
+    it("should return null on ttl errors", async () => {
+      mockRedis.ttl.mockRejectedValueOnce(new Error("TTL error"));
+
+      expect(await redisService.ttl("a")).toBeNull();
+    });
+  });
+
+  describe("Pub/Sub", () => {
+    beforeEach(async () => {
+      mockRedis.connect.mockResolvedValue(undefined);
+      await redisService.connect();
+    });
+
+    it("should publish message to channel", async () => {
+      mockRedis.publish.mockResolvedValue(1);
+
+      const result = await redisService.publish("test:chan", "hello");
+
+      expect(mockRedis.publish).toHaveBeenCalledWith("test:chan", "hello");
+      expect(result).toBe(true);
+    });
+
+    it("should handle publish errors", async () => {
+      mockRedis.publish.mockRejectedValue(new Error("Publish error"));
+
+      const result = await redisService.publish("test:chan", "hello");
+
+      expect(result).toBe(false);
+    });
+
+    it("should subscribe on a duplicated connection and dispatch messages", async () => {
+      mockSubscriber.subscribe.mockResolvedValue(1);
+      const handler = jest.fn();
+      const other = jest.fn();
+
+      const result = await redisService.subscribe("test:chan", handler);
+      await redisService.subscribe("test:chan", other);
+
+      expect(result).toBe(true);
+      expect(mockRedis.duplicate).toHaveBeenCalledTimes(1);
+      expect(mockSubscriber.subscribe).toHaveBeenCalledTimes(1);
+      expect(mockSubscriber.subscribe).toHaveBeenCalledWith("test:chan");
+
+      const onMessage = mockSubscriber.on.mock.calls.find(
+        ([event]) => event === "message",
+      )?.[1] as (channel: string, message: string) => void;
+      onMessage("test:chan", "payload");
+      onMessage("test:other", "ignored");
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith("payload");
+      expect(other).toHaveBeenCalledWith("payload");
+    });
+
+    it("should handle subscribe errors", async () => {
+      mockSubscriber.subscribe.mockRejectedValue(new Error("Subscribe error"));
+
+      const result = await redisService.subscribe("test:chan", jest.fn());
+
+      expect(result).toBe(false);
+    });
+
+    it("should disconnect subscriber on disconnect", async () => {
+      mockSubscriber.subscribe.mockResolvedValue(1);
+      mockSubscriber.disconnect.mockResolvedValue(undefined);
+      mockRedis.disconnect.mockResolvedValue(undefined);
+      await redisService.subscribe("test:chan", jest.fn());
+
+      await redisService.disconnect();
+
+      expect(mockSubscriber.disconnect).toHaveBeenCalled();
+    });
+
+    it("should expose key prefix", () => {
+      expect(redisService.getKeyPrefix()).toBe("test:");
+      expect(new RedisService({ host: "h", port: 1 }).getKeyPrefix()).toBe(
+        "miso:",
+      );
+    });
+  });
+
   describe("Disconnected State", () => {
     it("should return false for operations when disconnected", async () => {
       const getResult = await redisService.get("test-key");
       const setResult = await redisService.set("test-key", "value", 300);
       const deleteResult = await redisService.delete("test-key");
       const pushResult = await redisService.rpush("queue", "message");
+      const publishResult = await redisService.publish("chan", "message");
+      const subscribeResult = await redisService.subscribe("chan", jest.fn());
+      const patternResult = await redisService.deleteByPattern("roles:*");
+      const scanResult = await redisService.scan("roles:*");
+      const ttlResult = await redisService.ttl("test-key");
 
       expect(getResult).toBeNull();
       expect(setResult).toBe(false);
       expect(deleteResult).toBe(false);
       expect(pushResult).toBe(false);
+      expect(publishResult).toBe(false);
+      expect(subscribeResult).toBe(false);
+      expect(patternResult).toBe(0);
+      expect(scanResult).toEqual([]);
+      expect(ttlResult).toBeNull();
+    });
+  });
+
+  describe("Connection State", () => {
+    /** Latest handler registered on the client for each ioredis event */
+    const clientListener = (event: string): (() => void) =>
+      mockRedis.on.mock.calls.filter(([name]) => name === event).pop()?.[1];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      config.reconnectDelayMs = 100;
+      config.maxReconnectDelayMs = 300;
+      redisService = new RedisService(config);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should emit connecting and ready on connect", async () => {
+      mockRedis.connect.mockResolvedValue(undefined);
+      const changes: unknown[] = [];
+      const onReady = jest.fn();
+      redisService.on("stateChange", (change) => changes.push(change));
+      redisService.on("ready", onReady);
+
+      await redisService.connect();
+
+      expect(changes).toEqual([
+        { state: "connecting", previous: "disconnected" },
+        { state: "ready", previous: "connecting" },
+      ]);
+      expect(onReady).toHaveBeenCalledTimes(1);
+      expect(redisService.getState()).toBe("ready");
+    });
+
+    it("should report down with error and reconnect in the background", async () => {
+      mockRedis.connect
+        .mockRejectedValueOnce(new Error("ECONNREFUSED"))
+        .mockResolvedValue(undefined);
+      const onDown = jest.fn();
+      redisService.on("down", onDown);
+
+      await expect(redisService.connect()).rejects.toThrow("ECONNREFUSED");
+      expect(redisService.getState()).toBe("down");
+      expect(onDown).toHaveBeenCalledWith({
+        state: "down",
+        previous: "connecting",
+        error: "ECONNREFUSED",
+      });
+      expect(mockRedis.disconnect).toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(mockRedis.connect).toHaveBeenCalledTimes(2);
+      expect(redisService.getState()).toBe("ready");
+      expect(redisService.isConnected()).toBe(true);
+    });
+
+    it("should back off exponentially up to the max delay", async () => {
+      mockRedis.connect.mockRejectedValue(new Error("ECONNREFUSED"));
+
+      await expect(redisService.connect()).rejects.toThrow();
+      await jest.advanceTimersByTimeAsync(100);
+      expect(mockRedis.connect).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(199);
+      expect(mockRedis.connect).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockRedis.connect).toHaveBeenCalledTimes(3);
+      await jest.advanceTimersByTimeAsync(300);
+      expect(mockRedis.connect).toHaveBeenCalledTimes(4);
+      await jest.advanceTimersByTimeAsync(300);
+      expect(mockRedis.connect).toHaveBeenCalledTimes(5);
+    });
+
+    it("should not reconnect when reconnect is disabled", async () => {
+      mockRedis.connect.mockRejectedValue(new Error("ECONNREFUSED"));
+      redisService = new RedisService({ ...config, reconnect: false });
+
+      await expect(redisService.connect()).rejects.toThrow();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(mockRedis.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop reconnecting after disconnect", async () => {
+      mockRedis.connect.mockRejectedValue(new Error("ECONNREFUSED"));
+
+      await expect(redisService.connect()).rejects.toThrow();
+      await redisService.disconnect();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(mockRedis.connect).toHaveBeenCalledTimes(1);
+      expect(redisService.getState()).toBe("disconnected");
+    });
+
+    it("should become degraded while the client reconnects", async () => {
+      mockRedis.connect.mockResolvedValue(undefined);
+      await redisService.connect();
+
+      clientListener("reconnecting")();
+      expect(redisService.getState()).toBe("degraded");
+      expect(redisService.isConnected()).toBe(false);
+      expect(await redisService.get("key")).toBeNull();
+      expect(mockRedis.get).not.toHaveBeenCalled();
+
+      clientListener("ready")();
+      expect(redisService.getState()).toBe("ready");
+      expect(redisService.isConnected()).toBe(true);
+    });
+
+    it("should go down and reconnect when the connection ends", async () => {
+      mockRedis.connect.mockResolvedValue(undefined);
+      await redisService.connect();
+
+      clientListener("end")();
+      expect(redisService.getState()).toBe("down");
+      expect(redisService.isConnected()).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(mockRedis.connect).toHaveBeenCalledTimes(2);
+      expect(redisService.getState()).toBe("ready");
+    });
+
+    it("should restore subscriptions after reconnecting", async () => {
+      mockRedis.connect.mockResolvedValue(undefined);
+      mockSubscriber.subscribe.mockResolvedValue(1);
+      const handler = jest.fn();
+      await redisService.connect();
+      await redisService.subscribe("test:chan", handler);
+
+      clientListener("end")();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(mockSubscriber.disconnect).toHaveBeenCalled();
+      expect(mockRedis.duplicate).toHaveBeenCalledTimes(2);
+      expect(mockSubscriber.subscribe).toHaveBeenLastCalledWith("test:chan");
+      const onMessage = mockSubscriber.on.mock.calls
+        .filter(([event]) => event === "message")
+        .pop()?.[1] as (channel: string, message: string) => void;
+      onMessage("test:chan", "payload");
+      expect(handler).toHaveBeenCalledWith("payload");
     });
   });
 });
@@ -7,6 +7,7 @@ import { HttpClient } from "../../src/utils/http-client";
 import { ApiClient } from "../../src/api";
 import { CacheService } from "../../src/services/cache.service";
 import { MisoClientConfig } from "../../src/types/config.types";
+import { LocalRbacService } from "../../src/services/local-rbac.service";
 
 // Mock HttpClient
 jest.mock("../../src/utils/http-client");
@@ -366,4 +367,110 @@ describe("RoleService", () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe("local RBAC mode", () => {
+    it("should resolve roles from LocalRbacService without calling controller", async () => {
+      const localRbac = {
+        getRoles: jest.fn().mockResolvedValue(["aifabrix-admin"]),
+      } as unknown as LocalRbacService;
+      const localService = new RoleService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+        localRbac,
+      );
+
+      expect(await localService.getRoles("token")).toEqual(["aifabrix-admin"]);
+      expect(await localService.refreshRoles("token")).toEqual([
+        "aifabrix-admin",
+      ]);
+      expect(await localService.hasRole("token", "aifabrix-admin")).toBe(true);
+      expect(mockApiClient.auth.validateToken).not.toHaveBeenCalled();
+      expect(mockApiClient.roles.getRoles).not.toHaveBeenCalled();
+      expect(mockCacheService.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("request coalescing and stale-while-revalidate", () => {
+    const rolesResponse = (roles: string[]) => ({
+      success: true,
+      data: { roles },
+      timestamp: new Date().toISOString(),
+    });
+
+    it("should share one controller call across concurrent cache misses", async () => {
+      mockCacheService.get.mockResolvedValue(null);
+      mockCacheService.set.mockResolvedValue(true);
+      mockExtractUserIdFromToken.mockReturnValue("123");
+      let resolveRoles: (value: unknown) => void = () => undefined;
+      mockApiClient.roles.getRoles.mockReturnValue(
+        new Promise((resolve) => {
+          resolveRoles = resolve;
+        }),
+      );
+
+      const pending = [
+        roleService.getRoles("token-a"),
+        roleService.getRoles("token-b"),
+        roleService.getRoles("token-c"),
+      ];
+      await new Promise((resolve) => setImmediate(resolve));
+      resolveRoles(rolesResponse(["admin"]));
+
+      expect(await Promise.all(pending)).toEqual([
+        ["admin"],
+        ["admin"],
+        ["admin"],
+      ]);
+      expect(mockApiClient.roles.getRoles).toHaveBeenCalledTimes(1);
+      expect(mockCacheService.set).toHaveBeenCalledTimes(1);
+    });
+
+    it("should serve stale roles and refresh once in the background", async () => {
+      config.cache = { roleTTL: 900, staleWhileRevalidate: 60 };
+      const service = new RoleService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+      );
+      mockExtractUserIdFromToken.mockReturnValue("123");
+      mockCacheService.get.mockResolvedValue({
+        roles: ["old"],
+        timestamp: Date.now() - 901 * 1000,
+      });
+      mockCacheService.set.mockResolvedValue(true);
+      mockApiClient.roles.getRoles.mockResolvedValue(rolesResponse(["new"]));
+
+      const results = await Promise.all([
+        service.getRoles("token"),
+        service.getRoles("token"),
+      ]);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(results).toEqual([["old"], ["old"]]);
+      expect(mockApiClient.roles.getRoles).toHaveBeenCalledTimes(1);
+      expect(mockCacheService.set).toHaveBeenCalledWith(
+        "roles:123",
+        expect.objectContaining({ roles: ["new"] }),
+        960,
+      );
+    });
+
+    it("should not refresh fresh entries within the stale window", async () => {
+      config.cache = { roleTTL: 900, staleWhileRevalidate: 60 };
+      const service = new RoleService(
+        mockHttpClient,
+        mockApiClient as unknown as ApiClient,
+        mockCacheService,
+      );
+      mockExtractUserIdFromToken.mockReturnValue("123");
+      mockCacheService.get.mockResolvedValue({
+        roles: ["admin"],
+        timestamp: Date.now(),
+      });
+
+      expect(await service.getRoles("token")).toEqual(["admin"]);
+      expect(mockApiClient.roles.getRoles).not.toHaveBeenCalled();
+    });
+  });
 });
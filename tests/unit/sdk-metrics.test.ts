@@ -0,0 +1,117 @@
+/**
+ * Unit tests for SDK metrics instrumentation
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CacheService } from "../../src/services/cache.service";
+import { LogSpool, spoolOrDrop } from "../../src/utils/log-spool";
+import { metricsRegistry } from "../../src/utils/metrics-registry";
+import {
+  cacheNamespace,
+  normalizeEndpoint,
+  recordRedisState,
+  sdkMetrics,
+} from "../../src/utils/sdk-metrics";
+import { LogEntry } from "../../src/types/config.types";
+
+describe("SDK metrics", () => {
+  const entry = (
+    message: string,
+    level: LogEntry["level"] = "audit",
+  ): LogEntry => ({
+    timestamp: "2026-01-01T00:00:00.000Z",
+    level,
+    environment: "test",
+    application: "app",
+    applicationId: "",
+    message,
+  });
+
+  beforeEach(() => {
+    metricsRegistry.reset();
+  });
+
+  describe("normalizeEndpoint", () => {
+    it.each([
+      ["https://controller.example.com/api/v1/logs?x=1", "/api/v1/logs"],
+      ["/api/v1/users/42", "/api/v1/users/:id"],
+      [
+        "/api/v1/sessions/3f2b8c1e-0d4a-4c9e-9b1a-2f6e8d7c5a41/refresh",
+        "/api/v1/sessions/:id/refresh",
+      ],
+      ["/api/v1/apps/65a1f0c2e4b0a1b2c3d4e5f6", "/api/v1/apps/:id"],
+      ["/api/v1/auth/token", "/api/v1/auth/token"],
+      [undefined, "/"],
+    ])("should normalize %s to %s", (url, expected) => {
+      expect(normalizeEndpoint(url)).toBe(expected);
+    });
+  });
+
+  it("should derive the cache namespace from the key prefix", () => {
+    expect(cacheNamespace("roles:user-1")).toBe("roles");
+    expect(cacheNamespace("plain")).toBe("default");
+  });
+
+  it("should count cache lookups and report the hit ratio per namespace", async () => {
+    const cache = new CacheService();
+    await cache.set("roles:u1", ["admin"], 60);
+    await cache.get("roles:u1");
+    await cache.get("roles:u2");
+    await cache.get("permissions:u1");
+
+    expect(
+      sdkMetrics.cacheLookups.get({ namespace: "roles", result: "hit" }),
+    ).toBe(1);
+    const output = metricsRegistry.render();
+    expect(output).toContain('miso_cache_hit_ratio{namespace="roles"} 0.5');
+    expect(output).toContain('miso_cache_hit_ratio{namespace="permissions"} 0');
+    cache.destroy();
+  });
+
+  it("should set the Redis state gauge to 1 for the current state only", () => {
+    recordRedisState("ready");
+    recordRedisState("degraded");
+
+    expect(sdkMetrics.redisState.get({ state: "degraded" })).toBe(1);
+    expect(sdkMetrics.redisState.get({ state: "ready" })).toBe(0);
+  });
+
+  it("should count logs as dropped when no spool is configured", async () => {
+    await spoolOrDrop(undefined, [entry("a"), entry("b")], "circuit_open");
+
+    expect(sdkMetrics.logsDropped.get({ reason: "circuit_open" })).toBe(2);
+  });
+
+  it("should count entries the spool does not accept as dropped", async () => {
+    const spool = new LogSpool({ directory: os.tmpdir() });
+    const append = jest.spyOn(spool, "append").mockResolvedValue(true);
+
+    await spoolOrDrop(spool, [entry("a"), entry("b", "info")], "circuit_open");
+
+    expect(append).toHaveBeenCalledWith([entry("a")]);
+    expect(sdkMetrics.logsDropped.get({ reason: "circuit_open" })).toBe(1);
+    jest.restoreAllMocks();
+  });
+
+  it("should count entries dropped by the spool size cap", async () => {
+    const base = fs.mkdtempSync(path.join(os.tmpdir(), "metrics-spool-"));
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const spool = new LogSpool({
+        directory: base,
+        maxFileBytes: 1,
+        maxTotalBytes: 1,
+      });
+      await spoolOrDrop(spool, [entry("a"), entry("b")], "delivery_failed");
+      await spoolOrDrop(spool, [entry("c")], "delivery_failed");
+
+      expect(sdkMetrics.logsDropped.get({ reason: "spool_cap" })).toBe(2);
+      expect(sdkMetrics.logsDropped.get({ reason: "delivery_failed" })).toBe(0);
+    } finally {
+      fs.rmSync(base, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for minimal YAML parser
+ */
+
+import { parseSimpleYaml } from "../../src/utils/simple-yaml";
+
+describe("parseSimpleYaml", () => {
+  it("should parse nested mappings, sequences and scalars", () => {
+    const yaml = [
+      "# comment",
+      "name: miso-test # trailing comment",
+      "enabled: true",
+      "port: 3000",
+      "empty:",
+      "tags: [a, 'b', \"c\"]",
+      "nested:",
+      "  key: value",
+      "  list:",
+      "    - one",
+      "    - two",
+    ].join("\n");
+
+    expect(parseSimpleYaml(yaml)).toEqual({
+      name: "miso-test",
+      enabled: true,
+      port: 3000,
+      empty: null,
+      tags: ["a", "b", "c"],
+      nested: { key: "value", list: ["one", "two"] },
+    });
+  });
+
+  it("should parse sequences of mappings including non-indented sequences", () => {
+    const yaml = [
+      "items:",
+      "- name: first",
+      "  roles:",
+      "    - admin",
+      "- name: second",
+      "  roles: []",
+    ].join("\n");
+
+    expect(parseSimpleYaml(yaml)).toEqual({
+      items: [
+        { name: "first", roles: ["admin"] },
+        { name: "second", roles: [] },
+      ],
+    });
+  });
+
+  it("should keep '#' inside quoted values", () => {
+    expect(parseSimpleYaml('color: "#fff"')).toEqual({ color: "#fff" });
+  });
+
+  it("should return null for empty documents", () => {
+    expect(parseSimpleYaml("# only comments\n\n")).toBeNull();
+  });
+
+  it("should throw on invalid indentation", () => {
+    expect(() => parseSimpleYaml("a: 1\n    b: 2")).toThrow(
+      "Invalid YAML: unexpected indentation on line 2",
+    );
+  });
+
+  it("should throw on tab indentation", () => {
+    expect(() => parseSimpleYaml("a:\n\tb: 1")).toThrow(
+      "Invalid YAML: tab indentation on line 2",
+    );
+  });
+
+  it("should keep commas inside quoted flow list items", () => {
+    expect(parseSimpleYaml(`tags: ["a, b", 'c,d', e]`)).toEqual({
+      tags: ["a, b", "c,d", "e"],
+    });
+  });
+
+  it("should create mappings without a prototype", () => {
+    const result = parseSimpleYaml("roles:\n  admin: true") as Record<
+      string,
+      Record<string, unknown>
+    >;
+
+    expect(Object.getPrototypeOf(result)).toBeNull();
+    expect(Object.getPrototypeOf(result.roles)).toBeNull();
+    expect(result.roles.admin).toBe(true);
+  });
+
+  it.each(["__proto__", "constructor", "prototype", '"__proto__"'])(
+    "should reject the %s key",
+    (key) => {
+      expect(() =>
+        parseSimpleYaml(`roles:\n  ${key}:\n    admin: true`),
+      ).toThrow(
+        /Invalid YAML: forbidden key "(__proto__|constructor|prototype)" on line 2/,
+      );
+      expect(({} as Record<string, unknown>).admin).toBeUndefined();
+    },
+  );
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for TokenRevocationService
+ */
+
+import { CacheService } from "../../src/services/cache.service";
+import {
+  DEFAULT_SESSION_REVOCATION_TTL,
+  TokenRevocationService,
+} from "../../src/services/token-revocation.service";
+
+/** Unsigned JWT with the given payload (revocation never verifies signatures) */
+const unsignedJwt = (payload: Record<string, unknown>): string => {
+  const encode = (value: unknown): string =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "none" })}.${encode(payload)}.`;
+};
+
+describe("TokenRevocationService", () => {
+  let cache: CacheService;
+  let revocation: TokenRevocationService;
+
+  beforeEach(() => {
+    cache = new CacheService();
+    revocation = new TokenRevocationService(cache);
+  });
+
+  afterEach(() => {
+    cache.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it("should revoke a token's jti until exp and its session by sid", async () => {
+    const set = jest.spyOn(cache, "set");
+    const exp = Math.floor(Date.now() / 1000) + 300;
+
+    expect(
+      await revocation.revokeToken(
+        unsignedJwt({ jti: "jti-1", sid: "sid-1", exp }),
+      ),
+    ).toBe(true);
+
+    expect(set).toHaveBeenCalledWith(
+      "revoked:jti:jti-1",
+      expect.any(Number),
+      expect.any(Number),
+    );
+    expect(set.mock.calls[0][2]).toBeGreaterThan(298);
+    expect(set.mock.calls[0][2]).toBeLessThanOrEqual(300);
+    expect(set).toHaveBeenCalledWith(
+      "revoked:sid:sid-1",
+      expect.any(Number),
+      DEFAULT_SESSION_REVOCATION_TTL,
+    );
+    expect(await revocation.isRevoked({ jti: "jti-1" })).toBe(true);
+    expect(await revocation.isRevoked({ sid: "sid-1", jti: "other" })).toBe(
+      true,
+    );
+    expect(await revocation.isRevoked({ jti: "jti-2", sid: "sid-2" })).toBe(
+      false,
+    );
+  });
+
+  it("should skip the jti of an already expired token", async () => {
+    const set = jest.spyOn(cache, "set");
+
+    await revocation.revokeToken(
+      unsignedJwt({ jti: "old", exp: Math.floor(Date.now() / 1000) - 10 }),
+    );
+
+    expect(set).not.toHaveBeenCalled();
+  });
+
+  it("should return false for tokens without jti/sid or that cannot be decoded", async () => {
+    expect(await revocation.revokeToken(unsignedJwt({ sub: "u1" }))).toBe(
+      false,
+    );
+    expect(await revocation.revokeToken("not-a-jwt")).toBe(false);
+    expect(await revocation.isRevoked(undefined)).toBe(false);
+  });
+
+  it("should only look up claims the token has", async () => {
+    const get = jest.spyOn(cache, "get");
+
+    expect(await revocation.isRevoked({})).toBe(false);
+    expect(await revocation.isRevoked({ jti: "", sid: 42 })).toBe(false);
+    expect(get).not.toHaveBeenCalled();
+
+    await revocation.isRevoked({ sid: "sid-1" });
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledWith("revoked:sid:sid-1");
+  });
+
+  it("should revoke sessions and token IDs directly", async () => {
+    await revocation.revokeSession("sid-9", 60);
+    await revocation.revokeTokenId("jti-9", 60);
+
+    expect(await revocation.isRevoked({ sid: "sid-9" })).toBe(true);
+    expect(await revocation.isRevoked({ jti: "jti-9" })).toBe(true);
+  });
+
+  it("should revoke tokens of a subject issued before the revocation", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await revocation.revokeSubject("user-1", 60);
+
+    expect(await revocation.isRevoked({ sub: "user-1", iat: now - 10 })).toBe(
+      true,
+    );
+    expect(await revocation.isRevoked({ sub: "user-1" })).toBe(true);
+    expect(await revocation.isRevoked({ sub: "user-1", iat: now + 10 })).toBe(
+      false,
+    );
+    expect(await revocation.isRevoked({ sub: "user-2", iat: now - 10 })).toBe(
+      false,
+    );
+  });
+
+  it("should check encoded tokens and ignore tokens that are not JWTs", async () => {
+    await revocation.revokeSession("sid-1");
+
+    expect(await revocation.isTokenRevoked(unsignedJwt({ sid: "sid-1" }))).toBe(
+      true,
+    );
+    expect(await revocation.isTokenRevoked(unsignedJwt({ sid: "sid-2" }))).toBe(
+      false,
+    );
+    expect(await revocation.isTokenRevoked("opaque-token")).toBe(false);
+  });
+});
@@ -3,6 +3,8 @@
  */
 
 import { TokenValidationService } from "../../src/services/token-validation.service";
+import type { TokenRevocationService } from "../../src/services/token-revocation.service";
+import { LoggerContextStorage } from "../../src/services/logger/logger-context-storage";
 import {
   KeycloakConfig,
   DelegatedProviderConfig,
@@ -532,6 +534,567 @@ describe("TokenValidationService", () => {
     });
   });
 
+  describe("Revocation", () => {
+    const payload = {
+      sub: "user-123",
+      iss: "https://keycloak.example.com/realms/test-realm",
+      jti: "jti-1",
+      sid: "sid-1",
+    };
+    let revocation: { isRevoked: jest.Mock };
+
+    beforeEach(() => {
+      revocation = { isRevoked: jest.fn().mockResolvedValue(false) };
+      service = new TokenValidationService(
+        keycloakConfig,
+        revocation as unknown as TokenRevocationService,
+      );
+      jose.decodeJwt.mockReturnValue({ iss: payload.iss });
+      jose.jwtVerify.mockResolvedValue({ payload });
+    });
+
+    it("should reject a fresh valid token whose jti or sid is revoked", async () => {
+      revocation.isRevoked.mockResolvedValue(true);
+
+      const result = await service.validateTokenLocal("revoked.token");
+
+      expect(result).toEqual({
+        valid: false,
+        tokenType: "keycloak",
+        realm: "test-realm",
+        error: "Token has been revoked",
+        errorCode: "revoked",
+      });
+      expect(revocation.isRevoked).toHaveBeenCalledWith(
+        expect.objectContaining({ jti: "jti-1", sid: "sid-1" }),
+      );
+    });
+
+    it("should check the revocation list before returning a cached valid result", async () => {
+      expect((await service.validateTokenLocal("cached.token")).valid).toBe(
+        true,
+      );
+      revocation.isRevoked.mockResolvedValue(true);
+
+      const result = await service.validateTokenLocal("cached.token");
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe("Token has been revoked");
+      expect(jose.jwtVerify).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip the revocation list when skipRevocationCheck is set", async () => {
+      revocation.isRevoked.mockResolvedValue(true);
+
+      const result = await service.validateTokenLocal("logout.token", {
+        skipRevocationCheck: true,
+      });
+
+      expect(result.valid).toBe(true);
+      expect(revocation.isRevoked).not.toHaveBeenCalled();
+    });
+
+    it("should not consult the revocation list for invalid tokens", async () => {
+      jose.jwtVerify.mockRejectedValue(
+        new Error("signature verification failed"),
+      );
+
+      const result = await service.validateTokenLocal("bad.token");
+
+      expect(result.valid).toBe(false);
+      expect(revocation.isRevoked).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Validation policy", () => {
+    const issuer = "https://keycloak.example.com/realms/test-realm";
+    const payload = {
+      sub: "user-123",
+      iss: issuer,
+      azp: "web-app",
+      typ: "Bearer",
+      scope: "openid profile orders:read",
+    };
+    /** jose-style error with code, claim and reason */
+    const joseError = (
+      message: string,
+      code: string,
+      claim?: string,
+      reason?: string,
+    ): Error => Object.assign(new Error(message), { code, claim, reason });
+
+    beforeEach(() => {
+      jose.decodeJwt.mockReturnValue({ iss: issuer });
+      jose.jwtVerify.mockResolvedValue({ payload });
+    });
+
+    it("should pass algorithms, clock tolerance, max age and required claims to jose", async () => {
+      service = new TokenValidationService({
+        ...keycloakConfig,
+        policy: {
+          algorithms: ["RS256"],
+          clockTolerance: 30,
+          maxTokenAge: "1h",
+          requiredClaims: ["azp"],
+        },
+      });
+
+      const result = await service.validateTokenLocal("policy.token");
+
+      expect(result.valid).toBe(true);
+      expect(jose.jwtVerify).toHaveBeenCalledWith("policy.token", mockKeySet, {
+        issuer,
+        algorithms: ["RS256"],
+        clockTolerance: 30,
+        maxTokenAge: "1h",
+        requiredClaims: ["azp"],
+      });
+    });
+
+    it.each([
+      [{ authorizedParty: "admin-app" }, "invalid_claim", '"azp"'],
+      [{ authorizedParty: ["admin-app", "web-app"] }, undefined, undefined],
+      [{ typ: "ID" }, "invalid_claim", '"typ"'],
+      [{ requiredScopes: ["orders:write"] }, "invalid_claim", "orders:write"],
+      [{ requiredScopes: ["openid", "orders:read"] }, undefined, undefined],
+    ])("should check policy claims %j", async (policy, errorCode, message) => {
+      const result = await service.validateTokenLocal("claims.token", {
+        policy,
+      });
+
+      expect(result.valid).toBe(errorCode === undefined);
+      expect(result.errorCode).toBe(errorCode);
+      if (message) expect(result.error).toContain(message);
+    });
+
+    it("should report missing policy claims", async () => {
+      jose.jwtVerify.mockResolvedValue({
+        payload: { sub: "user-123", iss: issuer },
+      });
+
+      const result = await service.validateTokenLocal("claims.token", {
+        policy: { typ: "Bearer" },
+      });
+
+      expect(result).toMatchObject({
+        valid: false,
+        errorCode: "missing_claim",
+        error: 'missing required "typ" claim',
+      });
+    });
+
+    it("should run custom claim validators with the mapped payload", async () => {
+      const validator = jest.fn((claims: { sub: string }) =>
+        claims.sub === "user-123" ? "user is blocked" : null,
+      );
+
+      const result = await service.validateTokenLocal("claims.token", {
+        policy: { claimValidators: [async () => null, validator] },
+      });
+
+      expect(validator).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: "user-123", azp: "web-app" }),
+      );
+      expect(result).toMatchObject({
+        valid: false,
+        tokenType: "keycloak",
+        errorCode: "invalid_claim",
+        error: "user is blocked",
+      });
+    });
+
+    it("should let per-call policy fields override the Keycloak policy without caching", async () => {
+      service = new TokenValidationService({
+        ...keycloakConfig,
+        policy: { algorithms: ["RS256"], authorizedParty: "admin-app" },
+      });
+
+      expect((await service.validateTokenLocal("claims.token")).errorCode).toBe(
+        "invalid_claim",
+      );
+      const result = await service.validateTokenLocal("override.token", {
+        policy: { authorizedParty: "web-app" },
+      });
+      await service.validateTokenLocal("override.token", {
+        policy: { authorizedParty: "web-app" },
+      });
+
+      expect(result.valid).toBe(true);
+      expect(jose.jwtVerify).toHaveBeenLastCalledWith(
+        "override.token",
+        mockKeySet,
+        expect.objectContaining({ algorithms: ["RS256"] }),
+      );
+      expect(jose.jwtVerify).toHaveBeenCalledTimes(3);
+    });
+
+    it("should apply the delegated provider policy", async () => {
+      jose.decodeJwt.mockReturnValue({ iss: "https://accounts.google.com" });
+      jose.jwtVerify.mockResolvedValue({
+        payload: { sub: "g-1", iss: "https://accounts.google.com" },
+      });
+
+      const result = await service.validateTokenLocal("google.token", {
+        delegatedProvider: {
+          key: "google",
+          issuer: "https://accounts.google.com",
+          jwksUri: "https://www.googleapis.com/oauth2/v3/certs",
+          policy: { requiredScopes: ["email"] },
+        },
+      });
+
+      expect(result).toMatchObject({
+        valid: false,
+        tokenType: "delegated",
+        providerKey: "google",
+        errorCode: "missing_claim",
+      });
+    });
+
+    it.each([
+      [
+        joseError(
+          '"exp" claim timestamp check failed',
+          "ERR_JWT_EXPIRED",
+          "exp",
+          "check_failed",
+        ),
+        "expired",
+      ],
+      [
+        joseError(
+          '"iat" claim timestamp check failed (too far in the past)',
+          "ERR_JWT_EXPIRED",
+          "iat",
+          "check_failed",
+        ),
+        "token_too_old",
+      ],
+      [
+        joseError(
+          "signature verification failed",
+          "ERR_JWS_SIGNATURE_VERIFICATION_FAILED",
+        ),
+        "invalid_signature",
+      ],
+      [
+        joseError(
+          '"alg" (Algorithm) Header Parameter value not allowed',
+          "ERR_JOSE_ALG_NOT_ALLOWED",
+        ),
+        "algorithm_not_allowed",
+      ],
+      [
+        joseError(
+          'unexpected "aud" claim value',
+          "ERR_JWT_CLAIM_VALIDATION_FAILED",
+          "aud",
+          "check_failed",
+        ),
+        "invalid_audience",
+      ],
+      [
+        joseError(
+          'missing required "azp" claim',
+          "ERR_JWT_CLAIM_VALIDATION_FAILED",
+          "azp",
+          "missing",
+        ),
+        "missing_claim",
+      ],
+      [new Error("network down"), "validation_failed"],
+    ])(
+      "should map jose error %# to an error code",
+      async (error, errorCode) => {
+        jose.jwtVerify.mockRejectedValue(error);
+
+        const result = await service.validateTokenLocal("bad.token");
+
+        expect(result).toMatchObject({
+          valid: false,
+          error: error.message,
+          errorCode,
+        });
+      },
+    );
+
+    it("should report malformed tokens", async () => {
+      jose.decodeJwt.mockImplementationOnce(() => {
+        throw joseError("Invalid JWT", "ERR_JWT_INVALID");
+      });
+
+      const result = await service.validateTokenLocal("not-a-jwt");
+
+      expect(result.errorCode).toBe("malformed");
+    });
+  });
+
+  describe("Multi-realm", () => {
+    const realm = (name: string, tenantId: string): KeycloakConfig => ({
+      authServerUrl: "https://keycloak.example.com",
+      realm: name,
+      tenantId,
+    });
+    const acmeIssuer = "https://keycloak.example.com/realms/acme";
+
+    beforeEach(() => {
+      jose.decodeJwt.mockReturnValue({ iss: acmeIssuer });
+      jose.jwtVerify.mockResolvedValue({
+        payload: { sub: "user-1", iss: acmeIssuer },
+      });
+    });
+
+    it("should route tokens to the JWKS of the realm that issued them", async () => {
+      service = new TokenValidationService(keycloakConfig, undefined, [
+        realm("globex", "tenant-globex"),
+        realm("acme", "tenant-acme"),
+      ]);
+
+      const result = await service.validateTokenLocal("acme.token");
+
+      expect(result).toMatchObject({
+        valid: true,
+        tokenType: "keycloak",
+        realm: "acme",
+        tenantId: "tenant-acme",
+      });
+      expect(jose.createRemoteJWKSet).toHaveBeenCalledWith(
+        new URL(
+          "https://keycloak.example.com/realms/acme/protocol/openid-connect/certs",
+        ),
+      );
+      expect(jose.jwtVerify).toHaveBeenCalledWith("acme.token", mockKeySet, {
+        issuer: acmeIssuer,
+      });
+    });
+
+    it("should resolve realms with an async lookup", async () => {
+      const lookup = jest.fn(async (iss: string) =>
+        iss === acmeIssuer ? realm("acme", "tenant-acme") : null,
+      );
+      service = new TokenValidationService(undefined, undefined, lookup);
+
+      const result = await service.validateTokenLocal("acme.token");
+
+      expect(result.tenantId).toBe("tenant-acme");
+      expect(lookup).toHaveBeenCalledWith(acmeIssuer);
+    });
+
+    it("should treat unknown issuers as delegated tokens", async () => {
+      service = new TokenValidationService(keycloakConfig, undefined, [
+        realm("globex", "tenant-globex"),
+      ]);
+
+      const result = await service.validateTokenLocal("acme.token");
+
+      expect(result).toMatchObject({
+        valid: false,
+        tokenType: "delegated",
+        errorCode: "not_configured",
+      });
+    });
+
+    it("should report the default realm without a tenant", async () => {
+      const issuer = "https://keycloak.example.com/realms/test-realm";
+      jose.decodeJwt.mockReturnValue({ iss: issuer });
+      jose.jwtVerify.mockResolvedValue({ payload: { sub: "u", iss: issuer } });
+
+      const result = await service.validateTokenLocal("default.token");
+
+      expect(result.realm).toBe("test-realm");
+      expect(result).not.toHaveProperty("tenantId");
+    });
+
+    it("should record realm and tenant on the current logger context", async () => {
+      service = new TokenValidationService(undefined, undefined, [
+        realm("acme", "tenant-acme"),
+      ]);
+      const storage = LoggerContextStorage.getInstance();
+
+      const context = await storage.runWithContextAsync(
+        { correlationId: "corr-1" },
+        async () => {
+          await service.validateTokenLocal("acme.token");
+          return storage.getContext();
+        },
+      );
+
+      expect(context).toMatchObject({
+        correlationId: "corr-1",
+        realm: "acme",
+        tenantId: "tenant-acme",
+      });
+    });
+
+    it("should record realm and tenant for cached results", async () => {
+      service = new TokenValidationService(undefined, undefined, [
+        realm("acme", "tenant-acme"),
+      ]);
+      const storage = LoggerContextStorage.getInstance();
+      await service.validateTokenLocal("acme.token");
+
+      const { result, context } = await storage.runWithContextAsync(
+        { correlationId: "corr-2" },
+        async () => ({
+          result: await service.validateTokenLocal("acme.token"),
+          context: storage.getContext(),
+        }),
+      );
+
+      expect(result.cached).toBe(true);
+      expect(jose.jwtVerify).toHaveBeenCalledTimes(1);
+      expect(context).toMatchObject({
+        correlationId: "corr-2",
+        realm: "acme",
+        tenantId: "tenant-acme",
+      });
+    });
+  });
+
+  describe("OIDC discovery", () => {
+    const issuer = "https://login.example.com/tenant-1/v2.0";
+    const document = {
+      issuer,
+      jwks_uri: "https://login.example.com/tenant-1/discovery/v2.0/keys",
+      id_token_signing_alg_values_supported: ["RS256", "none"],
+    };
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+      fetchMock = jest
+        .spyOn(global, "fetch")
+        .mockImplementation(async () => new Response(JSON.stringify(document)));
+      jose.decodeJwt.mockReturnValue({ iss: issuer });
+      jose.jwtVerify.mockResolvedValue({
+        payload: { sub: "u-1", iss: issuer },
+      });
+    });
+
+    afterEach(() => {
+      fetchMock.mockRestore();
+    });
+
+    it("should validate delegated tokens with discovery when jwksUri is missing", async () => {
+      const result = await service.validateTokenLocal("entra.token", {
+        delegatedProvider: { key: "entra", issuer },
+      });
+
+      expect(result).toMatchObject({
+        valid: true,
+        tokenType: "delegated",
+        providerKey: "entra",
+      });
+      expect(fetchMock).toHaveBeenCalledWith(
+        `${issuer}/.well-known/openid-configuration`,
+        expect.any(Object),
+      );
+      expect(jose.createRemoteJWKSet).toHaveBeenCalledWith(
+        new URL(document.jwks_uri),
+      );
+      // Discovered algorithms are not applied unless the policy opts in
+      expect(jose.jwtVerify).toHaveBeenCalledWith("entra.token", mockKeySet, {
+        issuer,
+      });
+    });
+
+    it("should default the provider key to the issuer", async () => {
+      const result = await service.validateTokenLocal("entra.token", {
+        delegatedProvider: { issuer },
+      });
+
+      expect(result).toMatchObject({ valid: true, providerKey: issuer });
+    });
+
+    it("should use a configured jwksUri without discovery", async () => {
+      await service.validateTokenLocal("entra.token", {
+        delegatedProvider: { issuer, jwksUri: "https://keys.example.com/jwks" },
+      });
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(jose.createRemoteJWKSet).toHaveBeenCalledWith(
+        new URL("https://keys.example.com/jwks"),
+      );
+    });
+
+    it("should restrict to discovered algorithms when the policy opts in", async () => {
+      await service.validateTokenLocal("entra.token", {
+        delegatedProvider: {
+          key: "entra",
+          issuer,
+          policy: { useDiscoveredAlgorithms: true },
+        },
+      });
+
+      expect(jose.jwtVerify).toHaveBeenCalledWith("entra.token", mockKeySet, {
+        algorithms: ["RS256"],
+        issuer,
+      });
+    });
+
+    it("should let policy algorithms override discovered algorithms", async () => {
+      await service.validateTokenLocal("entra.token", {
+        delegatedProvider: { key: "entra", issuer },
+        policy: { algorithms: ["PS256"], useDiscoveredAlgorithms: true },
+      });
+
+      expect(jose.jwtVerify).toHaveBeenCalledWith(
+        "entra.token",
+        mockKeySet,
+        expect.objectContaining({ algorithms: ["PS256"] }),
+      );
+    });
+
+    it("should load Keycloak realm metadata from the private URL", async () => {
+      const publicIssuer = "https://auth.example.com/realms/acme";
+      fetchMock.mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({
+              issuer: publicIssuer,
+              jwks_uri:
+                "http://keycloak:8080/realms/acme/protocol/openid-connect/certs",
+            }),
+          ),
+      );
+      jose.decodeJwt.mockReturnValue({ iss: publicIssuer });
+      service = new TokenValidationService({
+        authServerUrl: "https://auth.example.com",
+        authServerPrivateUrl: "http://keycloak:8080",
+        authServerPublicUrl: "https://auth.example.com",
+        realm: "acme",
+        discovery: true,
+      });
+
+      const result = await service.validateTokenLocal("acme.token");
+
+      expect(result.valid).toBe(true);
+      expect(fetchMock).toHaveBeenCalledWith(
+        "http://keycloak:8080/realms/acme/.well-known/openid-configuration",
+        expect.any(Object),
+      );
+      expect(jose.jwtVerify).toHaveBeenCalledWith("acme.token", mockKeySet, {
+        issuer: publicIssuer,
+      });
+    });
+
+    it("should report discovery failures", async () => {
+      fetchMock.mockImplementation(
+        async () => new Response("unavailable", { status: 503 }),
+      );
+
+      const result = await service.validateTokenLocal("entra.token", {
+        delegatedProvider: { key: "entra", issuer },
+      });
+
+      expect(result).toMatchObject({
+        valid: false,
+        errorCode: "discovery_failed",
+      });
+      expect(result.error).toContain("HTTP 503");
+      expect(jose.jwtVerify).not.toHaveBeenCalled();
+    });
+  });
+
   describe("JWKS Cache", () => {
     it("should cache JWKS for 1 hour", async () => {
       const token = "valid.token";
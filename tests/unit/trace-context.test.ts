@@ -0,0 +1,133 @@
+/**
+ * Unit tests for W3C Trace Context support
+ */
+
+import {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  getActiveTraceContext,
+  getTraceHeaders,
+  parseTraceparent,
+} from "../../src/utils/trace-context";
+import { LoggerContextStorage } from "../../src/services/logger/logger-context-storage";
+
+const mockGetActiveSpan = jest.fn();
+
+// No-op tracer by default: no active span
+jest.mock(
+  "@opentelemetry/api",
+  () => ({ trace: { getActiveSpan: () => mockGetActiveSpan() } }),
+  { virtual: true },
+);
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+describe("trace-context", () => {
+  beforeEach(() => {
+    mockGetActiveSpan.mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    LoggerContextStorage.getInstance().clearContext();
+  });
+
+  describe("parseTraceparent", () => {
+    it("should parse a valid header and keep tracestate", () => {
+      expect(
+        parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`, "vendor=abc"),
+      ).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: "01",
+        traceState: "vendor=abc",
+      });
+    });
+
+    it.each([
+      undefined,
+      "",
+      `00-${TRACE_ID}-${SPAN_ID}`,
+      `00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`,
+      `ff-${TRACE_ID}-${SPAN_ID}-01`,
+      `00-${TRACE_ID}-${SPAN_ID}-01-extra`,
+      `00-${"0".repeat(32)}-${SPAN_ID}-01`,
+      `00-${TRACE_ID}-${"0".repeat(16)}-01`,
+    ])("should reject %p", (header) => {
+      expect(parseTraceparent(header)).toBeNull();
+    });
+
+    it("should accept trailing fields from future versions", () => {
+      expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`)).toEqual(
+        expect.objectContaining({ traceId: TRACE_ID }),
+      );
+    });
+  });
+
+  it("should format and generate W3C identifiers", () => {
+    expect(
+      formatTraceparent({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: "00",
+      }),
+    ).toBe(`00-${TRACE_ID}-${SPAN_ID}-00`);
+    expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  describe("getActiveTraceContext", () => {
+    it("should return null without a span or logger context", () => {
+      expect(getActiveTraceContext()).toBeNull();
+      expect(getTraceHeaders()).toEqual({});
+    });
+
+    it("should fall back to the logger context", () => {
+      LoggerContextStorage.getInstance().setContext({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceState: "a=1",
+      });
+
+      expect(getTraceHeaders()).toEqual({
+        traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`,
+        tracestate: "a=1",
+      });
+    });
+
+    it("should ignore non-recording spans with an invalid context", () => {
+      mockGetActiveSpan.mockReturnValue({
+        spanContext: () => ({
+          traceId: "0".repeat(32),
+          spanId: "0".repeat(16),
+          traceFlags: 0,
+        }),
+      });
+
+      expect(getActiveTraceContext()).toBeNull();
+    });
+
+    it("should prefer the active OpenTelemetry span", () => {
+      LoggerContextStorage.getInstance().setContext({
+        traceId: "1".repeat(32),
+        spanId: "1".repeat(16),
+      });
+      mockGetActiveSpan.mockReturnValue({
+        spanContext: () => ({
+          traceId: TRACE_ID,
+          spanId: SPAN_ID,
+          traceFlags: 1,
+          traceState: { serialize: () => "otel=1" },
+        }),
+      });
+
+      expect(getActiveTraceContext()).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: "01",
+        traceState: "otel=1",
+      });
+    });
+  });
+});